@@ -0,0 +1,136 @@
+// scripts/vanity-grinder.mjs
+//
+// Vanity grinder worker. Grinds mint keypairs for the VANITY_PATTERNS that
+// are below VANITY_POOL_TARGET and inserts them into `vanity_mints`,
+// encrypted the way src/lib/vanity.ts decrypts them. It runs outside the
+// web app on purpose: a 4–5 character pattern costs minutes of CPU per key,
+// which no request handler should spend. One process keeps one core busy;
+// start one per core to fill the pool faster.
+//
+// Usage:
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... VANITY_ENCRYPTION_KEY=... \
+//   VANITY_PATTERNS=suffix:pump [VANITY_POOL_TARGET=10] \
+//     node scripts/vanity-grinder.mjs [tickMs]
+
+import { createCipheriv, randomBytes } from "crypto";
+import { pathToFileURL } from "url";
+import { Keypair } from "@solana/web3.js";
+import { createClient } from "@supabase/supabase-js";
+
+const TICK_MS = Number(process.argv[2] || 30000);
+const IDLE_MS = 60000;
+
+// Same rule as lib/config: base58 only, short enough to grind
+const PATTERN_RE = /^(prefix|suffix):[1-9A-HJ-NP-Za-km-z]{1,5}$/;
+
+const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+
+export function parsePatterns(raw) {
+  return String(raw || "")
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((id) => {
+      if (!PATTERN_RE.test(id)) throw new Error(`Bad VANITY_PATTERNS entry "${id}"`);
+      const [kind, value] = id.split(":");
+      return { id, kind, value };
+    });
+}
+
+export function matches(address, p) {
+  return p.kind === "prefix" ? address.startsWith(p.value) : address.endsWith(p.value);
+}
+
+export function encryptionKey(raw) {
+  const s = String(raw || "").trim();
+  if (!s) throw new Error("VANITY_ENCRYPTION_KEY missing");
+  const key = /^[0-9a-f]{64}$/i.test(s) ? Buffer.from(s, "hex") : Buffer.from(s, "base64");
+  if (key.length !== 32) throw new Error("VANITY_ENCRYPTION_KEY must be 32 bytes (hex or base64)");
+  return key;
+}
+
+/** "v1:" + base64(iv[12] | tag[16] | ciphertext), as lib/vanity.ts decryptSecret reads it */
+export function encryptSecret(secretKey, key) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ct = Buffer.concat([cipher.update(secretKey), cipher.final()]);
+  return `v1:${Buffer.concat([iv, cipher.getAuthTag(), ct]).toString("base64")}`;
+}
+
+/** Generates keypairs for `budgetMs` and returns those matching any pattern. */
+export function grind(patterns, budgetMs) {
+  const found = [];
+  const deadline = Date.now() + budgetMs;
+  let tries = 0;
+  while (patterns.length) {
+    // Date.now() is cheap next to keygen, but no need to call it every time
+    if ((tries & 0xff) === 0 && Date.now() > deadline) break;
+    tries++;
+    const kp = Keypair.generate();
+    const pattern = patterns.find((p) => matches(kp.publicKey.toBase58(), p));
+    if (pattern) found.push({ pattern, keypair: kp });
+  }
+  return { found, tries };
+}
+
+async function available(db, pattern) {
+  const { count, error } = await db
+    .from("vanity_mints")
+    .select("pubkey", { count: "exact", head: true })
+    .eq("pattern", pattern.id)
+    .eq("status", "available");
+  if (error) throw new Error(error.message);
+  return count || 0;
+}
+
+async function main() {
+  const patterns = parsePatterns(process.env.VANITY_PATTERNS);
+  if (!patterns.length) throw new Error("VANITY_PATTERNS is not set");
+  const target = Number(process.env.VANITY_POOL_TARGET || 10);
+  const key = encryptionKey(process.env.VANITY_ENCRYPTION_KEY);
+
+  const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) throw new Error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY");
+  const db = createClient(url, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  console.log(`[VANITY] grinding ${patterns.map((p) => p.id).join(", ")} to ${target} each`);
+  for (;;) {
+    try {
+      const wanted = [];
+      for (const p of patterns) if ((await available(db, p)) < target) wanted.push(p);
+      if (!wanted.length) {
+        await sleep(IDLE_MS);
+        continue;
+      }
+
+      // Overshooting the target a little is fine; the pool just runs over
+      const { found, tries } = grind(wanted, TICK_MS);
+      if (found.length) {
+        const { error } = await db.from("vanity_mints").insert(
+          found.map(({ pattern, keypair }) => ({
+            pubkey: keypair.publicKey.toBase58(),
+            pattern: pattern.id,
+            secret_enc: encryptSecret(keypair.secretKey, key),
+            status: "available",
+          }))
+        );
+        if (error) throw new Error(error.message);
+      }
+      console.log(`[VANITY] +${found.length} in ${tries} tries`);
+    } catch (e) {
+      console.error("[VANITY] tick failed:", e.message || e);
+      await sleep(IDLE_MS);
+    }
+  }
+}
+
+// Run as a worker; imported (e.g. by src/lib/vanity.test.ts) it only exports
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((e) => {
+    console.error("[VANITY]", e.message || e);
+    process.exit(1);
+  });
+}
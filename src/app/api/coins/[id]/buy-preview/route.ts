@@ -2,8 +2,19 @@
 export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
+import { Connection, PublicKey } from "@solana/web3.js";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
-import { quoteTokensUi, type CurveName } from "@/lib/curve";
+import { RPC_URL } from "@/lib/config";
+import { curveParamsFromRow, quoteBuy, type CurveName } from "@/lib/curve";
+import { rawToTokens } from "@/lib/curveState";
+import { signQuote } from "@/lib/quoteLock";
+import {
+  buyTerms,
+  feeContextFor,
+  loadCurveSnapshot,
+  tradeCapError,
+} from "@/lib/tradeQuote";
+import { markCurveComplete, tradingFrozenError } from "@/lib/migration";
 
 function bad(msg: string, code = 400, extra: any = {}) {
   return NextResponse.json({ error: msg, ...extra }, { status: code });
@@ -12,19 +23,20 @@ function ok(data: any, code = 200) {
   return NextResponse.json(data, { status: code });
 }
 
-// We'll reuse the existing stats endpoint so preview is based on the
-// real on-chain state (sold tokens, pool, etc.)
-const SITE_BASE =
-  process.env.NEXT_PUBLIC_SITE_URL ||
-  process.env.SITE_BASE ||
-  "http://localhost:3000";
+const LAMPORTS_PER_SOL = 1_000_000_000;
 
+/**
+ * GET /api/coins/[id]/buy-preview?amountSol=&wallet=
+ * Quotes a buy against the live curve PDA and returns a signed `quoteId`
+ * that /buy will honour until it expires or the curve moves. `wallet` is
+ * optional and only used for the volume fee discount.
+ */
 export async function GET(
   req: Request,
   ctx: { params: Promise<{ id: string }> } // IMPORTANT: params is a Promise
 ) {
   try {
-    const { id } = await ctx.params; // 👈 await like in your stats route
+    const { id } = await ctx.params;
     const coinId = (id || "").trim();
     if (!coinId) return bad("Missing coin id");
 
@@ -34,6 +46,7 @@ export async function GET(
       url.searchParams.get("amount") ||
       url.searchParams.get("sol") ||
       "0";
+    const wallet = url.searchParams.get("wallet")?.trim() || null;
 
     const amountSol = Number(amtStr);
     if (!Number.isFinite(amountSol) || amountSol <= 0) {
@@ -43,7 +56,7 @@ export async function GET(
     // 1) Load coin curve params from Supabase
     const { data: coinRow, error: coinErr } = await supabaseAdmin
       .from("coins")
-      .select("curve, strength, start_price")
+      .select("id, mint, curve, strength, curve_params, creator_fee_bps, creator_buy_fee_bps, migration_status, pool_address")
       .eq("id", coinId)
       .maybeSingle();
 
@@ -54,58 +67,73 @@ export async function GET(
     if (!coinRow) {
       return bad("Coin not found", 404);
     }
+    if (!coinRow.mint) {
+      return bad("Coin has no mint configured yet", 400);
+    }
 
     const curve = (coinRow.curve as CurveName) ?? "linear";
     const strength = Number(coinRow.strength ?? 1) || 1;
 
-    // 2) Ask the /stats route for current sold tokens
-    const statsRes = await fetch(
-      `${SITE_BASE}/api/coins/${encodeURIComponent(coinId)}/stats`,
-      { cache: "no-store" }
-    );
-
-    const statsJson = await statsRes.json().catch(() => ({} as any));
-
-    if (!statsRes.ok) {
-      console.warn("[buy-preview] stats error payload:", statsJson);
-      return bad("Failed to read stats for preview", 500);
+    // 2) Read sold supply straight from the curve PDA
+    const conn = new Connection(RPC_URL, "confirmed");
+    const snapshot = await loadCurveSnapshot(conn, new PublicKey(coinRow.mint));
+    if (!snapshot) {
+      return bad("Curve state not found for this mint", 400);
     }
-
-    const soldDisplay = Number(
-      statsJson.soldDisplay ?? statsJson.soldTokens ?? 0
-    );
-
-    // 3) Estimate tokens from curve (same helper the client uses)
-    const estTokensRaw = quoteTokensUi(
-      amountSol,
+    await markCurveComplete(coinRow, snapshot.soldRaw);
+    const frozen = tradingFrozenError(coinRow);
+    if (frozen) {
+      const { error, ...extra } = frozen;
+      return bad(error, 409, extra);
+    }
+    const soldDisplay = rawToTokens(snapshot.soldRaw);
+
+    // 3) Same terms /buy will build: fee off the top, net hits the curve
+    const lamportsGross = Math.floor(amountSol * LAMPORTS_PER_SOL);
+    const capErr = tradeCapError(lamportsGross);
+    if (capErr) {
+      const { error, ...extra } = capErr;
+      return bad(error, 400, extra);
+    }
+    const feeCtx = await feeContextFor(coinRow, wallet);
+    const terms = buyTerms(coinRow, snapshot.soldRaw, lamportsGross, feeCtx);
+    if (terms.lamportsToCurve <= 0) {
+      return bad("Net lamports to curve is <= 0 after fees");
+    }
+    const grossQuote = quoteBuy(
       curve,
-      strength,
-      soldDisplay
+      curveParamsFromRow(coinRow),
+      soldDisplay,
+      amountSol
     );
 
-    // 4) Apply pre-trade fees (protocol + creator) if configured
-    const protoBp = Number(process.env.F_PROTOCOL_BP_PRE ?? "0") || 0;
-    const creatorBp = Number(process.env.F_CREATOR_BP_PRE ?? "0") || 0;
-    const totalBp = protoBp + creatorBp;
-
-    let feeFraction = totalBp / 10_000;
-    if (!Number.isFinite(feeFraction) || feeFraction < 0) feeFraction = 0;
-    if (feeFraction > 0.5) feeFraction = 0.5; // sanity clamp
-
-    const estTokensNet = estTokensRaw * (1 - feeFraction);
+    const { quoteId, expiresAt } = signQuote({
+      side: "buy",
+      coinId: coinRow.id,
+      mint: coinRow.mint,
+      soldRaw: String(snapshot.soldRaw),
+      amountIn: String(lamportsGross),
+      amountOut: String(terms.quote.tokenAmount),
+    });
 
     return ok({
+      quoteId,
+      expiresAt,
       amountSol,
       soldBefore: soldDisplay,
       curve,
       strength,
-      feeBp: totalBp,
-      estTokensRaw,
-      estTokensNet,
+      feeBp: terms.fee.totalBps,
+      feeLamports: terms.feeLamports,
+      volumeDiscountBps: terms.fee.discountBps,
+      estTokensRaw: grossQuote.tokenAmount,
+      estTokensNet: terms.quote.tokenAmount,
+      avgPriceSol: terms.quote.avgPriceSol,
+      priceImpactPct: terms.quote.priceImpactPct,
+      soldAfter: terms.quote.soldAfter,
     });
   } catch (e: any) {
     console.error("[buy-preview] GET error:", e);
     return bad(e?.message || "buy-preview failed", 500);
   }
 }
-
@@ -5,31 +5,30 @@ import {
   AddressLookupTableAccount,
   Connection,
   PublicKey,
-  SystemProgram,
-  TransactionInstruction,
   TransactionMessage,
   VersionedTransaction,
 } from "@solana/web3.js";
 
-import {
-  ASSOCIATED_TOKEN_PROGRAM_ID,
-  PROGRAM_ID,
-  RPC_URL,
-  TOKEN_PROGRAM_ID,
-  curvePda,
-  mintAuthPda,
-} from "@/lib/config";
+import { PROGRAM_ID, RPC_URL, curvePda } from "@/lib/config";
+import { ataFor, tokenProgramFor } from "@/lib/tokenProgram";
 
+import type { CurveName } from "@/lib/curve";
+import { minOutFor, parseSlippage } from "@/lib/slippage";
+import { verifyQuote, type LockedQuote } from "@/lib/quoteLock";
 import {
-  getAssociatedTokenAddressSync,
-  createAssociatedTokenAccountInstruction,
-} from "@solana/spl-token";
-
-import { CurveName, quoteTokensUi } from "@/lib/curve";
-import { BUY_PLATFORM_BPS, TOTAL_BUY_BPS } from "@/lib/fees";
-
-// Discriminator for `trade_buy` (global:trade_buy)
-const DISC_BUY = Buffer.from([173, 172, 52, 244, 61, 65, 216, 118]);
+  buyInstructions,
+  buyTerms,
+  feeContextFor,
+  loadCurveSnapshot,
+  tradeCapError,
+} from "@/lib/tradeQuote";
+import { parseReferrer } from "@/lib/referrals";
+import { recordTradeReferral } from "@/lib/creatorFees";
+import {
+  markCurveComplete,
+  tradingFrozenError,
+  type MigrationStatus,
+} from "@/lib/migration";
 
 function bad(msg: string, code = 400, extra: any = {}) {
   return NextResponse.json({ error: msg, ...extra }, { status: code });
@@ -41,20 +40,6 @@ function ok(data: any, code = 200) {
 // 1e9 lamports = 1 SOL
 const LAMPORTS_PER_SOL = 1_000_000_000;
 
-// ---- fee treasury ----
-const FEE_TREASURY_STR =
-  process.env.NEXT_PUBLIC_FEE_TREASURY ||
-  process.env.NEXT_PUBLIC_PLATFORM_WALLET ||
-  process.env.NEXT_PUBLIC_TREASURY;
-
-if (!FEE_TREASURY_STR) {
-  console.error(
-    "[BUY] No fee treasury configured (NEXT_PUBLIC_FEE_TREASURY / NEXT_PUBLIC_PLATFORM_WALLET / NEXT_PUBLIC_TREASURY)"
-  );
-}
-
-const FEE_TREASURY_PK = FEE_TREASURY_STR ? new PublicKey(FEE_TREASURY_STR) : null;
-
 export async function POST(
   req: Request,
   ctx: { params: Promise<{ id: string }> }
@@ -75,25 +60,18 @@ export async function POST(
     const buyerStr = String(body?.buyer ?? "").trim();
     if (!buyerStr) return bad("buyer is required");
 
+    // A quote id from /buy-preview locks the amount (and the price it was
+    // quoted at); otherwise amountSol is required.
+    const quoteIdStr = String(body?.quoteId ?? "").trim();
+
     const amountSol = Number(body?.amountSol);
-    if (!Number.isFinite(amountSol) || amountSol <= 0) {
+    if (!quoteIdStr && (!Number.isFinite(amountSol) || amountSol <= 0)) {
       return bad("amountSol must be > 0");
     }
 
-    // Gross lamports user is spending for this BUY
-    const lamportsGross = Math.floor(amountSol * LAMPORTS_PER_SOL);
-    if (!Number.isFinite(lamportsGross) || lamportsGross <= 0) {
-      return bad("Failed to compute lamports");
-    }
-
-    // Fee split: 0.5% platform, 0% creator
-    const feeLamports = Math.floor(
-      (lamportsGross * TOTAL_BUY_BPS) / 10_000
-    ); // TOTAL_BUY_BPS = 50
-    const lamportsToCurve = lamportsGross - feeLamports;
-
-    if (lamportsToCurve <= 0) {
-      return bad("Net lamports to curve is <= 0 after fees");
+    const slippage = parseSlippage(body, "minTokensOut");
+    if (!slippage.ok) {
+      return bad(slippage.error, 400, { code: "INVALID_SLIPPAGE" });
     }
 
     // ---------- resolve coin + mint ----------
@@ -107,19 +85,25 @@ export async function POST(
       mintPk = null;
     }
 
-    // also fetch curve + strength so we can estimate tokens for logs
+    // also fetch curve + params so we can estimate tokens for logs
     let coinRow: {
       id: string;
       mint: string;
       creator: string;
       curve: CurveName;
       strength: number;
+      curve_params: Record<string, unknown> | null;
+      creator_fee_bps: number | null;
+      creator_buy_fee_bps: number | null;
+      migration_status: MigrationStatus | null;
+      pool_address: string | null;
+      token_program: string | null;
     } | null = null;
 
     if (mintPk) {
       const { data, error } = await supabaseAdmin
         .from("coins")
-        .select("id,mint,creator,curve,strength")
+        .select("id,mint,creator,curve,strength,curve_params,creator_fee_bps,creator_buy_fee_bps,migration_status,pool_address,token_program")
         .eq("mint", mintPk.toBase58())
         .maybeSingle();
 
@@ -132,7 +116,7 @@ export async function POST(
     } else {
       const { data, error } = await supabaseAdmin
         .from("coins")
-        .select("id,mint,creator,curve,strength")
+        .select("id,mint,creator,curve,strength,curve_params,creator_fee_bps,creator_buy_fee_bps,migration_status,pool_address,token_program")
         .eq("id", idStr)
         .maybeSingle();
 
@@ -149,7 +133,6 @@ export async function POST(
     const buyer = new PublicKey(buyerStr);
 
     const state = curvePda(mintPk);
-    const mAuth = mintAuthPda(mintPk);
 
     // ---------- sanity checks ----------
     const progInfo = await conn.getAccountInfo(PROGRAM_ID, {
@@ -163,114 +146,105 @@ export async function POST(
       });
     }
 
-    const stateInfo = await conn.getAccountInfo(state, {
-      commitment: "confirmed",
-    });
-    if (!stateInfo) {
+    let snapshot;
+    try {
+      snapshot = await loadCurveSnapshot(conn, mintPk);
+    } catch (e) {
+      console.error("[BUY] loadCurveSnapshot failed:", e);
+      return bad("Failed to read curve state", 500, { code: "QUOTE_FAILED" });
+    }
+    if (!snapshot) {
       console.error("[BUY] State PDA missing. Run /init first.");
       return bad("Server: state PDA not found. Run /init for this mint.", 400);
     }
-
-    // ---------- curve estimate for logs (optional) ----------
-    let estTokensHuman = 0;
-    try {
-      const data = stateInfo.data;
-      // EXAMPLE: sold_tokens at bytes [8..16] as u64 LE
-      const soldLittle = data.subarray(8, 16);
-      const sold = Number(soldLittle.readBigUint64LE(0));
-
-      // IMPORTANT: use **net** SOL that hits the curve
-      const netSol = lamportsToCurve / LAMPORTS_PER_SOL;
-
-      estTokensHuman = quoteTokensUi(
-        netSol,
-        (coinRow.curve as CurveName) || "linear",
-        Number(coinRow.strength || 1),
-        sold
-      );
-    } catch (e) {
-      console.warn("[BUY] estTokensHuman curve estimate failed:", e);
-      estTokensHuman = 0;
+    await markCurveComplete(coinRow, snapshot.soldRaw);
+    const frozen = tradingFrozenError(coinRow);
+    if (frozen) {
+      const { error, ...extra } = frozen;
+      return bad(error, 409, extra);
     }
 
-    // ---------- ensure buyer ATA ----------
-    const buyerAta = getAssociatedTokenAddressSync(
-      mintPk,
-      buyer,
-      false,
-      TOKEN_PROGRAM_ID,
-      ASSOCIATED_TOKEN_PROGRAM_ID
-    );
+    // ---------- locked quote (from /buy-preview) ----------
+    let lamportsGross = Math.floor(amountSol * LAMPORTS_PER_SOL);
+    let lockedQuote: LockedQuote | null = null;
+    if (quoteIdStr) {
+      const v = verifyQuote(quoteIdStr, { side: "buy", coinId: coinRow.id });
+      if (!v.ok) return bad(v.error, v.code === "QUOTE_INVALID" ? 400 : 409, { code: v.code });
+
+      // Only honour it if nobody traded since: the price is a function of sold.
+      if (v.quote.soldRaw !== String(snapshot.soldRaw)) {
+        return bad("Curve moved since this quote; refresh it", 409, {
+          code: "QUOTE_STALE",
+          quotedSoldRaw: v.quote.soldRaw,
+          soldRaw: String(snapshot.soldRaw),
+        });
+      }
+      lockedQuote = v.quote;
+      lamportsGross = Number(v.quote.amountIn);
+    }
 
-    const buyerAtaInfo = await conn.getAccountInfo(buyerAta, {
-      commitment: "confirmed",
-    });
+    if (!Number.isFinite(lamportsGross) || lamportsGross <= 0) {
+      return bad("Failed to compute lamports");
+    }
 
-    const ixs: TransactionInstruction[] = [];
-
-    // 1) Create ATA if missing
-    if (!buyerAtaInfo) {
-      const createAtaIx = createAssociatedTokenAccountInstruction(
-        buyer, // payer
-        buyerAta,
-        buyer,
-        mintPk,
-        TOKEN_PROGRAM_ID,
-        ASSOCIATED_TOKEN_PROGRAM_ID
-      );
-      ixs.push(createAtaIx);
+    const capErr = tradeCapError(lamportsGross);
+    if (capErr) {
+      const { error, ...extra } = capErr;
+      return bad(error, 400, extra);
     }
 
-    // 2) Move **net** SOL into curve PDA (liquidity)
-    ixs.push(
-      SystemProgram.transfer({
-        fromPubkey: buyer,
-        toPubkey: state,
-        lamports: lamportsToCurve,
-      })
-    );
+    // ---------- curve quote (integrated over the whole buy) ----------
+    // Fee from the schedule (size tier + buyer's volume discount) comes off
+    // the top; the quote uses **net** SOL. A referrer only splits the
+    // platform fee, so it never changes the quote.
+    const referrer = parseReferrer(body?.referrer, buyer.toBase58());
+    const feeCtx = await feeContextFor(coinRow, buyerStr, referrer);
+    const terms = buyTerms(coinRow, snapshot.soldRaw, lamportsGross, feeCtx);
+    const { fee, feeLamports, lamportsToCurve, quote } = terms;
 
-    // 3) Platform fee: buyer -> fee treasury
-    if (feeLamports > 0 && FEE_TREASURY_PK) {
-      ixs.push(
-        SystemProgram.transfer({
-          fromPubkey: buyer,
-          toPubkey: FEE_TREASURY_PK,
-          lamports: feeLamports,
-        })
-      );
+    if (lamportsToCurve <= 0) {
+      return bad("Net lamports to curve is <= 0 after fees");
+    }
+    const estTokensHuman = quote.tokenAmount;
+
+    // ---------- slippage (fresh quote vs the buyer's tolerance) ----------
+    let minTokensOut: number | null = null;
+    if (slippage.value.requested) {
+      const quotedOut = lockedQuote ? Number(lockedQuote.amountOut) : null;
+      minTokensOut = minOutFor(slippage.value, quotedOut);
+
+      if (minTokensOut != null && quote.tokenAmount < minTokensOut) {
+        console.warn("[BUY] slippage exceeded:", {
+          quoted: quote.tokenAmount,
+          minTokensOut,
+        });
+        return bad("Price moved beyond your slippage tolerance", 409, {
+          code: "SLIPPAGE_EXCEEDED",
+          quotedTokensOut: quote.tokenAmount,
+          minTokensOut,
+          slippageBps: slippage.value.slippageBps,
+          priceImpactPct: quote.priceImpactPct,
+        });
+      }
     }
 
-    // 4) TradeBuy instruction
-    //    Program expects: [disc][lamports_in: u64] where lamports_in = net sent to curve
-    const buf = Buffer.alloc(8);
-    buf.writeBigUInt64LE(BigInt(lamportsToCurve), 0);
-    const dataBuf = Buffer.concat([DISC_BUY, buf]);
-
-    // MUST match TradeBuyAcct in the on-chain program:
-    // payer, mint, state, mint_auth_pda, buyer_ata, token_program, system_program
-    const keys = [
-      { pubkey: buyer, isSigner: true, isWritable: true }, // payer
-      { pubkey: mintPk, isSigner: false, isWritable: true }, // mint
-      { pubkey: state, isSigner: false, isWritable: true }, // curve state PDA
-      { pubkey: mAuth, isSigner: false, isWritable: false }, // mint_auth_pda
-      { pubkey: buyerAta, isSigner: false, isWritable: true }, // buyer ATA
-      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false }, // token_program
-      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false }, // system_program
-    ];
-
-    console.log(
-      "[BUY] keys =",
-      keys.map((k) => k.pubkey.toBase58())
-    );
+    // ---------- ixs: [maybe] ATA create + SOL transfers + TradeBuy ----------
+    const tokenProgram = tokenProgramFor(coinRow);
+    const buyerAta = ataFor(mintPk, buyer, tokenProgram);
 
-    const ix = new TransactionInstruction({
-      programId: PROGRAM_ID,
-      keys,
-      data: dataBuf,
+    const buyerAtaInfo = await conn.getAccountInfo(buyerAta, {
+      commitment: "confirmed",
     });
 
-    ixs.push(ix); // [maybe] ATA create + SOL transfers + TradeBuy
+    const ixs = buyInstructions({
+      buyer,
+      mint: mintPk,
+      creator: new PublicKey(coinRow.creator),
+      terms,
+      referrer,
+      createAta: !buyerAtaInfo,
+      tokenProgram,
+    });
 
     // ---------- build final tx ----------
     const { blockhash, lastValidBlockHeight } =
@@ -282,6 +256,15 @@ export async function POST(
       instructions: ixs,
     }).compileToV0Message([] as AddressLookupTableAccount[]);
 
+    // The indexer only books a referral leg to the referrer recorded here
+    if (fee.referral > 0 && referrer) {
+      await recordTradeReferral({
+        trader: buyer.toBase58(),
+        blockhash,
+        referrer: referrer.toBase58(),
+      });
+    }
+
     const vtx = new VersionedTransaction(msg);
     const txB64 = Buffer.from(vtx.serialize()).toString("base64");
 
@@ -300,6 +283,8 @@ export async function POST(
       lamportsToCurve,
       "feeLamports:",
       feeLamports,
+      "referrer:",
+      referrer?.toBase58() ?? null,
       "estTokensHuman:",
       estTokensHuman
     );
@@ -309,7 +294,17 @@ export async function POST(
       blockhash,
       lastValidBlockHeight,
       version: 0,
-      estTokensHuman, // purely informational
+      estTokensHuman, // fresh server quote (not enforced on-chain)
+      minTokensOut,
+      slippageBps: slippage.value.slippageBps,
+      quoteId: lockedQuote ? quoteIdStr : null,
+      feeLamports,
+      feeBps: fee.totalBps,
+      volumeDiscountBps: fee.discountBps,
+      referrer: referrer?.toBase58() ?? null,
+      referralLamports: fee.referral,
+      avgPriceSol: quote.avgPriceSol,
+      priceImpactPct: quote.priceImpactPct,
     });
   } catch (e: any) {
     console.error("[/api/coins/[id]/buy] error:", e);
@@ -0,0 +1,81 @@
+// src/app/api/coins/[id]/candles/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { tradesBetween } from "@/lib/store";
+import {
+  CANDLE_INTERVALS,
+  MAX_CANDLE_LIMIT,
+  buildCandles,
+  candleWindowStart,
+  clampCandleLimit,
+  isCandleInterval,
+} from "@/lib/candles";
+
+function bad(msg: string, code = 400) {
+  return NextResponse.json({ error: msg }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+/**
+ * GET /api/coins/[id]/candles?interval=1m|5m|15m|1h|1d&limit=&from=
+ * OHLCV bars (price = SOL per token, volume = SOL) built from indexed
+ * trades. `from` (unix seconds) returns only bars from that bucket on –
+ * what the chart polls with to update its last bar and append new ones.
+ */
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const idStr = (id || "").trim();
+    if (!idStr) return bad("Missing id param");
+
+    const sp = new URL(req.url).searchParams;
+
+    const interval = sp.get("interval") || "1m";
+    if (!isCandleInterval(interval)) {
+      return bad(`interval must be one of ${Object.keys(CANDLE_INTERVALS).join(", ")}`);
+    }
+
+    const limit = sp.get("limit") ? Number(sp.get("limit")) : undefined;
+    if (limit != null && (!Number.isInteger(limit) || limit < 1 || limit > MAX_CANDLE_LIMIT)) {
+      return bad(`limit must be an integer between 1 and ${MAX_CANDLE_LIMIT}`);
+    }
+
+    const from = sp.get("from") ? Number(sp.get("from")) : null;
+    if (from != null && (!Number.isFinite(from) || from < 0)) {
+      return bad("from must be unix seconds");
+    }
+
+    // mint first, then UUID id (same as GET /api/coins/[id])
+    let { data: coin, error } = await supabaseAdmin
+      .from("coins")
+      .select("id")
+      .eq("mint", idStr)
+      .maybeSingle();
+    if (error) return bad(error.message, 500);
+    if (!coin) {
+      ({ data: coin, error } = await supabaseAdmin
+        .from("coins")
+        .select("id")
+        .eq("id", idStr)
+        .maybeSingle());
+      if (error) return bad(error.message, 500);
+    }
+    if (!coin) return bad("Coin not found", 404);
+
+    const fromSec = candleWindowStart(interval, { from, limit });
+    const trades = await tradesBetween(coin.id, new Date(fromSec * 1000).toISOString());
+    const candles = buildCandles(trades, interval).slice(-clampCandleLimit(limit));
+
+    return ok({ interval, candles });
+  } catch (e) {
+    console.error("[CANDLES] GET error:", e);
+    return bad(e instanceof Error ? e.message : "candles lookup failed", 500);
+  }
+}
@@ -17,10 +17,10 @@ import {
 import {
   PROGRAM_ID,
   RPC_URL,
-  TOKEN_PROGRAM_ID,
   curvePda,
   mintAuthPda
 } from "@/lib/config";
+import { tokenProgramFor } from "@/lib/tokenProgram";
 
 import crypto from "crypto";
 
@@ -65,7 +65,7 @@ export async function POST(
     // Fetch coin
     const { data: coin, error } = await supabaseAdmin
       .from("coins")
-      .select("id, mint")
+      .select("id, mint, token_program")
       .eq("id", coinId)
       .maybeSingle();
 
@@ -121,8 +121,8 @@ export async function POST(
       // system program
       { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
 
-      // token program
-      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      // token program (the mint's: classic or Token-2022)
+      { pubkey: tokenProgramFor(coin), isSigner: false, isWritable: false },
     ];
 
     console.log("[INIT] keys =", keys.map(k => k.pubkey.toBase58()));
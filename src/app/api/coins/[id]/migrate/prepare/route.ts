@@ -0,0 +1,95 @@
+// src/app/api/coins/[id]/migrate/prepare/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { RPC_URL } from "@/lib/config";
+import {
+  MIGRATION_COIN_COLUMNS,
+  prepareCreatorMigration,
+  type MigrationCoinRow,
+  type MigrationErrorCode,
+} from "@/lib/migration";
+
+function bad(msg: string, code = 400, extra: Record<string, unknown> = {}) {
+  return NextResponse.json({ error: msg, ...extra }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+const FAILURE_STATUS: Record<MigrationErrorCode, number> = {
+  AMM_NOT_CONFIGURED: 503,
+  CURVE_MISSING: 400,
+  CURVE_NOT_COMPLETE: 409,
+  CREATOR_MISMATCH: 403,
+  NOTHING_TO_SEED: 409,
+  TOKEN_RESERVE_SHORT: 409,
+  ALREADY_GRADUATED: 409,
+  IN_PROGRESS: 409,
+  CURVE_MOVED: 409,
+  TX_MISMATCH: 400,
+};
+
+/**
+ * POST /api/coins/[id]/migrate/prepare  { creator }
+ * For curves a creator launched (lib/launch.ts): builds the migration tx
+ * for their wallet to sign, plus the `migration` token POST
+ * /migrate/submit takes back with it. Nothing is frozen until submit.
+ */
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const idStr = (id || "").trim();
+    if (!idStr) return bad("Missing id param");
+
+    const body = await req.json().catch(() => ({}));
+    let creator: PublicKey;
+    try {
+      creator = new PublicKey(String(body?.creator ?? ""));
+    } catch {
+      return bad("creator must be a wallet address");
+    }
+
+    // mint first, then UUID id (same as GET /api/coins/[id])
+    let { data: coin, error } = await supabaseAdmin
+      .from("coins")
+      .select(MIGRATION_COIN_COLUMNS)
+      .eq("mint", idStr)
+      .maybeSingle();
+    if (error) return bad(error.message, 500);
+    if (!coin) {
+      ({ data: coin, error } = await supabaseAdmin
+        .from("coins")
+        .select(MIGRATION_COIN_COLUMNS)
+        .eq("id", idStr)
+        .maybeSingle());
+      if (error) return bad(error.message, 500);
+    }
+    if (!coin) return bad("Coin not found", 404);
+    if (!coin.mint) return bad("Coin mint not set yet");
+
+    const row = coin as MigrationCoinRow;
+    const conn = new Connection(RPC_URL, "confirmed");
+
+    const res = await prepareCreatorMigration(conn, row, creator);
+    if (!res.ok) {
+      return bad(res.error, FAILURE_STATUS[res.code], { code: res.code, ...res.extra });
+    }
+
+    return ok({
+      txB64: res.tx
+        .serialize({ requireAllSignatures: false, verifySignatures: false })
+        .toString("base64"),
+      migration: res.migration,
+      plan: res.plan,
+    });
+  } catch (e) {
+    console.error("[MIGRATION] prepare error:", e);
+    return bad(e instanceof Error ? e.message : "Migration prepare failed", 500);
+  }
+}
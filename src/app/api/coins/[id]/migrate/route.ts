@@ -0,0 +1,110 @@
+// src/app/api/coins/[id]/migrate/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { Connection } from "@solana/web3.js";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { RPC_URL } from "@/lib/config";
+import { isAdminRequest } from "@/lib/adminAuth";
+import {
+  MIGRATION_COIN_COLUMNS,
+  loadMigrationAuthority,
+  planMigration,
+  runMigration,
+  type MigrationCoinRow,
+  type MigrationErrorCode,
+} from "@/lib/migration";
+import { updateStreamCoin } from "@/lib/curveStream";
+
+function bad(msg: string, code = 400, extra: Record<string, unknown> = {}) {
+  return NextResponse.json({ error: msg, ...extra }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+const FAILURE_STATUS: Record<MigrationErrorCode, number> = {
+  AMM_NOT_CONFIGURED: 503,
+  CURVE_MISSING: 400,
+  CURVE_NOT_COMPLETE: 409,
+  CREATOR_MISMATCH: 409,
+  NOTHING_TO_SEED: 409,
+  TOKEN_RESERVE_SHORT: 409,
+  ALREADY_GRADUATED: 409,
+  IN_PROGRESS: 409,
+  CURVE_MOVED: 409,
+  TX_MISMATCH: 400,
+};
+
+/**
+ * POST /api/coins/[id]/migrate  { dryRun?: boolean }
+ * Graduates a completed curve to its AMM pool (see lib/migration.ts).
+ * `dryRun` only sizes the pool and reports what would block it.
+ * Moves the pool SOL, so it needs `Authorization: Bearer <MIGRATION_SECRET>`
+ * (or CRON_SECRET) on every cluster.
+ */
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdminRequest(req, "MIGRATION_SECRET")) return bad("Unauthorized", 401);
+
+    const { id } = await ctx.params;
+    const idStr = (id || "").trim();
+    if (!idStr) return bad("Missing id param");
+
+    const body = await req.json().catch(() => ({}));
+    const dryRun = body?.dryRun === true;
+
+    // mint first, then UUID id (same as GET /api/coins/[id])
+    let { data: coin, error } = await supabaseAdmin
+      .from("coins")
+      .select(MIGRATION_COIN_COLUMNS)
+      .eq("mint", idStr)
+      .maybeSingle();
+    if (error) return bad(error.message, 500);
+    if (!coin) {
+      ({ data: coin, error } = await supabaseAdmin
+        .from("coins")
+        .select(MIGRATION_COIN_COLUMNS)
+        .eq("id", idStr)
+        .maybeSingle());
+      if (error) return bad(error.message, 500);
+    }
+    if (!coin) return bad("Coin not found", 404);
+    if (!coin.mint) return bad("Coin mint not set yet");
+
+    const row = coin as MigrationCoinRow;
+    const conn = new Connection(RPC_URL, "confirmed");
+
+    if (dryRun) {
+      const planned = await planMigration(conn, row, loadMigrationAuthority().publicKey);
+      if (!planned.ok) {
+        return bad(planned.error, FAILURE_STATUS[planned.code], {
+          code: planned.code,
+          ...planned.extra,
+        });
+      }
+      return ok({
+        dryRun: true,
+        migrationStatus: row.migration_status ?? null,
+        plan: planned.plan,
+      });
+    }
+
+    const res = await runMigration(conn, row);
+    if (!res.ok) {
+      return bad(res.error, FAILURE_STATUS[res.code], { code: res.code, ...res.extra });
+    }
+
+    updateStreamCoin(row.mint, {
+      migration_status: "graduated",
+      pool_address: res.poolAddress,
+    });
+    return ok(res);
+  } catch (e) {
+    console.error("[MIGRATION] POST error:", e);
+    return bad(e instanceof Error ? e.message : "Migration failed", 500);
+  }
+}
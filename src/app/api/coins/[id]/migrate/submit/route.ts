@@ -0,0 +1,96 @@
+// src/app/api/coins/[id]/migrate/submit/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { Connection, Transaction } from "@solana/web3.js";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { RPC_URL } from "@/lib/config";
+import {
+  MIGRATION_COIN_COLUMNS,
+  submitCreatorMigration,
+  verifyMigrationToken,
+  type MigrationCoinRow,
+  type MigrationErrorCode,
+  type MigrationTokenErrorCode,
+} from "@/lib/migration";
+import { updateStreamCoin } from "@/lib/curveStream";
+
+function bad(msg: string, code = 400, extra: Record<string, unknown> = {}) {
+  return NextResponse.json({ error: msg, ...extra }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+const FAILURE_STATUS: Record<MigrationErrorCode | MigrationTokenErrorCode, number> = {
+  MIGRATION_INVALID: 400,
+  MIGRATION_EXPIRED: 410,
+  AMM_NOT_CONFIGURED: 503,
+  CURVE_MISSING: 400,
+  CURVE_NOT_COMPLETE: 409,
+  CREATOR_MISMATCH: 403,
+  NOTHING_TO_SEED: 409,
+  TOKEN_RESERVE_SHORT: 409,
+  ALREADY_GRADUATED: 409,
+  IN_PROGRESS: 409,
+  CURVE_MOVED: 409,
+  TX_MISMATCH: 400,
+};
+
+/**
+ * POST /api/coins/[id]/migrate/submit  { migration, txB64 }
+ * Takes the creator-signed tx from /migrate/prepare (base64), freezes the
+ * curve, co-signs it with the migration authority and sends it, then burns
+ * or locks the LP. CURVE_MOVED / MIGRATION_EXPIRED mean prepare again.
+ */
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const idStr = (id || "").trim();
+    if (!idStr) return bad("Missing id param");
+
+    const body = await req.json().catch(() => ({}));
+    const migration = String(body?.migration ?? "").trim();
+    if (!migration) return bad("migration is required");
+
+    const v = verifyMigrationToken(migration);
+    if (!v.ok) return bad(v.error, FAILURE_STATUS[v.code], { code: v.code });
+
+    let signed: Transaction;
+    try {
+      signed = Transaction.from(Buffer.from(String(body?.txB64 ?? ""), "base64"));
+    } catch {
+      return bad("txB64 must be the signed migration tx");
+    }
+
+    const { data: coin, error } = await supabaseAdmin
+      .from("coins")
+      .select(MIGRATION_COIN_COLUMNS)
+      .eq("id", v.token.coinId)
+      .maybeSingle();
+    if (error) return bad(error.message, 500);
+    if (!coin || (coin.mint !== idStr && coin.id !== idStr)) {
+      return bad("Coin not found", 404);
+    }
+
+    const row = coin as MigrationCoinRow;
+    const conn = new Connection(RPC_URL, "confirmed");
+
+    const res = await submitCreatorMigration(conn, row, v.token, signed);
+    if (!res.ok) {
+      return bad(res.error, FAILURE_STATUS[res.code], { code: res.code, ...res.extra });
+    }
+
+    updateStreamCoin(row.mint, {
+      migration_status: "graduated",
+      pool_address: res.poolAddress,
+    });
+    return ok(res);
+  } catch (e) {
+    console.error("[MIGRATION] submit error:", e);
+    return bad(e instanceof Error ? e.message : "Migration failed", 500);
+  }
+}
@@ -0,0 +1,104 @@
+// src/app/api/coins/[id]/migration/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { Connection } from "@solana/web3.js";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { RPC_URL, explorerAddressUrl, explorerTxUrl } from "@/lib/config";
+import { lpProof, migrationRecordFor, type LpProof } from "@/lib/migration";
+
+function bad(msg: string, code = 400) {
+  return NextResponse.json({ error: msg }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+/**
+ * GET /api/coins/[id]/migration
+ * The coin's migration audit record (see lib/migration.ts): pool, SOL and
+ * tokens seeded, what happened to the LP and when, with explorer links.
+ * `onchain` re-checks the LP claims live, so holders don't have to trust
+ * the record; it's null if the RPC read fails.
+ */
+export async function GET(
+  _req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const idStr = (id || "").trim();
+    if (!idStr) return bad("Missing id param");
+
+    const cols = "id, mint, migration_status, pool_address, migration_error";
+
+    // mint first, then UUID id (same as GET /api/coins/[id])
+    let { data: coin, error } = await supabaseAdmin
+      .from("coins")
+      .select(cols)
+      .eq("mint", idStr)
+      .maybeSingle();
+    if (error) return bad(error.message, 500);
+    if (!coin) {
+      ({ data: coin, error } = await supabaseAdmin
+        .from("coins")
+        .select(cols)
+        .eq("id", idStr)
+        .maybeSingle());
+      if (error) return bad(error.message, 500);
+    }
+    if (!coin) return bad("Coin not found", 404);
+
+    const record = await migrationRecordFor(coin.id);
+    if (!record) {
+      return ok({
+        coinId: coin.id,
+        mint: coin.mint,
+        migrationStatus: coin.migration_status ?? null,
+        migrationError: coin.migration_error ?? null,
+        record: null,
+        onchain: null,
+      });
+    }
+
+    let onchain: LpProof | null = null;
+    try {
+      onchain = await lpProof(new Connection(RPC_URL, "confirmed"), record);
+    } catch (e) {
+      console.warn("[MIGRATION] lpProof failed:", record.mint, e);
+    }
+
+    return ok({
+      coinId: coin.id,
+      mint: coin.mint,
+      migrationStatus: coin.migration_status ?? null,
+      migrationError: coin.migration_error ?? null,
+      record: {
+        amm: record.amm,
+        poolAddress: record.pool_address,
+        lpMint: record.lp_mint,
+        authority: record.authority,
+        solSeededLamports: Number(record.sol_seeded_lamports),
+        solSeeded: Number(record.sol_seeded_lamports) / 1_000_000_000,
+        tokensSeededRaw: String(record.tokens_seeded_raw),
+        seedSig: record.seed_sig,
+        seededAt: record.seeded_at,
+        lpPolicy: record.lp_policy,
+        lpAmountRaw: record.lp_amount_raw != null ? String(record.lp_amount_raw) : null,
+        lpSig: record.lp_sig,
+        lpUnlockAt: record.lp_unlock_at,
+        migratedAt: record.migrated_at,
+      },
+      links: {
+        pool: explorerAddressUrl(record.pool_address),
+        seedTx: explorerTxUrl(record.seed_sig),
+        lpTx: record.lp_sig ? explorerTxUrl(record.lp_sig) : null,
+      },
+      onchain,
+    });
+  } catch (e) {
+    console.error("[/api/coins/[id]/migration] error:", e);
+    return bad(e instanceof Error ? e.message : "Failed to load migration", 500);
+  }
+}
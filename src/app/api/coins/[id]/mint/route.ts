@@ -13,7 +13,8 @@ import {
   sendAndConfirmTransaction,
 } from "@solana/web3.js";
 
-import { RPC_URL, TOKEN_PROGRAM_ID, mintAuthPda } from "@/lib/config";
+import { LAUNCH_TOKEN_PROGRAM_ID, RPC_URL, SITE_BASE, mintAuthPda } from "@/lib/config";
+import { buildToken2022MintIxs, isToken2022 } from "@/lib/tokenProgram";
 
 import {
   MINT_SIZE,
@@ -120,92 +121,108 @@ export async function POST(
     );
 
     // 5) Build metadata URI -> served by your app (PUBLIC, not localhost)
-    const baseUrl =
-      process.env.NEXT_PUBLIC_METADATA_BASE_URL ||
-      process.env.SITE_BASE ||
-      process.env.NEXT_PUBLIC_SITE_URL ||
-      "https://winky-launchpad.vercel.app"; // fallback
+    const baseUrl = SITE_BASE;
 
     const cleanBase = baseUrl.replace(/\/$/, "");
     const uri = `${cleanBase}/api/metadata/${mintPk.toBase58()}.json`;
 
     console.log("[MINT v2] metadata uri =", uri);
 
-    // 6) Calculate rent-exempt balance for Mint account
-    const mintLamports = await connection.getMinimumBalanceForRentExemption(
-      MINT_SIZE
-    );
-
-    // 7) Build tx (single TX so mint authority matches for Metaplex call):
-    //    - create mint account
-    //    - init mint with payer as authority
-    //    - create Metaplex metadata (payer as mint & update authority)
-    //    - set mint authority => PDA used by curve program
+    const tokenProgram = LAUNCH_TOKEN_PROGRAM_ID;
     const tx = new Transaction();
 
-    // 7.1 Create mint account
-    tx.add(
-      SystemProgram.createAccount({
-        fromPubkey: payer.publicKey,
-        newAccountPubkey: mintPk,
-        lamports: mintLamports,
-        space: MINT_SIZE,
-        programId: TOKEN_PROGRAM_ID,
-      })
-    );
-
-    // 7.2 Initialize mint (decimals = 6, mintAuthority = payer *for now*)
-    tx.add(
-      createInitializeMintInstruction(
-        mintPk,
-        6,
-        payer.publicKey,
-        payer.publicKey, // freeze authority (can be payer or null)
-        TOKEN_PROGRAM_ID
-      )
-    );
-
-    // 7.3 Create Metaplex metadata account (v3)
-    tx.add(
-      createCreateMetadataAccountV3Instruction(
-        {
-          metadata: metadataPda,
-          mint: mintPk,
-          mintAuthority: payer.publicKey,
+    if (isToken2022(tokenProgram)) {
+      // 6-7) Token-2022: metadata lives on the mint (no Metaplex); same
+      //      payer-then-PDA authority dance, in lib/tokenProgram.ts
+      tx.add(
+        ...(await buildToken2022MintIxs(connection, {
           payer: payer.publicKey,
+          mint: mintPk,
+          decimals: 6,
+          mintAuthority: mintAuth,
+          setupAuthority: payer.publicKey,
           updateAuthority: payer.publicKey,
-          systemProgram: SystemProgram.programId,
-          rent: null as any,
-        },
-        {
-          createMetadataAccountArgsV3: {
-            data: {
-              name,
-              symbol,
-              uri,
-              sellerFeeBasisPoints: 0,
-              creators: null,
-              collection: null,
-              uses: null,
-            },
-            isMutable: true,
-            collectionDetails: null,
+          name,
+          symbol,
+          uri,
+        }))
+      );
+    } else {
+      // 6) Calculate rent-exempt balance for Mint account
+      const mintLamports = await connection.getMinimumBalanceForRentExemption(
+        MINT_SIZE
+      );
+
+      // 7) Build tx (single TX so mint authority matches for Metaplex call):
+      //    - create mint account
+      //    - init mint with payer as authority
+      //    - create Metaplex metadata (payer as mint & update authority)
+      //    - set mint authority => PDA used by curve program
+
+      // 7.1 Create mint account
+      tx.add(
+        SystemProgram.createAccount({
+          fromPubkey: payer.publicKey,
+          newAccountPubkey: mintPk,
+          lamports: mintLamports,
+          space: MINT_SIZE,
+          programId: tokenProgram,
+        })
+      );
+
+      // 7.2 Initialize mint (decimals = 6, mintAuthority = payer *for now*)
+      tx.add(
+        createInitializeMintInstruction(
+          mintPk,
+          6,
+          payer.publicKey,
+          payer.publicKey, // freeze authority (can be payer or null)
+          tokenProgram
+        )
+      );
+
+      // 7.3 Create Metaplex metadata account (v3)
+      tx.add(
+        createCreateMetadataAccountV3Instruction(
+          {
+            metadata: metadataPda,
+            mint: mintPk,
+            mintAuthority: payer.publicKey,
+            payer: payer.publicKey,
+            updateAuthority: payer.publicKey,
+            systemProgram: SystemProgram.programId,
+            rent: null as any,
           },
-        }
-      )
-    );
-
-    // 7.4 Set mint authority => PDA used by curve program
-    tx.add(
-      createSetAuthorityInstruction(
-        mintPk,
-        payer.publicKey, // current authority
-        AuthorityType.MintTokens,
-        mintAuth, // new authority (PDA)
-        [],
-        TOKEN_PROGRAM_ID
-      )
-    );
+          {
+            createMetadataAccountArgsV3: {
+              data: {
+                name,
+                symbol,
+                uri,
+                sellerFeeBasisPoints: 0,
+                creators: null,
+                collection: null,
+                uses: null,
+              },
+              isMutable: true,
+              collectionDetails: null,
+            },
+          }
+        )
+      );
+
+      // 7.4 Set mint authority => PDA used by curve program
+      tx.add(
+        createSetAuthorityInstruction(
+          mintPk,
+          payer.publicKey, // current authority
+          AuthorityType.MintTokens,
+          mintAuth, // new authority (PDA)
+          [],
+          tokenProgram
+        )
+      );
+    }
 
     const { blockhash } = await connection.getLatestBlockhash("finalized");
     tx.feePayer = payer.publicKey;
@@ -227,7 +244,7 @@ export async function POST(
     // 8) Store mint on the coin row
     const { error: upErr } = await supabaseAdmin
       .from("coins")
-      .update({ mint: mintPk.toBase58() })
+      .update({ mint: mintPk.toBase58(), token_program: tokenProgram.toBase58() })
       .eq("id", coinId);
 
     if (upErr) {
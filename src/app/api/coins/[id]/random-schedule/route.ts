@@ -0,0 +1,90 @@
+// src/app/api/coins/[id]/random-schedule/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { curveParamsFromRow } from "@/lib/curve";
+import {
+  RANDOM_EVENTS,
+  RANDOM_STEPS,
+  getCurve,
+  randomSchedule,
+  resolveParams,
+} from "@/lib/curves";
+
+function bad(msg: string, code = 400) {
+  return NextResponse.json({ error: msg }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+/**
+ * GET /api/coins/[id]/random-schedule
+ * Publishes a random-curve coin's seed and its full noise + jackpot/rug
+ * schedule. Anyone can rebuild it: mulberry32(seed), two draws per bucket
+ * (noise, event), buckets in order.
+ */
+export async function GET(
+  _req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const coinId = (id || "").trim();
+    if (!coinId) return bad("Missing id param");
+
+    // mint first, then UUID id (same as GET /api/coins/[id])
+    let { data: coin, error } = await supabaseAdmin
+      .from("coins")
+      .select("id, mint, curve, strength, curve_params")
+      .eq("mint", coinId)
+      .maybeSingle();
+    if (error) return bad(error.message, 500);
+
+    if (!coin) {
+      ({ data: coin, error } = await supabaseAdmin
+        .from("coins")
+        .select("id, mint, curve, strength, curve_params")
+        .eq("id", coinId)
+        .maybeSingle());
+      if (error) return bad(error.message, 500);
+    }
+    if (!coin) return bad("Coin not found", 404);
+
+    const model = getCurve(coin.curve);
+    if (model.id !== "random") {
+      return bad(`Coin uses the ${model.id} curve, which has no random schedule`);
+    }
+
+    const stored = Number((coin.curve_params as Record<string, unknown> | null)?.seed ?? 0);
+    const params = resolveParams(model, curveParamsFromRow(coin));
+    if (!params.seed) {
+      return bad("Seed not fixed yet (coin has no mint)", 409);
+    }
+
+    const schedule = randomSchedule(params);
+    const events = schedule.filter((b) => b.event !== null);
+
+    return ok({
+      coinId: coin.id,
+      mint: coin.mint,
+      curve: model.id,
+      seed: params.seed,
+      seedSource: stored ? "curve_params" : "mint",
+      algorithm: {
+        prng: "mulberry32",
+        mintSeed: "fnv1a32(mint base58 string)",
+        drawsPerBucket: ["noise", "event"],
+        ...RANDOM_EVENTS,
+      },
+      params,
+      steps: RANDOM_STEPS,
+      events,
+      schedule,
+    });
+  } catch (e) {
+    console.error("[/api/coins/[id]/random-schedule] error:", e);
+    return bad(e instanceof Error ? e.message : "random-schedule failed", 500);
+  }
+}
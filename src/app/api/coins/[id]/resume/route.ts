@@ -0,0 +1,94 @@
+// src/app/api/coins/[id]/resume/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { Connection } from "@solana/web3.js";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { RPC_URL } from "@/lib/config";
+import { isAdminRequest } from "@/lib/adminAuth";
+import {
+  LAUNCH_COIN_COLUMNS,
+  advanceLaunch,
+  type LaunchCoinRow,
+  type LaunchErrorCode,
+} from "@/lib/launchStatus";
+
+function bad(msg: string, code = 400, extra: Record<string, unknown> = {}) {
+  return NextResponse.json({ error: msg, ...extra }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+const FAILURE_STATUS: Record<LaunchErrorCode, number> = {
+  LAUNCH_NOT_LANDED: 409,
+  LAUNCH_FAILED: 409,
+  METADATA_MISSING: 409,
+  REPAIR_FAILED: 502,
+  LAUNCH_CONFLICT: 409,
+};
+
+/**
+ * POST /api/coins/[id]/resume  { retry?: boolean }
+ * Admin: walks a stuck launch forward (lib/launchStatus.ts), paying for
+ * missing metadata from the server KEYPAIR. `retry` re-checks a `failed`
+ * launch from `draft`, e.g. after an RPC outage made it look expired.
+ * Repairs spend server SOL, so it needs `Authorization: Bearer
+ * <LAUNCH_ADMIN_SECRET>` (or CRON_SECRET) on every cluster.
+ */
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdminRequest(req, "LAUNCH_ADMIN_SECRET")) return bad("Unauthorized", 401);
+
+    const { id } = await ctx.params;
+    const idStr = (id || "").trim();
+    if (!idStr) return bad("Missing id param");
+
+    const body = await req.json().catch(() => ({}));
+    const retry = body?.retry === true;
+
+    // mint first, then UUID id (same as GET /api/coins/[id])
+    let { data: coin, error } = await supabaseAdmin
+      .from("coins")
+      .select(LAUNCH_COIN_COLUMNS)
+      .eq("mint", idStr)
+      .maybeSingle();
+    if (error) return bad(error.message, 500);
+    if (!coin) {
+      ({ data: coin, error } = await supabaseAdmin
+        .from("coins")
+        .select(LAUNCH_COIN_COLUMNS)
+        .eq("id", idStr)
+        .maybeSingle());
+      if (error) return bad(error.message, 500);
+    }
+    if (!coin) return bad("Coin not found", 404);
+
+    const row = coin as LaunchCoinRow;
+    if (retry && row.launch_status === "failed") {
+      const { error: resetErr } = await supabaseAdmin
+        .from("coins")
+        .update({ launch_status: "draft", launch_error: null })
+        .eq("id", row.id)
+        .eq("launch_status", "failed");
+      if (resetErr) return bad(resetErr.message, 500);
+      row.launch_status = "draft";
+    }
+
+    const res = await advanceLaunch(new Connection(RPC_URL, "confirmed"), row, { repair: true });
+    if (!res.ok) {
+      return bad(res.error!, FAILURE_STATUS[res.code!], {
+        code: res.code,
+        from: res.from,
+        launchStatus: res.status,
+      });
+    }
+    return ok({ id: row.id, mint: row.mint, from: res.from, launchStatus: res.status });
+  } catch (e) {
+    console.error("[LAUNCH] resume error:", e);
+    return bad(e instanceof Error ? e.message : "Resume failed", 500);
+  }
+}
@@ -0,0 +1,67 @@
+// src/app/api/coins/[id]/risk/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { Connection } from "@solana/web3.js";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { RPC_URL, explorerTxUrl } from "@/lib/config";
+import { RISK_COIN_COLUMNS, loadRisks } from "@/lib/rugRisk";
+
+function bad(msg: string, code = 400) {
+  return NextResponse.json({ error: msg }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+/**
+ * GET /api/coins/[id]/risk
+ * Rug-risk panel data (see lib/rugRisk.ts): who can `withdraw` from the
+ * curve PDA, every withdrawal so far and the live pool-vs-curve solvency
+ * ratio. Withdrawals come from the indexer, so a brand-new one shows up
+ * after its next pass; the solvency ratio reflects it immediately.
+ */
+export async function GET(
+  _req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const idStr = (id || "").trim();
+    if (!idStr) return bad("Missing id param");
+
+    // mint first, then UUID id (same as GET /api/coins/[id])
+    let { data: coin, error } = await supabaseAdmin
+      .from("coins")
+      .select(RISK_COIN_COLUMNS)
+      .eq("mint", idStr)
+      .maybeSingle();
+    if (error) return bad(error.message, 500);
+    if (!coin) {
+      ({ data: coin, error } = await supabaseAdmin
+        .from("coins")
+        .select(RISK_COIN_COLUMNS)
+        .eq("id", idStr)
+        .maybeSingle());
+      if (error) return bad(error.message, 500);
+    }
+    if (!coin) return bad("Coin not found", 404);
+
+    const risks = await loadRisks(new Connection(RPC_URL, "confirmed"), [coin]);
+    const risk = risks.get(coin.id)!;
+
+    return ok({
+      coinId: coin.id,
+      mint: coin.mint,
+      ...risk,
+      withdrawals: {
+        ...risk.withdrawals,
+        items: risk.withdrawals.items.map((w) => ({ ...w, url: explorerTxUrl(w.sig) })),
+      },
+    });
+  } catch (e) {
+    console.error("[/api/coins/[id]/risk] error:", e);
+    return bad(e instanceof Error ? e.message : "Failed to assess risk", 500);
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { curveParamsFromRow } from "@/lib/curve";
 
 function bad(msg: string, code = 400) {
   return NextResponse.json({ error: msg }, { status: code });
@@ -59,7 +60,11 @@ export async function GET(
     curve: row.curve,
     startPrice: row.startPrice ?? row.start_price ?? 0,
     strength: row.strength ?? 1,
+    curveParams: curveParamsFromRow(row),
+    creatorFeeBps: row.creator_fee_bps ?? null,
+    creatorBuyFeeBps: row.creator_buy_fee_bps ?? null,
     mint: row.mint ?? null,
+    creator: row.creator ?? null,
     created_at: row.created_at,
   };
 
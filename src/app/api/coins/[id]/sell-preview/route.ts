@@ -0,0 +1,136 @@
+// src/app/api/coins/[id]/sell-preview/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { RPC_URL } from "@/lib/config";
+import { rawToTokens } from "@/lib/curveState";
+import { signQuote } from "@/lib/quoteLock";
+import {
+  feeContextFor,
+  loadCurveSnapshot,
+  maxPoolPayout,
+  sellTerms,
+  tradeCapError,
+} from "@/lib/tradeQuote";
+import { markCurveComplete, tradingFrozenError } from "@/lib/migration";
+
+function bad(msg: string, code = 400, extra: Record<string, unknown> = {}) {
+  return NextResponse.json({ error: msg, ...extra }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+/**
+ * GET /api/coins/[id]/sell-preview?tokensUi=&wallet=
+ * Quotes a sell against the live curve PDA (payout, fees, pool clamp) and
+ * returns a signed `quoteId` that /sell will honour until it expires or the
+ * curve moves.
+ */
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const coinId = (id || "").trim();
+    if (!coinId) return bad("Missing coin id");
+
+    const url = new URL(req.url);
+    const tokensUi = Number(
+      url.searchParams.get("tokensUi") || url.searchParams.get("tokens") || "0"
+    );
+    if (!Number.isFinite(tokensUi) || tokensUi <= 0) {
+      return bad("Invalid tokensUi");
+    }
+    const wallet = url.searchParams.get("wallet")?.trim() || null;
+
+    const { data: coin, error } = await supabaseAdmin
+      .from("coins")
+      .select("id, mint, curve, strength, curve_params, creator_fee_bps, creator_buy_fee_bps, migration_status, pool_address")
+      .eq("id", coinId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("[sell-preview] supabase coin error:", error);
+      return bad(error.message, 500);
+    }
+    if (!coin) return bad("Coin not found", 404);
+    if (!coin.mint) return bad("Coin mint not set yet", 400);
+
+    const conn = new Connection(RPC_URL, "confirmed");
+    const snapshot = await loadCurveSnapshot(conn, new PublicKey(coin.mint));
+    if (!snapshot) {
+      return bad("Curve state not found for this mint", 400);
+    }
+    await markCurveComplete(coin, snapshot.soldRaw);
+    const frozen = tradingFrozenError(coin);
+    if (frozen) {
+      const { error, ...extra } = frozen;
+      return bad(error, 409, extra);
+    }
+
+    // The mint's own decimals, as /sell reads them, so the quoted amountIn
+    // is the raw amount /sell will take
+    let decimals: number;
+    try {
+      decimals = (await conn.getTokenSupply(new PublicKey(coin.mint), "confirmed")).value.decimals;
+    } catch (e) {
+      console.error("[sell-preview] getTokenSupply failed:", e);
+      return bad("RPC getTokenSupply failed: " + (e instanceof Error ? e.message : "unknown"), 500);
+    }
+    const tokensRaw = BigInt(Math.floor(tokensUi * 10 ** decimals));
+    if (tokensRaw <= 0n) return bad("Token amount too small to sell", 400);
+
+    const maxPayout = await maxPoolPayout(conn, snapshot);
+    const feeCtx = await feeContextFor(coin, wallet);
+    const terms = sellTerms(
+      coin,
+      snapshot.soldRaw,
+      tokensRaw,
+      decimals,
+      maxPayout,
+      feeCtx
+    );
+    if (terms.lamports <= 0n) {
+      return bad("Quote is zero; nothing to sell", 400);
+    }
+    const capErr = tradeCapError(terms.lamports);
+    if (capErr) {
+      const { error, ...extra } = capErr;
+      return bad(error, 400, extra);
+    }
+
+    const { quoteId, expiresAt } = signQuote({
+      side: "sell",
+      coinId: coin.id,
+      mint: coin.mint,
+      soldRaw: String(snapshot.soldRaw),
+      amountIn: tokensRaw.toString(),
+      amountOut: terms.lamports.toString(),
+    });
+
+    return ok({
+      quoteId,
+      expiresAt,
+      tokensUi: Number(tokensRaw) / 10 ** decimals,
+      soldBefore: rawToTokens(snapshot.soldRaw),
+      soldAfter: terms.quote.soldAfter,
+      grossSolOut: Number(terms.lamports) / LAMPORTS_PER_SOL,
+      feeLamports: terms.fee.feeTotal,
+      feeBps: terms.fee.totalBps,
+      volumeDiscountBps: terms.fee.discountBps,
+      netSolOut: terms.netLamports / LAMPORTS_PER_SOL,
+      poolShort: terms.poolShort,
+      avgPriceSol: terms.quote.avgPriceSol,
+      priceImpactPct: terms.quote.priceImpactPct,
+    });
+  } catch (e) {
+    console.error("[sell-preview] GET error:", e);
+    return bad(e instanceof Error ? e.message : "sell-preview failed", 500);
+  }
+}
@@ -10,15 +10,28 @@ import {
   TransactionMessage,
   VersionedTransaction,
 } from "@solana/web3.js";
-import { getAssociatedTokenAddressSync } from "@solana/spl-token";
 import { Buffer } from "buffer";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 
 // ✅ same config as BUY route
-import { PROGRAM_ID, RPC_URL, TOKEN_PROGRAM_ID } from "@/lib/config";
+import { FEE_TREASURY_PK, PROGRAM_ID, RPC_URL } from "@/lib/config";
+import { ataFor, tokenProgramFor } from "@/lib/tokenProgram";
+import { buildTradeSellIx } from "@/lib/programIx";
 
-// ✅ use shared fee math (0.4% platform, 0.6% creator on SELL)
-import { computeFeeLamports } from "@/lib/fees";
+// ✅ shared trade math: exact curve integral + fees (same as /sell-preview)
+import {
+  feeContextFor,
+  loadCurveSnapshot,
+  maxPoolPayout,
+  sellTerms,
+  tradeCapError,
+} from "@/lib/tradeQuote";
+import { markCurveComplete, tradingFrozenError } from "@/lib/migration";
+
+import { minOutFor, parseSlippage } from "@/lib/slippage";
+import { verifyQuote, type LockedQuote } from "@/lib/quoteLock";
+import { parseReferrer } from "@/lib/referrals";
+import { recordTradeReferral } from "@/lib/creatorFees";
 
 function bad(msg: string, code = 400, extra: any = {}) {
   return NextResponse.json({ error: msg, ...extra }, { status: code });
@@ -27,29 +40,9 @@ function ok(data: any, code = 200) {
   return NextResponse.json(data, { status: code });
 }
 
-// Anchor discriminator for `trade_sell`
-const TRADE_SELL_DISC = Buffer.from("3ba24d6d0952d8a0", "hex");
-
 // 1 SOL = 1e9 lamports (bigint)
 const LAMPORTS_PER_SOL = 1_000_000_000n;
 
-// --- fee treasuries ---
-const PLATFORM_TREASURY = new PublicKey(
-  process.env.NEXT_PUBLIC_FEE_TREASURY ||
-    process.env.NEXT_PUBLIC_TREASURY ||
-    process.env.NEXT_PUBLIC_PLATFORM_WALLET!
-);
-
-// (optional) referral later – for now we don’t use it
-// const REFERRAL_TREASURY = process.env.NEXT_PUBLIC_REFERRAL_TREASURY
-//   ? new PublicKey(process.env.NEXT_PUBLIC_REFERRAL_TREASURY)
-//   : PLATFORM_TREASURY;
-
-function u64ToLeBuffer(v: bigint): Buffer {
-  const b = Buffer.alloc(8);
-  b.writeBigUInt64LE(v);
-  return b;
-}
 
 type RouteCtx = {
   params: Promise<{ id: string }>;
@@ -78,20 +71,29 @@ export async function POST(req: Request, ctx: RouteCtx) {
     if (!payerStr) return bad("Missing payer");
     const payer = new PublicKey(payerStr);
 
-    const solAmount = Number(body?.solAmount ?? 0);
-    if (!Number.isFinite(solAmount) || solAmount <= 0) {
-      return bad("Invalid sol amount");
+    // A quote id from /sell-preview locks the amount + payout it quoted.
+    const quoteIdStr = String(body?.quoteId ?? "").trim();
+    let lockedQuote: LockedQuote | null = null;
+    if (quoteIdStr) {
+      const v = verifyQuote(quoteIdStr, { side: "sell", coinId });
+      if (!v.ok) return bad(v.error, v.code === "QUOTE_INVALID" ? 400 : 409, { code: v.code });
+      lockedQuote = v.quote;
     }
 
     const tokensUi = Number(body?.tokensUi ?? 0);
-    if (!Number.isFinite(tokensUi) || tokensUi <= 0) {
+    if (!lockedQuote && (!Number.isFinite(tokensUi) || tokensUi <= 0)) {
       return bad("Invalid tokens amount");
     }
 
+    const slippage = parseSlippage(body, "minSolOut");
+    if (!slippage.ok) {
+      return bad(slippage.error, 400, { code: "INVALID_SLIPPAGE" });
+    }
+
     // -------- fetch coin to get mint + creator --------
     const { data: coin, error } = await supabaseAdmin
       .from("coins")
-      .select("mint, creator")
+      .select("id, mint, creator, curve, strength, curve_params, creator_fee_bps, creator_buy_fee_bps, migration_status, pool_address, token_program")
       .eq("id", coinId)
       .maybeSingle();
 
@@ -104,6 +106,7 @@ export async function POST(req: Request, ctx: RouteCtx) {
     }
 
     const mintPk = new PublicKey(coin.mint);
+    const tokenProgram = tokenProgramFor(coin);
 
     console.log("[SELL] RPC_URL =", RPC_URL);
     const connection = new Connection(RPC_URL, "confirmed");
@@ -122,13 +125,15 @@ export async function POST(req: Request, ctx: RouteCtx) {
 
     const decimals = supplyInfo.value.decimals ?? 9;
     const multiplier = 10 ** decimals; // safe in JS for 6–9 decimals
-    const tokensRaw = BigInt(Math.floor(tokensUi * multiplier));
+    const tokensRaw = lockedQuote
+      ? BigInt(lockedQuote.amountIn)
+      : BigInt(Math.floor(tokensUi * multiplier));
 
     if (tokensRaw <= 0n) {
       return bad("Token amount too small to sell", 400);
     }
 
-    const userAta = getAssociatedTokenAddressSync(mintPk, payer, false);
+    const userAta = ataFor(mintPk, payer, tokenProgram);
 
     let ataBalInfo;
     try {
@@ -152,65 +157,117 @@ export async function POST(req: Request, ctx: RouteCtx) {
       });
     }
 
-    // -------- derive curve state PDA --------
-    const [statePk] = PublicKey.findProgramAddressSync(
-      [Buffer.from("curve"), mintPk.toBuffer()],
-      PROGRAM_ID
-    );
-
-    // -------- compute lamports to request, clamp to pool --------
-    let lamports = BigInt(Math.floor(solAmount * Number(LAMPORTS_PER_SOL)));
-    if (lamports <= 0n) {
-      return bad("Lamports amount must be > 0", 400);
-    }
-
-    let stateBalance: number;
+    // -------- quote SOL out from the curve (server-side, not the client) --------
+    let snapshot;
     try {
-      stateBalance = await connection.getBalance(statePk, "confirmed");
+      snapshot = await loadCurveSnapshot(connection, mintPk);
     } catch (e: any) {
-      console.error("[SELL] getBalance(statePk) failed:", e);
+      console.error("[SELL] loadCurveSnapshot failed:", e);
       return bad(
-        "RPC getBalance failed: " + (e?.message || "unknown"),
+        "RPC getAccountInfo failed: " + (e?.message || "unknown"),
         500
       );
     }
+    if (!snapshot) {
+      return bad("Curve state not found for this mint", 400);
+    }
+    await markCurveComplete(coin, snapshot.soldRaw);
+    const frozen = tradingFrozenError(coin);
+    if (frozen) {
+      const { error, ...extra } = frozen;
+      return bad(error, 409, extra);
+    }
+    const statePk = snapshot.statePk;
 
-    if (stateBalance <= 0) {
+    if (snapshot.lamports <= 0) {
       return bad("Curve pool has no SOL liquidity", 400);
     }
 
-    const rentExempt = await connection.getMinimumBalanceForRentExemption(0);
-    let maxPayout = BigInt(stateBalance) - BigInt(rentExempt);
+    const maxPayout = await maxPoolPayout(connection, snapshot);
     if (maxPayout <= 0n) {
       return bad("Curve pool SOL is locked for rent", 400);
     }
 
-    if (lamports > maxPayout) {
-      console.warn(
-        "[SELL] Clamping lamports from",
-        lamports.toString(),
-        "to",
-        maxPayout.toString()
-      );
-      lamports = maxPayout;
-    }
-
-    // -------- compute SELL fees (off-chain, post phase) --------
-    const tradeLamportsNum = Number(lamports); // safe for normal SOL sizes
-    const tradeSol = tradeLamportsNum / Number(LAMPORTS_PER_SOL);
-
-    const feeDetail = computeFeeLamports(
-      tradeLamportsNum,
-      tradeSol,
-      "post"
+    // payout clamped to the pool; fees are paid by the seller on top
+    const referrer = parseReferrer(body?.referrer, payerStr);
+    const feeCtx = await feeContextFor(coin, payerStr, referrer);
+    const terms = sellTerms(
+      coin,
+      snapshot.soldRaw,
+      tokensRaw,
+      decimals,
+      maxPayout,
+      feeCtx
     );
+    const { lamports, poolShort, quote } = terms;
+    const feeDetail = terms.fee;
     // feeDetail = {
     //   feeTotal,
     //   protocol,  // -> platform
     //   creator,   // -> coin.creator
+    //   referral,  // -> referrer (share of the platform fee)
     //   cap, ...
     // }
 
+    if (poolShort) {
+      console.warn("[SELL] Clamped payout to pool max:", maxPayout.toString());
+    }
+    if (lamports <= 0n) {
+      return bad("Lamports amount must be > 0", 400);
+    }
+
+    const capErr = tradeCapError(lamports);
+    if (capErr) {
+      const { error, ...extra } = capErr;
+      return bad(error, 400, extra);
+    }
+
+    // Locked quote: honour it only if the curve (and pool) haven't moved.
+    if (
+      lockedQuote &&
+      (lockedQuote.soldRaw !== String(snapshot.soldRaw) ||
+        lockedQuote.amountOut !== lamports.toString())
+    ) {
+      return bad("Curve moved since this quote; refresh it", 409, {
+        code: "QUOTE_STALE",
+        quotedSoldRaw: lockedQuote.soldRaw,
+        soldRaw: String(snapshot.soldRaw),
+      });
+    }
+
+    const tradeSol = Number(lamports) / Number(LAMPORTS_PER_SOL);
+
+    // -------- slippage (fresh quote vs the seller's tolerance) --------
+    // minSolOut is what the seller walks away with: payout minus fees.
+    const netSolOut = terms.netLamports / Number(LAMPORTS_PER_SOL);
+    let minSolOut: number | null = null;
+    if (slippage.value.requested) {
+      // A locked quote only got this far if its payout matched exactly, so
+      // the net it was quoted is the net we'd pay now.
+      minSolOut = minOutFor(slippage.value, lockedQuote ? netSolOut : null);
+
+      if (minSolOut != null && netSolOut < minSolOut) {
+        console.warn("[SELL] slippage exceeded:", {
+          netSolOut,
+          minSolOut,
+          poolShort,
+        });
+        return bad(
+          poolShort
+            ? "Curve pool can't cover this sell within your slippage tolerance"
+            : "Price moved beyond your slippage tolerance",
+          409,
+          {
+            code: poolShort ? "POOL_INSUFFICIENT" : "SLIPPAGE_EXCEEDED",
+            quotedSolOut: netSolOut,
+            minSolOut,
+            slippageBps: slippage.value.slippageBps,
+            priceImpactPct: quote.priceImpactPct,
+          }
+        );
+      }
+    }
+
     const feeIxs: TransactionInstruction[] = [];
 
     // platform fee
@@ -218,7 +275,7 @@ export async function POST(req: Request, ctx: RouteCtx) {
       feeIxs.push(
         SystemProgram.transfer({
           fromPubkey: payer,
-          toPubkey: PLATFORM_TREASURY,
+          toPubkey: FEE_TREASURY_PK,
           lamports: feeDetail.protocol,
         })
       );
@@ -240,24 +297,25 @@ export async function POST(req: Request, ctx: RouteCtx) {
       }
     }
 
+    // referral fee (share of the platform fee)
+    if (feeDetail.referral > 0 && referrer) {
+      feeIxs.push(
+        SystemProgram.transfer({
+          fromPubkey: payer,
+          toPubkey: referrer,
+          lamports: feeDetail.referral,
+        })
+      );
+    }
+
     // -------- build program ix for Anchor `trade_sell` --------
-    const data = Buffer.concat([
-      TRADE_SELL_DISC,
-      u64ToLeBuffer(lamports),
-      u64ToLeBuffer(tokensRaw),
-    ]);
-
-    const sellIx = new TransactionInstruction({
-      programId: PROGRAM_ID,
-      keys: [
-        { pubkey: payer, isSigner: true, isWritable: true }, // payer (gets SOL)
-        { pubkey: mintPk, isSigner: false, isWritable: true }, // mint
-        { pubkey: statePk, isSigner: false, isWritable: true }, // curve state PDA
-        { pubkey: userAta, isSigner: false, isWritable: true }, // seller_ata
-        { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false }, // token_program
-        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false }, // system_program
-      ],
-      data,
+    const sellIx = buildTradeSellIx({
+      seller: payer,
+      mint: mintPk,
+      sellerAta: userAta,
+      lamportsOut: lamports,
+      tokensRaw,
+      tokenProgram,
     });
 
     // -------- assemble v0 tx: sell + fees --------
@@ -281,6 +339,15 @@ export async function POST(req: Request, ctx: RouteCtx) {
       instructions: [sellIx, ...feeIxs],
     }).compileToV0Message();
 
+    // The indexer only books a referral leg to the referrer recorded here
+    if (feeDetail.referral > 0 && referrer) {
+      await recordTradeReferral({
+        trader: payer.toBase58(),
+        blockhash,
+        referrer: referrer.toBase58(),
+      });
+    }
+
     const vtx = new VersionedTransaction(messageV0);
     const serialized = vtx.serialize();
     const txB64 = Buffer.from(serialized).toString("base64");
@@ -292,6 +359,8 @@ export async function POST(req: Request, ctx: RouteCtx) {
       feeTotal: feeDetail.feeTotal,
       protocol: feeDetail.protocol,
       creator: feeDetail.creator,
+      referral: feeDetail.referral,
+      referrer: referrer?.toBase58() ?? null,
     });
 
     console.log(
@@ -314,6 +383,14 @@ export async function POST(req: Request, ctx: RouteCtx) {
         lastValidBlockHeight,
         version: 0,
         estSolIn,
+        quoteId: lockedQuote ? quoteIdStr : null,
+        netSolOut,
+        minSolOut,
+        slippageBps: slippage.value.slippageBps,
+        referrer: referrer?.toBase58() ?? null,
+        referralLamports: feeDetail.referral,
+        avgPriceSol: quote.avgPriceSol,
+        priceImpactPct: quote.priceImpactPct,
       },
       200
     );
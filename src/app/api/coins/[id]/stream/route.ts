@@ -0,0 +1,100 @@
+// src/app/api/coins/[id]/stream/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { subscribeCoin, type CoinStreamEvent } from "@/lib/curveStream";
+
+function bad(msg: string, code = 400) {
+  return NextResponse.json({ error: msg }, { status: code });
+}
+
+/** Comment line so proxies don't cut an idle stream. */
+const HEARTBEAT_MS = 15_000;
+
+/**
+ * GET /api/coins/[id]/stream
+ * Server-sent events for a coin: `stats`, `trade` and `migration` (see
+ * lib/curveStream.ts). The latest stats arrive right after connecting.
+ * All viewers of a coin share one RPC account subscription.
+ */
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const { id } = await ctx.params;
+  const idStr = (id || "").trim();
+  if (!idStr) return bad("Missing id param");
+
+  const cols = "id, mint, creator, curve, strength, curve_params, migration_status, pool_address";
+
+  // mint first, then UUID id (same as GET /api/coins/[id])
+  let { data: coin, error } = await supabaseAdmin
+    .from("coins")
+    .select(cols)
+    .eq("mint", idStr)
+    .maybeSingle();
+  if (error) return bad(error.message, 500);
+  if (!coin) {
+    ({ data: coin, error } = await supabaseAdmin
+      .from("coins")
+      .select(cols)
+      .eq("id", idStr)
+      .maybeSingle());
+    if (error) return bad(error.message, 500);
+  }
+  if (!coin) return bad("Coin not found", 404);
+  if (!coin.mint) return bad("Coin mint not set yet");
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const send = (ev: CoinStreamEvent) =>
+        write(`event: ${ev.event}\ndata: ${JSON.stringify(ev.data)}\n\n`);
+
+      // Reconnect after 3s if the connection drops
+      write("retry: 3000\n\n");
+
+      const unsubscribe = subscribeCoin(coin, send);
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client
+        }
+      };
+      req.signal.addEventListener("abort", () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
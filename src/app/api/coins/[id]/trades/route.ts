@@ -0,0 +1,103 @@
+// src/app/api/coins/[id]/trades/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { PublicKey } from "@solana/web3.js";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { TRADES_PAGE_MAX, tradesForCoin } from "@/lib/store";
+
+function bad(msg: string, code = 400) {
+  return NextResponse.json({ error: msg }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+/** `since` as ISO, unix seconds or unix ms → ISO. */
+function parseSince(raw: string): string | null {
+  const n = Number(raw);
+  const d = Number.isFinite(n)
+    ? new Date(n < 1e12 ? n * 1000 : n)
+    : new Date(raw);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+/**
+ * GET /api/coins/[id]/trades?limit=&cursor=&side=&wallet=&since=
+ * Indexed on-chain trades (see lib/indexer.ts), newest first. Pass the
+ * response's `nextCursor` back as `cursor` for the next (older) page.
+ * Each trade carries token amount and per-fill price (SOL per token).
+ */
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await ctx.params;
+    const idStr = (id || "").trim();
+    if (!idStr) return bad("Missing id param");
+
+    const sp = new URL(req.url).searchParams;
+
+    const side = sp.get("side");
+    if (side && side !== "buy" && side !== "sell") {
+      return bad('side must be "buy" or "sell"');
+    }
+
+    let wallet: string | null = null;
+    if (sp.get("wallet")) {
+      try {
+        wallet = new PublicKey(sp.get("wallet")!.trim()).toBase58();
+      } catch {
+        return bad("Invalid wallet");
+      }
+    }
+
+    let since: string | null = null;
+    if (sp.get("since")) {
+      since = parseSince(sp.get("since")!.trim());
+      if (!since) return bad("Invalid since (ISO date or unix time)");
+    }
+
+    const limit = sp.get("limit") ? Number(sp.get("limit")) : 50;
+    if (!Number.isInteger(limit) || limit < 1 || limit > TRADES_PAGE_MAX) {
+      return bad(`limit must be an integer between 1 and ${TRADES_PAGE_MAX}`);
+    }
+
+    // mint first, then UUID id (same as GET /api/coins/[id])
+    let { data: coin, error } = await supabaseAdmin
+      .from("coins")
+      .select("id")
+      .eq("mint", idStr)
+      .maybeSingle();
+    if (error) return bad(error.message, 500);
+    if (!coin) {
+      ({ data: coin, error } = await supabaseAdmin
+        .from("coins")
+        .select("id")
+        .eq("id", idStr)
+        .maybeSingle());
+      if (error) return bad(error.message, 500);
+    }
+    if (!coin) return bad("Coin not found", 404);
+
+    let page;
+    try {
+      page = await tradesForCoin(coin.id, {
+        limit,
+        cursor: sp.get("cursor"),
+        side: side as "buy" | "sell" | null,
+        wallet,
+        since,
+      });
+    } catch (e) {
+      if (e instanceof Error && e.message === "Invalid cursor") return bad("Invalid cursor");
+      throw e;
+    }
+
+    return ok(page);
+  } catch (e) {
+    console.error("[TRADES] GET error:", e);
+    return bad(e instanceof Error ? e.message : "trades lookup failed", 500);
+  }
+}
@@ -0,0 +1,75 @@
+// src/app/api/coins/confirm/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { Connection } from "@solana/web3.js";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { RPC_URL } from "@/lib/config";
+import { verifyLaunch, type LaunchTokenErrorCode } from "@/lib/launch";
+import {
+  LAUNCH_COIN_COLUMNS,
+  PUBLIC_LAUNCH_STATUSES,
+  advanceLaunch,
+  type LaunchCoinRow,
+  type LaunchErrorCode,
+} from "@/lib/launchStatus";
+
+function bad(msg: string, code = 400, extra: Record<string, unknown> = {}) {
+  return NextResponse.json({ error: msg, ...extra }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+const FAILURE_STATUS: Record<LaunchTokenErrorCode | LaunchErrorCode, number> = {
+  LAUNCH_INVALID: 400,
+  LAUNCH_EXPIRED: 410,
+  LAUNCH_NOT_LANDED: 409,
+  LAUNCH_FAILED: 409,
+  METADATA_MISSING: 202,
+  REPAIR_FAILED: 500,
+  LAUNCH_CONFLICT: 409,
+};
+
+/**
+ * POST /api/coins/confirm  { launch, signature? }
+ * Advances the draft coin for a launch tx from POST /api/coins once it has
+ * landed (see lib/launchStatus.ts). Safe to retry: LAUNCH_NOT_LANDED and
+ * LAUNCH_CONFLICT mean try again shortly, and confirming a live coin just
+ * returns it. Whatever this doesn't finish, the launch sweeper does.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const launch = String(body?.launch ?? "").trim();
+    if (!launch) return bad("launch is required");
+    const signature = String(body?.signature ?? "").trim() || null;
+
+    const v = verifyLaunch(launch);
+    if (!v.ok) return bad(v.error, FAILURE_STATUS[v.code], { code: v.code });
+
+    const { data: coin, error } = await supabaseAdmin
+      .from("coins")
+      .select(LAUNCH_COIN_COLUMNS)
+      .eq("id", v.token.coinId)
+      .maybeSingle();
+    if (error) return bad(error.message, 500);
+    if (!coin || coin.mint !== v.token.mint) return bad("Launch not found", 404);
+
+    const row = coin as LaunchCoinRow;
+    const res = await advanceLaunch(new Connection(RPC_URL, "confirmed"), row, { signature });
+
+    const payload = {
+      coin: { id: row.id, mint: row.mint, name: row.name, symbol: row.symbol },
+      launchStatus: res.status,
+      public: PUBLIC_LAUNCH_STATUSES.includes(res.status),
+    };
+    if (!res.ok) {
+      return bad(res.error!, FAILURE_STATUS[res.code!], { code: res.code, ...payload });
+    }
+    return ok(payload);
+  } catch (e) {
+    console.error("[/api/coins/confirm] error:", e);
+    return bad(e instanceof Error ? e.message : "Confirm failed", 500);
+  }
+}
@@ -0,0 +1,67 @@
+// src/app/api/coins/launch-preview/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { PublicKey } from "@solana/web3.js";
+import { firstBuyJson, parseLaunchPricing, quoteFirstBuy } from "@/lib/launch";
+import { parseSlippage, withSlippage } from "@/lib/slippage";
+import { parseReferrer } from "@/lib/referrals";
+
+function bad(msg: string, code = 400, extra: Record<string, unknown> = {}) {
+  return NextResponse.json({ error: msg, ...extra }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+/**
+ * POST /api/coins/launch-preview
+ *   { curve, strength?, curve_params?, creator_buy_fee_bps?, creator?,
+ *     firstBuySol, slippageBps?, referrer? }
+ * Quotes the first buy a launch tx would bundle (see lib/launch.ts) with
+ * the same terms POST /api/coins will build. `minTokensOut` is the quote
+ * less `slippageBps`; send it back with the launch.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    const pricing = parseLaunchPricing(body);
+    if (!pricing.ok) return bad(pricing.error, 400, pricing.extra);
+
+    const amountSol = Number(body?.firstBuySol);
+    if (!Number.isFinite(amountSol) || amountSol <= 0) {
+      return bad("firstBuySol must be > 0");
+    }
+
+    const slippage = parseSlippage(body, "minTokensOut", { preview: true });
+    if (!slippage.ok) {
+      return bad(slippage.error, 400, { code: "INVALID_SLIPPAGE" });
+    }
+
+    // Creator is optional here: only used for the volume fee discount
+    let creator: string | null = null;
+    try {
+      creator = body?.creator ? new PublicKey(String(body.creator)).toBase58() : null;
+    } catch {
+      return bad("creator must be a valid wallet address");
+    }
+
+    const quoted = await quoteFirstBuy({ ...pricing.pricing, creator }, amountSol, {
+      referrer: parseReferrer(body?.referrer, creator),
+    });
+    if (!quoted.ok) {
+      return bad(quoted.error, 400, { code: quoted.code, ...quoted.extra });
+    }
+
+    const fb = firstBuyJson(quoted.firstBuy);
+    return ok({
+      ...fb,
+      slippageBps: slippage.value.slippageBps,
+      minTokensOut: withSlippage(fb.estTokensHuman, slippage.value.slippageBps),
+    });
+  } catch (e) {
+    console.error("[launch-preview] POST error:", e);
+    return bad(e instanceof Error ? e.message : "launch-preview failed", 500);
+  }
+}
@@ -3,24 +3,33 @@ export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
-import { initMetadataOnChain } from "@/lib/initMetadata";
-
-// --- solana / curve imports ---
+import { LAUNCH_TOKEN_PROGRAM_ID, RPC_URL, VANITY_PATTERNS } from "@/lib/config";
+import { loadRisks } from "@/lib/rugRisk";
+import {
+  buildLaunchTx,
+  firstBuyJson,
+  parseLaunchPricing,
+  quoteFirstBuy,
+  signLaunch,
+  type BuiltLaunch,
+  type LaunchFirstBuy,
+  type PendingCoinRow,
+} from "@/lib/launch";
 import {
-  Connection,
-  Keypair,
-  PublicKey,
-  SystemProgram,
-  Transaction,
-  TransactionInstruction,
-} from "@solana/web3.js";
+  PUBLIC_LAUNCH_STATUSES,
+  insertLaunchDraft,
+  type LaunchCoinRow,
+} from "@/lib/launchStatus";
 import {
-  TOKEN_PROGRAM_ID,
-  MINT_SIZE,
-  getMinimumBalanceForRentExemptMint,
-  createInitializeMintInstruction,
-} from "@solana/spl-token";
-import bs58 from "bs58";
+  leaseVanityMint,
+  recordVanityLease,
+  releaseVanityMint,
+  vanityPatternFor,
+} from "@/lib/vanity";
+import { parseSlippage } from "@/lib/slippage";
+import { parseReferrer } from "@/lib/referrals";
+import { recordTradeReferral } from "@/lib/creatorFees";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
 
 // ----------------- helpers (http) -----------------
 function bad(msg: string, code = 400, extra: any = {}) {
@@ -29,118 +38,11 @@ function bad(msg: string, code = 400, extra: any = {}) {
 function ok(data: any, code = 200) {
   return NextResponse.json(data, { status: code });
 }
-
-// ----------------- Solana / program config -----------------
-const RPC_URL =
-  process.env.RPC ||
-  process.env.RPC_URL ||
-  process.env.NEXT_PUBLIC_RPC ||
-  "https://api.devnet.solana.com";
-
-const PROGRAM_ID_STR =
-  process.env.NEXT_PUBLIC_PROGRAM_ID || process.env.PROGRAM_ID;
-if (!PROGRAM_ID_STR) {
-  throw new Error(
-    "PROGRAM_ID / NEXT_PUBLIC_PROGRAM_ID is missing in env for /api/coins"
-  );
-}
-const CURVE_PROGRAM_ID = new PublicKey(PROGRAM_ID_STR);
-
-// discriminator for `create_curve`
-const DISC_CREATE_CURVE = Buffer.from([
-  169, 235, 221, 223, 65, 109, 120, 183,
-]);
-
-function loadServerKeypair(): Keypair {
-  const raw = process.env.KEYPAIR;
-  if (!raw) {
-    throw new Error("KEYPAIR env missing (server wallet for init)");
-  }
-  try {
-    const arr = JSON.parse(raw);
-    return Keypair.fromSecretKey(Uint8Array.from(arr));
-  } catch {
-    const decoded = bs58.decode(raw);
-    return Keypair.fromSecretKey(Uint8Array.from(decoded));
-  }
-}
-
-/**
- * Create mint + curve state PDA on-chain and return mint pubkey.
- */
-async function initOnChainForCoin(_opts: {
-  symbol: string;
-  curve: string;
-  strength: number;
-}): Promise<{ mint: string; signature: string }> {
-  const connection = new Connection(RPC_URL, "confirmed");
-  const payer = loadServerKeypair();
-
-  const mintKp = Keypair.generate();
-  const mintPk = mintKp.publicKey;
-
-  const [statePda] = PublicKey.findProgramAddressSync(
-    [Buffer.from("curve"), mintPk.toBuffer()],
-    CURVE_PROGRAM_ID
-  );
-  const [mintAuthPda] = PublicKey.findProgramAddressSync(
-    [Buffer.from("mint_auth"), mintPk.toBuffer()],
-    CURVE_PROGRAM_ID
-  );
-
-  const rent = await getMinimumBalanceForRentExemptMint(connection);
-
-  const tx = new Transaction();
-
-  // create mint account
-  tx.add(
-    SystemProgram.createAccount({
-      fromPubkey: payer.publicKey,
-      newAccountPubkey: mintPk,
-      lamports: rent,
-      space: MINT_SIZE,
-      programId: TOKEN_PROGRAM_ID,
-    })
-  );
-
-  // init mint (6 decimals, mint_auth_pda as authority)
-  tx.add(
-    createInitializeMintInstruction(
-      mintPk,
-      6,
-      mintAuthPda,
-      null,
-      TOKEN_PROGRAM_ID
-    )
-  );
-
-  // call Anchor create_curve
-  tx.add(
-    new TransactionInstruction({
-      programId: CURVE_PROGRAM_ID,
-      keys: [
-        { pubkey: payer.publicKey, isSigner: true, isWritable: true },
-        { pubkey: mintPk, isSigner: false, isWritable: false },
-        { pubkey: statePda, isSigner: false, isWritable: true },
-        { pubkey: mintAuthPda, isSigner: false, isWritable: false },
-        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
-      ],
-      data: DISC_CREATE_CURVE,
-    })
-  );
-
-  const { blockhash, lastValidBlockHeight } =
-    await connection.getLatestBlockhash("confirmed");
-  tx.recentBlockhash = blockhash;
-  tx.feePayer = payer.publicKey;
-
-  const sig = await connection.sendTransaction(tx, [payer, mintKp]);
-  await connection.confirmTransaction(
-    { signature: sig, blockhash, lastValidBlockHeight },
-    "confirmed"
-  );
-
-  return { mint: mintPk.toBase58(), signature: sig };
+// Who a vanity lease is counted against: the caller's IP as the proxy
+// (Vercel) reports it, first hop of x-forwarded-for
+function clientKey(req: Request) {
+  const fwd = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return fwd || req.headers.get("x-real-ip")?.trim() || "unknown";
 }
 
 // ----------------- GET = list coins -----------------
@@ -156,26 +58,65 @@ export async function GET() {
         description,
         curve,
         strength,
+        curve_params,
         created_at,
         mint,
         logo_url,
         socials,
-        creator
+        creator,
+        migration_status,
+        launch_status
       `
       )
+      .in("launch_status", PUBLIC_LAUNCH_STATUSES)
       .order("created_at", { ascending: false })
       .limit(100);
 
     if (error) return bad(error.message, 500);
 
-    return ok({ coins: data ?? [] });
+    // Rug-risk summary per coin (lib/rugRisk.ts); the list still loads
+    // without it if the RPC is down
+    const coins = data ?? [];
+    let risks: Awaited<ReturnType<typeof loadRisks>> | null = null;
+    try {
+      risks = await loadRisks(new Connection(RPC_URL, "confirmed"), coins);
+    } catch (e) {
+      console.warn("[/api/coins] loadRisks failed:", e);
+    }
+
+    return ok({
+      coins: coins.map((c) => {
+        const r = risks?.get(c.id);
+        return {
+          ...c,
+          risk: r
+            ? {
+                level: r.level,
+                withdrawCount: r.withdrawals.count,
+                withdrawnSol: r.withdrawals.sol,
+                lastWithdrawAt: r.withdrawals.lastAt,
+                solvencyRatio: r.solvencyRatio,
+                authorityIsCreator: r.authorityIsCreator,
+              }
+            : null,
+        };
+      }),
+    });
   } catch (e: any) {
     console.error("[/api/coins] GET error:", e);
     return bad(e?.message || "GET /coins failed", 500);
   }
 }
 
-// ----------------- POST = create coin + init on-chain + metadata -----------------
+// ----------------- POST = prepare the creator-signed launch tx -----------------
+/**
+ * POST /api/coins
+ * Validates the coin and returns its launch tx (lib/launch.ts): mint +
+ * curve + metadata, plus the first buy when `firstBuySol` > 0, paid and
+ * signed by `creator`. `vanity` picks a pre-ground mint address from one of
+ * VANITY_PATTERNS (lib/vanity.ts), VANITY_LEASES_PER_HOUR per IP. The coin is stored as a `draft` (not listed) – send
+ * the tx, then POST `{ launch, signature }` to /api/coins/confirm.
+ */
 export async function POST(req: Request) {
   try {
     let body: any = {};
@@ -189,8 +130,6 @@ export async function POST(req: Request) {
     const symbol = String(body?.symbol ?? "").trim().toUpperCase();
     const description =
       body?.description != null ? String(body.description).trim() : null;
-    const curve = String(body?.curve ?? "").trim().toLowerCase();
-    const strengthRaw = Number(body?.strength ?? 0);
     const creator = String(body?.creator ?? "").trim();
 
     const logo_url =
@@ -205,92 +144,115 @@ export async function POST(req: Request) {
     if (!name) return bad("name is required");
     if (!symbol) return bad("symbol is required");
     if (!creator) return bad("creator is required");
-    if (!curve || !["linear", "degen", "random"].includes(curve)) {
-      return bad("curve must be one of: linear, degen, random");
+    let creatorPk: PublicKey;
+    try {
+      creatorPk = new PublicKey(creator);
+    } catch {
+      return bad("creator must be a valid wallet address");
     }
 
-    const strength = Math.max(1, Math.min(5, strengthRaw || 1));
-
-    // 1) insert DB row (no mint yet)
-    const { data, error } = await supabaseAdmin
-      .from("coins")
-      .insert([
-        {
-          name,
-          symbol,
-          description,
-          curve,
-          strength,
-          creator,
-          logo_url,
-          socials,
-          start_price: 0,
-          version: 1,
-          migrated: false,
-        } as any,
-      ])
-      .select(
-        `
-        id,
-        name,
-        symbol,
-        description,
-        curve,
-        strength,
-        created_at,
-        mint,
-        logo_url,
-        socials,
-        creator
-      `
-      )
-      .maybeSingle();
-
-    if (error) {
-      console.error("[/api/coins] POST insert error:", error);
-      return bad(error.message, 500);
+    const pricing = parseLaunchPricing(body);
+    if (!pricing.ok) return bad(pricing.error, 400, pricing.extra);
+
+    const row: PendingCoinRow = {
+      name,
+      symbol,
+      description,
+      ...pricing.pricing,
+      creator: creatorPk.toBase58(),
+      logo_url,
+      socials,
+      token_program: LAUNCH_TOKEN_PROGRAM_ID.toBase58(),
+    };
+
+    // Optional first buy, bundled into the launch tx (quoted on the empty
+    // curve; same slippage fields as /buy)
+    let firstBuy: LaunchFirstBuy | null = null;
+    const firstBuySol = Number(body?.firstBuySol ?? 0);
+    if (!Number.isFinite(firstBuySol) || firstBuySol < 0) {
+      return bad("firstBuySol must be >= 0");
     }
-    if (!data) return bad("Insert returned no row", 500);
-
-    let mint: string | null = null;
-    let sig: string | null = null;
-
-    // 2) on-chain init: mint + curve state
-    try {
-      const res = await initOnChainForCoin({ symbol, curve, strength });
-      mint = res.mint;
-      sig = res.signature;
-
-      const { error: updErr } = await supabaseAdmin
-        .from("coins")
-        .update({ mint })
-        .eq("id", data.id);
-
-      if (updErr) {
-        console.error("[/api/coins] update mint error:", updErr);
-      } else {
-        (data as any).mint = mint;
+    if (firstBuySol > 0) {
+      const slippage = parseSlippage(body, "minTokensOut");
+      if (!slippage.ok) {
+        return bad(slippage.error, 400, { code: "INVALID_SLIPPAGE" });
       }
+      const quoted = await quoteFirstBuy(row, firstBuySol, {
+        referrer: parseReferrer(body?.referrer, row.creator),
+        slippage: slippage.value,
+      });
+      if (!quoted.ok) {
+        return bad(quoted.error, quoted.code === "SLIPPAGE_EXCEEDED" ? 409 : 400, {
+          code: quoted.code,
+          ...quoted.extra,
+        });
+      }
+      firstBuy = quoted.firstBuy;
+    }
 
-      // 3) init on-chain Metaplex metadata (automatic name + ticker + image)
-      if (mint) {
-        try {
-          await initMetadataOnChain(mint, name, symbol);
-        } catch (metaErr) {
-          console.error(
-            "[/api/coins] initMetadataOnChain failed:",
-            metaErr
-          );
-          // do NOT throw; coin + curve still valid even if metadata fails
-        }
+    // Optional vanity mint ("suffix:pump"), leased from the pre-ground pool
+    let vanityKp: Keypair | null = null;
+    const vanityId = String(body?.vanity ?? "").trim();
+    if (vanityId) {
+      const pattern = vanityPatternFor(vanityId);
+      if (!pattern) {
+        return bad("vanity must be one of the offered patterns", 400, {
+          code: "VANITY_UNKNOWN",
+          patterns: VANITY_PATTERNS,
+        });
       }
-    } catch (chainErr: any) {
-      console.error("[/api/coins] on-chain init failed:", chainErr);
+      const lease = await leaseVanityMint(pattern, clientKey(req));
+      if (!lease.ok) {
+        return bad(lease.error, lease.code === "VANITY_RATE_LIMITED" ? 429 : 409, {
+          code: lease.code,
+        });
+      }
+      vanityKp = lease.keypair;
+    }
+
+    const conn = new Connection(RPC_URL, "confirmed");
+    let built: BuiltLaunch;
+    let draft: LaunchCoinRow;
+    try {
+      built = await buildLaunchTx(conn, row, firstBuy, vanityKp ?? undefined);
+
+      // `draft` until the chain shows the curve (lib/launchStatus.ts)
+      draft = await insertLaunchDraft(row, built);
+    } catch (e) {
+      // The tx never left the server, so the key is still unused
+      if (vanityKp) await releaseVanityMint(vanityKp.publicKey.toBase58());
+      throw e;
     }
+    if (vanityKp) await recordVanityLease(built.mint, draft.id);
+    if (firstBuy?.referrer && firstBuy.terms.fee.referral > 0) {
+      await recordTradeReferral({
+        trader: row.creator,
+        blockhash: built.blockhash,
+        referrer: firstBuy.referrer.toBase58(),
+      });
+    }
+
+    console.log(
+      "[/api/coins] launch prepared:",
+      built.mint,
+      "creator:",
+      row.creator,
+      "firstBuyLamports:",
+      firstBuy?.terms.lamportsGross ?? 0,
+      "vanity:",
+      vanityKp ? vanityId : null
+    );
 
     return ok({
-      coin: data,
-      onchain: { mint, signature: sig },
+      launch: signLaunch(built.mint, draft.id),
+      coinId: draft.id,
+      mint: built.mint,
+      tokenProgram: row.token_program,
+      txB64: Buffer.from(built.tx.serialize()).toString("base64"),
+      blockhash: built.blockhash,
+      lastValidBlockHeight: built.lastValidBlockHeight,
+      version: 0,
+      firstBuy: firstBuy ? firstBuyJson(firstBuy) : null,
     });
   } catch (e: any) {
     console.error("[/api/coins] POST error:", e);
@@ -0,0 +1,130 @@
+// src/app/api/creator/[wallet]/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { PUBLIC_LAUNCH_STATUSES } from "@/lib/launchStatus";
+import { RPC_URL } from "@/lib/config";
+import { loadCurveSnapshot } from "@/lib/tradeQuote";
+import { feeTotalsByCoin } from "@/lib/creatorFees";
+import { indexCoin } from "@/lib/indexer";
+
+function bad(msg: string, code = 400) {
+  return NextResponse.json({ error: msg }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+/**
+ * GET /api/creator/[wallet]
+ * Every coin `wallet` launched with creator fees earned, trade counts and
+ * the curve PDA's balance. Indexes each coin's new trades first (pass
+ * `?sync=0` to read the ledger as-is).
+ *
+ * `canWithdraw` is true only when the on-chain CurveState.creator is this
+ * wallet – the program rejects `withdraw` from anyone else.
+ */
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ wallet: string }> }
+) {
+  try {
+    const { wallet: raw } = await ctx.params;
+    let wallet: string;
+    try {
+      wallet = new PublicKey((raw || "").trim()).toBase58();
+    } catch {
+      return bad("Invalid wallet");
+    }
+    const sync = new URL(req.url).searchParams.get("sync") !== "0";
+
+    const { data: coins, error } = await supabaseAdmin
+      .from("coins")
+      .select(
+        "id, name, symbol, logo_url, mint, curve, created_at, creator, creator_fee_bps, creator_buy_fee_bps"
+      )
+      .eq("creator", wallet)
+      .in("launch_status", PUBLIC_LAUNCH_STATUSES)
+      .order("created_at", { ascending: false });
+    if (error) return bad(error.message, 500);
+
+    const conn = new Connection(RPC_URL, "confirmed");
+    const rentExempt = await conn.getMinimumBalanceForRentExemption(0);
+
+    // Sync + read chain state per coin; one bad coin shouldn't hide the rest
+    const chain: Record<string, { poolLamports: number; stateCreator: string | null }> = {};
+    const syncErrors: Record<string, string> = {};
+    for (const c of coins ?? []) {
+      if (!c.mint) continue;
+      if (sync) {
+        try {
+          await indexCoin(conn, { id: c.id, mint: c.mint, creator: wallet });
+        } catch (e) {
+          console.warn("[CREATOR] fee sync failed:", c.mint, e);
+          syncErrors[c.id] = e instanceof Error ? e.message : "sync failed";
+        }
+      }
+      try {
+        const snap = await loadCurveSnapshot(conn, new PublicKey(c.mint));
+        chain[c.id] = {
+          poolLamports: snap?.lamports ?? 0,
+          stateCreator: snap?.creator ?? null,
+        };
+      } catch (e) {
+        console.warn("[CREATOR] curve state read failed:", c.mint, e);
+      }
+    }
+
+    const totals = await feeTotalsByCoin((coins ?? []).map((c) => c.id));
+
+    const rows = (coins ?? []).map((c) => {
+      const t = totals[c.id];
+      const s = chain[c.id];
+      const poolLamports = s?.poolLamports ?? 0;
+      const withdrawableLamports = Math.max(0, poolLamports - rentExempt);
+      return {
+        id: c.id,
+        name: c.name,
+        symbol: c.symbol,
+        logoUrl: c.logo_url ?? null,
+        mint: c.mint ?? null,
+        curve: c.curve,
+        createdAt: c.created_at,
+        creatorFeeBps: c.creator_fee_bps ?? null,
+        creatorBuyFeeBps: c.creator_buy_fee_bps ?? null,
+        feesEarnedLamports: t.creatorFeeLamports,
+        feesEarnedSol: t.creatorFeeLamports / LAMPORTS_PER_SOL,
+        volumeSol: t.volumeLamports / LAMPORTS_PER_SOL,
+        trades: t.trades,
+        buys: t.buys,
+        sells: t.sells,
+        poolLamports,
+        poolSol: poolLamports / LAMPORTS_PER_SOL,
+        withdrawableLamports,
+        stateCreator: s?.stateCreator ?? null,
+        canWithdraw: s?.stateCreator === wallet && withdrawableLamports > 0,
+        syncError: syncErrors[c.id] ?? null,
+      };
+    });
+
+    const earned = rows.reduce((sum, r) => sum + r.feesEarnedLamports, 0);
+
+    return ok({
+      wallet,
+      coins: rows,
+      totals: {
+        coins: rows.length,
+        feesEarnedLamports: earned,
+        feesEarnedSol: earned / LAMPORTS_PER_SOL,
+        trades: rows.reduce((sum, r) => sum + r.trades, 0),
+      },
+    });
+  } catch (e) {
+    console.error("[CREATOR] GET error:", e);
+    return bad(e instanceof Error ? e.message : "creator lookup failed", 500);
+  }
+}
@@ -0,0 +1,136 @@
+// src/app/api/creator/[wallet]/withdraw/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import {
+  Connection,
+  PublicKey,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { RPC_URL } from "@/lib/config";
+import { loadCurveSnapshot, maxPoolPayout } from "@/lib/tradeQuote";
+import { buildWithdrawIx } from "@/lib/programIx";
+
+function bad(msg: string, code = 400, extra: Record<string, unknown> = {}) {
+  return NextResponse.json({ error: msg, ...extra }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+/**
+ * POST /api/creator/[wallet]/withdraw  { coinId, lamports?, to? }
+ * Builds an unsigned `withdraw` tx (v0, fee payer = creator) that moves SOL
+ * out of the coin's curve PDA. Defaults to everything above rent-exempt,
+ * paid to the creator's own wallet.
+ */
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ wallet: string }> }
+) {
+  try {
+    const { wallet: raw } = await ctx.params;
+    let creator: PublicKey;
+    try {
+      creator = new PublicKey((raw || "").trim());
+    } catch {
+      return bad("Invalid wallet");
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const coinId = String(body?.coinId ?? "").trim();
+    if (!coinId) return bad("Missing coinId");
+
+    let to = creator;
+    if (body?.to) {
+      try {
+        to = new PublicKey(String(body.to));
+      } catch {
+        return bad("Invalid 'to' address");
+      }
+    }
+
+    const { data: coin, error } = await supabaseAdmin
+      .from("coins")
+      .select("id, mint, creator")
+      .eq("id", coinId)
+      .maybeSingle();
+    if (error) return bad(error.message, 500);
+    if (!coin) return bad("Coin not found", 404);
+    if (!coin.mint) return bad("Coin mint not set yet");
+    if (coin.creator !== creator.toBase58()) {
+      return bad("Wallet is not this coin's creator", 403, { code: "NOT_CREATOR" });
+    }
+
+    const conn = new Connection(RPC_URL, "confirmed");
+    const mintPk = new PublicKey(coin.mint);
+    const snapshot = await loadCurveSnapshot(conn, mintPk);
+    if (!snapshot) return bad("Curve state not initialized", 400);
+
+    // The program checks the signer against state.creator, which is whoever
+    // paid create_curve – for coins launched through POST /api/coins that is
+    // the server key, not the wallet recorded in the coins table.
+    if (snapshot.creator !== creator.toBase58()) {
+      return bad(
+        "This curve's on-chain creator is a different key, so the program will reject a withdraw signed by this wallet",
+        403,
+        { code: "STATE_CREATOR_MISMATCH", stateCreator: snapshot.creator }
+      );
+    }
+
+    const available = await maxPoolPayout(conn, snapshot);
+    if (available <= 0n) return bad("Nothing to withdraw", 400, { availableLamports: "0" });
+
+    let lamports = available;
+    if (body?.lamports != null && body.lamports !== "") {
+      try {
+        lamports = BigInt(String(body.lamports));
+      } catch {
+        return bad("Invalid lamports");
+      }
+      if (lamports <= 0n) return bad("lamports must be > 0");
+      if (lamports > available) {
+        return bad("Amount exceeds the withdrawable pool balance", 400, {
+          availableLamports: available.toString(),
+        });
+      }
+    }
+
+    const { blockhash, lastValidBlockHeight } = await conn.getLatestBlockhash("confirmed");
+    const messageV0 = new TransactionMessage({
+      payerKey: creator,
+      recentBlockhash: blockhash,
+      instructions: [buildWithdrawIx({ creator, to, mint: mintPk, lamports })],
+    }).compileToV0Message();
+    const txB64 = Buffer.from(new VersionedTransaction(messageV0).serialize()).toString(
+      "base64"
+    );
+
+    console.log(
+      "[WITHDRAW] creator:",
+      creator.toBase58(),
+      "mint:",
+      coin.mint,
+      "to:",
+      to.toBase58(),
+      "lamports:",
+      lamports.toString()
+    );
+
+    return ok({
+      txB64,
+      blockhash,
+      lastValidBlockHeight,
+      version: 0,
+      lamports: lamports.toString(),
+      availableLamports: available.toString(),
+      to: to.toBase58(),
+    });
+  } catch (e) {
+    console.error("[WITHDRAW] error:", e);
+    return bad(e instanceof Error ? e.message : "withdraw failed", 500);
+  }
+}
@@ -1,14 +1,11 @@
 export const runtime = 'nodejs';
-import { TREASURY_PK } from "@/lib/config";
+import { RPC_URL, SITE_BASE, maskRpcUrl } from "@/lib/config";
 
 import { NextResponse } from 'next/server';
 
 export async function GET() {
   try {
-    const rpc =
-      process.env.NEXT_PUBLIC_HELIUS_RPC ||
-      process.env.RPC ||
-      '';
+    const rpc = RPC_URL;
 
     // Try to hit the RPC (but don't crash if it fails)
     let blockhash: string | null = null;
@@ -47,7 +44,7 @@ export async function GET() {
     }
 
     return NextResponse.json({
-      hasRPC: Boolean(process.env.NEXT_PUBLIC_HELIUS_RPC || process.env.RPC),
+      hasRPC: Boolean(rpc),
       hasSUPABASE_URL: Boolean(process.env.SUPABASE_URL),
       hasSERVICE_ROLE: Boolean(process.env.SUPABASE_SERVICE_ROLE_KEY),
       hasKEYPAIR: Boolean(process.env.MINT_AUTHORITY_KEYPAIR),
@@ -55,10 +52,10 @@ export async function GET() {
       keypairLen,
       hasNEXT_PUBLIC_SUPABASE_URL: Boolean(process.env.NEXT_PUBLIC_SUPABASE_URL),
       hasNEXT_PUBLIC_SUPABASE_ANON_KEY: Boolean(process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY),
-hasNEXT_PUBLIC_TREASURY: Boolean(TREASURY_PK),
+      hasNEXT_PUBLIC_TREASURY: Boolean(process.env.NEXT_PUBLIC_TREASURY),
 
-      siteBase: process.env.SITE_BASE || 'http://localhost:3000',
-      rpc: rpc || null,
+      siteBase: SITE_BASE,
+      rpc: maskRpcUrl(rpc),
       blockhash,
       error: rpcError,
     });
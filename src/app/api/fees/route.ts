@@ -0,0 +1,43 @@
+// src/app/api/fees/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { FEE_SCHEDULE, volumeDiscountBpsFor } from "@/lib/fees";
+import { walletVolumeSol } from "@/lib/store";
+
+function bad(msg: string, code = 400) {
+  return NextResponse.json({ error: msg }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+/**
+ * GET /api/fees?wallet=
+ * The fee schedule plus (optionally) a wallet's trailing volume and the
+ * discount it earns, so UI previews price fees exactly like the routes.
+ */
+export async function GET(req: Request) {
+  try {
+    const wallet = new URL(req.url).searchParams.get("wallet")?.trim() || null;
+
+    let volumeSol = 0;
+    if (wallet) {
+      try {
+        volumeSol = await walletVolumeSol(wallet, FEE_SCHEDULE.volumeWindowDays);
+      } catch (e) {
+        console.warn("[/api/fees] walletVolumeSol failed:", e);
+      }
+    }
+
+    return ok({
+      schedule: FEE_SCHEDULE,
+      wallet,
+      walletVolumeSol: volumeSol,
+      volumeDiscountBps: volumeDiscountBpsFor(volumeSol),
+    });
+  } catch (e) {
+    console.error("[/api/fees] GET error:", e);
+    return bad(e instanceof Error ? e.message : "fees lookup failed", 500);
+  }
+}
@@ -2,6 +2,8 @@ export const runtime = 'nodejs';
 
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { RPC_URL, SITE_BASE } from '@/lib/config';
+import { isToken2022, tokenProgramFor } from '@/lib/tokenProgram';
 import { createUmi } from '@metaplex-foundation/umi-bundle-defaults';
 import {
   findMetadataPda,
@@ -22,17 +24,12 @@ export async function POST(
   const { mint } = await ctx.params;
 
   // Use your existing envs
-  const RPC = process.env.RPC ?? process.env.NEXT_PUBLIC_HELIUS_RPC;
+  const RPC = RPC_URL;
   const SUPABASE_URL =
     process.env.SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL;
   const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
   const KEY_JSON =
     process.env.PLATFORM_KEYPAIR_JSON ?? process.env.MINT_AUTHORITY_KEYPAIR;
-  const SITE_BASE =
-    process.env.SITE_BASE ||
-    (process.env.VERCEL_URL
-      ? `https://${process.env.VERCEL_URL}`
-      : 'http://localhost:3000');
 
   if (!RPC || !SUPABASE_URL || !SUPABASE_KEY || !KEY_JSON) {
     return NextResponse.json(
@@ -49,7 +46,7 @@ export async function POST(
   const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
   const { data, error } = await supabase
     .from('coins')
-    .select('name,symbol,description,logo_url,mint,version')
+    .select('name,symbol,description,logo_url,mint,version,token_program')
     .eq('mint', mint)
     .maybeSingle();
 
@@ -60,6 +57,14 @@ export async function POST(
     );
   }
 
+  // Token-2022 coins carry their metadata on the mint (lib/tokenProgram.ts)
+  if (isToken2022(tokenProgramFor(data))) {
+    return NextResponse.json(
+      { ok: false, error: 'Token-2022 coins have on-mint metadata, not Metaplex' },
+      { status: 409 }
+    );
+  }
+
   // 2) Build URI to your live JSON (use version if present)
   const version = (data as any).version ?? 1;
   const uri = `${SITE_BASE}/api/metadata/${mint}.json?v=${version}`;
@@ -0,0 +1,76 @@
+// src/app/api/indexer/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { Connection } from "@solana/web3.js";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { RPC_URL } from "@/lib/config";
+import { indexAllCoins, indexCoin, type IndexMode } from "@/lib/indexer";
+import { isAdminRequest } from "@/lib/adminAuth";
+
+function bad(msg: string, code = 400) {
+  return NextResponse.json({ error: msg }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+async function run(mode: IndexMode, coinId: string | null) {
+  const conn = new Connection(RPC_URL, "confirmed");
+
+  if (!coinId) {
+    const { results, errors } = await indexAllCoins(conn, mode);
+    return ok({ mode, rpc: RPC_URL, results, errors });
+  }
+
+  const { data: coin, error } = await supabaseAdmin
+    .from("coins")
+    .select("id, mint, creator")
+    .eq("id", coinId)
+    .maybeSingle();
+  if (error) return bad(error.message, 500);
+  if (!coin) return bad("Coin not found", 404);
+  if (!coin.mint) return bad("Coin mint not set yet");
+
+  const result = await indexCoin(conn, coin, mode);
+  return ok({ mode, rpc: RPC_URL, results: [result], errors: [] });
+}
+
+/**
+ * POST /api/indexer  { mode?: "incremental" | "backfill", coinId? }
+ * Indexes curve PDA trades into `trades`. Without coinId, every coin.
+ *
+ * Needs `Authorization: Bearer <INDEXER_SECRET or CRON_SECRET>`.
+ *
+ * Local validator: run `next dev` with RPC=http://127.0.0.1:8899,
+ * INDEXER_SECRET set and the program deployed there, trade once, then
+ * POST { "mode": "backfill" } with the secret.
+ */
+export async function POST(req: Request) {
+  try {
+    if (!isAdminRequest(req, "INDEXER_SECRET")) return bad("Unauthorized", 401);
+
+    const body = await req.json().catch(() => ({}));
+    const mode = (body?.mode ?? "incremental") as IndexMode;
+    if (mode !== "incremental" && mode !== "backfill") {
+      return bad('mode must be "incremental" or "backfill"');
+    }
+    const coinId = body?.coinId ? String(body.coinId).trim() : null;
+
+    return await run(mode, coinId);
+  } catch (e) {
+    console.error("[INDEXER] POST error:", e);
+    return bad(e instanceof Error ? e.message : "indexer failed", 500);
+  }
+}
+
+/** GET /api/indexer – incremental pass over every coin (cron-friendly). */
+export async function GET(req: Request) {
+  try {
+    if (!isAdminRequest(req, "INDEXER_SECRET")) return bad("Unauthorized", 401);
+    return await run("incremental", null);
+  } catch (e) {
+    console.error("[INDEXER] GET error:", e);
+    return bad(e instanceof Error ? e.message : "indexer failed", 500);
+  }
+}
@@ -0,0 +1,48 @@
+// src/app/api/launches/sweep/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { Connection } from "@solana/web3.js";
+import { RPC_URL } from "@/lib/config";
+import { isAdminRequest } from "@/lib/adminAuth";
+import { sweepLaunches } from "@/lib/launchStatus";
+
+function bad(msg: string, code = 400) {
+  return NextResponse.json({ error: msg }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+async function run(limit: number) {
+  const result = await sweepLaunches(new Connection(RPC_URL, "confirmed"), limit);
+  return ok(result);
+}
+
+/**
+ * GET /api/launches/sweep – repairs stuck launches, deletes failed ones
+ * and reclaims their vanity keys (lib/launchStatus.ts). Runs from the Vercel cron in vercel.json, which
+ * sends CRON_SECRET; POST `{ limit? }` with LAUNCH_ADMIN_SECRET (same as
+ * /api/coins/[id]/resume) for a manual run.
+ */
+export async function GET(req: Request) {
+  try {
+    if (!isAdminRequest(req, "LAUNCH_ADMIN_SECRET")) return bad("Unauthorized", 401);
+    return await run(50);
+  } catch (e) {
+    console.error("[LAUNCH] sweep GET error:", e);
+    return bad(e instanceof Error ? e.message : "sweep failed", 500);
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    if (!isAdminRequest(req, "LAUNCH_ADMIN_SECRET")) return bad("Unauthorized", 401);
+    const body = await req.json().catch(() => ({}));
+    const limit = Math.max(1, Math.min(500, Math.floor(Number(body?.limit ?? 50)) || 50));
+    return await run(limit);
+  } catch (e) {
+    console.error("[LAUNCH] sweep POST error:", e);
+    return bad(e instanceof Error ? e.message : "sweep failed", 500);
+  }
+}
@@ -1,6 +1,7 @@
 // src/app/api/meta/[mint]/route.ts
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { SITE_BASE } from "@/lib/config";
 
 function bad(message: string, status = 400, extra: any = {}) {
   return NextResponse.json({ error: message, ...extra }, { status });
@@ -41,11 +42,7 @@ export async function GET(
       return bad("Coin not found for mint", 404, { mint: mintStr });
     }
 
-    const siteBase =
-      process.env.NEXT_PUBLIC_METADATA_BASE_URL ||
-      process.env.SITE_BASE ||
-      process.env.NEXT_PUBLIC_SITE_URL ||
-      "https://winky-launchpad.vercel.app";
+    const siteBase = SITE_BASE;
 
     const siteBaseTrimmed = siteBase.replace(/\/$/, "");
 
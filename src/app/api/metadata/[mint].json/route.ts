@@ -2,6 +2,7 @@
 
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { SITE_BASE } from "@/lib/config";
 
 export const runtime = "nodejs";
 
@@ -39,9 +40,9 @@ export async function GET(_req: Request, ctx: RouteCtx) {
     console.warn("[metadata.json] No coin found for mint:", mintStr);
     // Fallback generic metadata so Phantom at least shows *something*
     const fallback = {
-      name: "SolCurve.fun devnet coin",
+      name: "SolCurve.fun coin",
       symbol: "",
-      description: "Devnet testing coin on SolCurve.fun",
+      description: "Coin launched on SolCurve.fun",
       image: "",
       external_url: "https://solcurve.fun",
     };
@@ -54,10 +55,7 @@ export async function GET(_req: Request, ctx: RouteCtx) {
   }
 
   // This base is ONLY used for `external_url`, *not* for on-chain URI.
-  const siteBase =
-    process.env.NEXT_PUBLIC_SITE_URL ||
-    process.env.SITE_BASE ||
-    "https://solcurve.fun";
+  const siteBase = SITE_BASE;
 
   const name = coin.name || coin.symbol || "SolCurve.fun Coin";
   const symbol = coin.symbol || "";
@@ -0,0 +1,16 @@
+// src/app/api/ops/config/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { describeConfig } from "@/lib/config";
+
+/**
+ * GET /api/ops/config
+ * Effective cluster config (see lib/config.ts): resolved values, with RPC
+ * api keys masked, and which env var or profile each one came from. If the
+ * config were invalid the server wouldn't have started, so this only ever
+ * shows a config that passed validation.
+ */
+export async function GET() {
+  return NextResponse.json(describeConfig());
+}
@@ -1,18 +1,15 @@
 // src/app/api/ops/health/route.ts
 export const runtime = 'nodejs';
-import { TREASURY_PK } from "@/lib/config";
+import { CLUSTER, RPC_URL, TOKEN_PROGRAM_ID, TREASURY_PK } from "@/lib/config";
 import { NextResponse } from 'next/server';
 import { Connection, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
-import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { ataFor, mintTokenProgram } from "@/lib/tokenProgram";
+import { vanityPoolDepth, type VanityDepth } from "@/lib/vanity";
 
 export async function GET() {
   try {
-    // 1) Pick RPC (helius if present, else fallback)
-    const rpc =
-      process.env.NEXT_PUBLIC_HELIUS_RPC ||
-      process.env.NEXT_PUBLIC_RPC ||
-      process.env.NEXT_PUBLIC_SOLANA_RPC ||
-      'https://api.devnet.solana.com';
+    // 1) RPC from lib/config (effective config: /api/ops/config)
+    const rpc = RPC_URL;
 
     const conn = new Connection(rpc, 'confirmed');
 
@@ -36,7 +33,7 @@ if (!trePub) {
     let vaultATA: string | null = null;
     let vaultTokens: string | null = null;
     if (MINT) {
-      const vault = getAssociatedTokenAddressSync(MINT, TREASURY);
+      const vault = ataFor(MINT, TREASURY, (await mintTokenProgram(conn, MINT)) ?? TOKEN_PROGRAM_ID);
       vaultATA = vault.toBase58();
 
 try {
@@ -47,9 +44,18 @@ try {
     vaultTokens = '0';
   }
 }
+    // 5) Vanity mint pool depth per pattern (lib/vanity); null if unreadable
+    let vanityPool: VanityDepth[] | null = null;
+    try {
+      vanityPool = await vanityPoolDepth();
+    } catch (e) {
+      console.warn('[HEALTH] vanityPoolDepth failed:', e);
+    }
+
     return NextResponse.json({
       env: {
         vercelEnv: process.env.VERCEL_ENV || '(unknown)',
+        cluster: CLUSTER,
         rpcProvider: rpc.includes('helius') ? 'helius' : 'solana',
         treasury: TREASURY.toBase58(),
         mint: MINT ? MINT.toBase58() : null,
@@ -59,6 +65,7 @@ try {
         vaultATA,
         vaultTokens,
       },
+      vanityPool,
     });
   } catch (e: any) {
     return NextResponse.json({ error: e?.message || String(e) }, { status: 500 });
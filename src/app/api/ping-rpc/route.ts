@@ -1,26 +1,10 @@
 export const runtime = 'nodejs';
 import { NextResponse } from 'next/server';
 import { Connection } from '@solana/web3.js';
+import { RPC_URL, describeConfig, maskRpcUrl } from '@/lib/config';
 
 function pickRpc() {
-  const helius = process.env.NEXT_PUBLIC_HELIUS_RPC?.trim();
-  const server = process.env.RPC?.trim();
-  const fallback = 'https://api.devnet.solana.com';
-
-  let rpc = helius || server || fallback;
-  let source: 'NEXT_PUBLIC_HELIUS_RPC' | 'RPC' | 'default' =
-    helius ? 'NEXT_PUBLIC_HELIUS_RPC' : server ? 'RPC' : 'default';
-
-  // mask api key if present
-  let masked = rpc;
-  try {
-    const u = new URL(rpc);
-    if (u.searchParams.has('api-key')) {
-      u.searchParams.set('api-key', '***');
-      masked = u.toString();
-    }
-  } catch {}
-  return { rpc, masked, source };
+  return { rpc: RPC_URL, masked: maskRpcUrl(RPC_URL), source: describeConfig().sources.rpcUrl };
 }
 
 export async function GET() {
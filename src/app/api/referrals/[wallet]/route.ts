@@ -0,0 +1,87 @@
+// src/app/api/referrals/[wallet]/route.ts
+export const runtime = "nodejs";
+
+import { NextResponse } from "next/server";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { RPC_URL } from "@/lib/config";
+import { FEE_SCHEDULE } from "@/lib/fees";
+import { referralTotals } from "@/lib/creatorFees";
+import { indexAllCoins } from "@/lib/indexer";
+
+function bad(msg: string, code = 400) {
+  return NextResponse.json({ error: msg }, { status: code });
+}
+function ok(data: unknown, code = 200) {
+  return NextResponse.json(data, { status: code });
+}
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+/**
+ * GET /api/referrals/[wallet]
+ * Volume referred by `wallet` (trades sent with `?ref=<wallet>`) and the
+ * referral fees it earned, per coin, from the decoded trade ledger. Pass
+ * `?sync=1` to index new trades on every coin first.
+ */
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ wallet: string }> }
+) {
+  try {
+    const { wallet: raw } = await ctx.params;
+    let wallet: string;
+    try {
+      wallet = new PublicKey((raw || "").trim()).toBase58();
+    } catch {
+      return bad("Invalid wallet");
+    }
+
+    if (new URL(req.url).searchParams.get("sync") === "1") {
+      await indexAllCoins(new Connection(RPC_URL, "confirmed"));
+    }
+
+    const totals = await referralTotals(wallet);
+
+    // Names for the coins this wallet referred into
+    const ids = totals.coins.map((c) => c.coinId);
+    const names: Record<string, { name: string; symbol: string }> = {};
+    if (ids.length) {
+      const { data, error } = await supabaseAdmin
+        .from("coins")
+        .select("id, name, symbol")
+        .in("id", ids);
+      if (error) return bad(error.message, 500);
+      for (const c of data ?? []) names[c.id] = { name: c.name, symbol: c.symbol };
+    }
+
+    const coins = totals.coins
+      .map((c) => ({
+        ...c,
+        name: names[c.coinId]?.name ?? null,
+        symbol: names[c.coinId]?.symbol ?? null,
+        referredVolumeSol: c.referredVolumeLamports / LAMPORTS_PER_SOL,
+        earnedSol: c.earnedLamports / LAMPORTS_PER_SOL,
+      }))
+      .sort((a, b) => b.earnedLamports - a.earnedLamports);
+
+    const volume = coins.reduce((s, c) => s + c.referredVolumeLamports, 0);
+    const earned = coins.reduce((s, c) => s + c.earnedLamports, 0);
+
+    return ok({
+      wallet,
+      referralShareBps: FEE_SCHEDULE.referralShareBps,
+      totals: {
+        referredTraders: totals.traders,
+        trades: coins.reduce((s, c) => s + c.trades, 0),
+        referredVolumeSol: volume / LAMPORTS_PER_SOL,
+        earnedLamports: earned,
+        earnedSol: earned / LAMPORTS_PER_SOL,
+      },
+      coins,
+    });
+  } catch (e) {
+    console.error("[REFERRALS] GET error:", e);
+    return bad(e instanceof Error ? e.message : "referral lookup failed", 500);
+  }
+}
@@ -0,0 +1,29 @@
+// src/app/api/vanity/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { parseVanityPattern, vanityPoolDepth } from "@/lib/vanity";
+
+/**
+ * GET /api/vanity
+ * Vanity mint patterns a launch can ask for (`vanity` on POST /api/coins)
+ * and how many addresses are ready for each.
+ */
+export async function GET() {
+  try {
+    const depth = await vanityPoolDepth();
+    return NextResponse.json({
+      patterns: depth.map((d) => ({
+        ...parseVanityPattern(d.pattern),
+        available: d.available,
+      })),
+    });
+  } catch (e) {
+    console.error("[VANITY] GET error:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "vanity failed" },
+      { status: 500 }
+    );
+  }
+}
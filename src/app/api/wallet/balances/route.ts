@@ -1,19 +1,20 @@
-// src/app/api/debug/wallet-balances/route.ts
+// src/app/api/wallet/balances/route.ts
 export const runtime = "nodejs";
 
 import { NextResponse } from "next/server";
 import { Connection, PublicKey } from "@solana/web3.js";
-import { getAssociatedTokenAddressSync } from "@solana/spl-token";
 
 import { RPC_URL, TOKEN_PROGRAM_ID } from "@/lib/config";
+import { ataFor, mintTokenProgram } from "@/lib/tokenProgram";
 
-function bad(msg: string, code = 400, extra: any = {}) {
+function bad(msg: string, code = 400, extra: Record<string, unknown> = {}) {
   return NextResponse.json({ error: msg, ...extra }, { status: code });
 }
-function ok(data: any, code = 200) {
+function ok(data: unknown, code = 200) {
   return NextResponse.json(data, { status: code });
 }
 
+// GET /api/wallet/balances?wallet=&mint= – token balance of the wallet's ATA
 export async function GET(req: Request) {
   try {
     const url = new URL(req.url);
@@ -35,13 +36,10 @@ export async function GET(req: Request) {
 
     const conn = new Connection(RPC_URL, "confirmed");
 
-    // Derive the ATA exactly like Phantom
-    const ata = getAssociatedTokenAddressSync(
-      mintPk,
-      walletPk,
-      false,
-      TOKEN_PROGRAM_ID
-    );
+    // Derive the ATA exactly like Phantom, under the mint's own program
+    // (an unknown mint just reads as a zero balance)
+    const tokenProgram = (await mintTokenProgram(conn, mintPk)) ?? TOKEN_PROGRAM_ID;
+    const ata = ataFor(mintPk, walletPk, tokenProgram);
 
     let balanceRaw = "0";
     let decimals = 0;
@@ -63,14 +61,15 @@ export async function GET(req: Request) {
       wallet: walletPk.toBase58(),
       mint: mintPk.toBase58(),
       ata: ata.toBase58(),
+      tokenProgram: tokenProgram.toBase58(),
       balanceRaw,
       decimals,
       uiAmount,
       uiAmountString,
     });
-  } catch (e: any) {
-    console.error("[/api/debug/wallet-balances] error:", e);
-    return bad(e?.message || "wallet-balances failed", 500);
+  } catch (e) {
+    console.error("[/api/wallet/balances] error:", e);
+    return bad(e instanceof Error ? e.message : "wallet-balances failed", 500);
   }
 }
 
@@ -1,9 +1,11 @@
+// src/app/api/wallet/sol/route.ts
 import { NextResponse } from "next/server";
 import { Connection, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
 import { RPC_URL } from "@/lib/config";
 
 export const runtime = "nodejs";
 
+// GET /api/wallet/sol?wallet= – SOL balance (the coin page polls this)
 export async function GET(req: Request) {
   try {
     const { searchParams } = new URL(req.url);
@@ -35,10 +37,10 @@ export async function GET(req: Request) {
       lamports,
       sol,
     });
-  } catch (e: any) {
+  } catch (e) {
     console.error("[wallet-sol] error:", e);
     return NextResponse.json(
-      { error: e?.message || "wallet-sol failed" },
+      { error: e instanceof Error ? e.message : "wallet-sol failed" },
       { status: 500 }
     );
   }
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { useParams, useSearchParams } from "next/navigation";
@@ -15,13 +15,27 @@ import {
 import { Buffer } from "buffer";
 
 import {
-  quoteTokensUi,
-  quoteSellTokensUi,
+  quoteBuy,
+  quoteSell,
+  curveParamsFromRow,
   type CurveName,
   MIGRATION_TOKENS,
 } from "@/lib/curve";
-import { TOTAL_BUY_BPS, TOTAL_SELL_BPS } from "@/lib/fees";
+import { getCurve } from "@/lib/curves";
+import { computeFeeLamports, type FeeContext } from "@/lib/fees";
+import {
+  DEFAULT_SLIPPAGE_BPS,
+  SLIPPAGE_PRESETS_BPS,
+  withSlippage,
+} from "@/lib/slippage";
+import { REFERRAL_STORAGE_KEY, parseReferrer } from "@/lib/referrals";
+import { CLUSTER_NAME, IS_MAINNET } from "@/lib/cluster";
+import { explorerAddressUrl } from "@/lib/config";
+import type { CoinStats } from "@/lib/coinStats";
 import CurveChart from "@/components/CurveChart";
+import TradeTape from "@/components/TradeTape";
+import RiskPanel from "@/components/RiskPanel";
+import type { Trade } from "@/lib/types";
 
 type Coin = {
   id: string;
@@ -33,7 +47,11 @@ type Coin = {
   curve: CurveName;
   startPrice: number;
   strength: number;
+  curveParams: Record<string, unknown>;
+  creatorFeeBps: number | null;
+  creatorBuyFeeBps: number | null;
   mint: string | null;
+  creator: string | null;
 };
 
 type CurveStats = {
@@ -47,6 +65,20 @@ type CurveStats = {
   isMigrated: boolean;
   migrationThresholdTokens: number;
   migrationPercent: number;
+  migrationStatus: "pending" | "seeding" | "seeded" | "graduated" | null;
+  tradingFrozen: boolean;
+  poolAddress: string | null;
+};
+
+// The parts of /api/coins/[id]/migration the graduated panel shows
+type MigrationInfo = {
+  record: {
+    solSeeded: number;
+    lpPolicy: "burn" | "lock" | null;
+    lpSig: string | null;
+    lpUnlockAt: string | null;
+  };
+  links: { lpTx: string | null };
 };
 
 const MIGRATE_SOLD_DISPLAY_FALLBACK = MIGRATION_TOKENS;
@@ -55,6 +87,81 @@ function clamp01(x: number) {
   return Math.max(0, Math.min(1, x));
 }
 
+// Stats route / stream payload → what the page shows. MC/FDV are DEX-style
+// (pool SOL × 2) rather than the curve-priced numbers the API sends.
+function toCurveStats(j: Partial<CoinStats>): CurveStats {
+  const poolSol = Number(j.poolSol ?? 0);
+  const soldTokens = Number(j.soldTokens ?? 0);
+  const totalSupplyTokens = Number(j.totalSupplyTokens ?? 0);
+  const priceTokensPerSol = Number(j.priceTokensPerSol ?? 0);
+  const soldDisplayVal = Number(j.soldDisplay ?? j.soldTokens ?? 0);
+
+  const dexMarketCapSol = poolSol > 0 ? poolSol * 2 : 0;
+
+  const circulating = soldDisplayVal || soldTokens || 0;
+  const dexFdvSol =
+    dexMarketCapSol > 0 &&
+    totalSupplyTokens > 0 &&
+    circulating > 0
+      ? dexMarketCapSol * (totalSupplyTokens / circulating)
+      : dexMarketCapSol;
+
+  return {
+    poolSol,
+    soldTokens,
+    totalSupplyTokens,
+    priceTokensPerSol,
+    marketCapSol: dexMarketCapSol,
+    fdvSol: dexFdvSol,
+    soldDisplay: soldDisplayVal,
+    isMigrated: Boolean(j.isMigrated ?? false),
+    migrationThresholdTokens: Number(
+      j.migrationThresholdTokens ?? MIGRATION_TOKENS
+    ),
+    migrationPercent: Number(j.migrationPercent ?? 0),
+    migrationStatus: j.migrationStatus ?? null,
+    tradingFrozen: Boolean(j.tradingFrozen ?? false),
+    poolAddress: j.poolAddress ?? null,
+  };
+}
+
+type TradeErrorBody = {
+  code?: string;
+  error?: string;
+  slippageBps?: number | string;
+  maxTradeSol?: number | string;
+  migrationStatus?: string | null;
+} | null;
+
+// Turns a trade route error payload into something a trader can act on.
+function tradeErrorMessage(j: TradeErrorBody, fallback: string): string {
+  switch (j?.code) {
+    case "SLIPPAGE_EXCEEDED":
+      return `Price moved beyond your ${(Number(j.slippageBps ?? 0) / 100).toFixed(
+        2
+      )}% slippage tolerance. Refresh the quote or raise slippage.`;
+    case "POOL_INSUFFICIENT":
+      return "The curve pool can’t cover this sell right now. Try a smaller amount.";
+    case "INVALID_SLIPPAGE":
+      return j?.error || "Invalid slippage setting.";
+    case "QUOTE_STALE":
+    case "QUOTE_EXPIRED":
+      return "Price changed since your quote. Check the new numbers and try again.";
+    case "QUOTE_INVALID":
+      return "Quote rejected by the server. Try again.";
+    case "QUOTE_FAILED":
+      return "Couldn’t quote this trade against the curve. Try again in a moment.";
+    case "TRADE_TOO_LARGE":
+      return `Trades are capped at ${Number(j.maxTradeSol ?? 0)} SOL per transaction. Split it into smaller trades.`;
+    case "CURVE_MIGRATED":
+      return j?.migrationStatus === "graduated"
+        ? "This coin has graduated – trade it on its pool."
+        : "This curve is moving to a pool. Trading is paused.";
+    default:
+      return j?.error || fallback;
+  }
+}
+
 function normalizeCoin(raw: any): Coin {
   return {
     id: raw.id,
@@ -66,7 +173,18 @@ function normalizeCoin(raw: any): Coin {
     curve: (raw.curve as CurveName) ?? "linear",
     startPrice: raw.startPrice ?? raw.start_price ?? 0,
     strength: raw.strength ?? 1,
+    curveParams:
+      raw.curveParams ??
+      curveParamsFromRow({
+        curve: raw.curve,
+        mint: raw.mint,
+        strength: raw.strength,
+        curve_params: raw.curve_params,
+      }),
+    creatorFeeBps: raw.creatorFeeBps ?? raw.creator_fee_bps ?? null,
+    creatorBuyFeeBps: raw.creatorBuyFeeBps ?? raw.creator_buy_fee_bps ?? null,
     mint: raw.mint ?? null,
+    creator: raw.creator ?? null,
   };
 }
 
@@ -76,7 +194,7 @@ export default function CoinPage() {
   const id = params?.id;
 
   const { connection } = useConnection();
-  const { publicKey, connected, sendTransaction } = useWallet();
+  const { publicKey, connected, sendTransaction, signTransaction } = useWallet();
 
   const [coin, setCoin] = useState<Coin | null>(null);
   const [loading, setLoading] = useState(true);
@@ -86,6 +204,11 @@ export default function CoinPage() {
   const [tokBal, setTokBal] = useState(0);
 
   const [stats, setStats] = useState<CurveStats | null>(null);
+  const [lastTrade, setLastTrade] = useState<Trade | null>(null);
+  // Whether the coin stream is connected; the chart and tape poll otherwise
+  const [streamLive, setStreamLive] = useState(false);
+  // Audit record from /api/coins/[id]/migration once graduated
+  const [migration, setMigration] = useState<MigrationInfo | null>(null);
 
   // BUY input (SOL)
   const [buySol, setBuySol] = useState("0.05");
@@ -95,9 +218,20 @@ export default function CoinPage() {
 
   const [flash, setFlash] = useState<string | null>(null);
   const [pending, setPending] = useState(false);
+  const [migrating, setMigrating] = useState(false);
 
   const [isSelling, setIsSelling] = useState(false);
   const [sellError, setSellError] = useState<string | null>(null);
+  const [buyError, setBuyError] = useState<string | null>(null);
+
+  // Max slippage the routes may accept vs our local quote
+  const [slippageBps, setSlippageBps] = useState(DEFAULT_SLIPPAGE_BPS);
+
+  // Connected wallet's trailing volume (fee schedule discounts)
+  const [walletVolumeSol, setWalletVolumeSol] = useState(0);
+
+  // Referrer from a `?ref=` link (remembered across coins), sent with trades
+  const [referrer, setReferrer] = useState<string | null>(null);
 
   // ----- MIGRATION DERIVED -----
   const soldDisplay = Number(
@@ -117,16 +251,19 @@ export default function CoinPage() {
       ? stats.isMigrated
       : soldDisplay >= migrateThreshold
   );
-
-  // ----- TOKENS PER 1 SOL (SELL SIDE) -----
-  const tokensPerSolSell = useMemo(() => {
-    if (!coin || !stats) return 0;
-    const sd =
-      stats && Number(stats.soldDisplay) > 0
-        ? Number(stats.soldDisplay)
-        : Number(stats.soldTokens ?? 0) || 0;
-    return quoteSellTokensUi(coin.curve, coin.strength, coin.startPrice, 1, sd);
-  }, [coin, stats]);
+  // A complete curve keeps trading until its migration starts
+  const tradingFrozen = Boolean(stats?.tradingFrozen);
+  // Graduated = seeded into its AMM pool; the curve is closed for good
+  const isGraduated = stats?.migrationStatus === "graduated";
+  const poolAddress = stats?.poolAddress ?? null;
+  // Creator-launched curves only migrate with their creator's signature
+  const isCurveCreator = Boolean(publicKey && coin?.creator === publicKey.toBase58());
+
+  // Current sold supply the quotes integrate from
+  const soldForQuote =
+    stats && Number(stats.soldDisplay) > 0
+      ? Number(stats.soldDisplay)
+      : Number(stats?.soldTokens ?? 0) || 0;
 
   // Max tokens user can sell
   const maxSellTokens = useMemo(() => tokBal || 0, [tokBal]);
@@ -139,13 +276,28 @@ export default function CoinPage() {
     return Math.min(t, maxSellTokens);
   }, [sellTokensInput, maxSellTokens]);
 
+  // Same fee inputs the trade routes use (see lib/fees.ts)
+  const feeCtx = useMemo<FeeContext>(
+    () => ({
+      walletVolumeSol,
+      creatorFeeBps: coin?.creatorFeeBps ?? null,
+      creatorBuyFeeBps: coin?.creatorBuyFeeBps ?? null,
+    }),
+    [walletVolumeSol, coin?.creatorFeeBps, coin?.creatorBuyFeeBps]
+  );
+
+  // Exact sell quote: integrates the curve from sold − tokens up to sold
+  const sellQuote = useMemo(() => {
+    if (!coin || !stats) return null;
+    if (!sellTokens || sellTokens <= 0) return null;
+    return quoteSell(coin.curve, coin.curveParams, soldForQuote, sellTokens);
+  }, [coin, stats, soldForQuote, sellTokens]);
+
   // Gross SOL from the curve (no fees), with pool safety clamp
   const sellSolGross = useMemo(() => {
-    if (!coin || !stats) return 0;
-    if (!tokensPerSolSell || tokensPerSolSell <= 0) return 0;
-    if (!sellTokens || sellTokens <= 0) return 0;
+    if (!stats || !sellQuote) return 0;
 
-    let solOut = sellTokens / tokensPerSolSell;
+    let solOut = sellQuote.solAmount;
 
     const poolSol = stats.poolSol ?? 0;
     if (poolSol > 0) {
@@ -154,14 +306,15 @@ export default function CoinPage() {
     }
 
     return solOut;
-  }, [coin, stats, tokensPerSolSell, sellTokens]);
+  }, [stats, sellQuote]);
 
   // Net SOL to user after sell fees
   const sellSolNet = useMemo(() => {
     if (!sellSolGross || sellSolGross <= 0) return 0;
-    const totalSellBps = TOTAL_SELL_BPS; // 50 bps = 0.5%
-    return sellSolGross * (1 - totalSellBps / 10_000);
-  }, [sellSolGross]);
+    const lamports = Math.floor(sellSolGross * LAMPORTS_PER_SOL);
+    const fee = computeFeeLamports(lamports, sellSolGross, "post", feeCtx);
+    return (lamports - fee.feeTotal) / LAMPORTS_PER_SOL;
+  }, [sellSolGross, feeCtx]);
 
   // ----- MC / FDV -----
   const marketCapSol = stats?.marketCapSol ?? 0;
@@ -189,7 +342,12 @@ export default function CoinPage() {
       : "0.0000";
 
   // ---------- HELPERS ----------
-  async function refreshBalances() {
+  // Plain values for hook deps, so effects re-run on what they read
+  const coinId = coin?.id ?? null;
+  const coinMint = coin?.mint ?? null;
+  const walletAddr = publicKey?.toBase58() ?? null;
+
+  const refreshBalances = useCallback(async () => {
     try {
       if (!connected || !publicKey) {
         setSolBal(0);
@@ -198,12 +356,12 @@ export default function CoinPage() {
       }
 
       const walletStr = publicKey.toBase58();
-      const mintStr = coin?.mint;
+      const mintStr = coinMint;
 
       // 1) SOL
       try {
         const solRes = await fetch(
-          `/api/debug/wallet-sol?wallet=${encodeURIComponent(walletStr)}`,
+          `/api/wallet/sol?wallet=${encodeURIComponent(walletStr)}`,
           { cache: "no-store" }
         );
 
@@ -231,7 +389,7 @@ export default function CoinPage() {
 
       try {
         const tokRes = await fetch(
-          `/api/debug/wallet-balances?wallet=${encodeURIComponent(
+          `/api/wallet/balances?wallet=${encodeURIComponent(
             walletStr
           )}&mint=${encodeURIComponent(mintStr)}`,
           { cache: "no-store" }
@@ -260,17 +418,17 @@ export default function CoinPage() {
     } catch (e) {
       console.error("[BALANCES] fatal", e);
     }
-  }
+  }, [connected, publicKey, coinMint]);
 
-  async function refreshStats() {
-    if (!coin?.id) {
+  const refreshStats = useCallback(async () => {
+    if (!coinId) {
       setStats(null);
       return;
     }
 
     try {
       const res = await fetch(
-        `/api/coins/${encodeURIComponent(coin.id)}/stats`,
+        `/api/coins/${encodeURIComponent(coinId)}/stats`,
         { cache: "no-store" }
       );
       const j = await res.json().catch(() => ({} as any));
@@ -280,42 +438,11 @@ export default function CoinPage() {
         return;
       }
 
-      const poolSol = Number(j.poolSol ?? 0);
-      const soldTokens = Number(j.soldTokens ?? 0);
-      const totalSupplyTokens = Number(j.totalSupplyTokens ?? 0);
-      const priceTokensPerSol = Number(j.priceTokensPerSol ?? 0);
-      const soldDisplayVal = Number(j.soldDisplay ?? j.soldTokens ?? 0);
-
-      const dexMarketCapSol = poolSol > 0 ? poolSol * 2 : 0;
-
-      const circulating = soldDisplayVal || soldTokens || 0;
-      const dexFdvSol =
-        dexMarketCapSol > 0 &&
-        totalSupplyTokens > 0 &&
-        circulating > 0
-          ? dexMarketCapSol * (totalSupplyTokens / circulating)
-          : dexMarketCapSol;
-
-      const s: CurveStats = {
-        poolSol,
-        soldTokens,
-        totalSupplyTokens,
-        priceTokensPerSol,
-        marketCapSol: dexMarketCapSol,
-        fdvSol: dexFdvSol,
-        soldDisplay: soldDisplayVal,
-        isMigrated: Boolean(j.isMigrated ?? false),
-        migrationThresholdTokens: Number(
-          j.migrationThresholdTokens ?? MIGRATION_TOKENS
-        ),
-        migrationPercent: Number(j.migrationPercent ?? 0),
-      };
-
-      setStats(s);
+      setStats(toCurveStats(j));
     } catch (e) {
       console.warn("[STATS] fetch error:", e);
     }
-  }
+  }, [coinId]);
 
   // ---------- EFFECTS ----------
   // Load coin
@@ -361,34 +488,101 @@ export default function CoinPage() {
     refreshBalances();
     const t = setInterval(refreshBalances, 8000);
     return () => clearInterval(t);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [connected, publicKey?.toBase58(), coin?.mint ?? null]);
+  }, [connected, publicKey, refreshBalances]);
+
+  // Fee discount tier for the connected wallet
+  useEffect(() => {
+    if (!walletAddr) {
+      setWalletVolumeSol(0);
+      return;
+    }
+    let cancelled = false;
+    fetch(`/api/fees?wallet=${walletAddr}`, { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j) => {
+        if (!cancelled) setWalletVolumeSol(Number(j?.walletVolumeSol ?? 0) || 0);
+      })
+      .catch((e) => console.warn("[FEES] volume lookup failed:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [walletAddr]);
 
-  // Stats polling
+  // Live stats + trades over SSE; polls only while the stream is down
   useEffect(() => {
-    if (!coin?.id) {
+    if (!coinId) {
       setStats(null);
       return;
     }
 
     refreshStats();
 
-    let fastTimer: ReturnType<typeof setTimeout> | null = null;
-    const start = Date.now();
-    const burst = () => {
-      if (Date.now() - start > 15_000) return;
-      refreshStats();
-      fastTimer = setTimeout(burst, 1500);
-    };
-    fastTimer = setTimeout(burst, 1500);
+    let live = false;
+    const es =
+      typeof EventSource !== "undefined"
+        ? new EventSource(`/api/coins/${encodeURIComponent(coinId)}/stream`)
+        : null;
 
-    const steady = setInterval(refreshStats, 8000);
+    if (es) {
+      es.onopen = () => {
+        live = true;
+        setStreamLive(true);
+      };
+      es.onerror = () => {
+        // EventSource reconnects by itself; poll in the meantime
+        live = false;
+        setStreamLive(false);
+      };
+      es.addEventListener("stats", (e) => {
+        try {
+          setStats(toCurveStats(JSON.parse((e as MessageEvent).data)));
+        } catch (err) {
+          console.warn("[STREAM] bad stats event:", err);
+        }
+      });
+      es.addEventListener("trade", (e) => {
+        try {
+          setLastTrade(JSON.parse((e as MessageEvent).data));
+        } catch (err) {
+          console.warn("[STREAM] bad trade event:", err);
+        }
+      });
+    }
+
+    const steady = setInterval(() => {
+      if (!live) refreshStats();
+    }, 8000);
 
     return () => {
-      if (fastTimer) clearTimeout(fastTimer);
+      es?.close();
       clearInterval(steady);
+      setStreamLive(false);
     };
-  }, [coin?.id ?? null]);
+  }, [coinId, refreshStats]);
+
+  // Our own fills (from any tab/device) → refresh wallet balances
+  const ownFill =
+    lastTrade && walletAddr && lastTrade.buyer === walletAddr
+      ? lastTrade.sig ?? lastTrade.id ?? null
+      : null;
+  useEffect(() => {
+    if (ownFill) refreshBalances();
+  }, [ownFill, refreshBalances]);
+
+  // Graduated → load the migration record (LP burn / lock proof)
+  useEffect(() => {
+    if (!coinId || !isGraduated) return;
+    let cancelled = false;
+    fetch(`/api/coins/${encodeURIComponent(coinId)}/migration`, { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j) => {
+        if (!cancelled && j?.record) setMigration(j);
+      })
+      .catch((e) => console.warn("[MIGRATION] record fetch failed:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [coinId, isGraduated]);
 
   // Prefill ?buy=
   useEffect(() => {
@@ -401,29 +595,48 @@ export default function CoinPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [id]);
 
+  // Capture ?ref= (latest link wins), else whatever we remembered
+  useEffect(() => {
+    try {
+      const fromUrl = parseReferrer(searchParams.get("ref"), null);
+      if (fromUrl) {
+        localStorage.setItem(REFERRAL_STORAGE_KEY, fromUrl.toBase58());
+        setReferrer(fromUrl.toBase58());
+      } else {
+        setReferrer(parseReferrer(localStorage.getItem(REFERRAL_STORAGE_KEY), null)?.toBase58() ?? null);
+      }
+    } catch {
+      // ignore (no localStorage)
+    }
+  }, [searchParams]);
+
   // ---------- QUOTES ----------
-  const buyTokens = useMemo(() => {
+  const buyQuote = useMemo(() => {
     const a = Number(buySol);
-    if (!coin || !stats || !Number.isFinite(a) || a <= 0) return 0;
+    if (!coin || !stats || !Number.isFinite(a) || a <= 0) return null;
 
-    const sd =
-      stats && Number(stats.soldDisplay) > 0
-        ? Number(stats.soldDisplay)
-        : Number(stats.soldTokens ?? 0) || 0;
+    const lamportsGross = Math.floor(a * LAMPORTS_PER_SOL);
+    const fee = computeFeeLamports(lamportsGross, a, "pre", feeCtx);
 
-    const totalPreFeeBps = TOTAL_BUY_BPS;
+    const netSol = (lamportsGross - fee.feeTotal) / LAMPORTS_PER_SOL;
+    if (!Number.isFinite(netSol) || netSol <= 0) return null;
 
-    const netSol = a * (1 - totalPreFeeBps / 10_000);
-    if (!Number.isFinite(netSol) || netSol <= 0) return 0;
+    return quoteBuy(coin.curve, coin.curveParams, soldForQuote, netSol);
+  }, [buySol, coin, stats, soldForQuote, feeCtx]);
 
-    return quoteTokensUi(netSol, coin.curve, coin.strength, sd);
-  }, [buySol, coin, stats]);
+  const buyTokens = buyQuote?.tokenAmount ?? 0;
 
   // ---------- ACTIONS ----------
   async function doBuy() {
     try {
-      if (isMigrated) {
-        alert("Curve migrated. Trading is locked; wait for Raydium listing.");
+      setBuyError(null);
+
+      if (tradingFrozen) {
+        alert(
+          isGraduated
+            ? "This coin has graduated. Trade it on its pool."
+            : "Trading is paused while this curve moves to a pool."
+        );
         return;
       }
       if (!connected || !publicKey) {
@@ -445,18 +658,39 @@ export default function CoinPage() {
         return;
       }
 
+      // Lock the server's quote so /buy trades against exactly these numbers
+      const pre = await fetch(
+        `/api/coins/${encodeURIComponent(coin.id)}/buy-preview?amountSol=${sol}&wallet=${publicKey.toBase58()}`,
+        { cache: "no-store" }
+      );
+      const preJson = await pre.json().catch(() => ({} as { quoteId?: string }));
+      if (!pre.ok) {
+        console.warn("[BUY] buy-preview failed, trading unlocked:", preJson);
+      }
+
       const res = await fetch(`/api/coins/${encodeURIComponent(coin.id)}/buy`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           buyer: publicKey.toBase58(),
           amountSol: sol,
+          referrer: referrer ?? undefined,
+          quoteId: pre.ok ? preJson.quoteId : undefined,
+          slippageBps,
+          minTokensOut:
+            buyTokens > 0
+              ? Math.floor(withSlippage(buyTokens, slippageBps))
+              : undefined,
         }),
       });
 
       const j = await res.json().catch(() => ({} as any));
       if (!res.ok || !j?.txB64) {
         console.error("[BUY] /buy error payload:", j);
+        if (j?.code) {
+          setBuyError(tradeErrorMessage(j, "Buy failed"));
+          return;
+        }
         throw new Error(j?.error || "Buy failed");
       }
 
@@ -489,6 +723,64 @@ export default function CoinPage() {
     }
   }
 
+  // Creator-signed migration: /prepare builds the tx, the creator's wallet
+  // signs it, /submit freezes the curve, co-signs and sends it
+  async function doMigrate() {
+    try {
+      if (!coin || !publicKey || !signTransaction) {
+        alert("Connect the creator's wallet first.");
+        return;
+      }
+      setMigrating(true);
+      const base = `/api/coins/${encodeURIComponent(coin.id)}/migrate`;
+
+      const pre = await fetch(`${base}/prepare`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ creator: publicKey.toBase58() }),
+      });
+      const preJson: { txB64?: string; migration?: string; error?: string } = await pre
+        .json()
+        .catch(() => ({}));
+      if (!pre.ok || !preJson?.txB64) {
+        throw new Error(preJson?.error || "Couldn’t prepare the migration");
+      }
+
+      const signed = await signTransaction(
+        Transaction.from(Buffer.from(preJson.txB64, "base64"))
+      );
+
+      const res = await fetch(`${base}/submit`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          migration: preJson.migration,
+          txB64: Buffer.from(signed.serialize({ requireAllSignatures: false })).toString(
+            "base64"
+          ),
+        }),
+      });
+      const j: { code?: string; error?: string } = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        console.error("[MIGRATE] /submit error payload:", j);
+        throw new Error(
+          j?.code === "CURVE_MOVED" || j?.code === "MIGRATION_EXPIRED"
+            ? "The curve traded while you were signing. Try again."
+            : j?.error || "Migration failed"
+        );
+      }
+
+      setFlash("Migrated to its pool ✅");
+      setTimeout(() => setFlash(null), 4000);
+      setTimeout(refreshStats, 1200);
+    } catch (e) {
+      console.error("[MIGRATE] error:", e);
+      alert(e instanceof Error ? e.message : "Unexpected migration error (see console).");
+    } finally {
+      setMigrating(false);
+    }
+  }
+
 async function doSell() {
   try {
     setIsSelling(true);
@@ -509,7 +801,7 @@ async function doSell() {
       return;
     }
 
-    if (!tokensPerSolSell || tokensPerSolSell <= 0) {
+    if (!stats) {
       alert("Price not available yet, try again in a few seconds.");
       return;
     }
@@ -550,7 +842,12 @@ async function doSell() {
     }
 
     // Gross SOL from the curve for this token amount
-    let solGross = tokensUiForTx / tokensPerSolSell;
+    let solGross = quoteSell(
+      coin.curve,
+      coin.curveParams,
+      soldForQuote,
+      tokensUiForTx
+    ).solAmount;
 
     const poolSol = stats?.poolSol ?? 0;
     if (poolSol > 0) {
@@ -563,8 +860,10 @@ async function doSell() {
       return;
     }
 
-    // Net SOL to user after total sell fee (BPS)
-    const solAmount = solGross * (1 - TOTAL_SELL_BPS / 10_000);
+    // Net SOL to user after sell fees (same schedule as the route)
+    const grossLamports = Math.floor(solGross * LAMPORTS_PER_SOL);
+    const sellFee = computeFeeLamports(grossLamports, solGross, "post", feeCtx);
+    const solAmount = (grossLamports - sellFee.feeTotal) / LAMPORTS_PER_SOL;
     if (!Number.isFinite(solAmount) || solAmount <= 0) {
       alert("Quote is zero; nothing to sell.");
       return;
@@ -572,6 +871,16 @@ async function doSell() {
 
     const payer = publicKey.toBase58();
 
+    // Lock the server's quote so /sell pays exactly what it previewed
+    const pre = await fetch(
+      `/api/coins/${encodeURIComponent(coin.id)}/sell-preview?tokensUi=${tokensUiForTx}&wallet=${payer}`,
+      { cache: "no-store" }
+    );
+    const preJson = await pre.json().catch(() => ({} as { quoteId?: string }));
+    if (!pre.ok) {
+      console.warn("[SELL] sell-preview failed, trading unlocked:", preJson);
+    }
+
     const res = await fetch(`/api/coins/${encodeURIComponent(coin.id)}/sell`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
@@ -579,6 +888,10 @@ async function doSell() {
         payer,
         solAmount,          // SOL user should receive (net, after fee)
         tokensUi: tokensUiForTx, // UI token amount to burn (with haircut)
+        referrer: referrer ?? undefined,
+        quoteId: pre.ok ? preJson.quoteId : undefined,
+        slippageBps,
+        minSolOut: withSlippage(solAmount, slippageBps),
       }),
     });
 
@@ -592,6 +905,10 @@ async function doSell() {
 
     if (!res.ok) {
       console.error("[SELL] server error payload:", j || text);
+      if (j?.code) {
+        setSellError(tradeErrorMessage(j, "Sell failed"));
+        return;
+      }
       alert(j?.error || "Server sell failed (see console).");
       return;
     }
@@ -673,12 +990,8 @@ async function doSell() {
 
   const tradable = !!coin.mint;
 
-  const curveLabel =
-    coin.curve === "linear"
-      ? "Linear curve · smoother climbs"
-      : coin.curve === "degen"
-      ? "Degen curve · steeper, pumps faster"
-      : "Random curve · experimental / degen only";
+  const curveModel = getCurve(coin.curve);
+  const curveLabel = `${curveModel.label} · ${curveModel.badge.toLowerCase()}`;
 
   return (
     <main className="min-h-screen px-4 py-8 md:py-10">
@@ -823,7 +1136,7 @@ async function doSell() {
                 Curve stats
               </span>
               <span className="rounded-full bg-emerald-500/10 px-2 py-0.5 text-[11px] font-medium text-emerald-300">
-                Live · devnet
+                Live · {CLUSTER_NAME}
               </span>
             </div>
 
@@ -888,7 +1201,9 @@ async function doSell() {
               <span className="font-mono text-lg text-emerald-300">
                 {migrateProgress}%
               </span>
-              <div className="text-[11px] text-zinc-500">to Raydium ready</div>
+              <div className="text-[11px] text-zinc-500">
+                {isGraduated ? "graduated" : "to pool migration"}
+              </div>
             </div>
           </div>
 
@@ -899,20 +1214,83 @@ async function doSell() {
             />
           </div>
 
-          {isMigrated ? (
+          {isGraduated ? (
             <div className="mt-3 rounded-lg border border-emerald-500/40 bg-emerald-500/10 px-3 py-2 text-xs text-emerald-100">
-              <b>Curve graduated.</b> Trading is locked here – ready for
-              Raydium listing.
+              <b>Graduated.</b> The curve is closed; liquidity now lives in
+              its AMM pool
+              {poolAddress ? (
+                <>
+                  {" "}
+                  <a
+                    href={explorerAddressUrl(poolAddress)}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="font-mono underline decoration-emerald-400/60 hover:text-white"
+                  >
+                    {poolAddress.slice(0, 4)}…{poolAddress.slice(-4)}
+                  </a>
+                </>
+              ) : null}
+              .
+              {migration?.record?.lpSig ? (
+                <div className="mt-1 text-emerald-200/80">
+                  {migration.record.lpPolicy === "lock"
+                    ? `LP locked until ${new Date(migration.record.lpUnlockAt).toLocaleDateString()}`
+                    : "LP burned"}{" "}
+                  ·{" "}
+                  <a
+                    href={migration.links.lpTx}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="underline decoration-emerald-400/60 hover:text-white"
+                  >
+                    tx
+                  </a>{" "}
+                  · {Number(migration.record.solSeeded).toLocaleString()} SOL seeded
+                </div>
+              ) : null}
+            </div>
+          ) : tradingFrozen ? (
+            <div className="mt-3 rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs text-amber-100">
+              <b>Migrating.</b> Trading is paused while the pool SOL and
+              remaining supply are moved into an AMM pool.
+            </div>
+          ) : isMigrated ? (
+            <div className="mt-3 rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs text-amber-100">
+              <b>Curve complete.</b> It keeps trading until its migration to
+              an AMM pool starts.
+              {isCurveCreator ? (
+                <div className="mt-2">
+                  <button
+                    type="button"
+                    onClick={doMigrate}
+                    disabled={migrating}
+                    className="rounded-md border border-amber-400/60 px-3 py-1 font-semibold text-amber-100 hover:bg-amber-500/20 disabled:opacity-50"
+                  >
+                    {migrating ? "Migrating…" : "Migrate to pool"}
+                  </button>
+                  <span className="ml-2 text-amber-200/70">
+                    As the creator, your wallet signs the pool SOL out of the
+                    curve.
+                  </span>
+                </div>
+              ) : null}
             </div>
           ) : (
             <div className="mt-3 text-xs text-zinc-400">
               {(soldDisplay ?? 0).toLocaleString()} sold /{" "}
-              {(migrateThreshold ?? 0).toLocaleString()} target · devnet only –
-              no real money.
+              {(migrateThreshold ?? 0).toLocaleString()} target
+              {IS_MAINNET ? "." : ` · ${CLUSTER_NAME} only – no real money.`}
             </div>
           )}
         </section>
 
+        {/* Rug-risk disclosure (withdraw history + solvency) */}
+        <RiskPanel
+          id={coin.id}
+          poolLamports={stats ? Math.round(stats.poolSol * 1e9) : null}
+        />
+
         {/* Chart section */}
         <section className="rounded-3xl border border-zinc-800 bg-zinc-950/80 p-4 md:p-5">
           <div className="mb-3 flex items-center justify-between text-xs text-zinc-400">
@@ -921,7 +1299,7 @@ async function doSell() {
                 Price / Curve activity
               </span>
               <span className="bg-gradient-to-r from-emerald-300 via-sky-300 to-fuchsia-300 bg-clip-text text-sm font-medium text-transparent">
-                Devnet preview (dummy chart for now)
+                SOL per token · from on-chain trades
               </span>
             </div>
             <span className="rounded-full bg-zinc-900 px-3 py-1 text-[11px] text-zinc-400">
@@ -930,12 +1308,30 @@ async function doSell() {
           </div>
 
           <div className="h-[260px] w-full overflow-hidden rounded-2xl border border-zinc-800 bg-black">
-            <CurveChart />
+            <CurveChart coinId={coin.id} liveTrade={lastTrade} streamLive={streamLive} />
           </div>
         </section>
 
         {/* Buy / Sell */}
         <section className="grid gap-6 md:grid-cols-2">
+          <div className="flex items-center gap-2 text-[11px] text-zinc-400 md:col-span-2">
+            <span>Max slippage:</span>
+            {SLIPPAGE_PRESETS_BPS.map((bps) => (
+              <button
+                key={bps}
+                type="button"
+                onClick={() => setSlippageBps(bps)}
+                className={`rounded-md border px-2 py-1 text-[11px] ${
+                  slippageBps === bps
+                    ? "border-emerald-400 bg-emerald-500/10 text-emerald-200"
+                    : "border-zinc-700 hover:bg-zinc-800"
+                }`}
+              >
+                {(bps / 100).toString()}%
+              </button>
+            ))}
+          </div>
+
           {/* BUY */}
           <div className="grid gap-4 rounded-3xl border border-zinc-800 bg-zinc-950/80 p-5 shadow-lg shadow-black/50">
             <div className="flex items-center justify-between">
@@ -953,6 +1349,13 @@ async function doSell() {
               </span>
             </div>
 
+            {isGraduated && (
+              <p className="rounded-lg border border-emerald-500/30 bg-emerald-500/10 p-2 text-xs text-emerald-100">
+                Graduated – curve trading is closed. Buy and sell on the
+                coin&apos;s AMM pool.
+              </p>
+            )}
+
             {!tradable && (
               <p className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-2 text-xs text-amber-100">
                 This coin has no mint configured yet. It&apos;s not tradable
@@ -967,7 +1370,7 @@ async function doSell() {
                 onChange={(e) => setBuySol(e.target.value)}
                 inputMode="decimal"
                 placeholder="0.05"
-                disabled={!tradable || isMigrated}
+                disabled={!tradable || tradingFrozen}
               />
               <span className="text-sm text-zinc-400">SOL</span>
             </div>
@@ -980,13 +1383,36 @@ async function doSell() {
               {(coin.symbol || "").toUpperCase()} (after fees).
             </p>
 
+            {buyQuote && buyQuote.tokenAmount > 0 && (
+              <p className="text-[11px] text-zinc-500">
+                Avg price{" "}
+                <span className="font-mono text-zinc-300">
+                  {buyQuote.avgTokensPerSol.toLocaleString(undefined, {
+                    maximumFractionDigits: 0,
+                  })}
+                </span>{" "}
+                / SOL · impact{" "}
+                <span
+                  className={`font-mono ${
+                    buyQuote.priceImpactPct > 5 ? "text-amber-300" : "text-zinc-300"
+                  }`}
+                >
+                  {buyQuote.priceImpactPct.toFixed(2)}%
+                </span>
+              </p>
+            )}
+
+            {buyError && (
+              <p className="text-xs text-red-400">• {buyError}</p>
+            )}
+
             <button
               type="button"
               className="mt-1 inline-flex items-center justify-center rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-black shadow-lg shadow-emerald-500/40 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-zinc-700 disabled:text-zinc-400 disabled:shadow-none"
               onClick={doBuy}
-              disabled={!connected || !tradable || isMigrated || pending}
+              disabled={!connected || !tradable || tradingFrozen || pending}
               title={
-                isMigrated ? "Curve migrated (trading locked)" : undefined
+                tradingFrozen ? "Migrating to a pool (trading locked)" : undefined
               }
             >
               {pending ? "Submitting…" : `Buy ${(coin.symbol || "").toUpperCase()}`}
@@ -1023,7 +1449,7 @@ async function doSell() {
                 onChange={(e) => setSellTokensInput(e.target.value)}
                 inputMode="decimal"
                 placeholder="1000"
-                disabled={!tradable || isMigrated}
+                disabled={!tradable || tradingFrozen}
               />
               <span className="text-sm text-zinc-400">
                 {(coin.symbol || "").toUpperCase()}
@@ -1038,7 +1464,7 @@ async function doSell() {
                   <button
                     key={label}
                     type="button"
-                    disabled={!connected || isMigrated || maxSellTokens <= 0}
+                    disabled={!connected || tradingFrozen || maxSellTokens <= 0}
                     onClick={() => {
                       if (maxSellTokens <= 0) return;
                       const effectivePct = p === 1 ? 0.99999 : p;
@@ -1069,6 +1495,25 @@ async function doSell() {
               {(coin.symbol || "").toUpperCase()}.
             </p>
 
+            {sellQuote && sellQuote.solAmount > 0 && (
+              <p className="text-[11px] text-zinc-500">
+                Avg price{" "}
+                <span className="font-mono text-zinc-300">
+                  {sellQuote.avgTokensPerSol.toLocaleString(undefined, {
+                    maximumFractionDigits: 0,
+                  })}
+                </span>{" "}
+                / SOL · impact{" "}
+                <span
+                  className={`font-mono ${
+                    sellQuote.priceImpactPct > 5 ? "text-amber-300" : "text-zinc-300"
+                  }`}
+                >
+                  {sellQuote.priceImpactPct.toFixed(2)}%
+                </span>
+              </p>
+            )}
+
             {sellError && (
               <p className="text-xs text-red-400">• {sellError}</p>
             )}
@@ -1080,20 +1525,23 @@ async function doSell() {
               disabled={
                 !connected ||
                 !tradable ||
-                isMigrated ||
+                tradingFrozen ||
                 pending ||
                 isSelling ||
                 maxSellTokens <= 0 ||
                 sellSolNet <= 0
               }
               title={
-                isMigrated ? "Curve migrated (trading locked)" : undefined
+                tradingFrozen ? "Migrating to a pool (trading locked)" : undefined
               }
             >
               {isSelling ? "Selling…" : `Sell ${(coin.symbol || "").toUpperCase()}`}
             </button>
           </div>
         </section>
+
+        {/* Trade tape (indexed on-chain trades) */}
+        <TradeTape id={coin.id} liveTrade={lastTrade} streamLive={streamLive} />
       </div>
     </main>
   );
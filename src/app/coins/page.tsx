@@ -1,5 +1,7 @@
 // src/app/coins/page.tsx
 import Link from "next/link";
+import { listCurves } from "@/lib/curves";
+import { CLUSTER_NAME, IS_MAINNET } from "@/lib/cluster";
 
 type Coin = {
   id: string;
@@ -13,8 +15,43 @@ type Coin = {
   logo_url: string | null;
   socials: any;
   creator: string | null;
+  migration_status: string | null;
+  risk: {
+    level: "ok" | "warn" | "danger";
+    withdrawCount: number;
+    withdrawnSol: number;
+    lastWithdrawAt: string | null;
+    solvencyRatio: number | null;
+    authorityIsCreator: boolean | null;
+  } | null;
 };
 
+function riskBadge(risk: Coin["risk"]) {
+  if (!risk) return null;
+  if (risk.withdrawCount > 0) {
+    return {
+      className: "bg-red-500/20 text-red-200",
+      label: `Pool withdrawn ${risk.withdrawnSol.toFixed(2)} SOL`,
+      title: risk.lastWithdrawAt
+        ? `${risk.withdrawCount} withdrawal(s), last ${formatDate(risk.lastWithdrawAt)}`
+        : undefined,
+    };
+  }
+  if (risk.level !== "ok" && risk.solvencyRatio != null) {
+    return {
+      className:
+        risk.level === "danger" ? "bg-red-500/20 text-red-200" : "bg-amber-500/20 text-amber-200",
+      label: `Pool ${(risk.solvencyRatio * 100).toFixed(0)}% of curve`,
+      title: "Pool SOL vs SOL implied by sold supply",
+    };
+  }
+  return {
+    className: "bg-white/5 text-gray-300",
+    label: "No withdrawals",
+    title: `Withdraw authority: ${risk.authorityIsCreator ? "creator" : "platform"}`,
+  };
+}
+
 async function fetchCoins(): Promise<Coin[]> {
   const baseUrl =
     process.env.NEXT_PUBLIC_SITE_URL ||
@@ -60,7 +97,7 @@ export default async function CoinsPage() {
             <h1 className="mt-1 text-2xl font-semibold tracking-tight">
               All curve coins on{" "}
               <span className="bg-gradient-to-r from-emerald-400 via-cyan-300 to-purple-400 bg-clip-text text-transparent">
-                Solana devnet
+                Solana {CLUSTER_NAME}
               </span>
             </h1>
             <p className="mt-1 text-sm text-gray-400">
@@ -88,15 +125,14 @@ export default async function CoinsPage() {
         {/* Filters / legend (simple for now) */}
         <div className="mb-4 flex flex-wrap items-center justify-between gap-3 text-[11px] text-gray-400">
           <div className="flex flex-wrap items-center gap-2">
-            <span className="rounded-full bg-white/5 px-3 py-1 text-gray-300">
-              Linear – smoother price climb
-            </span>
-            <span className="rounded-full bg-white/5 px-3 py-1 text-gray-300">
-              Degen – steeper, pumps faster
-            </span>
-            <span className="rounded-full bg-white/5 px-3 py-1 text-gray-300">
-              Random – experimental (for fun only)
-            </span>
+            {listCurves().map((c) => (
+              <span
+                key={c.id}
+                className="rounded-full bg-white/5 px-3 py-1 text-gray-300"
+              >
+                {c.label.replace(/ curve$/i, "")} – {c.badge.toLowerCase()}
+              </span>
+            ))}
           </div>
           <span className="text-[10px] text-gray-500">
             Devnet only · not real money
@@ -111,8 +147,10 @@ export default async function CoinsPage() {
             </div>
             <p className="max-w-md text-xs text-gray-400">
               Be the first to upload a meme, pick a curve and send some SOL into
-              the pool. This environment is 100% devnet – perfect for testing
-              crazy ideas safely.
+              the pool.{" "}
+              {IS_MAINNET
+                ? "Trades here use real SOL."
+                : `This environment is 100% ${CLUSTER_NAME} – perfect for testing crazy ideas safely.`}
             </p>
             <Link
               href="/create"
@@ -174,6 +212,17 @@ export default async function CoinsPage() {
                       <span className="rounded-full bg-white/5 px-2 py-[1px] text-[10px] text-gray-300">
                         Strength {coin.strength ?? 1}/3
                       </span>
+                      {(() => {
+                        const b = riskBadge(coin.risk);
+                        return b ? (
+                          <span
+                            className={`rounded-full px-2 py-[1px] text-[10px] ${b.className}`}
+                            title={b.title}
+                          >
+                            {b.label}
+                          </span>
+                        ) : null;
+                      })()}
                       {coin.mint && (
                         <span className="truncate text-[10px] text-gray-500">
                           Mint {coin.mint.slice(0, 4)}…{coin.mint.slice(-4)}
@@ -1,12 +1,37 @@
 'use client';
 
-import { useState, FormEvent } from 'react';
+import { useEffect, useState, FormEvent } from 'react';
 import { useWallet, useConnection } from '@solana/wallet-adapter-react';
 import { useRouter } from 'next/navigation';
 import { VersionedTransaction } from '@solana/web3.js';
 import { Buffer } from 'buffer';
-
-type CurveType = 'linear' | 'degen' | 'random';
+import {
+  CurveParams,
+  defaultSelection,
+  type CurveSelection,
+} from '@/components/CurveParams';
+import { BUY_CREATOR_BPS, FEE_SCHEDULE, SELL_CREATOR_BPS } from '@/lib/fees';
+import { DEFAULT_SLIPPAGE_BPS, SLIPPAGE_PRESETS_BPS } from '@/lib/slippage';
+
+// POST /api/coins/launch-preview
+type FirstBuyQuote = {
+  amountSol: number;
+  feeLamports: number;
+  feeBps: number;
+  estTokensHuman: number;
+  minTokensOut: number;
+  avgPriceSol: number;
+  priceImpactPct: number;
+  slippageBps: number;
+};
+
+// GET /api/vanity
+type VanityOption = {
+  id: string;
+  kind: 'prefix' | 'suffix';
+  value: string;
+  available: number;
+};
 
 export default function CreateCoinPage() {
   const wallet = useWallet();
@@ -19,36 +44,73 @@ export default function CreateCoinPage() {
   const [website, setWebsite] = useState('');
   const [xLink, setXLink] = useState('');
   const [telegram, setTelegram] = useState('');
-  const [curve, setCurve] = useState<CurveType>('linear');
-  const [strength, setStrength] = useState(2);
+  const [curveSel, setCurveSel] = useState<CurveSelection>(() =>
+    defaultSelection('linear'),
+  );
   const [firstBuySol, setFirstBuySol] = useState(0.05);
+  const [slippageBps, setSlippageBps] = useState(DEFAULT_SLIPPAGE_BPS);
+  const [firstBuyQuote, setFirstBuyQuote] = useState<FirstBuyQuote | null>(
+    null,
+  );
+  const [creatorFeeBps, setCreatorFeeBps] = useState(SELL_CREATOR_BPS);
+  const [creatorBuyFeeBps, setCreatorBuyFeeBps] = useState(BUY_CREATOR_BPS);
+  const [vanityOptions, setVanityOptions] = useState<VanityOption[]>([]);
+  const [vanity, setVanity] = useState<string | null>(null);
   const [mediaFile, setMediaFile] = useState<File | null>(null);
-  // --- curve labels/descriptions for UI ---
-  const curveMeta = {
-    linear: {
-      label: "Linear curve",
-      badge: "Smoother climbs",
-      desc: "Classic bonding curve: price ramps up smoothly as more tokens are sold.",
-    },
-    degen: {
-      label: "Degen curve",
-      badge: "Pumps harder",
-      desc: "Cheaper early, then rips up later. Higher strength = more aggressive.",
-    },
-    random: {
-      label: "Random curve",
-      badge: "Casino mode",
-      desc: "Deterministic chaos around a base curve. Spiky moves, for true degen only.",
-    },
-  } as const;
-
-  const activeCurve = curveMeta[curve];
-
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [status, setStatus] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const connected = !!wallet.publicKey;
+  const creatorStr = wallet.publicKey?.toBase58() ?? null;
+
+  // Vanity mint patterns with addresses ready in the pool
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/vanity')
+      .then((r) => r.json())
+      .then((j) => {
+        if (!cancelled) setVanityOptions(j?.patterns ?? []);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Live quote for the first buy bundled into the launch tx
+  useEffect(() => {
+    if (!(firstBuySol > 0)) {
+      setFirstBuyQuote(null);
+      return;
+    }
+    let cancelled = false;
+    const t = setTimeout(async () => {
+      try {
+        const res = await fetch('/api/coins/launch-preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            curve: curveSel.curve,
+            strength: curveSel.params.strength ?? 1,
+            curve_params: curveSel.params,
+            creator_buy_fee_bps: creatorBuyFeeBps,
+            creator: creatorStr,
+            firstBuySol,
+            slippageBps,
+          }),
+        });
+        const j: unknown = await res.json().catch(() => ({}));
+        if (!cancelled) setFirstBuyQuote(res.ok ? (j as FirstBuyQuote) : null);
+      } catch {
+        if (!cancelled) setFirstBuyQuote(null);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [firstBuySol, slippageBps, curveSel, creatorBuyFeeBps, creatorStr]);
 
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
@@ -84,9 +146,11 @@ export default function CreateCoinPage() {
         logo_url = upJson.url as string;
       }
 
-      // 2) Create coin row in DB
-      setStatus('Creating coin…');
+      // 2) Prepare the launch tx (mint + curve + metadata [+ first buy]).
+      //    Nothing is stored until it lands; the creator's wallet pays.
+      setStatus('Preparing launch transaction…');
 
+      const buyAmount = Number(firstBuySol);
       const coinRes = await fetch('/api/coins', {
         method: 'POST',
         headers: {
@@ -96,8 +160,11 @@ export default function CreateCoinPage() {
           name,
           symbol,
           description,
-          curve,
-          strength,
+          curve: curveSel.curve,
+          strength: curveSel.params.strength ?? 1,
+          curve_params: curveSel.params,
+          creator_fee_bps: creatorFeeBps,
+          creator_buy_fee_bps: creatorBuyFeeBps,
           creator: wallet.publicKey.toBase58(),
           logo_url,
           socials: {
@@ -105,85 +172,114 @@ export default function CreateCoinPage() {
             x: xLink,
             telegram,
           },
+          firstBuySol:
+            Number.isFinite(buyAmount) && buyAmount > 0 ? buyAmount : 0,
+          // Tolerance is relative to the quote the creator saw
+          ...(firstBuyQuote && firstBuyQuote.amountSol === buyAmount
+            ? { slippageBps, minTokensOut: firstBuyQuote.minTokensOut }
+            : {}),
+          ...(vanity ? { vanity } : {}),
         }),
       });
 
       const coinJson = await coinRes.json().catch(() => ({} as any));
       console.log('coinRes:', coinJson);
 
-      if (!coinRes.ok) {
-        throw new Error(coinJson.error || 'Failed to create coin');
+      if (coinJson?.code === 'SLIPPAGE_EXCEEDED') {
+        throw new Error(
+          `First buy would get fewer tokens than your ${(
+            Number(coinJson.slippageBps ?? slippageBps) / 100
+          ).toFixed(2)}% tolerance allows. Check the quote and try again.`,
+        );
       }
-
-      const coin = coinJson.coin;
-      if (!coin || !coin.id) {
-        throw new Error('Server did not return coin.id');
+      if (coinJson?.code === 'VANITY_POOL_EMPTY') {
+        setVanityOptions((opts) =>
+          opts.map((o) => (o.id === vanity ? { ...o, available: 0 } : o)),
+        );
+        setVanity(null);
+        throw new Error(
+          'No vanity addresses left for that pattern right now. Launch with a regular address or try again later.',
+        );
+      }
+      if (coinJson?.code === 'VANITY_RATE_LIMITED') {
+        setVanity(null);
+        throw new Error(
+          `${coinJson.error || 'Too many vanity addresses requested.'} You can still launch with a regular address.`,
+        );
+      }
+      if (!coinRes.ok || !coinJson?.txB64 || !coinJson?.launch) {
+        throw new Error(coinJson.error || 'Failed to prepare launch');
       }
 
-      // 3) Auto first buy for creator (using existing /buy route)
-      const buyAmount = Number(firstBuySol);
-      if (Number.isFinite(buyAmount) && buyAmount > 0) {
-        try {
-          setStatus(
-            `Coin created. Doing your first buy of ${buyAmount.toFixed(
+      // 3) One signature: creator signs + sends (the mint keypair already
+      //    signed). Coin and first buy land together or not at all.
+      setStatus(
+        coinJson.firstBuy
+          ? `Approve one transaction: launch + first buy of ${buyAmount.toFixed(
               3,
-            )} SOL…`,
-          );
-
-          const buyRes = await fetch(
-            `/api/coins/${encodeURIComponent(coin.id)}/buy`,
-            {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                buyer: wallet.publicKey.toBase58(),
-                amountSol: buyAmount,
-              }),
-            },
-          );
-
-          const buyJson = await buyRes.json().catch(() => ({} as any));
-          if (!buyRes.ok || !buyJson?.txB64) {
-            console.error('[CREATE→BUY] buy error payload:', buyJson);
-            setStatus(
-              'Coin created, but first buy failed. You can buy manually on the coin page.',
-            );
-          } else {
-            const raw = Buffer.from(buyJson.txB64 as string, 'base64');
-            const vtx = VersionedTransaction.deserialize(raw);
-
-            const sig = await wallet.sendTransaction(
-              vtx as any,
-              connection,
-              {
-                skipPreflight: true,
-                maxRetries: 5,
-              } as any,
-            );
-
-            console.log('[CREATE→BUY] first buy sig:', sig);
-
-            try {
-              await connection.confirmTransaction(sig, 'confirmed');
-            } catch (e) {
-              console.warn('[CREATE→BUY] confirm warning:', e);
-            }
-
-            setStatus(
-              'Coin created and first buy submitted. Redirecting to coin page…',
-            );
-          }
-        } catch (e) {
-          console.error('[CREATE→BUY] auto buy failed:', e);
-          setStatus(
-            'Coin created, but first buy failed. You can buy manually on the coin page.',
-          );
+            )} SOL (≈ ${Number(
+              coinJson.firstBuy.estTokensHuman,
+            ).toLocaleString(undefined, { maximumFractionDigits: 0 })} ${symbol.toUpperCase()})…`
+          : 'Approve the launch transaction in your wallet…',
+      );
+
+      const vtx = VersionedTransaction.deserialize(
+        Buffer.from(coinJson.txB64 as string, 'base64'),
+      );
+      const sig = await wallet.sendTransaction(vtx, connection, {
+        maxRetries: 5,
+      });
+      console.log('[CREATE] launch sig:', sig);
+
+      setStatus('Waiting for confirmation…');
+      const conf = await connection.confirmTransaction(
+        {
+          signature: sig,
+          blockhash: coinJson.blockhash,
+          lastValidBlockHeight: coinJson.lastValidBlockHeight,
+        },
+        'confirmed',
+      );
+      if (conf.value.err) {
+        throw new Error('Launch transaction failed on-chain');
+      }
+
+      // 4) Advance the draft coin to live (retry while the RPC catches up)
+      setStatus('Launched. Finalizing your coin…');
+      let coin: { id: string } | null = null;
+      for (let attempt = 0; attempt < 10 && !coin; attempt++) {
+        const confRes = await fetch('/api/coins/confirm', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ launch: coinJson.launch, signature: sig }),
+        });
+        const confJson: { coin?: { id: string }; code?: string; error?: string } = await confRes
+          .json()
+          .catch(() => ({}));
+        if (confRes.ok) {
+          coin = confJson.coin;
+        } else if (
+          confJson?.code === 'LAUNCH_NOT_LANDED' ||
+          confJson?.code === 'LAUNCH_CONFLICT'
+        ) {
+          await new Promise((r) => setTimeout(r, 2000));
+        } else {
+          throw new Error(confJson.error || 'Failed to record coin');
         }
-      } else {
-        setStatus('Coin created. Redirecting to coin page…');
+      }
+      if (!coin || !coin.id) {
+        throw new Error(
+          `Launch sent (mint ${coinJson.mint}) but not confirmed yet. It will be listed once it lands.`,
+        );
       }
 
-      // 4) Redirect to coin page
+      setStatus(
+        coinJson.firstBuy
+          ? 'Coin launched with your first buy. Redirecting to coin page…'
+          : 'Coin launched. Redirecting to coin page…',
+      );
+
+      // 5) Redirect to coin page
       router.push(`/coin/${coin.id}`);
     } catch (err: any) {
       console.error('create error', err);
@@ -360,89 +456,178 @@ export default function CreateCoinPage() {
   </div>
 </div>
 
-            {/* Curve + Strength + First buy */}
-            <div className="grid gap-4 md:grid-cols-3">
-              {/* Curve type */}
+            {/* Curve */}
+            <div>
+              <label className="block text-xs font-medium text-gray-400">
+                Curve type
+              </label>
+              <div className="mt-1">
+                <CurveParams value={curveSel} onChange={setCurveSel} />
+              </div>
+            </div>
+
+            {/* Vanity mint address */}
+            {vanityOptions.length > 0 && (
               <div>
                 <label className="block text-xs font-medium text-gray-400">
-                  Curve type
+                  Mint address
                 </label>
-                <div className="mt-1 inline-flex rounded-xl bg-black/40 p-1 text-xs">
-                  {(["linear", "degen", "random"] as CurveType[]).map((c) => {
-                    const meta = curveMeta[c];
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {[null, ...vanityOptions].map((o) => {
+                    const id = o?.id ?? null;
+                    const soldOut = !!o && o.available <= 0;
                     return (
                       <button
-                        key={c}
+                        key={id ?? 'random'}
                         type="button"
-                        onClick={() => setCurve(c)}
-                        className={`rounded-lg px-3 py-1 mr-1 capitalize transition ${
-                          curve === c
-                            ? "bg-emerald-500 text-black shadow-lg shadow-emerald-500/40"
-                            : "text-gray-300 hover:bg-white/5"
+                        disabled={soldOut}
+                        onClick={() => setVanity(id)}
+                        className={`rounded-md border px-2 py-1 text-[11px] ${
+                          vanity === id
+                            ? 'border-emerald-400 bg-emerald-500/10 text-emerald-200'
+                            : soldOut
+                            ? 'cursor-not-allowed border-white/5 text-zinc-600'
+                            : 'border-white/10 hover:bg-white/5'
                         }`}
                       >
-                        {meta.label.split(" ")[0]}
+                        {o ? (
+                          <span className="font-mono">
+                            {o.kind === 'prefix' ? `${o.value}…` : `…${o.value}`}
+                          </span>
+                        ) : (
+                          'Random'
+                        )}
+                        {o && ` · ${soldOut ? 'none left' : `${o.available} left`}`}
                       </button>
                     );
                   })}
                 </div>
+                <p className="mt-1 text-[11px] text-gray-500">
+                  Vanity addresses are pre-generated, so picking one costs
+                  nothing extra.
+                </p>
+              </div>
+            )}
 
-                {/* small degen-style helper text under the buttons */}
-                <div className="mt-2 rounded-lg bg-black/60 border border-white/5 px-3 py-2">
-                  <div className="flex items-center gap-2 text-xs">
-                    <span className="inline-flex items-center rounded-full bg-emerald-500/10 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-emerald-300">
-                      {activeCurve.badge}
-                    </span>
-                    <span className="text-[11px] text-gray-400">
-                      {activeCurve.desc}
-                    </span>
+            {/* First buy */}
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-400">
+                  First buy amount (in SOL)
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  className="mt-1 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-emerald-500"
+                  value={firstBuySol}
+                  onChange={(e) =>
+                    setFirstBuySol(Math.max(0, Number(e.target.value) || 0))
+                  }
+                />
+                <p className="mt-1 text-[11px] text-gray-500">
+                  Bought in the same transaction that creates the coin, so
+                  nobody can buy before you. 0 = no first buy.
+                </p>
+                {firstBuySol > 0 && (
+                  <div className="mt-2 space-y-1 text-[11px] text-gray-400">
+                    <div className="flex flex-wrap items-center gap-1">
+                      <span>Max slippage:</span>
+                      {SLIPPAGE_PRESETS_BPS.map((bps) => (
+                        <button
+                          key={bps}
+                          type="button"
+                          onClick={() => setSlippageBps(bps)}
+                          className={`rounded-md border px-2 py-[2px] text-[11px] ${
+                            slippageBps === bps
+                              ? 'border-emerald-400 bg-emerald-500/10 text-emerald-200'
+                              : 'border-white/10 hover:bg-white/5'
+                          }`}
+                        >
+                          {(bps / 100).toString()}%
+                        </button>
+                      ))}
+                    </div>
+                    {firstBuyQuote ? (
+                      <div>
+                        ≈{' '}
+                        <span className="font-mono text-gray-200">
+                          {firstBuyQuote.estTokensHuman.toLocaleString(
+                            undefined,
+                            { maximumFractionDigits: 0 },
+                          )}
+                        </span>{' '}
+                        tokens · min{' '}
+                        {firstBuyQuote.minTokensOut.toLocaleString(undefined, {
+                          maximumFractionDigits: 0,
+                        })}{' '}
+                        · fee {(firstBuyQuote.feeLamports / 1e9).toFixed(4)} SOL
+                        · impact {firstBuyQuote.priceImpactPct.toFixed(2)}%
+                      </div>
+                    ) : (
+                      <div>Quoting…</div>
+                    )}
                   </div>
-                </div>
+                )}
               </div>
 
-              {/* Strength */}
               <div>
                 <label className="block text-xs font-medium text-gray-400">
-                  Strength (how steep the curve is)
+                  Creator fee on buys (bps)
                 </label>
                 <input
                   type="number"
-                  min={1}
-                  max={3}
+                  step={5}
+                  min={0}
+                  max={FEE_SCHEDULE.maxCreatorBps}
                   className="mt-1 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-emerald-500"
-                  value={strength}
+                  value={creatorBuyFeeBps}
                   onChange={(e) =>
-                    setStrength(
-                      Math.max(1, Math.min(3, Number(e.target.value) || 1))
+                    setCreatorBuyFeeBps(
+                      Math.max(
+                        0,
+                        Math.min(
+                          FEE_SCHEDULE.maxCreatorBps,
+                          Math.round(Number(e.target.value) || 0)
+                        )
+                      )
                     )
                   }
                 />
                 <p className="mt-1 text-[11px] text-gray-500">
-                  1 = chill, 2 = spicy, 3 = full degen. Higher strength ramps
-                  price faster on Degen & Random curves.
+                  Your cut of every buy, taken out of the amount spent
+                  ({(creatorBuyFeeBps / 100).toFixed(2)}%, max{' '}
+                  {(FEE_SCHEDULE.maxCreatorBps / 100).toFixed(2)}%).
                 </p>
               </div>
 
-              {/* First buy */}
               <div>
                 <label className="block text-xs font-medium text-gray-400">
-                  First buy amount (in SOL)
+                  Creator fee on sells (bps)
                 </label>
                 <input
                   type="number"
-                  step="0.01"
-                  min={0.01}
+                  step={5}
+                  min={0}
+                  max={FEE_SCHEDULE.maxCreatorBps}
                   className="mt-1 w-full rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm outline-none focus:border-emerald-500"
-                  value={firstBuySol}
+                  value={creatorFeeBps}
                   onChange={(e) =>
-                    setFirstBuySol(
-                      Math.max(0.01, Number(e.target.value) || 0.01)
+                    setCreatorFeeBps(
+                      Math.max(
+                        0,
+                        Math.min(
+                          FEE_SCHEDULE.maxCreatorBps,
+                          Math.round(Number(e.target.value) || 0)
+                        )
+                      )
                     )
                   }
                 />
                 <p className="mt-1 text-[11px] text-gray-500">
-                  This SOL amount will be used for your very first buy on the
-                  curve right after launch.
+                  Your cut of every sell, paid on top of the platform fee
+                  ({(creatorFeeBps / 100).toFixed(2)}%, max{' '}
+                  {(FEE_SCHEDULE.maxCreatorBps / 100).toFixed(2)}%).
                 </p>
               </div>
             </div>
@@ -471,7 +656,9 @@ export default function CreateCoinPage() {
                 {connected
                   ? isSubmitting
                     ? 'Launching…'
-                    : `Launch & auto-buy ${firstBuySol.toFixed(2)} SOL`
+                    : firstBuySol > 0
+                    ? `Launch & buy ${firstBuySol.toFixed(2)} SOL · 1 signature`
+                    : 'Launch · 1 signature'
                   : 'Connect wallet to create'}
               </button>
             </div>
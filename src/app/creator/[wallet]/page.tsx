@@ -0,0 +1,234 @@
+"use client";
+
+// src/app/creator/[wallet]/page.tsx
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+
+import { useWallet, useConnection } from "@solana/wallet-adapter-react";
+import { VersionedTransaction } from "@solana/web3.js";
+import { Buffer } from "buffer";
+
+type CreatorCoin = {
+  id: string;
+  name: string;
+  symbol: string;
+  logoUrl: string | null;
+  mint: string | null;
+  curve: string;
+  createdAt: string;
+  creatorFeeBps: number | null;
+  creatorBuyFeeBps: number | null;
+  feesEarnedSol: number;
+  volumeSol: number;
+  trades: number;
+  buys: number;
+  sells: number;
+  poolSol: number;
+  withdrawableLamports: number;
+  stateCreator: string | null;
+  canWithdraw: boolean;
+  syncError: string | null;
+};
+
+type CreatorData = {
+  wallet: string;
+  coins: CreatorCoin[];
+  totals: { coins: number; feesEarnedSol: number; trades: number };
+};
+
+function fmtSol(n: number) {
+  if (!Number.isFinite(n)) return "0";
+  return n.toLocaleString(undefined, { maximumFractionDigits: 6 });
+}
+
+function short(addr: string | null) {
+  return addr ? `${addr.slice(0, 4)}…${addr.slice(-4)}` : "—";
+}
+
+export default function CreatorPage() {
+  const params = useParams<{ wallet: string }>();
+  const wallet = String(params?.wallet ?? "");
+
+  const { connection } = useConnection();
+  const { publicKey, connected, sendTransaction } = useWallet();
+  const isOwner = connected && publicKey?.toBase58() === wallet;
+
+  const [data, setData] = useState<CreatorData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyCoin, setBusyCoin] = useState<string | null>(null);
+  const [flash, setFlash] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!wallet) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch(`/api/creator/${wallet}`, { cache: "no-store" });
+      const j = await res.json().catch(() => ({} as { error?: string }));
+      if (!res.ok) throw new Error(j?.error || "Failed to load creator");
+      setData(j as CreatorData);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load creator");
+    } finally {
+      setLoading(false);
+    }
+  }, [wallet]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function withdraw(coin: CreatorCoin) {
+    if (!connected || !publicKey) {
+      alert("Connect your wallet first.");
+      return;
+    }
+    try {
+      setBusyCoin(coin.id);
+      const res = await fetch(`/api/creator/${wallet}/withdraw`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ coinId: coin.id }),
+      });
+      const j = await res.json().catch(() => ({} as { txB64?: string; error?: string }));
+      if (!res.ok || !j?.txB64) throw new Error(j?.error || "Withdraw failed");
+
+      const vtx = VersionedTransaction.deserialize(Buffer.from(j.txB64, "base64"));
+      const sig = await sendTransaction(vtx, connection, { maxRetries: 5 });
+      try {
+        await connection.confirmTransaction(sig, "confirmed");
+      } catch (e) {
+        console.warn("[WITHDRAW] confirm warning:", e);
+      }
+
+      setFlash(`Withdraw submitted ✅ ${sig.slice(0, 8)}…`);
+      setTimeout(() => setFlash(null), 4000);
+      setTimeout(load, 1500);
+    } catch (e) {
+      console.error("[WITHDRAW] error:", e);
+      alert(e instanceof Error ? e.message : "Unexpected withdraw error (see console).");
+    } finally {
+      setBusyCoin(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[#050509] text-white">
+      <div className="mx-auto max-w-6xl px-4 py-8">
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <div className="text-xs text-emerald-300">solcurve.fun · Creator</div>
+            <h1 className="mt-1 text-2xl font-semibold tracking-tight">
+              Creator earnings{" "}
+              <span className="font-mono text-base text-white/60">{short(wallet)}</span>
+            </h1>
+            <p className="mt-1 text-sm text-gray-400">
+              Creator fees from confirmed trades on every coin this wallet launched.
+            </p>
+          </div>
+
+          {flash && (
+            <div className="rounded-full border border-emerald-400/40 bg-emerald-500/10 px-3 py-1 text-xs text-emerald-200">
+              {flash}
+            </div>
+          )}
+        </div>
+
+        {data && (
+          <div className="mb-6 grid gap-3 sm:grid-cols-3">
+            <div className="rounded-2xl border border-white/10 bg-black/40 p-4">
+              <div className="text-xs text-gray-400">Coins launched</div>
+              <div className="mt-1 text-xl font-semibold">{data.totals.coins}</div>
+            </div>
+            <div className="rounded-2xl border border-white/10 bg-black/40 p-4">
+              <div className="text-xs text-gray-400">Creator fees earned</div>
+              <div className="mt-1 text-xl font-semibold text-emerald-300">
+                {fmtSol(data.totals.feesEarnedSol)} SOL
+              </div>
+            </div>
+            <div className="rounded-2xl border border-white/10 bg-black/40 p-4">
+              <div className="text-xs text-gray-400">Trades</div>
+              <div className="mt-1 text-xl font-semibold">{data.totals.trades}</div>
+            </div>
+          </div>
+        )}
+
+        {loading && !data && <div className="text-sm text-gray-400">Loading…</div>}
+        {error && <div className="text-sm text-red-400">{error}</div>}
+        {data && data.coins.length === 0 && (
+          <div className="text-sm text-gray-400">This wallet hasn&apos;t launched any coins yet.</div>
+        )}
+
+        {data && data.coins.length > 0 && (
+          <div className="overflow-x-auto rounded-2xl border border-white/10">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-white/5 text-xs text-gray-400">
+                <tr>
+                  <th className="px-4 py-2">Coin</th>
+                  <th className="px-4 py-2">Fees (buy / sell)</th>
+                  <th className="px-4 py-2 text-right">Earned</th>
+                  <th className="px-4 py-2 text-right">Trades</th>
+                  <th className="px-4 py-2 text-right">Pool</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {data.coins.map((c) => (
+                  <tr key={c.id} className="border-t border-white/5">
+                    <td className="px-4 py-3">
+                      <Link href={`/coin/${c.id}`} className="hover:text-emerald-300">
+                        {c.name}{" "}
+                        <span className="text-white/50">
+                          ({(c.symbol || "").toUpperCase()})
+                        </span>
+                      </Link>
+                      {c.syncError && (
+                        <div className="text-[11px] text-amber-400">
+                          Ledger not synced: {c.syncError}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 font-mono text-xs text-gray-300">
+                      {c.creatorBuyFeeBps ?? "default"} / {c.creatorFeeBps ?? "default"} bps
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono text-emerald-300">
+                      {fmtSol(c.feesEarnedSol)}
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono">
+                      {c.trades}{" "}
+                      <span className="text-[11px] text-gray-500">
+                        ({c.buys}b/{c.sells}s)
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono">{fmtSol(c.poolSol)}</td>
+                    <td className="px-4 py-3 text-right">
+                      {isOwner && c.canWithdraw && (
+                        <button
+                          onClick={() => withdraw(c)}
+                          disabled={busyCoin === c.id}
+                          className="rounded-xl bg-emerald-500 px-3 py-1.5 text-xs font-semibold text-black hover:bg-emerald-400 disabled:opacity-50"
+                        >
+                          {busyCoin === c.id ? "Withdrawing…" : "Withdraw"}
+                        </button>
+                      )}
+                      {isOwner && !c.canWithdraw && c.stateCreator && c.stateCreator !== wallet && (
+                        <span
+                          className="text-[11px] text-gray-500"
+                          title={`On-chain curve creator: ${c.stateCreator}`}
+                        >
+                          Withdraw locked to {short(c.stateCreator)}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
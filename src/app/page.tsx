@@ -1,5 +1,6 @@
 // src/app/page.tsx
 import Link from "next/link";
+import { CLUSTER_NAME, IS_MAINNET } from "@/lib/cluster";
 
 type Coin = {
   id: string;
@@ -62,7 +63,7 @@ export default async function HomePage() {
         <section className="flex-1 space-y-6">
           <div className="inline-flex items-center gap-2 rounded-full border border-emerald-500/40 bg-emerald-500/10 px-3 py-1 text-[11px] font-medium text-emerald-200">
             <span className="h-2 w-2 rounded-full bg-emerald-400 animate-pulse" />
-            solcurve.fun · Bonding-curve memecoins on Solana devnet
+            solcurve.fun · Bonding-curve memecoins on Solana {CLUSTER_NAME}
           </div>
 
           <div>
@@ -122,7 +123,7 @@ export default async function HomePage() {
                 Name, ticker & logo on-chain
               </div>
               <div className="mt-1 text-[11px] text-gray-400">
-                Metaplex metadata is set automatically so devnet Phantom shows your coin.
+                Metaplex metadata is set automatically so Phantom shows your coin.
               </div>
             </div>
           </div>
@@ -132,7 +133,7 @@ export default async function HomePage() {
         <section className="flex-1">
           <div className="mb-3 flex items-center justify-between gap-2">
             <h2 className="text-sm font-semibold text-gray-100">
-              Live curves (devnet preview)
+              {IS_MAINNET ? "Live curves" : `Live curves (${CLUSTER_NAME} preview)`}
             </h2>
             <Link
               href="/coins"
@@ -219,8 +220,14 @@ export default async function HomePage() {
           )}
 
           <p className="mt-3 text-[11px] text-gray-500">
-            All activity here is <span className="font-semibold">devnet only</span>.
-            Perfect for testing ideas, not for real money.
+            {IS_MAINNET ? (
+              <>Trades here use <span className="font-semibold">real SOL</span>.</>
+            ) : (
+              <>
+                All activity here is <span className="font-semibold">{CLUSTER_NAME} only</span>.
+                Perfect for testing ideas, not for real money.
+              </>
+            )}
           </p>
         </section>
       </main>
@@ -1,13 +1,29 @@
 'use client';
+import { useEffect } from 'react';
 import useSWR from 'swr';
+import type { Trade } from '@/lib/types';
 
-export default function ActivitySparkline({ id }: { id: string }) {
-  const { data } = useSWR<{ trades: { ts: string; amountSol: number; side: 'buy'|'sell' }[] }>(
+// Refetched on each trade from the coin stream; polls only while it's down
+export default function ActivitySparkline({
+  id,
+  liveTrade,
+  streamLive = false,
+}: {
+  id: string;
+  liveTrade?: Trade | null;
+  streamLive?: boolean;
+}) {
+  const { data, mutate } = useSWR<{ trades: { ts: string; amountSol: number; side: 'buy'|'sell' }[] }>(
     `/api/coins/${encodeURIComponent(id)}/trades`,
     (u)=>fetch(u).then(r=>r.json()),
-    { refreshInterval: 3000 }
+    { refreshInterval: streamLive ? 0 : 3000 }
   );
 
+  const liveKey = liveTrade?.sig ?? liveTrade?.id ?? null;
+  useEffect(() => {
+    if (liveKey) mutate();
+  }, [liveKey, mutate]);
+
   const pts = (data?.trades ?? [])
     .map(t => ({ x: new Date(t.ts).getTime(), y: t.side === 'buy' ? t.amountSol : -t.amountSol }))
     .sort((a,b)=>a.x-b.x);
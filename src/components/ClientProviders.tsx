@@ -10,15 +10,16 @@ import {
 
 import "@/styles/wallet-adapter.css";
 import WalletButton from "@/components/WalletButton";
+import ClusterBanner from "@/components/ClusterBanner";
+import { RPC_URL } from "@/lib/config";
 
 export default function ClientProviders({
   children,
 }: {
   children: ReactNode;
 }) {
-  const endpoint =
-    process.env.NEXT_PUBLIC_SOLANA_RPC ||
-    "https://api.devnet.solana.com";
+  // Only NEXT_PUBLIC_* RPC vars (or the cluster profile) reach the browser
+  const endpoint = RPC_URL;
 
   const wallets = useMemo(
     () => [
@@ -32,6 +33,7 @@ export default function ClientProviders({
     <ConnectionProvider endpoint={endpoint}>
       <WalletProvider wallets={wallets} autoConnect={true}>
         <WalletModalProvider>
+          <ClusterBanner />
           <div className="mx-auto max-w-6xl p-4">
             <header className="flex items-center justify-between pb-4">
               <a href="/" className="text-lg font-semibold">
@@ -0,0 +1,30 @@
+"use client";
+
+// src/components/ClusterBanner.tsx
+import { CLUSTER, CONFIG, IS_MAINNET } from "@/lib/config";
+
+/** Always-visible strip saying which cluster (and how much real SOL) is in play. */
+export default function ClusterBanner() {
+  const tone = IS_MAINNET
+    ? "border-rose-500/40 bg-rose-500/10 text-rose-200"
+    : CLUSTER === "devnet"
+    ? "border-amber-500/40 bg-amber-500/10 text-amber-200"
+    : "border-zinc-700 bg-zinc-900 text-zinc-300";
+
+  const text = IS_MAINNET
+    ? `Solana mainnet · trades use real SOL${
+        CONFIG.maxTradeSol != null ? ` · max ${CONFIG.maxTradeSol} SOL per trade` : ""
+      }`
+    : CLUSTER === "devnet"
+    ? "Solana devnet · test SOL only, nothing here has real value"
+    : "Localnet · local validator, test SOL only";
+
+  return (
+    <div
+      role="status"
+      className={`sticky top-0 z-50 border-b px-4 py-1.5 text-center text-[11px] font-medium tracking-wide ${tone}`}
+    >
+      {text}
+    </div>
+  );
+}
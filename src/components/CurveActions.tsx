@@ -10,7 +10,10 @@ import { buildBuyTx, buildSellTx } from "@/lib/curveClient";
 type Props = { mint?: string | PublicKey };
 
 function toPk(m: string | PublicKey | undefined): PublicKey {
-  if (!m) return DEMO_MINT;
+  if (!m) {
+    if (!DEMO_MINT) throw new Error("No mint given and no demo mint configured for this cluster");
+    return DEMO_MINT;
+  }
   return m instanceof PublicKey ? m : new PublicKey(m);
 }
 
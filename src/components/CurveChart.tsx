@@ -1,234 +1,208 @@
 "use client";
 
-import React, { useMemo } from "react";
+import React, { useEffect, useRef, useState } from "react";
+import {
+  CandlestickSeries,
+  HistogramSeries,
+  createChart,
+  type IChartApi,
+  type ISeriesApi,
+  type UTCTimestamp,
+} from "lightweight-charts";
+import { CANDLE_INTERVALS, type Candle, type CandleInterval } from "@/lib/candles";
+import type { Trade } from "@/lib/types";
 
 /**
- * Simple trading-style chart in pure SVG:
- * - Candles (OHLC)
- * - Volume bars
- * - Dummy data for now (random walk)
- *
- * No external chart library => no runtime errors.
+ * Candles + volume for a coin, from /api/coins/[id]/candles (indexed
+ * on-chain trades). Loads history once per interval, then fetches from the
+ * last bar whenever the coin stream (the page's EventSource) reports a
+ * trade, and feeds `series.update()` so the chart moves live without being
+ * rebuilt. Falls back to polling while the stream is down.
  */
 
-type Candle = {
-  t: number; // timestamp (ms)
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-};
-
-function generateDummyCandles(count = 80): Candle[] {
-  const bars: Candle[] = [];
-  let price = 1; // start around 1 "unit"
-  const now = Date.now();
-
-  for (let i = 0; i < count; i++) {
-    const base = price;
-    const delta = (Math.random() - 0.5) * 0.3; // +/- 30%
-    const open = base;
-    const close = Math.max(0.000001, base * (1 + delta));
-    const high = Math.max(open, close) * (1 + Math.random() * 0.08);
-    const low = Math.min(open, close) * (1 - Math.random() * 0.08);
-    const volume = 50 + Math.random() * 250;
-
-    const t = now - (count - i) * 60 * 1000; // 1m intervals
-
-    bars.push({ t, open, high, low, close, volume });
-    price = close;
-  }
-
-  return bars;
+const POLL_MS = 3000;
+const UP = "#22c55e";
+const DOWN = "#ef4444";
+
+function toBar(c: Candle) {
+  return {
+    time: c.time as UTCTimestamp,
+    open: c.open,
+    high: c.high,
+    low: c.low,
+    close: c.close,
+  };
 }
 
-const VIEW_WIDTH = 1000;
-const VIEW_HEIGHT = 300;
-
-export default function CurveChart() {
-  // Generate dummy OHLCV once
-  const candles = useMemo(() => generateDummyCandles(80), []);
-
-  const { minPrice, maxPrice, maxVolume } = useMemo(() => {
-    if (!candles.length) {
-      return {
-        minPrice: 0,
-        maxPrice: 1,
-        maxVolume: 1,
-      };
-    }
-
-    let minP = Number.POSITIVE_INFINITY;
-    let maxP = Number.NEGATIVE_INFINITY;
-    let maxV = 0;
-
-    for (const c of candles) {
-      if (c.low < minP) minP = c.low;
-      if (c.high > maxP) maxP = c.high;
-      if (c.volume > maxV) maxV = c.volume;
-    }
+function toVolume(c: Candle) {
+  return {
+    time: c.time as UTCTimestamp,
+    value: c.volume,
+    color: c.close >= c.open ? "rgba(34,197,94,0.45)" : "rgba(239,68,68,0.45)",
+  };
+}
 
-    // Safety padding
-    if (!Number.isFinite(minP) || !Number.isFinite(maxP) || minP === maxP) {
-      minP = 0.5;
-      maxP = 1.5;
+export default function CurveChart({
+  coinId,
+  liveTrade,
+  streamLive = false,
+}: {
+  coinId: string;
+  liveTrade?: Trade | null;
+  streamLive?: boolean;
+}) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const candleRef = useRef<ISeriesApi<"Candlestick"> | null>(null);
+  const volumeRef = useRef<ISeriesApi<"Histogram"> | null>(null);
+  // Fetches bars from the last one on; null until the interval's history is in
+  const pollRef = useRef<(() => Promise<void>) | null>(null);
+
+  const [interval, setCandleInterval] = useState<CandleInterval>("1m");
+  const [empty, setEmpty] = useState(false);
+
+  // Chart + series, once
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+
+    const chart = createChart(el, {
+      autoSize: true,
+      layout: { background: { color: "#000000" }, textColor: "#9ca3af" },
+      grid: {
+        vertLines: { color: "rgba(148, 163, 184, 0.08)" },
+        horzLines: { color: "rgba(148, 163, 184, 0.08)" },
+      },
+      rightPriceScale: { borderColor: "rgba(148, 163, 184, 0.3)" },
+      timeScale: {
+        borderColor: "rgba(148, 163, 184, 0.3)",
+        timeVisible: true,
+        secondsVisible: false,
+      },
+    });
+
+    // Prices are tiny (SOL per token), so give the scale real precision
+    candleRef.current = chart.addSeries(CandlestickSeries, {
+      upColor: UP,
+      downColor: DOWN,
+      borderUpColor: UP,
+      borderDownColor: DOWN,
+      wickUpColor: UP,
+      wickDownColor: DOWN,
+      priceFormat: { type: "price", precision: 10, minMove: 1e-10 },
+    });
+
+    volumeRef.current = chart.addSeries(HistogramSeries, {
+      priceFormat: { type: "volume" },
+      priceScaleId: "", // overlay at the bottom
+    });
+    volumeRef.current.priceScale().applyOptions({
+      scaleMargins: { top: 0.75, bottom: 0 },
+    });
+
+    chartRef.current = chart;
+    return () => {
+      chart.remove();
+      chartRef.current = null;
+      candleRef.current = null;
+      volumeRef.current = null;
+    };
+  }, []);
+
+  // History for the interval, then live updates from the last bar
+  useEffect(() => {
+    if (!coinId) return;
+    let cancelled = false;
+    let lastTime: number | null = null;
+    const base = `/api/coins/${encodeURIComponent(coinId)}/candles?interval=${interval}`;
+
+    async function load() {
+      try {
+        const r = await fetch(base, { cache: "no-store" });
+        const j = await r.json();
+        if (cancelled || !r.ok) return;
+
+        const candles: Candle[] = j.candles ?? [];
+        candleRef.current?.setData(candles.map(toBar));
+        volumeRef.current?.setData(candles.map(toVolume));
+        chartRef.current?.timeScale().fitContent();
+
+        lastTime = candles.length ? candles[candles.length - 1].time : null;
+        setEmpty(candles.length === 0);
+      } catch (e) {
+        console.warn("[CurveChart] load failed:", e);
+      }
     }
 
-    if (maxV <= 0 || !Number.isFinite(maxV)) {
-      maxV = 1;
+    async function poll() {
+      try {
+        const from = lastTime ?? Math.floor(Date.now() / 1000);
+        const r = await fetch(`${base}&from=${from}`, { cache: "no-store" });
+        const j = await r.json();
+        if (cancelled || !r.ok) return;
+
+        // update() replaces the bar with the same time or appends a newer one
+        for (const c of (j.candles ?? []) as Candle[]) {
+          if (lastTime != null && c.time < lastTime) continue;
+          candleRef.current?.update(toBar(c));
+          volumeRef.current?.update(toVolume(c));
+          lastTime = c.time;
+          setEmpty(false);
+        }
+      } catch (e) {
+        console.warn("[CurveChart] poll failed:", e);
+      }
     }
 
-    return { minPrice: minP, maxPrice: maxP, maxVolume: maxV };
-  }, [candles]);
-
-  // Price area = top 70% of chart, volume = bottom 30%
-  const priceTop = 0;
-  const priceHeight = VIEW_HEIGHT * 0.7;
-  const volumeTop = priceHeight + 4;
-  const volumeHeight = VIEW_HEIGHT - volumeTop;
-
-  const toYPrice = (price: number) => {
-    const ratio =
-      (price - minPrice) / (maxPrice - minPrice || Number.EPSILON);
-    // Invert because SVG y increases downward
-    return priceTop + (1 - ratio) * priceHeight;
-  };
-
-  const toYVolume = (volume: number) => {
-    const vRatio = volume / (maxVolume || 1);
-    const h = vRatio * volumeHeight;
-    return volumeTop + (volumeHeight - h);
-  };
-
-  const candleWidth =
-    candles.length > 0 ? VIEW_WIDTH / candles.length : VIEW_WIDTH;
+    pollRef.current = null;
+    load().then(() => {
+      if (!cancelled) pollRef.current = poll;
+    });
+
+    return () => {
+      cancelled = true;
+      pollRef.current = null;
+    };
+  }, [coinId, interval]);
+
+  // A trade from the stream → pull the bar(s) it landed in
+  const liveKey = liveTrade?.sig ?? liveTrade?.id ?? null;
+  useEffect(() => {
+    if (liveKey) void pollRef.current?.();
+  }, [liveKey]);
+
+  // Poll only while the stream is down
+  useEffect(() => {
+    if (streamLive) return;
+    const timer = setInterval(() => void pollRef.current?.(), POLL_MS);
+    return () => clearInterval(timer);
+  }, [streamLive]);
 
   return (
-    <div className="w-full rounded-2xl border border-white/10 bg-gradient-to-b from-zinc-900/80 via-black to-black/90 overflow-hidden">
-      {/* Header / label row */}
-      <div className="px-4 pt-3 pb-2 flex items-center justify-between text-[11px] text-zinc-400 border-b border-white/5">
-        <div className="flex items-center gap-2">
-          <span className="inline-flex items-center gap-1 rounded-full bg-emerald-500/10 px-2 py-0.5 text-[10px] uppercase tracking-wide text-emerald-300">
-            Curve activity
-          </span>
-          <span className="text-zinc-500">
-            Candles &amp; volume · demo flow (not real trades yet)
-          </span>
-        </div>
-        <span className="text-[10px] text-zinc-500">
-          SolCurve.fun · devnet preview
-        </span>
+    <div className="relative h-full w-full">
+      <div className="absolute left-2 top-2 z-10 flex gap-1">
+        {(Object.keys(CANDLE_INTERVALS) as CandleInterval[]).map((iv) => (
+          <button
+            key={iv}
+            onClick={() => setCandleInterval(iv)}
+            className={`rounded-md px-2 py-0.5 text-[11px] ${
+              iv === interval
+                ? "bg-emerald-500/20 text-emerald-200"
+                : "bg-zinc-900/80 text-zinc-400 hover:text-zinc-200"
+            }`}
+          >
+            {iv}
+          </button>
+        ))}
       </div>
 
-      {/* Chart */}
-      <div className="h-[260px] md:h-[320px] px-2 pb-2 pt-1">
-        <svg
-          viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
-          className="w-full h-full"
-          preserveAspectRatio="none"
-        >
-          {/* subtle background grid */}
-          <defs>
-            <pattern
-              id="grid"
-              x="0"
-              y="0"
-              width="40"
-              height="40"
-              patternUnits="userSpaceOnUse"
-            >
-              <path
-                d="M 40 0 L 0 0 0 40"
-                fill="none"
-                stroke="rgba(55,65,81,0.4)"
-                strokeWidth="0.5"
-              />
-            </pattern>
-          </defs>
-
-          <rect
-            x={0}
-            y={0}
-            width={VIEW_WIDTH}
-            height={VIEW_HEIGHT}
-            fill="url(#grid)"
-          />
-
-          {/* Candles */}
-          {candles.map((c, idx) => {
-            const xCenter = idx * candleWidth + candleWidth / 2;
-            const wickX = xCenter;
-            const wickY1 = toYPrice(c.high);
-            const wickY2 = toYPrice(c.low);
-
-            const openY = toYPrice(c.open);
-            const closeY = toYPrice(c.close);
-            const bodyTop = Math.min(openY, closeY);
-            const bodyBottom = Math.max(openY, closeY);
-            const bodyHeight = Math.max(bodyBottom - bodyTop, 1); // at least 1px
-
-            const green = c.close >= c.open;
-            const bodyColor = green ? "#22c55e" : "#ef4444";
-            const bodyFill = green
-              ? "rgba(34,197,94,0.9)"
-              : "rgba(239,68,68,0.9)";
-
-            const bodyWidth = Math.max(candleWidth * 0.6, 3);
-
-            return (
-              <g key={idx}>
-                {/* Wick */}
-                <line
-                  x1={wickX}
-                  y1={wickY1}
-                  x2={wickX}
-                  y2={wickY2}
-                  stroke={bodyColor}
-                  strokeWidth={1}
-                  strokeLinecap="round"
-                />
-                {/* Body */}
-                <rect
-                  x={xCenter - bodyWidth / 2}
-                  y={bodyTop}
-                  width={bodyWidth}
-                  height={bodyHeight}
-                  fill={bodyFill}
-                  stroke={bodyColor}
-                  strokeWidth={0.6}
-                  rx={bodyWidth * 0.15}
-                />
-              </g>
-            );
-          })}
-
-          {/* Volume bars */}
-          {candles.map((c, idx) => {
-            const xCenter = idx * candleWidth + candleWidth / 2;
-            const barWidth = Math.max(candleWidth * 0.5, 2);
-            const y = toYVolume(c.volume);
-            const h = volumeTop + volumeHeight - y;
-
-            const green = c.close >= c.open;
-            const color = green
-              ? "rgba(34,197,94,0.55)"
-              : "rgba(239,68,68,0.55)";
-
-            return (
-              <rect
-                key={`vol-${idx}`}
-                x={xCenter - barWidth / 2}
-                y={y}
-                width={barWidth}
-                height={h}
-                fill={color}
-                rx={barWidth * 0.2}
-              />
-            );
-          })}
-        </svg>
-      </div>
+      {empty && (
+        <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center text-xs text-zinc-500">
+          No trades in this range yet.
+        </div>
+      )}
+
+      <div ref={containerRef} className="h-full w-full" />
     </div>
   );
 }
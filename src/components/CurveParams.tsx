@@ -1,86 +1,146 @@
 "use client";
-import { useState, useEffect } from "react";
-import type { CurveType } from "@/lib/curves";
 
-export type Params = {
-  type: CurveType;
-  p0: number;
-  m: number;
-  k: number; q1: number; q2: number; m1: number; m2: number;
-  steps: number; sMin: number; sMax: number; seed: number;
+import {
+  getCurve,
+  listCurves,
+  defaultParams,
+  WINDOW_FIELDS,
+  type CurveParamField,
+  type CurveParamValues,
+} from "@/lib/curves";
+import CurvePreview from "@/components/CurvePreview";
+
+export type CurveSelection = {
+  curve: string;
+  params: CurveParamValues;
 };
 
-export function useDefaultParams(): Params {
-  return {
-    type: "DEGEN",
-    p0: 0.0000003,
-    m: 0.2,
-    k: 3.0, q1: 0.1, q2: 0.7, m1: 0.8, m2: 0.2,
-    steps: 12, sMin: 0.05, sMax: 0.35, seed: 42,
-  };
+export function defaultSelection(curve = "linear"): CurveSelection {
+  return { curve, params: defaultParams(getCurve(curve)) };
 }
 
+/**
+ * Curve picker for the create page. Renders every registered curve as a
+ * card plus that curve's own parameter fields, the shared price window
+ * (under "Advanced") and a live preview.
+ */
 export function CurveParams({
-  value, onChange,
-}:{ value: Params; onChange:(p:Params)=>void }) {
-  const [p, setP] = useState(value);
-  useEffect(() => { onChange(p); }, [p, onChange]);
+  value,
+  onChange,
+}: {
+  value: CurveSelection;
+  onChange: (v: CurveSelection) => void;
+}) {
+  const model = getCurve(value.curve);
 
   return (
-    <div className="grid gap-4">
-      <div>
-        <label className="text-sm">Curve Type</label>
-        <select
-          className="w-full min-w-0 rounded-lg border bg-black/20 p-2"
-          value={p.type}
-          onChange={(e)=>setP({ ...p, type: e.target.value as CurveType })}
-        >
-          <option value="LINEAR">Linear</option>
-          <option value="DEGEN">Degen</option>
-          <option value="RANDOM">Random</option>
-        </select>
+    <div className="grid gap-3">
+      <div className="grid gap-2 sm:grid-cols-3">
+        {listCurves().map((c) => {
+          const active = c.id === model.id;
+          return (
+            <button
+              key={c.id}
+              type="button"
+              onClick={() =>
+                onChange({
+                  curve: c.id,
+                  // keep the window + shared knobs (e.g. strength) when switching curves
+                  params: {
+                    ...defaultParams(c),
+                    ...pick(value.params, [...WINDOW_FIELDS, ...c.fields]),
+                  },
+                })
+              }
+              className={`rounded-xl border px-3 py-2 text-left transition ${
+                active
+                  ? "border-emerald-400 bg-emerald-500/10 shadow-lg shadow-emerald-500/20"
+                  : "border-white/10 bg-black/40 hover:bg-white/5"
+              }`}
+            >
+              <div className="text-xs font-semibold text-white">{c.label}</div>
+              <div className="mt-0.5 text-[10px] font-semibold uppercase tracking-wide text-emerald-300">
+                {c.badge}
+              </div>
+              <div className="mt-1 text-[11px] text-gray-400">
+                {c.description}
+              </div>
+            </button>
+          );
+        })}
       </div>
 
-      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-        <Field label="Start price p0 (SOL)" val={p.p0} set={(v)=>setP({...p, p0:v})} />
-
-        {p.type === "LINEAR" && (
-          <Field label="Slope m" val={p.m} set={(v)=>setP({...p, m:v})} />
-        )}
+      {model.fields.length > 0 && (
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+          {model.fields.map((f) => (
+            <Field
+              key={f.key}
+              field={f}
+              val={value.params[f.key] ?? f.default}
+              set={(v) =>
+                onChange({ ...value, params: { ...value.params, [f.key]: v } })
+              }
+            />
+          ))}
+        </div>
+      )}
 
-        {p.type === "DEGEN" && <>
-          <Field label="k (exp ramp)" val={p.k} set={(v)=>setP({...p, k:v})} />
-          <Field label="q1 (0-1)" val={p.q1} set={(v)=>setP({...p, q1:v})} />
-          <Field label="q2 (0-1)" val={p.q2} set={(v)=>setP({...p, q2:v})} />
-          <Field label="m1" val={p.m1} set={(v)=>setP({...p, m1:v})} />
-          <Field label="m2" val={p.m2} set={(v)=>setP({...p, m2:v})} />
-        </>}
+      <details className="rounded-xl border border-white/10 bg-black/30 px-3 py-2">
+        <summary className="cursor-pointer text-xs font-semibold text-gray-300">
+          Advanced: price window &amp; migration
+        </summary>
+        <div className="mt-3 grid grid-cols-2 gap-3">
+          {WINDOW_FIELDS.map((f) => (
+            <Field
+              key={f.key}
+              field={f}
+              val={value.params[f.key] ?? f.default}
+              set={(v) =>
+                onChange({ ...value, params: { ...value.params, [f.key]: v } })
+              }
+            />
+          ))}
+        </div>
+      </details>
 
-        {p.type === "RANDOM" && <>
-          <Field label="Windows (steps)" val={p.steps} set={(v)=>setP({...p, steps:v})} />
-          <Field label="Slope min" val={p.sMin} set={(v)=>setP({...p, sMin:v})} />
-          <Field label="Slope max" val={p.sMax} set={(v)=>setP({...p, sMax:v})} />
-          <Field label="Seed" val={p.seed} set={(v)=>setP({...p, seed:v})} />
-        </>}
-      </div>
+      <CurvePreview model={model} params={value.params} />
     </div>
   );
 }
 
+function pick(params: CurveParamValues, fields: CurveParamField[]) {
+  const out: CurveParamValues = {};
+  for (const f of fields) {
+    if (Number.isFinite(params[f.key])) out[f.key] = params[f.key];
+  }
+  return out;
+}
+
 function Field({
-  label, val, set,
-}:{ label:string; val:number; set:(v:number)=>void }) {
+  field, val, set,
+}:{ field: CurveParamField; val: number; set: (v: number) => void }) {
   return (
-    <label className="text-sm grid gap-1">
-      <span>{label}</span>
+    <label className="grid gap-1 text-xs text-gray-400">
+      <span>{field.label}</span>
       <input
         type="number"
-        step="any"
-        className="w-full min-w-0 rounded-lg border bg-black/20 p-2"
-        value={Number.isFinite(val) ? val : 0}
-        onChange={(e)=>set(parseFloat(e.target.value))}
+        min={field.min}
+        max={field.max}
+        step={field.step}
+        className="w-full min-w-0 rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-sm text-white outline-none focus:border-emerald-500"
+        value={Number.isFinite(val) ? val : field.default}
+        onChange={(e) => {
+          const v = parseFloat(e.target.value);
+          set(
+            Number.isFinite(v)
+              ? Math.max(field.min, Math.min(field.max, v))
+              : field.default
+          );
+        }}
       />
+      {field.help && (
+        <span className="text-[11px] text-gray-500">{field.help}</span>
+      )}
     </label>
   );
 }
-
@@ -0,0 +1,68 @@
+"use client";
+
+import { useMemo } from "react";
+import { curveSeries, type CurveModel, type CurveParamValues } from "@/lib/curves";
+
+/**
+ * Small SVG preview of a curve's price (SOL per token) across the migration
+ * window. Works for any registered curve.
+ */
+
+const VIEW_WIDTH = 300;
+const VIEW_HEIGHT = 90;
+const PAD = 4;
+
+export default function CurvePreview({
+  model,
+  params,
+}: {
+  model: CurveModel;
+  params: CurveParamValues;
+}) {
+  const d = useMemo(() => {
+    const pts = curveSeries(model, params, 120).map((p) => ({
+      x: p.sold,
+      y: p.tokensPerSol > 0 ? 1 / p.tokensPerSol : 0,
+    }));
+    if (pts.length < 2) return "";
+
+    const xmax = pts[pts.length - 1].x || 1;
+    let ymin = Number.POSITIVE_INFINITY;
+    let ymax = 0;
+    for (const p of pts) {
+      if (p.y < ymin) ymin = p.y;
+      if (p.y > ymax) ymax = p.y;
+    }
+    const yspan = ymax - ymin || Number.EPSILON;
+
+    const sx = (x: number) => PAD + (VIEW_WIDTH - 2 * PAD) * (x / xmax);
+    const sy = (y: number) =>
+      VIEW_HEIGHT - PAD - (VIEW_HEIGHT - 2 * PAD) * ((y - ymin) / yspan);
+
+    return pts
+      .map((p, i) => `${i ? "L" : "M"}${sx(p.x).toFixed(1)},${sy(p.y).toFixed(1)}`)
+      .join(" ");
+  }, [model, params]);
+
+  return (
+    <div className="rounded-lg border border-white/5 bg-black/60 px-2 py-1">
+      <div className="flex items-center justify-between text-[10px] text-gray-500">
+        <span>Price per token</span>
+        <span>sold → migration</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+        className="h-20 w-full"
+        preserveAspectRatio="none"
+      >
+        <path
+          d={d}
+          fill="none"
+          stroke="#34d399"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+// src/components/RiskPanel.tsx
+import { useEffect } from "react";
+import useSWR from "swr";
+
+type Withdrawal = {
+  sig: string;
+  ts: string;
+  to: string;
+  sol: number;
+  isMigration: boolean;
+  url: string;
+};
+
+type Risk = {
+  level: "ok" | "warn" | "danger";
+  reasons: string[];
+  withdrawAuthority: string | null;
+  authorityIsCreator: boolean | null;
+  withdrawals: {
+    count: number;
+    sol: number;
+    lastAt: string | null;
+    items: Withdrawal[];
+  };
+  poolLamports: number | null;
+  impliedLamports: number | null;
+  solvencyRatio: number | null;
+  graduated: boolean;
+};
+
+const fetcher = (u: string) => fetch(u).then((r) => r.json());
+
+function short(addr: string | null) {
+  return addr ? `${addr.slice(0, 4)}…${addr.slice(-4)}` : "—";
+}
+
+const LEVEL_STYLE: Record<Risk["level"], string> = {
+  ok: "border-emerald-500/30 bg-emerald-500/10 text-emerald-200",
+  warn: "border-amber-500/40 bg-amber-500/10 text-amber-200",
+  danger: "border-red-500/50 bg-red-500/10 text-red-200",
+};
+
+const LEVEL_LABEL: Record<Risk["level"], string> = {
+  ok: "No withdrawals",
+  warn: "Check solvency",
+  danger: "Pool withdrawn",
+};
+
+/**
+ * Rug-risk disclosure: who can pull SOL from the curve, what has been
+ * pulled so far and whether the pool still holds what the curve says it
+ * should. Refetches whenever `poolLamports` (from the live stats) moves.
+ */
+export default function RiskPanel({
+  id,
+  poolLamports,
+}: {
+  id: string;
+  poolLamports?: number | null;
+}) {
+  const { data, mutate } = useSWR<Risk>(
+    `/api/coins/${encodeURIComponent(id)}/risk`,
+    fetcher,
+    { refreshInterval: 30_000 }
+  );
+
+  useEffect(() => {
+    if (poolLamports != null) mutate();
+  }, [poolLamports, mutate]);
+
+  if (!data || !data.level) return null;
+
+  const ratio = data.solvencyRatio;
+  const drains = data.withdrawals.items.filter((w) => !w.isMigration);
+
+  return (
+    <section className="rounded-2xl border border-zinc-800 bg-zinc-950/70 p-4 text-sm shadow-inner shadow-black/40">
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-xs uppercase tracking-[0.16em] text-zinc-500">
+          Rug risk
+        </div>
+        <span
+          className={`rounded-full border px-2 py-[2px] text-[11px] ${LEVEL_STYLE[data.level]}`}
+        >
+          {data.level === "danger" && data.withdrawals.count === 0
+            ? "Pool short"
+            : LEVEL_LABEL[data.level]}
+        </span>
+      </div>
+
+      <div className="mt-3 grid gap-3 text-xs md:grid-cols-3">
+        <div>
+          <div className="text-[11px] text-zinc-500">Withdraw authority</div>
+          <div className="font-mono text-zinc-100">{short(data.withdrawAuthority)}</div>
+          <div className="text-[11px] text-zinc-500">
+            {data.graduated
+              ? "Curve closed – liquidity is in the AMM pool"
+              : data.authorityIsCreator
+              ? "the coin creator"
+              : "the platform"}
+          </div>
+        </div>
+        <div>
+          <div className="text-[11px] text-zinc-500">Withdrawn so far</div>
+          <div className="font-mono text-zinc-100">
+            {data.withdrawals.sol.toFixed(4)} SOL
+          </div>
+          <div className="text-[11px] text-zinc-500">
+            {data.withdrawals.count} withdrawal{data.withdrawals.count === 1 ? "" : "s"}
+            {data.withdrawals.lastAt
+              ? ` · last ${new Date(data.withdrawals.lastAt).toLocaleString()}`
+              : ""}
+          </div>
+        </div>
+        <div>
+          <div className="text-[11px] text-zinc-500">Pool vs curve</div>
+          <div
+            className={`font-mono ${
+              ratio == null
+                ? "text-zinc-400"
+                : ratio < 0.9
+                ? "text-red-300"
+                : ratio < 0.98
+                ? "text-amber-300"
+                : "text-emerald-300"
+            }`}
+          >
+            {ratio == null ? "—" : `${(ratio * 100).toFixed(1)}%`}
+          </div>
+          <div className="text-[11px] text-zinc-500">
+            {data.poolLamports != null && data.impliedLamports != null
+              ? `${(data.poolLamports / 1e9).toFixed(4)} / ${(
+                  data.impliedLamports / 1e9
+                ).toFixed(4)} SOL implied by sold supply`
+              : "nothing sold yet"}
+          </div>
+        </div>
+      </div>
+
+      {data.reasons.length > 0 && (
+        <ul className="mt-3 space-y-1 text-[11px] text-zinc-400">
+          {data.reasons.map((r) => (
+            <li key={r}>• {r}</li>
+          ))}
+        </ul>
+      )}
+
+      {drains.length > 0 && (
+        <div className="mt-3 space-y-1 text-[11px]">
+          {drains.map((w) => (
+            <div key={w.sig} className="flex items-center justify-between gap-2 text-zinc-300">
+              <span>{new Date(w.ts).toLocaleString()}</span>
+              <span className="font-mono text-red-300">−{w.sol.toFixed(4)} SOL</span>
+              <span className="font-mono text-zinc-500">→ {short(w.to)}</span>
+              <a
+                href={w.url}
+                target="_blank"
+                rel="noreferrer"
+                className="text-zinc-400 underline decoration-zinc-600 hover:text-white"
+              >
+                tx
+              </a>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
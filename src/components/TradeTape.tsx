@@ -0,0 +1,158 @@
+"use client";
+
+// src/components/TradeTape.tsx
+import { useEffect, useState } from "react";
+import useSWR from "swr";
+import ActivitySparkline from "@/components/ActivitySparkline";
+import type { Trade } from "@/lib/types";
+import { explorerTxUrl } from "@/lib/config";
+
+type TradePage = { trades: Trade[]; nextCursor: string | null };
+
+const fetcher = (u: string) => fetch(u).then((r) => r.json());
+
+function short(addr: string | null) {
+  return addr ? `${addr.slice(0, 4)}…${addr.slice(-4)}` : "—";
+}
+
+function timeAgo(iso: string) {
+  const s = Math.max(0, Math.floor((Date.now() - new Date(iso).getTime()) / 1000));
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m`;
+  if (s < 86400) return `${Math.floor(s / 3600)}h`;
+  return `${Math.floor(s / 86400)}d`;
+}
+
+/**
+ * Live trade tape: newest page refetched whenever the coin stream reports a
+ * trade (polled only while the stream is down), older pages loaded on demand.
+ */
+export default function TradeTape({
+  id,
+  liveTrade,
+  streamLive = false,
+}: {
+  id: string;
+  liveTrade?: Trade | null;
+  streamLive?: boolean;
+}) {
+  const base = `/api/coins/${encodeURIComponent(id)}/trades`;
+  const { data, mutate } = useSWR<TradePage>(`${base}?limit=25`, fetcher, {
+    refreshInterval: streamLive ? 0 : 3000,
+  });
+
+  const liveKey = liveTrade?.sig ?? liveTrade?.id ?? null;
+  useEffect(() => {
+    if (liveKey) mutate();
+  }, [liveKey, mutate]);
+
+  const [older, setOlder] = useState<Trade[]>([]);
+  const [cursor, setCursor] = useState<string | null | undefined>(undefined);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  // Until we've paged once, continue from the live page's cursor
+  const nextCursor = cursor === undefined ? data?.nextCursor ?? null : cursor;
+
+  async function loadMore() {
+    if (!nextCursor) return;
+    try {
+      setLoadingMore(true);
+      const j: TradePage = await fetcher(
+        `${base}?limit=25&cursor=${encodeURIComponent(nextCursor)}`
+      );
+      setOlder((o) => [...o, ...(j.trades ?? [])]);
+      setCursor(j.nextCursor ?? null);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  const seen = new Set<string>();
+  const trades = [...(data?.trades ?? []), ...older].filter((t) => {
+    const k = t.sig ?? t.id;
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+
+  return (
+    <section className="rounded-3xl border border-zinc-800 bg-zinc-950/80 p-4 md:p-5">
+      <div className="mb-3 flex items-center justify-between gap-4">
+        <div className="text-xs uppercase tracking-[0.16em] text-zinc-500">
+          Trades
+        </div>
+        <div className="text-emerald-300">
+          <ActivitySparkline id={id} liveTrade={liveTrade} streamLive={streamLive} />
+        </div>
+      </div>
+
+      {trades.length === 0 ? (
+        <div className="text-xs text-zinc-500">No trades indexed yet.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="text-zinc-500">
+              <tr>
+                <th className="py-1 pr-3">Side</th>
+                <th className="py-1 pr-3">Trader</th>
+                <th className="py-1 pr-3 text-right">SOL</th>
+                <th className="py-1 pr-3 text-right">Tokens</th>
+                <th className="py-1 pr-3 text-right">Price (SOL)</th>
+                <th className="py-1 text-right">Age</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {trades.map((t) => (
+                <tr key={t.sig ?? t.id} className="border-t border-zinc-900">
+                  <td
+                    className={`py-1 pr-3 ${
+                      t.side === "buy" ? "text-emerald-300" : "text-rose-300"
+                    }`}
+                  >
+                    {t.side}
+                  </td>
+                  <td className="py-1 pr-3 text-zinc-300">{short(t.buyer)}</td>
+                  <td className="py-1 pr-3 text-right">
+                    {t.amountSol.toLocaleString(undefined, { maximumFractionDigits: 4 })}
+                  </td>
+                  <td className="py-1 pr-3 text-right">
+                    {t.tokenAmount != null
+                      ? t.tokenAmount.toLocaleString(undefined, { maximumFractionDigits: 2 })
+                      : "—"}
+                  </td>
+                  <td className="py-1 pr-3 text-right">
+                    {t.priceSol != null ? t.priceSol.toPrecision(4) : "—"}
+                  </td>
+                  <td className="py-1 text-right text-zinc-500">
+                    {t.sig ? (
+                      <a
+                        href={explorerTxUrl(t.sig)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="hover:text-zinc-300"
+                      >
+                        {timeAgo(t.ts)}
+                      </a>
+                    ) : (
+                      timeAgo(t.ts)
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {nextCursor && (
+        <button
+          onClick={loadMore}
+          disabled={loadingMore}
+          className="mt-3 rounded-xl border border-zinc-800 px-3 py-1.5 text-xs text-zinc-300 hover:bg-zinc-900 disabled:opacity-50"
+        >
+          {loadingMore ? "Loading…" : "Load older trades"}
+        </button>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,12 @@
+// src/instrumentation.ts
+//
+// Runs once when the Next server boots. Importing lib/config validates the
+// cluster config, so a bad env fails the deploy instead of the first request.
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { describeConfig } = await import("@/lib/config");
+    const { cluster, values } = describeConfig();
+    console.log(`[CONFIG] cluster=${cluster} rpc=${values.rpcUrl} program=${values.programId}`);
+  }
+}
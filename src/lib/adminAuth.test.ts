@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isAdminRequest } from "@/lib/adminAuth";
+
+function req(authorization?: string) {
+  return new Request("http://localhost/api/indexer", {
+    headers: authorization ? { authorization } : {},
+  });
+}
+
+describe("isAdminRequest", () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("refuses everyone when no secret is configured", () => {
+    vi.stubEnv("INDEXER_SECRET", "");
+    vi.stubEnv("CRON_SECRET", "");
+    expect(isAdminRequest(req(), "INDEXER_SECRET")).toBe(false);
+    expect(isAdminRequest(req("Bearer "), "INDEXER_SECRET")).toBe(false);
+    expect(isAdminRequest(req("Bearer undefined"), "INDEXER_SECRET")).toBe(false);
+  });
+
+  it("accepts the route's secret or CRON_SECRET", () => {
+    vi.stubEnv("INDEXER_SECRET", "route-secret");
+    vi.stubEnv("CRON_SECRET", "cron-secret");
+    expect(isAdminRequest(req("Bearer route-secret"), "INDEXER_SECRET")).toBe(true);
+    expect(isAdminRequest(req("Bearer cron-secret"), "INDEXER_SECRET")).toBe(true);
+  });
+
+  it("rejects a wrong secret, a prefix of it, or another route's", () => {
+    vi.stubEnv("INDEXER_SECRET", "route-secret");
+    vi.stubEnv("MIGRATION_SECRET", "migration-secret");
+    vi.stubEnv("CRON_SECRET", "");
+    expect(isAdminRequest(req("Bearer nope"), "INDEXER_SECRET")).toBe(false);
+    expect(isAdminRequest(req("Bearer route"), "INDEXER_SECRET")).toBe(false);
+    expect(isAdminRequest(req("route-secret"), "INDEXER_SECRET")).toBe(false);
+    expect(isAdminRequest(req("Bearer migration-secret"), "INDEXER_SECRET")).toBe(false);
+  });
+});
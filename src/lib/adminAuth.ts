@@ -0,0 +1,35 @@
+// src/lib/adminAuth.ts
+//
+// Bearer-secret check for the admin / cron routes. Each route has its own
+// secret and also accepts CRON_SECRET, which Vercel cron sends as
+// `Authorization: Bearer <CRON_SECRET>`. Fails closed: with neither secret
+// configured nobody gets in, on every cluster.
+
+import { createHash, timingSafeEqual } from "crypto";
+
+/** Per-route secret env vars (CRON_SECRET is always accepted too). */
+export type AdminSecretEnv =
+  | "INDEXER_SECRET"
+  | "MIGRATION_SECRET"
+  | "LAUNCH_ADMIN_SECRET";
+
+// Hashing first gives timingSafeEqual equal-length inputs, so neither the
+// secret's contents nor its length leak through the compare.
+function sameSecret(given: string, secret: string): boolean {
+  const a = createHash("sha256").update(given).digest();
+  const b = createHash("sha256").update(secret).digest();
+  return timingSafeEqual(a, b);
+}
+
+/** True when `req` carries `Authorization: Bearer <secret>` for a configured secret. */
+export function isAdminRequest(req: Request, secretEnv: AdminSecretEnv): boolean {
+  const header = req.headers.get("authorization") ?? "";
+  const given = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+  if (!given) return false;
+
+  let ok = false;
+  for (const secret of [process.env[secretEnv], process.env.CRON_SECRET]) {
+    if (secret && sameSecret(given, secret)) ok = true;
+  }
+  return ok;
+}
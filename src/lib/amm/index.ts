@@ -0,0 +1,16 @@
+// src/lib/amm/index.ts
+//
+// Which pool program completed curves migrate to. Only the local CPMM
+// stand-in exists so far; a real DEX adapter implements AmmAdapter and is
+// picked here.
+
+import { AMM_PROGRAM_ID } from "@/lib/config";
+import { localCpmm } from "./localCpmm";
+import type { AmmAdapter } from "./types";
+
+export type { AmmAdapter, LockLpArgs, SeedPoolArgs } from "./types";
+
+/** The configured AMM, or null when AMM_PROGRAM_ID isn't set. */
+export function migrationAmm(): AmmAdapter | null {
+  return AMM_PROGRAM_ID ? localCpmm(AMM_PROGRAM_ID) : null;
+}
@@ -0,0 +1,136 @@
+// src/lib/amm/localCpmm.ts
+//
+// LOCAL CPMM: a minimal constant-product (x·y = k) pool program we deploy
+// next to curve_launchpad on localnet/devnet as a stand-in for a real DEX.
+// Its program id is AMM_PROGRAM_ID (lib/config). Two Anchor instructions:
+//
+//   initialize_pool(sol_amount: u64, token_amount: u64)
+//     0 payer           signer, mut  – pays both legs, receives LP
+//     1 pool            mut          – PDA ["pool", mint]; holds the SOL leg
+//     2 mint
+//     3 pool_vault      mut          – ATA(mint, pool)
+//     4 payer_tokens    mut          – payer's token account (source)
+//     5 lp_mint         mut          – PDA ["lp_mint", pool]
+//     6 payer_lp        mut          – ATA(lp_mint, payer)
+//     7 token_program                – the mint's; the LP mint is created
+//                                      under the same program
+//     8 associated_token_program
+//     9 system_program
+//
+// The program creates pool, vault and LP accounts itself, moves both legs in
+// and mints sqrt(sol · tokens) LP to the payer, so the opening price is
+// exactly sol_amount / token_amount.
+//
+//   lock_lp(amount: u64, unlock_ts: i64)
+//     0 owner           signer, mut
+//     1 pool
+//     2 lp_mint
+//     3 owner_lp        mut          – ATA(lp_mint, owner)
+//     4 lock            mut          – PDA ["lp_lock", pool]; records unlock_ts
+//     5 lock_vault      mut          – ATA(lp_mint, lock)
+//     6 token_program
+//     7 associated_token_program
+//     8 system_program
+//
+// Locked LP can only leave lock_vault after unlock_ts, and only back to the
+// owner recorded in `lock`.
+
+import crypto from "crypto";
+import { PublicKey, SystemProgram, TransactionInstruction } from "@solana/web3.js";
+import { ASSOCIATED_TOKEN_PROGRAM_ID } from "@/lib/config";
+import { ataFor } from "@/lib/tokenProgram";
+import type { AmmAdapter, LockLpArgs, SeedPoolArgs } from "./types";
+
+const DISC_INITIALIZE_POOL = crypto
+  .createHash("sha256")
+  .update("global:initialize_pool")
+  .digest()
+  .subarray(0, 8);
+
+const DISC_LOCK_LP = crypto
+  .createHash("sha256")
+  .update("global:lock_lp")
+  .digest()
+  .subarray(0, 8);
+
+export function localCpmm(programId: PublicKey): AmmAdapter {
+  const poolAddress = (mint: PublicKey) =>
+    PublicKey.findProgramAddressSync([Buffer.from("pool"), mint.toBuffer()], programId)[0];
+
+  const lpMint = (mint: PublicKey) =>
+    PublicKey.findProgramAddressSync(
+      [Buffer.from("lp_mint"), poolAddress(mint).toBuffer()],
+      programId
+    )[0];
+
+  function seedPoolIxs(a: SeedPoolArgs): TransactionInstruction[] {
+    const pool = poolAddress(a.mint);
+    const lp = lpMint(a.mint);
+
+    const data = Buffer.alloc(24);
+    DISC_INITIALIZE_POOL.copy(data, 0);
+    data.writeBigUInt64LE(a.solLamports, 8);
+    data.writeBigUInt64LE(a.tokenAmountRaw, 16);
+
+    return [
+      new TransactionInstruction({
+        programId,
+        keys: [
+          { pubkey: a.payer, isSigner: true, isWritable: true },
+          { pubkey: pool, isSigner: false, isWritable: true },
+          { pubkey: a.mint, isSigner: false, isWritable: false },
+          { pubkey: ataFor(a.mint, pool, a.tokenProgram, true), isSigner: false, isWritable: true },
+          { pubkey: a.tokenSource, isSigner: false, isWritable: true },
+          { pubkey: lp, isSigner: false, isWritable: true },
+          { pubkey: ataFor(lp, a.payer, a.tokenProgram), isSigner: false, isWritable: true },
+          { pubkey: a.tokenProgram, isSigner: false, isWritable: false },
+          { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+          { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+        ],
+        data,
+      }),
+    ];
+  }
+
+  function lockLpIxs(a: LockLpArgs): TransactionInstruction[] {
+    const pool = poolAddress(a.mint);
+    const lp = lpMint(a.mint);
+    const lock = PublicKey.findProgramAddressSync(
+      [Buffer.from("lp_lock"), pool.toBuffer()],
+      programId
+    )[0];
+
+    const data = Buffer.alloc(24);
+    DISC_LOCK_LP.copy(data, 0);
+    data.writeBigUInt64LE(a.amountRaw, 8);
+    data.writeBigInt64LE(BigInt(a.unlockAt), 16);
+
+    return [
+      new TransactionInstruction({
+        programId,
+        keys: [
+          { pubkey: a.owner, isSigner: true, isWritable: true },
+          { pubkey: pool, isSigner: false, isWritable: false },
+          { pubkey: lp, isSigner: false, isWritable: false },
+          { pubkey: ataFor(lp, a.owner, a.tokenProgram), isSigner: false, isWritable: true },
+          { pubkey: lock, isSigner: false, isWritable: true },
+          { pubkey: ataFor(lp, lock, a.tokenProgram, true), isSigner: false, isWritable: true },
+          { pubkey: a.tokenProgram, isSigner: false, isWritable: false },
+          { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+          { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+        ],
+        data,
+      }),
+    ];
+  }
+
+  return {
+    id: "local-cpmm",
+    label: "Local CPMM",
+    programId,
+    poolAddress,
+    lpMint,
+    seedPoolIxs,
+    lockLpIxs,
+  };
+}
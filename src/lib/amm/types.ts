@@ -0,0 +1,46 @@
+// src/lib/amm/types.ts
+//
+// The contract a pool program implements for curve migration (lib/migration.ts).
+// Amounts are raw: lamports for SOL, u64 base units for the token.
+
+import type { PublicKey, TransactionInstruction } from "@solana/web3.js";
+
+export type SeedPoolArgs = {
+  /** Signs and funds both legs; receives the LP tokens. */
+  payer: PublicKey;
+  mint: PublicKey;
+  /** payer-owned token account holding at least `tokenAmountRaw`. */
+  tokenSource: PublicKey;
+  /** Token program of `mint` (classic or Token-2022, lib/tokenProgram). */
+  tokenProgram: PublicKey;
+  solLamports: bigint;
+  tokenAmountRaw: bigint;
+};
+
+export type LockLpArgs = {
+  owner: PublicKey;
+  mint: PublicKey;
+  amountRaw: bigint;
+  /** Unix seconds before which the program refuses to release the LP. */
+  unlockAt: number;
+  /** Token program the LP mint lives under. */
+  tokenProgram: PublicKey;
+};
+
+export interface AmmAdapter {
+  /** Stored in `coins.pool_amm`. Lowercase, stable forever. */
+  id: string;
+  label: string;
+  programId: PublicKey;
+
+  /** Pool account for `mint` (deterministic, so it can be recorded up front). */
+  poolAddress(mint: PublicKey): PublicKey;
+  /** LP mint of that pool. */
+  lpMint(mint: PublicKey): PublicKey;
+
+  /** Ixs that create the pool and deposit both legs at price sol / tokens. */
+  seedPoolIxs(args: SeedPoolArgs): TransactionInstruction[];
+
+  /** Moves `owner`'s LP into the program's time lock for this pool. */
+  lockLpIxs(args: LockLpArgs): TransactionInstruction[];
+}
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  MAX_CANDLE_LIMIT,
+  buildCandles,
+  candleWindowStart,
+  clampCandleLimit,
+} from "@/lib/candles";
+import type { Trade } from "@/lib/types";
+
+const NOW = Date.parse("2026-10-19T12:34:56.000Z");
+const nowSec = Math.floor(NOW / 1000);
+
+function trade(ts: string, priceSol: number | null, amountSol = 1): Trade {
+  return {
+    id: ts,
+    coinId: "coin-1",
+    ts,
+    amountSol,
+    side: "buy",
+    buyer: null,
+    sig: null,
+    slot: null,
+    tokenAmount: priceSol ? amountSol / priceSol : null,
+    priceSol,
+  };
+}
+
+describe("candleWindowStart", () => {
+  afterEach(() => vi.useRealTimers());
+
+  it("starts `limit` buckets back, counting the open one", () => {
+    vi.useFakeTimers({ now: NOW });
+    const minute = Math.floor(nowSec / 60) * 60;
+    expect(candleWindowStart("1m", { limit: 1 })).toBe(minute);
+    expect(candleWindowStart("1m", { limit: 10 })).toBe(minute - 9 * 60);
+    expect(candleWindowStart("1h", { limit: 24 })).toBe(Math.floor(nowSec / 3600) * 3600 - 23 * 3600);
+  });
+
+  it("polls from the bucket holding `from`, ignoring limit", () => {
+    vi.useFakeTimers({ now: NOW });
+    expect(candleWindowStart("5m", { from: 1_000_123, limit: 3 })).toBe(999_900);
+  });
+
+  it("clamps limit to [1, MAX_CANDLE_LIMIT]", () => {
+    expect(clampCandleLimit(0)).toBe(1);
+    expect(clampCandleLimit(10_000)).toBe(MAX_CANDLE_LIMIT);
+    expect(clampCandleLimit(undefined)).toBe(300);
+  });
+});
+
+describe("buildCandles", () => {
+  it("folds trades into ascending OHLCV bars, whatever order they come in", () => {
+    const bars = buildCandles(
+      [
+        trade("2026-10-19T12:01:30.000Z", 3),
+        trade("2026-10-19T12:00:10.000Z", 2),
+        trade("2026-10-19T12:00:50.000Z", 1),
+        trade("2026-10-19T12:00:30.000Z", 4, 2),
+      ],
+      "1m"
+    );
+    expect(bars).toEqual([
+      {
+        time: Date.parse("2026-10-19T12:00:00.000Z") / 1000,
+        open: 2,
+        high: 4,
+        low: 1,
+        close: 1,
+        volume: 4,
+        volumeTokens: 0.5 + 0.5 + 1,
+        trades: 3,
+      },
+      {
+        time: Date.parse("2026-10-19T12:01:00.000Z") / 1000,
+        open: 3,
+        high: 3,
+        low: 3,
+        close: 3,
+        volume: 1,
+        volumeTokens: 1 / 3,
+        trades: 1,
+      },
+    ]);
+  });
+
+  it("skips unpriced trades and leaves empty buckets out", () => {
+    const bars = buildCandles(
+      [
+        trade("2026-10-19T12:00:10.000Z", 1),
+        trade("2026-10-19T12:01:10.000Z", null),
+        trade("2026-10-19T12:03:10.000Z", 2),
+      ],
+      "1m"
+    );
+    expect(bars.map((b) => b.time - bars[0].time)).toEqual([0, 180]);
+  });
+});
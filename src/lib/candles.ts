@@ -0,0 +1,98 @@
+// src/lib/candles.ts
+//
+// OHLCV bars from indexed trades (see lib/indexer.ts). Price is each fill's
+// SOL per token; volume is SOL traded. Buckets with no trades are left out –
+// the chart draws gaps rather than flat fake bars.
+//
+// Browser-safe (CurveChart shares the types/intervals); the route does the
+// trade lookup.
+
+import type { Trade } from "@/lib/types";
+
+export const CANDLE_INTERVALS = {
+  "1m": 60,
+  "5m": 300,
+  "15m": 900,
+  "1h": 3_600,
+  "1d": 86_400,
+} as const;
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+export const DEFAULT_CANDLE_LIMIT = 300;
+export const MAX_CANDLE_LIMIT = 1_000;
+
+export type Candle = {
+  time: number; // bucket start, unix seconds (UTC)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // SOL
+  volumeTokens: number;
+  trades: number;
+};
+
+export function isCandleInterval(v: unknown): v is CandleInterval {
+  return typeof v === "string" && v in CANDLE_INTERVALS;
+}
+
+/** Start of the bucket containing `unixSec`. */
+export function bucketStart(unixSec: number, interval: CandleInterval): number {
+  const step = CANDLE_INTERVALS[interval];
+  return Math.floor(unixSec / step) * step;
+}
+
+/** Folds trades (any order) into ascending bars; unpriced trades are skipped. */
+export function buildCandles(trades: Trade[], interval: CandleInterval): Candle[] {
+  const sorted = trades
+    .filter((t) => t.priceSol != null && Number.isFinite(t.priceSol) && t.priceSol > 0)
+    .sort((a, b) => Date.parse(a.ts) - Date.parse(b.ts));
+
+  const bars: Candle[] = [];
+  for (const t of sorted) {
+    const time = bucketStart(Math.floor(Date.parse(t.ts) / 1000), interval);
+    const price = t.priceSol as number;
+    const last = bars[bars.length - 1];
+
+    if (last && last.time === time) {
+      last.high = Math.max(last.high, price);
+      last.low = Math.min(last.low, price);
+      last.close = price;
+      last.volume += t.amountSol;
+      last.volumeTokens += t.tokenAmount ?? 0;
+      last.trades += 1;
+    } else {
+      bars.push({
+        time,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: t.amountSol,
+        volumeTokens: t.tokenAmount ?? 0,
+        trades: 1,
+      });
+    }
+  }
+  return bars;
+}
+
+/**
+ * First bucket to load: the last `limit` bars up to now, or – when polling
+ * for updates – the bucket containing `from` (unix seconds).
+ */
+export function candleWindowStart(
+  interval: CandleInterval,
+  opts: { from?: number | null; limit?: number } = {}
+): number {
+  const step = CANDLE_INTERVALS[interval];
+  if (opts.from != null) return bucketStart(opts.from, interval);
+
+  const limit = clampCandleLimit(opts.limit);
+  return bucketStart(Math.floor(Date.now() / 1000), interval) - (limit - 1) * step;
+}
+
+export function clampCandleLimit(limit?: number | null): number {
+  return Math.max(1, Math.min(MAX_CANDLE_LIMIT, limit ?? DEFAULT_CANDLE_LIMIT));
+}
@@ -0,0 +1,21 @@
+// src/lib/cluster.ts
+//
+// Which Solana cluster this deploy targets (NEXT_PUBLIC_CLUSTER, default
+// devnet). Dependency-free so src/middleware.ts (edge) and the UI can read
+// it; lib/config.ts validates it and builds the rest of the config on top.
+
+export const CLUSTERS = ["localnet", "devnet", "mainnet-beta"] as const;
+export type Cluster = (typeof CLUSTERS)[number];
+
+export const CLUSTER_RAW = (process.env.NEXT_PUBLIC_CLUSTER || "devnet").trim();
+
+export function isCluster(v: unknown): v is Cluster {
+  return typeof v === "string" && (CLUSTERS as readonly string[]).includes(v);
+}
+
+/** Real SOL at stake – trade caps on, debug routes off, no config fallbacks. */
+export const IS_MAINNET = CLUSTER_RAW === "mainnet-beta";
+
+/** Short name for UI copy ("… on Solana devnet"). */
+export const CLUSTER_NAME: string =
+  CLUSTER_RAW === "mainnet-beta" ? "mainnet" : CLUSTER_RAW;
@@ -0,0 +1,123 @@
+// src/lib/coinStats.ts
+//
+// Pool / price / migration stats for a coin, from its decoded CurveState and
+// the PDA's lamports. Shared by GET /api/coins/[id]/stats and the live
+// stream (lib/curveStream.ts), so both report the same numbers.
+
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import {
+  curveParamsFromRow,
+  migrationTokensFor,
+  priceTokensPerSol,
+  MIGRATION_TOKENS,
+  type CurveName,
+} from "@/lib/curve";
+import { rawToTokens } from "@/lib/curveState";
+import { isTradingFrozen, type MigrationStatus } from "@/lib/migration";
+
+export type CoinStats = {
+  poolLamports?: number;
+  poolSol: number;
+  soldRaw: number;
+  soldTokens: number;
+  totalSupplyTokens: number;
+  priceTokensPerSol: number;
+  marketCapSol: number;
+  fdvSol: number;
+  soldDisplay: number;
+  migrationThresholdTokens: number;
+  migrationPercent: number;
+  isMigrated: boolean;
+  /** Where the coin is in lib/migration.ts (null until the curve completes). */
+  migrationStatus: MigrationStatus | null;
+  /** A migration is running or done: the curve no longer trades. */
+  tradingFrozen: boolean;
+  poolAddress: string | null;
+};
+
+/** What the stats endpoints return when the curve isn't readable yet. */
+export const EMPTY_COIN_STATS: CoinStats = {
+  poolSol: 0,
+  soldRaw: 0,
+  soldTokens: 0,
+  totalSupplyTokens: 0,
+  priceTokensPerSol: 0,
+  marketCapSol: 0,
+  fdvSol: 0,
+  soldDisplay: 0,
+  migrationThresholdTokens: MIGRATION_TOKENS,
+  migrationPercent: 0,
+  isMigrated: false,
+  migrationStatus: null,
+  tradingFrozen: false,
+  poolAddress: null,
+};
+
+export type StatsCoinRow = {
+  curve?: string | null;
+  mint?: string | null;
+  strength?: number | string | null;
+  curve_params?: unknown;
+  migration_status?: MigrationStatus | null;
+  pool_address?: string | null;
+};
+
+export function computeCoinStats(
+  coin: StatsCoinRow,
+  state: { total_supply_raw: number; sold_raw: number },
+  poolLamports: number
+): CoinStats {
+  const soldTokens = rawToTokens(state.sold_raw);
+  const totalSupplyTokens = rawToTokens(state.total_supply_raw);
+  const poolSol = poolLamports / LAMPORTS_PER_SOL;
+
+  // --- Curve-driven price, MC and FDV ---
+  const curveName: CurveName = (coin.curve as CurveName) || "linear";
+  const curveParams = curveParamsFromRow(coin);
+
+  // tokens per 1 SOL, using our curve math (NUMBER!)
+  const tokensPerSolNum = priceTokensPerSol(curveName, curveParams, soldTokens);
+
+  // SOL per 1 token (inverse)
+  const solPerToken = tokensPerSolNum > 0 ? 1 / tokensPerSolNum : 0;
+
+  // Market cap = sold tokens * price per token
+  const marketCapSol =
+    soldTokens > 0 && solPerToken > 0 ? soldTokens * solPerToken : 0;
+
+  // FDV = total supply * price per token
+  const fdvSol =
+    totalSupplyTokens > 0 && solPerToken > 0
+      ? totalSupplyTokens * solPerToken
+      : 0;
+
+  // Migration logic (UI) — each coin can set its own threshold
+  const migrationThresholdTokens = migrationTokensFor(curveName, curveParams);
+  const soldDisplay = soldTokens;
+  const migrationPercent =
+    migrationThresholdTokens > 0
+      ? Math.min(100, (soldDisplay * 100) / migrationThresholdTokens)
+      : 0;
+  const isMigrated = soldDisplay >= migrationThresholdTokens;
+  // The row lags the chain by a moment when the last buy completes the curve
+  const migrationStatus = coin.migration_status ?? (isMigrated ? "pending" : null);
+
+  return {
+    poolLamports,
+    poolSol,
+    soldRaw: state.sold_raw,
+    soldTokens,
+    totalSupplyTokens,
+    // IMPORTANT: send the *number*, not the function
+    priceTokensPerSol: tokensPerSolNum,
+    marketCapSol,
+    fdvSol,
+    soldDisplay,
+    migrationThresholdTokens,
+    migrationPercent,
+    isMigrated: isMigrated || migrationStatus != null,
+    migrationStatus,
+    tradingFrozen: isTradingFrozen(migrationStatus),
+    poolAddress: coin.pool_address ?? null,
+  };
+}
@@ -1,62 +1,461 @@
 // src/lib/config.ts
+//
+// The one place cluster config is resolved. Every route, lib and client
+// component reads RPC / program / treasury keys from here instead of
+// process.env, so they can't disagree.
+//
+// - NEXT_PUBLIC_CLUSTER (lib/cluster.ts) picks a profile (localnet | devnet |
+//   mainnet-beta, default devnet) that supplies defaults; env vars override
+//   them. Mainnet has no defaults for keys that move money: RPC, program,
+//   treasury and fee treasury must all be set explicitly, and trades are
+//   capped per transaction (NEXT_PUBLIC_MAX_TRADE_SOL). The key quote ids
+//   and launch / migration tokens are signed with (QUOTE_SIGNING_SECRET) is
+//   required on the server everywhere but localnet.
+// - The result is validated with zod at import. A bad key or an invalid
+//   combination (e.g. mainnet-beta pointed at a devnet RPC) throws, and
+//   src/instrumentation.ts imports this on server start so it fails there
+//   rather than on the first trade.
+// - NEXT_PUBLIC_* vars are read with literal `process.env.X` access so Next
+//   can inline them into client bundles; server-only overrides (RPC, RPC_WS)
+//   are simply absent in the browser. The server therefore validates the
+//   browser's view too (NEXT_PUBLIC_* and profile defaults only), so e.g. a
+//   mainnet deploy with only a server-side RPC fails at build / boot instead
+//   of throwing in every client.
+//
+// GET /api/ops/config shows the effective values and where each came from.
+
 import { PublicKey } from "@solana/web3.js";
+import { z } from "zod";
+import { CLUSTERS, CLUSTER_RAW, IS_MAINNET, type Cluster } from "@/lib/cluster";
 
-/** Env helper */
-const env = (k: string) => process.env[k] ?? "";
+export { CLUSTERS, IS_MAINNET, type Cluster };
 
 /** ---- Canonical Program IDs ---- */
 export const TOKEN_PROGRAM_ID = new PublicKey(
   "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
 );
 
-
-// Base URL used for token metadata (must be public, not localhost)
-export const SITE_BASE =
-  process.env.NEXT_PUBLIC_METADATA_BASE_URL ||
-  process.env.SITE_BASE ||
-  "https://winky-launchpad.vercel.app";
-
+export const TOKEN_2022_PROGRAM_ID = new PublicKey(
+  "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb"
+);
 
 // NEW: correct Associated Token Program ID (v8)
 export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey(
   "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL"
 );
 
-/** ---- RPC (safe default if none set) ---- */
-const RPC_FALLBACK = "https://api.devnet.solana.com";
+/** ---- Cluster profiles ---- */
+type ClusterProfile = {
+  rpcUrl?: string;
+  programId?: string;
+  treasury?: string;
+  demoMint?: string;
+  siteBase?: string;
+  /** Per-transaction trade cap (SOL in on buys, SOL out on sells). */
+  maxTradeSol?: number;
+  /** HMAC key for quote ids and launch / migration tokens (lib/quoteLock). */
+  quoteSigningSecret?: string;
+};
+
+// Deployed curve_launchpad program + treasury on devnet; localnet deploys
+// the same program keypair. Mainnet only gets a trade cap – everything that
+// decides where SOL goes must come from env.
+const DEVNET_PROGRAM_ID = "JCFJPbZCjEMDVqU3MbM9Cst8ZEdScskr4Vb3TDT79jQ4";
+const DEVNET_TREASURY = "HvUFCReFQNakWtXQ7SRu6aME5ZmB8i2ifCN8uiSm6rbV";
+
+export const CLUSTER_PROFILES: Record<Cluster, ClusterProfile> = {
+  localnet: {
+    rpcUrl: "http://127.0.0.1:8899",
+    programId: DEVNET_PROGRAM_ID,
+    treasury: DEVNET_TREASURY,
+    siteBase: "http://localhost:3000",
+    quoteSigningSecret: "localnet-quote-signing-secret-not-for-deploys",
+  },
+  devnet: {
+    rpcUrl: "https://api.devnet.solana.com",
+    programId: DEVNET_PROGRAM_ID,
+    treasury: DEVNET_TREASURY,
+    demoMint: "8jcxoUnbA9vSLfJbQgX4AdmD2xMAbCGR8FxHNjymShah",
+    // Base URL used for token metadata (must be public, not localhost)
+    siteBase: "https://winky-launchpad.vercel.app",
+  },
+  "mainnet-beta": {
+    maxTradeSol: 5,
+  },
+};
+
+/** ---- Raw inputs (first env var that is set wins, then the profile) ---- */
+type Candidates = [string, string | undefined][];
+type Source = {
+  value: string | undefined;
+  source: string;
+  envNames: string[];
+  candidates: Candidates;
+  fallback?: string;
+};
+
+function pick(candidates: Candidates, fallback?: string): Source {
+  const envNames = candidates.map(([name]) => name);
+  const base = { envNames, candidates, fallback };
+  for (const [name, v] of candidates) {
+    if (v && v.trim()) return { ...base, value: v.trim(), source: name };
+  }
+  return { ...base, value: fallback, source: fallback ? "profile" : "unset" };
+}
+
+const clusterRaw = CLUSTER_RAW;
+const profile: ClusterProfile | undefined = CLUSTER_PROFILES[clusterRaw as Cluster];
+
+const inputs = {
+  rpcUrl: pick(
+    [
+      ["RPC", process.env.RPC],
+      ["RPC_URL", process.env.RPC_URL],
+      ["NEXT_PUBLIC_SOLANA_RPC", process.env.NEXT_PUBLIC_SOLANA_RPC],
+      ["NEXT_PUBLIC_HELIUS_RPC", process.env.NEXT_PUBLIC_HELIUS_RPC],
+      ["NEXT_PUBLIC_RPC", process.env.NEXT_PUBLIC_RPC],
+    ],
+    profile?.rpcUrl
+  ),
+  rpcWsUrl: pick([["RPC_WS", process.env.RPC_WS]]),
+  programId: pick(
+    [
+      ["NEXT_PUBLIC_PROGRAM_ID", process.env.NEXT_PUBLIC_PROGRAM_ID],
+      ["PROGRAM_ID", process.env.PROGRAM_ID],
+    ],
+    profile?.programId
+  ),
+  treasury: pick(
+    [["NEXT_PUBLIC_TREASURY", process.env.NEXT_PUBLIC_TREASURY]],
+    profile?.treasury
+  ),
+  // Protocol fee legs go here; historically also NEXT_PUBLIC_PLATFORM_WALLET
+  feeTreasury: pick([
+    ["NEXT_PUBLIC_FEE_TREASURY", process.env.NEXT_PUBLIC_FEE_TREASURY],
+    ["NEXT_PUBLIC_PLATFORM_WALLET", process.env.NEXT_PUBLIC_PLATFORM_WALLET],
+  ]),
+  demoMint: pick(
+    [["NEXT_PUBLIC_DEMO_MINT", process.env.NEXT_PUBLIC_DEMO_MINT]],
+    profile?.demoMint
+  ),
+  siteBase: pick(
+    [
+      ["NEXT_PUBLIC_METADATA_BASE_URL", process.env.NEXT_PUBLIC_METADATA_BASE_URL],
+      ["SITE_BASE", process.env.SITE_BASE],
+      ["NEXT_PUBLIC_SITE_URL", process.env.NEXT_PUBLIC_SITE_URL],
+    ],
+    profile?.siteBase
+  ),
+  maxTradeSol: pick([["NEXT_PUBLIC_MAX_TRADE_SOL", process.env.NEXT_PUBLIC_MAX_TRADE_SOL]]),
+  // Constant-product pool program completed curves migrate to (lib/amm)
+  ammProgramId: pick([["AMM_PROGRAM_ID", process.env.AMM_PROGRAM_ID]]),
+  // What migration does with the pool's LP tokens: burn (default) or time-lock
+  lpPolicy: pick([["LP_POLICY", process.env.LP_POLICY]], "burn"),
+  lpLockDays: pick([["LP_LOCK_DAYS", process.env.LP_LOCK_DAYS]]),
+  // Vanity mint patterns scripts/vanity-grinder.mjs keeps a pool of (lib/vanity), e.g.
+  // "suffix:pump,prefix:win", and how many of each to keep ready
+  vanityPatterns: pick([["VANITY_PATTERNS", process.env.VANITY_PATTERNS]]),
+  vanityPoolTarget: pick([["VANITY_POOL_TARGET", process.env.VANITY_POOL_TARGET]], "10"),
+  // Vanity keys one client (IP) may lease per hour; POST /api/coins is open
+  vanityLeasesPerHour: pick([["VANITY_LEASES_PER_HOUR", process.env.VANITY_LEASES_PER_HOUR]], "5"),
+  // Token program new launches mint under (lib/tokenProgram): classic SPL
+  // Token + Metaplex metadata, or Token-2022 with on-mint metadata
+  launchTokenProgram: pick([["LAUNCH_TOKEN_PROGRAM", process.env.LAUNCH_TOKEN_PROGRAM]], "spl-token"),
+  // Server-only; a random per-process key would break quotes across restarts
+  // and instances, so there is no fallback off localnet
+  quoteSigningSecret: pick(
+    [["QUOTE_SIGNING_SECRET", process.env.QUOTE_SIGNING_SECRET]],
+    profile?.quoteSigningSecret
+  ),
+};
+
+type Inputs = typeof inputs;
+type View = "server" | "browser";
+
+/** What the client bundle resolves: Next only inlines NEXT_PUBLIC_* vars. */
+const browserInputs = Object.fromEntries(
+  Object.entries(inputs).map(([key, s]) => [
+    key,
+    pick(s.candidates.filter(([name]) => name.startsWith("NEXT_PUBLIC_")), s.fallback),
+  ])
+) as Inputs;
+
+const IS_SERVER = typeof window === "undefined";
+
+/** ---- Validation ---- */
+const pubkey = z.string().refine((s) => {
+  try {
+    new PublicKey(s);
+    return true;
+  } catch {
+    return false;
+  }
+}, "not a valid base58 public key");
+
+const httpUrl = z.string().refine((s) => {
+  try {
+    return /^https?:$/.test(new URL(s).protocol);
+  } catch {
+    return false;
+  }
+}, "not an http(s) URL");
+
+const wsUrl = z.string().refine((s) => {
+  try {
+    return /^wss?:$/.test(new URL(s).protocol);
+  } catch {
+    return false;
+  }
+}, "not a ws(s) URL");
+
+// "prefix:abc" / "suffix:pump" – base58 only, and short enough to grind
+const vanityPattern = z
+  .string()
+  .regex(
+    /^(prefix|suffix):[1-9A-HJ-NP-Za-km-z]{1,5}$/,
+    'must be "prefix:<text>" or "suffix:<text>" with 1–5 base58 characters'
+  );
+
+const isLocalUrl = (u: string) => /\/\/(localhost|127\.0\.0\.1|0\.0\.0\.0)(:|\/|$)/.test(u);
+
+// Secrets only exist on the server; the browser view validates without them
+const configSchema = (view: View) => z
+  .object({
+    cluster: z.enum(CLUSTERS),
+    rpcUrl: httpUrl,
+    rpcWsUrl: wsUrl.optional(),
+    programId: pubkey,
+    treasury: pubkey,
+    feeTreasury: pubkey,
+    demoMint: pubkey.optional(),
+    siteBase: httpUrl,
+    maxTradeSol: z.number({ error: "must be a number of SOL" }).positive().optional(),
+    ammProgramId: pubkey.optional(),
+    lpPolicy: z.enum(["burn", "lock"], { error: 'must be "burn" or "lock"' }),
+    lpLockDays: z.number({ error: "must be a number of days" }).int().positive().optional(),
+    vanityPatterns: z.array(vanityPattern),
+    vanityPoolTarget: z.number({ error: "must be a number of keys" }).int().min(1).max(1000),
+    vanityLeasesPerHour: z.number({ error: "must be a number of keys" }).int().min(1),
+    launchTokenProgram: z.enum(["spl-token", "token-2022"], {
+      error: 'must be "spl-token" or "token-2022"',
+    }),
+    quoteSigningSecret: z.string().min(32, "must be at least 32 characters").optional(),
+  })
+  .superRefine((c, ctx) => {
+    const issue = (path: string, message: string) =>
+      ctx.addIssue({ code: "custom", path: [path], message });
 
-export const RPC_URL =
-  env("RPC") ||
-  env("NEXT_PUBLIC_SOLANA_RPC") ||
-  RPC_FALLBACK;
+    if (c.cluster === "mainnet-beta") {
+      if (/devnet|testnet/i.test(c.rpcUrl) || isLocalUrl(c.rpcUrl)) {
+        issue("rpcUrl", "mainnet-beta cluster with a devnet/testnet/local RPC");
+      }
+      if (isLocalUrl(c.siteBase) || !c.siteBase.startsWith("https://")) {
+        issue("siteBase", "mainnet-beta needs a public https site base for metadata");
+      }
+      if (c.programId === DEVNET_PROGRAM_ID) {
+        issue("programId", "mainnet-beta is using the devnet program id");
+      }
+      if (c.treasury === DEVNET_TREASURY || c.feeTreasury === DEVNET_TREASURY) {
+        issue("treasury", "mainnet-beta is using the devnet treasury");
+      }
+      if (c.maxTradeSol == null) {
+        issue("maxTradeSol", "mainnet-beta requires a per-transaction trade cap");
+      }
+    } else if (/mainnet/i.test(c.rpcUrl)) {
+      issue("rpcUrl", `${c.cluster} cluster with a mainnet RPC`);
+    }
 
-/** ---- REQUIRED IDs ---- */
-const PROGRAM_ID_STR =
-  env("NEXT_PUBLIC_PROGRAM_ID") ||
-  // Deployed curve_launchpad program on devnet:
-  "JCFJPbZCjEMDVqU3MbM9Cst8ZEdScskr4Vb3TDT79jQ4";
+    if (c.treasury === c.programId || c.feeTreasury === c.programId) {
+      issue("treasury", "treasury cannot be the program id");
+    }
+    if (c.lpPolicy === "lock" && c.lpLockDays == null) {
+      issue("lpLockDays", "LP_POLICY=lock needs a lock period");
+    }
+    if (c.ammProgramId && c.ammProgramId === c.programId) {
+      issue("ammProgramId", "AMM program cannot be the curve program");
+    }
+    if (view === "server" && !c.quoteSigningSecret) {
+      issue("quoteSigningSecret", "required to sign quote ids");
+    }
+  });
 
-const TREASURY_STR =
-  env("NEXT_PUBLIC_TREASURY") ||
-  "HvUFCReFQNakWtXQ7SRu6aME5ZmB8i2ifCN8uiSm6rbV";
+export type AppConfig = z.infer<ReturnType<typeof configSchema>>;
 
-const DEMO_MINT_STR =
-  env("NEXT_PUBLIC_DEMO_MINT") ||
-  "8jcxoUnbA9vSLfJbQgX4AdmD2xMAbCGR8FxHNjymShah";
+function loadConfig(view: View, inputs: Inputs): AppConfig {
+  if (!profile) {
+    throw new Error(
+      `[CONFIG] NEXT_PUBLIC_CLUSTER="${clusterRaw}" – expected one of ${CLUSTERS.join(", ")}`
+    );
+  }
 
-/** Optional fee treasury (falls back to TREASURY if missing) */
-const FEE_TREASURY_STR = env("NEXT_PUBLIC_FEE_TREASURY");
+  const parsed = configSchema(view).safeParse({
+    cluster: clusterRaw,
+    rpcUrl: inputs.rpcUrl.value,
+    rpcWsUrl: inputs.rpcWsUrl.value,
+    programId: inputs.programId.value,
+    treasury: inputs.treasury.value,
+    // No silent fallback to the treasury on mainnet
+    feeTreasury: inputs.feeTreasury.value ?? (IS_MAINNET ? undefined : inputs.treasury.value),
+    demoMint: inputs.demoMint.value,
+    siteBase: inputs.siteBase.value,
+    maxTradeSol:
+      inputs.maxTradeSol.value != null
+        ? Number(inputs.maxTradeSol.value)
+        : profile.maxTradeSol,
+    ammProgramId: inputs.ammProgramId.value,
+    lpPolicy: inputs.lpPolicy.value,
+    lpLockDays: inputs.lpLockDays.value != null ? Number(inputs.lpLockDays.value) : undefined,
+    vanityPatterns: (inputs.vanityPatterns.value ?? "")
+      .split(",")
+      .map((p) => p.trim())
+      .filter(Boolean),
+    vanityPoolTarget: Number(inputs.vanityPoolTarget.value),
+    vanityLeasesPerHour: Number(inputs.vanityLeasesPerHour.value),
+    launchTokenProgram: inputs.launchTokenProgram.value,
+    quoteSigningSecret: inputs.quoteSigningSecret.value,
+  });
+  if (!parsed.success) {
+    const lines = parsed.error.issues.map((i) => {
+      const key = String(i.path[0] ?? "config");
+      const input = inputs[key as keyof typeof inputs];
+      // feeTreasury falls back to treasury off mainnet, so only report it there
+      if (key === "feeTreasury" && input?.source === "unset" && !IS_MAINNET) return null;
+      const message =
+        input?.source === "unset"
+          ? `missing – set ${input.envNames.join(" or ")}`
+          : i.message;
+      return `  - ${key}: ${message}`;
+    }).filter(Boolean);
+    const what =
+      view === "browser" ? "browser configuration (only NEXT_PUBLIC_* vars reach it)" : "configuration";
+    throw new Error(
+      `[CONFIG] invalid ${what} for cluster "${clusterRaw}":\n${lines.join("\n")}`
+    );
+  }
+  return parsed.data;
+}
+
+export const CONFIG: AppConfig = IS_SERVER
+  ? loadConfig("server", inputs)
+  : loadConfig("browser", browserInputs);
+
+// Fail here, not in every client, when the bundle couldn't resolve its config
+if (IS_SERVER) loadConfig("browser", browserInputs);
+
+/** ---- Resolved values ---- */
+export const CLUSTER: Cluster = CONFIG.cluster;
+export const RPC_URL = CONFIG.rpcUrl;
+/** Websocket endpoint for subscriptions; web3.js derives it from RPC_URL if unset. */
+export const RPC_WS_URL = CONFIG.rpcWsUrl;
+export const SITE_BASE = CONFIG.siteBase;
+
+export const PROGRAM_ID = new PublicKey(CONFIG.programId);
+export const TREASURY_PK = new PublicKey(CONFIG.treasury);
+/** Where protocol fee legs are paid (falls back to TREASURY). */
+export const FEE_TREASURY_PK = new PublicKey(CONFIG.feeTreasury);
+export const DEMO_MINT = CONFIG.demoMint ? new PublicKey(CONFIG.demoMint) : null;
+
+/** Per-transaction trade cap in lamports, or null when uncapped. */
+export const MAX_TRADE_LAMPORTS =
+  CONFIG.maxTradeSol != null ? Math.floor(CONFIG.maxTradeSol * 1_000_000_000) : null;
+
+/** Pool program for graduated coins; null disables migration (server-only). */
+export const AMM_PROGRAM_ID = CONFIG.ammProgramId ? new PublicKey(CONFIG.ammProgramId) : null;
+
+/** LP tokens from migration are burned, or locked for LP_LOCK_DAYS. */
+export const LP_POLICY: "burn" | "lock" = CONFIG.lpPolicy;
+export const LP_LOCK_DAYS = CONFIG.lpLockDays ?? null;
+
+/** Vanity mint patterns on offer ("prefix:…" / "suffix:…"); empty = none. */
+export const VANITY_PATTERNS: string[] = CONFIG.vanityPatterns;
+export const VANITY_POOL_TARGET = CONFIG.vanityPoolTarget;
+export const VANITY_LEASES_PER_HOUR = CONFIG.vanityLeasesPerHour;
+
+/** Token program new coins are minted under (existing coins keep theirs). */
+export const LAUNCH_TOKEN_PROGRAM_ID =
+  CONFIG.launchTokenProgram === "token-2022" ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
 
-/** ---- PublicKeys ---- */
-export const PROGRAM_ID = new PublicKey(PROGRAM_ID_STR);
-export const TREASURY_PK = new PublicKey(TREASURY_STR);
-export const FEE_TREASURY_PK = FEE_TREASURY_STR
-  ? new PublicKey(FEE_TREASURY_STR)
-  : null;
-export const DEMO_MINT = new PublicKey(DEMO_MINT_STR);
+/** HMAC key for signed quote ids and tokens (server-only; lib/quoteLock). */
+export const QUOTE_SIGNING_SECRET = CONFIG.quoteSigningSecret ?? null;
 
 /** Network hint for clients */
-export const NETWORK = "devnet";
+export const NETWORK = CLUSTER;
+
+function explorerQuery(): string {
+  if (CLUSTER === "mainnet-beta") return "";
+  if (CLUSTER === "localnet") {
+    return `?cluster=custom&customUrl=${encodeURIComponent(RPC_URL)}`;
+  }
+  return `?cluster=${CLUSTER}`;
+}
+
+export function explorerTxUrl(sig: string): string {
+  return `https://explorer.solana.com/tx/${sig}${explorerQuery()}`;
+}
+
+export function explorerAddressUrl(address: string): string {
+  return `https://explorer.solana.com/address/${address}${explorerQuery()}`;
+}
+
+/** RPC URL with any api key masked, safe to log or return. */
+export function maskRpcUrl(url: string): string {
+  try {
+    const u = new URL(url);
+    for (const k of ["api-key", "api_key", "apikey", "token"]) {
+      if (u.searchParams.has(k)) u.searchParams.set(k, "***");
+    }
+    return u.toString();
+  } catch {
+    return "(unparseable)";
+  }
+}
+
+/** Effective config + which env var (or profile) each value came from. */
+export function describeConfig() {
+  return {
+    cluster: CLUSTER,
+    clusterSource: process.env.NEXT_PUBLIC_CLUSTER ? "NEXT_PUBLIC_CLUSTER" : "default",
+    values: {
+      rpcUrl: maskRpcUrl(RPC_URL),
+      rpcWsUrl: RPC_WS_URL ? maskRpcUrl(RPC_WS_URL) : null,
+      programId: CONFIG.programId,
+      treasury: CONFIG.treasury,
+      feeTreasury: CONFIG.feeTreasury,
+      demoMint: CONFIG.demoMint ?? null,
+      siteBase: SITE_BASE,
+      maxTradeSol: CONFIG.maxTradeSol ?? null,
+      ammProgramId: CONFIG.ammProgramId ?? null,
+      lpPolicy: CONFIG.lpPolicy,
+      lpLockDays: CONFIG.lpLockDays ?? null,
+      vanityPatterns: CONFIG.vanityPatterns,
+      vanityPoolTarget: CONFIG.vanityPoolTarget,
+      vanityLeasesPerHour: CONFIG.vanityLeasesPerHour,
+      launchTokenProgram: CONFIG.launchTokenProgram,
+      quoteSigningSecret: CONFIG.quoteSigningSecret ? "***" : null,
+      debugRoutes: !IS_MAINNET,
+    },
+    sources: {
+      rpcUrl: inputs.rpcUrl.source,
+      rpcWsUrl: inputs.rpcWsUrl.source,
+      programId: inputs.programId.source,
+      treasury: inputs.treasury.source,
+      feeTreasury: inputs.feeTreasury.value ? inputs.feeTreasury.source : "treasury",
+      demoMint: inputs.demoMint.source,
+      siteBase: inputs.siteBase.source,
+      maxTradeSol: inputs.maxTradeSol.source === "unset" && CONFIG.maxTradeSol != null
+        ? "profile"
+        : inputs.maxTradeSol.source,
+      ammProgramId: inputs.ammProgramId.source,
+      lpPolicy: inputs.lpPolicy.source,
+      lpLockDays: inputs.lpLockDays.source,
+      vanityPatterns: inputs.vanityPatterns.source,
+      vanityPoolTarget: inputs.vanityPoolTarget.source,
+      vanityLeasesPerHour: inputs.vanityLeasesPerHour.source,
+      launchTokenProgram: inputs.launchTokenProgram.source,
+      quoteSigningSecret: inputs.quoteSigningSecret.source,
+    },
+  };
+}
 
 /**
  * PDA helpers — must match on-chain seeds
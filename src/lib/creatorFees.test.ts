@@ -0,0 +1,155 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  Keypair,
+  SystemProgram,
+  type ParsedInstruction,
+  type ParsedTransactionWithMeta,
+} from "@solana/web3.js";
+
+type Row = Record<string, unknown>;
+
+// In-memory `trade_referrals`; enough of the builder for tradeReferrers
+const db = vi.hoisted(() => ({ trade_referrals: [] as Row[] }));
+
+vi.mock("@/lib/supabaseAdmin", () => {
+  function from() {
+    const filters: ((r: Row) => boolean)[] = [];
+    const q = {
+      select: () => q,
+      in: (k: string, vs: unknown[]) => (filters.push((r) => vs.includes(r[k])), q),
+      then: (res: (r: { data: Row[]; error: null }) => unknown) =>
+        Promise.resolve({
+          data: db.trade_referrals.filter((r) => filters.every((f) => f(r))),
+          error: null,
+        }).then(res),
+    };
+    return q;
+  }
+  return { supabaseAdmin: { from } };
+});
+
+import { FEE_TREASURY_PK, curvePda } from "@/lib/config";
+import { computeFeeLamports } from "@/lib/fees";
+import {
+  decodeTradeFees,
+  referralFeeDue,
+  referrerForTx,
+  tradeReferrers,
+} from "@/lib/creatorFees";
+import type { IndexedTradeRow } from "@/lib/store";
+
+const addr = () => Keypair.generate().publicKey.toBase58();
+const trader = addr();
+const creator = addr();
+const referrer = addr();
+const mint = Keypair.generate().publicKey;
+const coin = { id: "coin-1", mint: mint.toBase58(), creator };
+
+const trade: IndexedTradeRow = {
+  coin_id: coin.id,
+  mint: coin.mint,
+  sig: "sig-1",
+  slot: 1,
+  ts: "2026-10-19T00:00:00.000Z",
+  side: "buy",
+  buyer: trader,
+  amount_sol: 1,
+  token_amount: 1000,
+};
+
+function transfer(destination: string, lamports: number, source = trader): ParsedInstruction {
+  return {
+    program: "system",
+    programId: SystemProgram.programId,
+    parsed: { type: "transfer", info: { source, destination, lamports } },
+  };
+}
+
+function txOf(ixs: ParsedInstruction[], recentBlockhash = "hash-1") {
+  return {
+    slot: 1,
+    blockTime: null,
+    meta: null,
+    transaction: { signatures: ["sig-1"], message: { instructions: ixs, recentBlockhash } },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+// The legs a buy route builds for 1 SOL with a referrer attached
+const fee = computeFeeLamports(1_000_000_000, 1, "pre", { referrer });
+const routeLegs = () => [
+  transfer(curvePda(mint).toBase58(), 1_000_000_000 - fee.feeTotal),
+  transfer(FEE_TREASURY_PK.toBase58(), fee.protocol),
+  transfer(creator, fee.creator),
+];
+
+describe("decodeTradeFees", () => {
+  it("books the recorded referrer's leg as the routes compute it", () => {
+    expect(fee.referral).toBeGreaterThan(0);
+    const row = decodeTradeFees(
+      txOf([...routeLegs(), transfer(referrer, fee.referral)]),
+      trade,
+      coin,
+      referrer
+    );
+    expect(row).toMatchObject({
+      creator_fee_lamports: fee.creator,
+      protocol_fee_lamports: fee.protocol,
+      referrer,
+      referral_fee_lamports: fee.referral,
+    });
+  });
+
+  it("ignores transfers to anyone but the recorded referrer", () => {
+    const tip = addr();
+    const row = decodeTradeFees(
+      txOf([...routeLegs(), transfer(tip, 5_000_000), transfer(referrer, fee.referral)]),
+      trade,
+      coin,
+      referrer
+    );
+    expect(row.referrer).toBe(referrer);
+    expect(row.referral_fee_lamports).toBe(fee.referral);
+
+    // A trader who names their own second wallet gets nothing booked
+    const unrecorded = decodeTradeFees(
+      txOf([...routeLegs(), transfer(tip, 5_000_000)]),
+      trade,
+      coin,
+      null
+    );
+    expect(unrecorded).toMatchObject({ referrer: null, referral_fee_lamports: 0 });
+  });
+
+  it("caps the leg at the referral share of the platform fee", () => {
+    const row = decodeTradeFees(
+      txOf([...routeLegs(), transfer(referrer, fee.referral * 50)]),
+      trade,
+      coin,
+      referrer
+    );
+    expect(row.referral_fee_lamports).toBe(referralFeeDue(fee.protocol));
+    expect(row.referral_fee_lamports).toBeLessThanOrEqual(fee.referral + 1);
+  });
+
+  it("books nothing for the referrer when the trader didn't pay it", () => {
+    const row = decodeTradeFees(txOf(routeLegs()), trade, coin, referrer);
+    expect(row).toMatchObject({ referrer: null, referral_fee_lamports: 0 });
+
+    // ...or when no platform fee went to the treasury
+    const noPlatform = decodeTradeFees(txOf([transfer(referrer, fee.referral)]), trade, coin, referrer);
+    expect(noPlatform).toMatchObject({ referrer: null, referral_fee_lamports: 0 });
+  });
+});
+
+describe("tradeReferrers", () => {
+  it("matches the referrer recorded for the same trader and blockhash", async () => {
+    db.trade_referrals = [
+      { trader, blockhash: "hash-1", referrer },
+      { trader: addr(), blockhash: "hash-1", referrer: addr() },
+    ];
+    const refs = await tradeReferrers([{ trader, blockhash: "hash-1" }]);
+    expect(referrerForTx(refs, txOf([], "hash-1"), trader)).toBe(referrer);
+    expect(referrerForTx(refs, txOf([], "hash-2"), trader)).toBeNull();
+    expect(referrerForTx(refs, txOf([], "hash-1"), addr())).toBeNull();
+  });
+});
@@ -0,0 +1,240 @@
+// src/lib/creatorFees.ts
+//
+// Creator fee ledger. Fees are plain SystemProgram transfers inside the trade
+// tx (see /api/coins/[id]/buy and /sell), so the only trustworthy record of
+// what a creator earned is the confirmed transactions themselves. The trade
+// indexer (lib/indexer.ts) hands us each decoded trade; we pull the fee legs
+// out of the same tx and store what was actually paid in `coin_trade_fees`
+// (one row per signature, so re-indexing is harmless). The same rows carry
+// the referral leg, so referrer earnings come from here too.
+//
+// The trader signs and sends the tx, so they can add any transfer they like.
+// A referral leg only counts when it goes to the referrer the trade route
+// itself put on that tx (`trade_referrals`, keyed by trader + blockhash) and
+// only up to the share lib/fees.ts gives referrers.
+
+import {
+  PublicKey,
+  type ParsedInstruction,
+  type ParsedTransactionWithMeta,
+} from "@solana/web3.js";
+import { FEE_TREASURY_PK, TREASURY_PK, curvePda } from "@/lib/config";
+import { FEE_SCHEDULE } from "@/lib/fees";
+import type { IndexedTradeRow } from "@/lib/store";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+// Any wallet the trade routes pay the platform fee to (older trades may
+// have gone to TREASURY before a separate fee treasury was configured)
+const PROTOCOL_TREASURIES = new Set([FEE_TREASURY_PK.toBase58(), TREASURY_PK.toBase58()]);
+
+export type TradeFeeRow = {
+  signature: string;
+  coin_id: string;
+  mint: string;
+  side: "buy" | "sell";
+  trader: string;
+  trade_lamports: number;
+  creator_fee_lamports: number;
+  protocol_fee_lamports: number;
+  referrer: string | null;
+  referral_fee_lamports: number;
+  slot: number;
+  block_time: string | null;
+};
+
+export type CoinFeeRow = { id: string; mint: string; creator: string };
+
+/**
+ * Most a referrer can be owed next to `protocolFee`: the routes split
+ * `referralShareBps` of the platform fee off before the treasury's part,
+ * so referral = share / (1 − share) of what the treasury got, rounded up.
+ */
+export function referralFeeDue(protocolFee: number): number {
+  const share = FEE_SCHEDULE.referralShareBps;
+  if (share <= 0) return 0;
+  if (share >= 10_000) return Number.MAX_SAFE_INTEGER;
+  return Math.ceil((protocolFee * share) / (10_000 - share));
+}
+
+/**
+ * Fee legs paid alongside `trade` (already decoded from the same tx).
+ * `referrer` is the one the trade route recorded for this tx
+ * (tradeReferrers), or null when it built the tx without one.
+ */
+export function decodeTradeFees(
+  tx: ParsedTransactionWithMeta,
+  trade: IndexedTradeRow,
+  coin: CoinFeeRow,
+  referrer: string | null
+): TradeFeeRow {
+  const state = curvePda(new PublicKey(coin.mint)).toBase58();
+
+  // Fee legs: system transfers out of the trader's wallet in the same tx.
+  // Anything not to the creator, a treasury, the recorded referrer or the
+  // PDA (the buy's own transfer) is a tip or payment, not a fee.
+  let creatorFee = 0;
+  let protocolFee = 0;
+  let referralPaid = 0;
+  for (const ix of tx.transaction.message.instructions) {
+    const p = ix as ParsedInstruction;
+    if (p.program !== "system" || p.parsed?.type !== "transfer") continue;
+    const { source, destination, lamports } = p.parsed.info ?? {};
+    if (source !== trade.buyer || destination === state) continue;
+
+    const amount = Number(lamports) || 0;
+    if (destination === coin.creator) creatorFee += amount;
+    else if (PROTOCOL_TREASURIES.has(destination)) protocolFee += amount;
+    else if (referrer && destination === referrer) referralPaid += amount;
+  }
+  const referralFee = Math.min(referralPaid, referralFeeDue(protocolFee));
+
+  return {
+    signature: trade.sig,
+    coin_id: coin.id,
+    mint: coin.mint,
+    side: trade.side,
+    trader: trade.buyer,
+    trade_lamports: Math.round(trade.amount_sol * 1_000_000_000),
+    creator_fee_lamports: creatorFee,
+    protocol_fee_lamports: protocolFee,
+    referrer: referralFee > 0 ? referrer : null,
+    referral_fee_lamports: referralFee,
+    slot: trade.slot,
+    block_time: trade.ts,
+  };
+}
+
+/**
+ * Records the referrer a trade route put on the tx it built for `trader`.
+ * Best effort: a missing row only costs the referrer this leg.
+ */
+export async function recordTradeReferral(r: {
+  trader: string;
+  blockhash: string;
+  referrer: string;
+}): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("trade_referrals")
+    .upsert(r, { onConflict: "trader,blockhash" });
+  if (error) console.warn("[FEES] recordTradeReferral failed:", r.trader, error.message);
+}
+
+const referralKey = (trader: string, blockhash: string) => `${trader}:${blockhash}`;
+
+/** Recorded referrers for these txs, keyed by `trader:blockhash`. */
+export async function tradeReferrers(
+  txs: { trader: string; blockhash: string }[]
+): Promise<Map<string, string>> {
+  const out = new Map<string, string>();
+  if (!txs.length) return out;
+  const { data, error } = await supabaseAdmin
+    .from("trade_referrals")
+    .select("trader, blockhash, referrer")
+    .in("blockhash", [...new Set(txs.map((t) => t.blockhash))]);
+  if (error) throw new Error(error.message);
+  for (const r of (data ?? []) as { trader: string; blockhash: string; referrer: string }[]) {
+    out.set(referralKey(r.trader, r.blockhash), r.referrer);
+  }
+  return out;
+}
+
+/** The recorded referrer for one trade's tx, from a tradeReferrers map. */
+export function referrerForTx(
+  referrers: Map<string, string>,
+  tx: ParsedTransactionWithMeta,
+  trader: string
+): string | null {
+  return referrers.get(referralKey(trader, tx.transaction.message.recentBlockhash)) ?? null;
+}
+
+export async function upsertTradeFees(rows: TradeFeeRow[]): Promise<void> {
+  if (!rows.length) return;
+  const { error } = await supabaseAdmin
+    .from("coin_trade_fees")
+    .upsert(rows, { onConflict: "signature" });
+  if (error) throw new Error(error.message);
+}
+
+export type CoinFeeTotals = {
+  creatorFeeLamports: number;
+  protocolFeeLamports: number;
+  volumeLamports: number;
+  trades: number;
+  buys: number;
+  sells: number;
+};
+
+/** Per-coin totals from the ledger, keyed by coin id. */
+export async function feeTotalsByCoin(
+  coinIds: string[]
+): Promise<Record<string, CoinFeeTotals>> {
+  const out: Record<string, CoinFeeTotals> = {};
+  for (const id of coinIds) {
+    out[id] = {
+      creatorFeeLamports: 0,
+      protocolFeeLamports: 0,
+      volumeLamports: 0,
+      trades: 0,
+      buys: 0,
+      sells: 0,
+    };
+  }
+  if (!coinIds.length) return out;
+
+  const { data, error } = await supabaseAdmin
+    .from("coin_trade_fees")
+    .select("coin_id, side, trade_lamports, creator_fee_lamports, protocol_fee_lamports")
+    .in("coin_id", coinIds)
+    .limit(50_000);
+  if (error) throw new Error(error.message);
+
+  for (const r of data ?? []) {
+    const t = out[r.coin_id];
+    if (!t) continue;
+    t.creatorFeeLamports += Number(r.creator_fee_lamports) || 0;
+    t.protocolFeeLamports += Number(r.protocol_fee_lamports) || 0;
+    t.volumeLamports += Number(r.trade_lamports) || 0;
+    t.trades += 1;
+    if (r.side === "buy") t.buys += 1;
+    else t.sells += 1;
+  }
+  return out;
+}
+
+export type ReferralCoinTotals = {
+  coinId: string;
+  mint: string;
+  referredVolumeLamports: number;
+  earnedLamports: number;
+  trades: number;
+};
+
+/** Referred volume + referral fees for `referrer`, per coin. */
+export async function referralTotals(referrer: string): Promise<{
+  traders: number;
+  coins: ReferralCoinTotals[];
+}> {
+  const { data, error } = await supabaseAdmin
+    .from("coin_trade_fees")
+    .select("coin_id, mint, trader, trade_lamports, referral_fee_lamports")
+    .eq("referrer", referrer)
+    .limit(50_000);
+  if (error) throw new Error(error.message);
+
+  const byCoin: Record<string, ReferralCoinTotals> = {};
+  const traders = new Set<string>();
+  for (const r of data ?? []) {
+    const t = (byCoin[r.coin_id] ??= {
+      coinId: r.coin_id,
+      mint: r.mint,
+      referredVolumeLamports: 0,
+      earnedLamports: 0,
+      trades: 0,
+    });
+    t.referredVolumeLamports += Number(r.trade_lamports) || 0;
+    t.earnedLamports += Number(r.referral_fee_lamports) || 0;
+    t.trades += 1;
+    traders.add(r.trader);
+  }
+  return { traders: traders.size, coins: Object.values(byCoin) };
+}
@@ -1,161 +1,184 @@
 // src/lib/curve.ts
 //
-// Centralized curve math for UI + API quoting.
+// Centralized curve quoting for UI + API.
 //
-// We model price as "tokens per 1 SOL" (higher = cheaper tokens).
-// - Linear  : smooth decrease as sold grows (matches on-chain linear math idea)
-// - Degen   : cheaper early, then rips up much faster later
-// - Random  : casino mode, deterministic pseudo-random around a base curve
-
-export type CurveName = "linear" | "degen" | "random";
-
-// We treat the bonding-curve segment as 700M tokens (your migration threshold),
-// even though total supply is 1B. Above this we migrate to Raydium.
-const CURVE_RANGE_TOKENS = 700_000_000;
-
-// This is what the UI / stats use as the migration target.
+// We model price as "tokens per 1 SOL" (higher = cheaper tokens). The curves
+// themselves live in lib/curves/ (one module per curve, see the registry);
+// this file turns them into trade quotes.
+
+import {
+  CURVE_RANGE_TOKENS,
+  getCurve,
+  resolveParams,
+  seedFromMint,
+  windowOf,
+  type CurveParamValues,
+} from "@/lib/curves";
+
+/** Id of a registered curve (`coins.curve`), e.g. "linear". */
+export type CurveName = string;
+
+/** Raw per-coin params as stored (`coins.curve_params`); resolved lazily. */
+export type CurveParamsInput = Record<string, unknown> | null | undefined;
+
+// Default migration target (coins without their own `migrationTokens`).
 // IMPORTANT: keep this as a plain number (no `n`, no string) so we don't get NaN.
 export const MIGRATION_TOKENS = CURVE_RANGE_TOKENS;
 
-// Starting quote: 1 SOL ≈ 1,000,000 tokens at sold = 0 (strength = 1, linear).
-const BASE_TOKENS_PER_SOL = 1_000_000;
-
-// Don’t let tokens per SOL fall below this (prevents insane prices / div by 0),
-// or above this (prevents super crazy cheap).
-const MIN_TOKENS_PER_SOL = BASE_TOKENS_PER_SOL * 0.02; // 2% of base
-const MAX_TOKENS_PER_SOL = BASE_TOKENS_PER_SOL * 3;    // 3x cheaper than base
-
-function clamp(x: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, x));
+/**
+ * Params for a `coins` row. Older rows only have the `strength` column;
+ * anything in `curve_params` wins over it. Seeded curves without a chosen
+ * seed (missing or 0) use the one derived from the mint.
+ */
+export function curveParamsFromRow(row: {
+  curve?: string | null;
+  mint?: string | null;
+  strength?: number | string | null;
+  curve_params?: unknown;
+}): Record<string, unknown> {
+  const stored =
+    row.curve_params && typeof row.curve_params === "object" && !Array.isArray(row.curve_params)
+      ? (row.curve_params as Record<string, unknown>)
+      : {};
+  const out: Record<string, unknown> =
+    row.strength == null ? { ...stored } : { strength: Number(row.strength), ...stored };
+
+  const seeded = getCurve(row.curve).fields.some((f) => f.key === "seed");
+  if (seeded && !Number(out.seed) && row.mint) {
+    out.seed = seedFromMint(row.mint);
+  }
+  return out;
 }
 
-function progress(soldTokens: number): number {
-  if (!Number.isFinite(soldTokens) || soldTokens <= 0) return 0;
-  return clamp(soldTokens / CURVE_RANGE_TOKENS, 0, 1);
+function paramsFor(curve: CurveName, params: CurveParamsInput): CurveParamValues {
+  return resolveParams(getCurve(curve), params);
 }
 
-// Deterministic pseudo-random in [0,1) based only on sold & salt,
-// so it’s stable across refreshes (no flickering prices).
-function pseudoRandom01(soldTokens: number, salt: number): number {
-  const x = soldTokens * 0.000001 + salt * 13.37;
-  const s = Math.sin(x * 12.9898 + 78.233) * 43758.5453;
-  return s - Math.floor(s);
+/** Sold supply (UI tokens) at which this coin's curve completes. */
+export function migrationTokensFor(curve: CurveName, params: CurveParamsInput): number {
+  return windowOf(paramsFor(curve, params)).range;
 }
 
-// ---------- Core: tokensPerSol for each curve ----------
-
-function tokensPerSolForSold(
+// ---------- Exact quoting (integrates the curve across the trade) ----------
+//
+// Price per token (SOL) at supply x is 1 / tokensPerSol(x), so the SOL that
+// moves supply from a → b is ∫ₐᵇ dx / tokensPerSol(x).
+// - Buy : solve for Δ such that cost(sold, sold + Δ) = amountSol
+// - Sell: pay out cost(sold − Δ, sold)
+
+export type TradeSide = "buy" | "sell";
+
+export type CurveQuote = {
+  side: TradeSide;
+  solAmount: number; // SOL in (buy) / SOL out (sell), before fees
+  tokenAmount: number; // tokens out (buy) / tokens in (sell)
+  soldBefore: number;
+  soldAfter: number;
+  avgTokensPerSol: number;
+  avgPriceSol: number; // SOL per token, averaged over the whole trade
+  spotTokensPerSolBefore: number;
+  spotTokensPerSolAfter: number;
+  priceImpactPct: number; // how much worse the average is vs spot before
+};
+
+/** SOL needed to move sold supply from `fromSold` to `toSold` (tokens, UI units). */
+export function solBetween(
   curve: CurveName,
-  strengthRaw: number,
-  soldTokens: number
+  params: CurveParamsInput,
+  fromSold: number,
+  toSold: number
 ): number {
-  const strength = clamp(Math.floor(strengthRaw || 1), 1, 3);
-  const p = progress(soldTokens); // 0 → 1 across the 700M migration window
-
-  if (curve === "linear") {
-    // LINEAR: smooth straight line from BASE → MIN as sold goes from 0 → CURVE_RANGE.
-    const base = BASE_TOKENS_PER_SOL;
-    const min = MIN_TOKENS_PER_SOL;
-    const diff = base - min;
-
-    const tps = base - diff * p; // linear between base and min as sold grows
-    return clamp(tps, MIN_TOKENS_PER_SOL, MAX_TOKENS_PER_SOL);
-  }
-
-  if (curve === "degen") {
-    // DEGEN: clearly cheaper at the start, then ramps up WAY faster.
-    //
-    // Idea:
-    // - At p = 0  → tokensPerSol ≈ BASE * cheapMul   (e.g. 1.3x–1.6x cheaper than linear)
-    // - At p = 1  → tokensPerSol ≈ MIN_TOKENS_PER_SOL
-    // - The drop from cheap → expensive is exponential in p.
-    //
-    // Strength makes it more degen:
-    //   strength 1 → small boost & softer ramp
-    //   strength 3 → big boost & very aggressive ramp
-    const expo = 1.4 + 0.25 * (strength - 1);      // ≈ 1.4, 1.65, 1.9
-    const cheapMul = 1.3 + 0.15 * (strength - 1);  // ≈ 1.3x, 1.45x, 1.6x cheaper start
-
-    const cheapBase = BASE_TOKENS_PER_SOL * cheapMul;
-
-    // norm goes 1 → 0 as p goes 0 → 1
-    const norm = 1 - Math.pow(p, expo);
-
-    // Interpolate between cheapBase (at start) and MIN (at end)
-    const tps =
-      MIN_TOKENS_PER_SOL +
-      (cheapBase - MIN_TOKENS_PER_SOL) * norm;
-
-    return clamp(tps, MIN_TOKENS_PER_SOL, MAX_TOKENS_PER_SOL);
-  }
+  const a = Math.max(0, Math.min(fromSold, toSold));
+  const b = Math.max(0, Math.max(fromSold, toSold));
+  if (!Number.isFinite(a) || !Number.isFinite(b) || b <= a) return 0;
+  return getCurve(curve).solBetween(a, b, paramsFor(curve, params));
+}
 
-  // RANDOM: Full casino mode.
-  // 1) Start from a slightly steeper linear base
-  const baseSteep = 0.7 + 0.15 * (strength - 1);
-  const baseFactor = 1 - p * baseSteep;
-  let baseTps = BASE_TOKENS_PER_SOL * baseFactor;
-  baseTps = clamp(baseTps, MIN_TOKENS_PER_SOL, MAX_TOKENS_PER_SOL);
-
-  // 2) Volatility multiplier  (50–70% around base)
-  const r = pseudoRandom01(soldTokens, strength);
-  const vol = 0.5 + 0.1 * (strength - 1); // 0.5 → 0.7
-  const mul = 1 + (r - 0.5) * 2 * vol; // [1 - vol, 1 + vol]
-
-  // 3) “Jackpot / Rug” events – rare big moves.
-  const r2 = pseudoRandom01(soldTokens, strength + 101);
-  let jackpot = 1;
-  if (r2 > 0.985) {
-    // 1.5% chance: super cheap – big jackpot entry.
-    jackpot = 1.8;
-  } else if (r2 < 0.015) {
-    // 1.5% chance: expensive spike – small rug moment.
-    jackpot = 0.4;
+function buildQuote(
+  side: TradeSide,
+  curve: CurveName,
+  params: CurveParamsInput,
+  soldBefore: number,
+  soldAfter: number,
+  solAmount: number,
+  tokenAmount: number
+): CurveQuote {
+  const spotBefore = priceTokensPerSol(curve, params, soldBefore);
+  const spotAfter = priceTokensPerSol(curve, params, soldAfter);
+
+  const avgPriceSol = tokenAmount > 0 ? solAmount / tokenAmount : 0;
+  const avgTokensPerSol = solAmount > 0 ? tokenAmount / solAmount : 0;
+
+  const spotPriceSol = spotBefore > 0 ? 1 / spotBefore : 0;
+  let priceImpactPct = 0;
+  if (spotPriceSol > 0 && avgPriceSol > 0) {
+    priceImpactPct =
+      side === "buy"
+        ? ((avgPriceSol - spotPriceSol) / spotPriceSol) * 100
+        : ((spotPriceSol - avgPriceSol) / spotPriceSol) * 100;
   }
 
-  const tps = baseTps * mul * jackpot;
-  return clamp(tps, MIN_TOKENS_PER_SOL, MAX_TOKENS_PER_SOL);
+  return {
+    side,
+    solAmount,
+    tokenAmount,
+    soldBefore,
+    soldAfter,
+    avgTokensPerSol,
+    avgPriceSol,
+    spotTokensPerSolBefore: spotBefore,
+    spotTokensPerSolAfter: spotAfter,
+    priceImpactPct,
+  };
 }
 
-// ---------- Public helpers used by UI + API ----------
-
-// Quote how many tokens you *approximately* get for `amountSol` right now.
-export function quoteTokensUi(
-  amountSol: number,
-  curve: CurveName,
-  strength: number,
-  soldTokens: number
-): number {
-  if (!Number.isFinite(amountSol) || amountSol <= 0) return 0;
-  const tps = tokensPerSolForSold(curve, strength, soldTokens);
-  // Small buys compared to 700M range → using current marginal price is fine.
-  const tokens = amountSol * tps;
-  return Math.floor(tokens);
+function safeSold(soldTokens: number): number {
+  return Number.isFinite(soldTokens) && soldTokens > 0 ? soldTokens : 0;
 }
 
-// Quote how many tokens you *approximately* burn to receive `amountSol` back.
-// We use a mid-curve reference + small fee multiplier for “slippage feel”.
-export function quoteSellTokensUi(
+/** Exact buy quote: tokens out for `amountSol` (net of fees) hitting the curve. */
+export function quoteBuy(
   curve: CurveName,
-  strength: number,
-  _startPrice: number,
+  params: CurveParamsInput,
+  soldTokens: number,
   amountSol: number
-): number {
-  if (!Number.isFinite(amountSol) || amountSol <= 0) return 0;
+): CurveQuote {
+  const sold = safeSold(soldTokens);
+  if (!Number.isFinite(amountSol) || amountSol <= 0) {
+    return buildQuote("buy", curve, params, sold, sold, 0, 0);
+  }
 
-  const refSold = CURVE_RANGE_TOKENS * 0.5; // middle of the curve
-  const tps = tokensPerSolForSold(curve, strength, refSold);
-  const feeMul = 1.02; // ~2% extra tokens vs buy side
+  const tokens = Math.floor(
+    getCurve(curve).tokensForSol(sold, amountSol, paramsFor(curve, params))
+  );
+  return buildQuote("buy", curve, params, sold, sold + tokens, amountSol, tokens);
+}
+
+/** Exact sell quote: SOL out (before fees) for burning `tokensIn`. */
+export function quoteSell(
+  curve: CurveName,
+  params: CurveParamsInput,
+  soldTokens: number,
+  tokensIn: number
+): CurveQuote {
+  const sold = safeSold(soldTokens);
+  if (!Number.isFinite(tokensIn) || tokensIn <= 0) {
+    return buildQuote("sell", curve, params, sold, sold, 0, 0);
+  }
 
-  const tokens = amountSol * tps * feeMul;
-  return Math.floor(tokens);
+  // You can only sell back down to zero supply.
+  const tokens = Math.min(tokensIn, sold);
+  const solOut = solBetween(curve, params, sold - tokens, sold);
+  return buildQuote("sell", curve, params, sold, sold - tokens, solOut, tokens);
 }
 
+// ---------- Public helpers used by UI + API ----------
+
 // For stats API / UI “Price: 1 SOL ≈ X TOKEN”
 export function priceTokensPerSol(
   curve: CurveName,
-  strength: number,
+  params: CurveParamsInput,
   soldTokens: number
 ): number {
-  return tokensPerSolForSold(curve, strength, soldTokens);
+  return getCurve(curve).tokensPerSol(soldTokens, paramsFor(curve, params));
 }
-
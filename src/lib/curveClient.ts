@@ -6,7 +6,7 @@ import {
   Transaction,
   TransactionInstruction,
 } from "@solana/web3.js";
-import { PROGRAM_ID } from "@/lib/config";
+import { FEE_TREASURY_PK as FEE_TREASURY, PROGRAM_ID } from "@/lib/config";
 import { curvePda as curveStatePda } from "@/lib/config";
 import { buildFeeTransfers } from "@/lib/fees";
 
@@ -38,13 +38,6 @@ function discSell() {
   return Buffer.from([59, 162, 77, 109, 9, 82, 216, 160]); // trade_sell
 }
 
-// protocol / fee treasury (platform wallet)
-const FEE_TREASURY = new PublicKey(
-  process.env.NEXT_PUBLIC_FEE_TREASURY ||
-    process.env.NEXT_PUBLIC_TREASURY || // fallback
-    process.env.NEXT_PUBLIC_PLATFORM_WALLET!
-);
-
 /* small helper to make sure we never get NaN lamports */
 function safeLamportsFromSol(amountSol: number): number {
   const n = Number(amountSol);
@@ -58,7 +51,7 @@ function safeLamportsFromSol(amountSol: number): number {
  *
  * - amountSol = amount going into the curve (basis for price & tokens).
  * - Fees are charged ON TOP from the user's wallet:
- *     payer -> platform (+ creator, but creatorBps=0 on BUY so 0 now).
+ *     payer -> platform + creator (buy-side creator fee per the schedule).
  *
  * Tx flow:
  *   1) fee transfers (payer -> platform/creator)
@@ -85,7 +78,7 @@ export async function buildBuyTx(
     tradeSol: amountSol,
     phase: "pre",
     protocolTreasury: FEE_TREASURY,
-    creatorAddress: creatorAddress ?? null, // creatorBps=0 on BUY → 0 anyway
+    creatorAddress: creatorAddress ?? null, // if missing, the creator leg is skipped
   });
 
   // 2) system transfer payer -> state (actual trade amount)
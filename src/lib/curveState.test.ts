@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { Keypair, PublicKey, type AccountInfo } from "@solana/web3.js";
+import fixture from "@/lib/__fixtures__/curveState.synthetic.json";
+import { PROGRAM_ID } from "@/lib/config";
+import {
+  CURVE_STATE_DISCRIMINATOR,
+  CURVE_STATE_MIN_SIZE,
+  decodeCurveAccount,
+  decodeCurveState,
+} from "@/lib/curveState";
+
+// Hand-built from the IDL layout, not captured from a cluster: made-up
+// creator / mint / bumps with 123,456,789 of 1,000,000,000 tokens sold. It
+// uses the shape `solana account <curve pda> --output json` prints, so a
+// real dump can replace it as-is.
+function fixtureAccount(): AccountInfo<Buffer> {
+  const a = fixture.account;
+  return {
+    lamports: a.lamports,
+    data: Buffer.from(a.data[0], "base64"),
+    owner: new PublicKey(a.owner),
+    executable: a.executable,
+    rentEpoch: a.rentEpoch,
+  };
+}
+
+describe("decodeCurveAccount", () => {
+  it("decodes the IDL head and the supply counters at 74 / 82", () => {
+    const info = fixtureAccount();
+    expect(info.owner.equals(PROGRAM_ID)).toBe(true);
+    expect(decodeCurveAccount(info)).toEqual({
+      creator: "AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9",
+      mint: "9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu",
+      bump_curve: 254,
+      bump_mint_auth: 253,
+      total_supply_raw: 1_000_000_000_000_000,
+      sold_raw: 123_456_789_000_000,
+    });
+  });
+
+  it("pins the layout the fixture was written against", () => {
+    expect(CURVE_STATE_MIN_SIZE).toBe(90);
+    expect(fixtureAccount().data.subarray(0, 8).equals(CURVE_STATE_DISCRIMINATOR)).toBe(true);
+  });
+
+  it("decodes an account with trailing space past the counters", () => {
+    const info = fixtureAccount();
+    info.data = Buffer.concat([info.data, Buffer.alloc(32)]);
+    expect(decodeCurveAccount(info).sold_raw).toBe(123_456_789_000_000);
+  });
+
+  it("rejects a short account", () => {
+    const info = fixtureAccount();
+    info.data = info.data.subarray(0, CURVE_STATE_MIN_SIZE - 1);
+    expect(() => decodeCurveAccount(info)).toThrow(/too small: 89 bytes/);
+  });
+
+  it("rejects another account type's discriminator", () => {
+    const info = fixtureAccount();
+    info.data = Buffer.from(info.data);
+    info.data[0] ^= 0xff;
+    expect(() => decodeCurveAccount(info)).toThrow(/Not a CurveState account/);
+  });
+
+  it("rejects an account our program doesn't own", () => {
+    const info = fixtureAccount();
+    info.owner = Keypair.generate().publicKey;
+    expect(() => decodeCurveAccount(info)).toThrow(/CurveState owned by/);
+  });
+
+  it("rejects counters past Number precision", () => {
+    const data = Buffer.from(fixtureAccount().data);
+    data.writeBigUInt64LE(2n ** 60n, 82);
+    expect(() => decodeCurveState(data)).toThrow(/sold_raw .* exceeds Number precision/);
+  });
+});
@@ -0,0 +1,123 @@
+// src/lib/curveState.ts
+//
+// The one decoder for the on-chain CurveState account. Every route and lib
+// that reads the curve PDA goes through here.
+//
+// The IDL (src/idl/curve_launchpad.json, typed in types/curve_launchpad.ts)
+// drives the discriminator and the leading fields; the deployed program
+// appends the supply counters after them, which the checked-in IDL doesn't
+// list yet. Their offsets are taken from the IDL's size, so if the IDL gains
+// fields the layout moves with it instead of silently reading the wrong bytes.
+//
+// Layout (Anchor / Borsh):
+//   0..8    discriminator
+//   8..40   creator
+//   40..72  mint
+//   72      bump_curve
+//   73      bump_mint_auth
+//   74..82  total_supply_raw (u64 LE)   – not in IDL
+//   82..90  sold_raw (u64 LE)           – not in IDL
+
+import { PublicKey, type AccountInfo } from "@solana/web3.js";
+import { BorshCoder, type Idl, type IdlAccounts } from "@coral-xyz/anchor";
+import idl from "@/idl/curve_launchpad.json";
+import type { CurveLaunchpad } from "@/types/curve_launchpad";
+import { PROGRAM_ID } from "@/lib/config";
+
+type IdlCurveState = IdlAccounts<CurveLaunchpad>["curveState"];
+
+export type CurveStateAccount = {
+  creator: string; // the only key the program lets call `withdraw`
+  mint: string;
+  bump_curve: number;
+  bump_mint_auth: number;
+  total_supply_raw: number;
+  sold_raw: number;
+};
+
+const ACCOUNT_NAME = "CurveState";
+const coder = new BorshCoder(idl as Idl);
+
+export const CURVE_STATE_DISCRIMINATOR: Buffer = Buffer.from(
+  coder.accounts.accountDiscriminator(ACCOUNT_NAME)
+);
+
+/** discriminator + the fields the IDL knows about */
+const IDL_SIZE = coder.accounts.size(ACCOUNT_NAME);
+
+// u64 counters the program writes after the IDL fields
+const OFFSET_TOTAL_SUPPLY = IDL_SIZE;
+const OFFSET_SOLD = OFFSET_TOTAL_SUPPLY + 8;
+
+export const CURVE_STATE_MIN_SIZE = OFFSET_SOLD + 8;
+
+// If someone regenerates the IDL with the counters in it, fail at import
+// rather than decode them twice at shifted offsets.
+{
+  const types = (idl as { types?: { name: string; type?: { fields?: { name: string }[] } }[] })
+    .types;
+  const fields: string[] =
+    types?.find((t) => t.name === ACCOUNT_NAME)?.type?.fields?.map((f) => f.name) ?? [];
+  if (fields.includes("total_supply_raw") || fields.includes("sold_raw")) {
+    throw new Error(
+      "CurveState IDL now lists the supply counters – drop the manual tail in lib/curveState.ts"
+    );
+  }
+}
+
+function readU64(buf: Buffer, offset: number, field: string): number {
+  const v = buf.readBigUInt64LE(offset);
+  if (v > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error(`CurveState.${field} (${v}) exceeds Number precision`);
+  }
+  return Number(v);
+}
+
+/**
+ * Decodes CurveState account data. Throws on a short buffer or a
+ * discriminator that isn't CurveState's – callers should surface that,
+ * not fall back to zeros.
+ */
+export function decodeCurveState(data: Buffer | Uint8Array): CurveStateAccount {
+  const buf = Buffer.from(data);
+
+  if (buf.length < CURVE_STATE_MIN_SIZE) {
+    throw new Error(
+      `CurveState too small: ${buf.length} bytes, expected at least ${CURVE_STATE_MIN_SIZE}`
+    );
+  }
+  if (!buf.subarray(0, 8).equals(CURVE_STATE_DISCRIMINATOR)) {
+    throw new Error(
+      `Not a CurveState account (discriminator ${buf.subarray(0, 8).toString("hex")})`
+    );
+  }
+
+  const head = coder.accounts.decode<IdlCurveState & Record<string, unknown>>(ACCOUNT_NAME, buf);
+
+  return {
+    creator: (head.creator as PublicKey).toBase58(),
+    mint: (head.mint as PublicKey).toBase58(),
+    bump_curve: Number(head.bump_curve ?? head.bumpCurve),
+    bump_mint_auth: Number(head.bump_mint_auth ?? head.bumpMintAuth),
+    total_supply_raw: readU64(buf, OFFSET_TOTAL_SUPPLY, "total_supply_raw"),
+    sold_raw: readU64(buf, OFFSET_SOLD, "sold_raw"),
+  };
+}
+
+/** Same, for a fetched account – also checks our program owns it. */
+export function decodeCurveAccount(info: AccountInfo<Buffer | Uint8Array>): CurveStateAccount {
+  if (!info.owner.equals(PROGRAM_ID)) {
+    throw new Error(
+      `CurveState owned by ${info.owner.toBase58()}, expected ${PROGRAM_ID.toBase58()}`
+    );
+  }
+  return decodeCurveState(info.data);
+}
+
+// All launchpad mints use 6 decimals.
+export const TOKEN_DECIMALS = 6;
+
+/** Raw u64 amount → UI tokens. */
+export function rawToTokens(raw: number): number {
+  return raw / Math.pow(10, TOKEN_DECIMALS);
+}
@@ -0,0 +1,253 @@
+// src/lib/curveStream.ts
+//
+// Live feed behind GET /api/coins/[id]/stream. Each curve PDA gets exactly
+// one RPC `onAccountChange` subscription per server process, however many
+// viewers are connected; every change is decoded once and fanned out to
+// all listeners as:
+//
+//   stats     – same shape as GET /api/coins/[id]/stats
+//   migration – progress tick, only when the (rounded) percent moves
+//   trade     – trades picked up by an incremental index pass (lib/indexer.ts)
+//
+// The subscription is dropped a little after the last listener leaves, so
+// quick reloads don't churn the websocket.
+
+import { Connection, PublicKey, type AccountInfo } from "@solana/web3.js";
+import { RPC_URL, RPC_WS_URL, curvePda } from "@/lib/config";
+import { decodeCurveAccount } from "@/lib/curveState";
+import { computeCoinStats, type CoinStats, type StatsCoinRow } from "@/lib/coinStats";
+import { indexCoin, type IndexableCoin } from "@/lib/indexer";
+import { markCurveComplete, type MigrationStatus } from "@/lib/migration";
+import { tradesForCoin } from "@/lib/store";
+import type { Trade } from "@/lib/types";
+
+export type StreamCoin = IndexableCoin & StatsCoinRow;
+
+export type MigrationTick = {
+  migrationPercent: number;
+  migrationThresholdTokens: number;
+  soldTokens: number;
+  isMigrated: boolean;
+  migrationStatus: MigrationStatus | null;
+  tradingFrozen: boolean;
+  poolAddress: string | null;
+};
+
+export type CoinStreamEvent =
+  | { event: "stats"; data: CoinStats }
+  | { event: "migration"; data: MigrationTick }
+  | { event: "trade"; data: Trade };
+
+type Listener = (ev: CoinStreamEvent) => void;
+
+type Feed = {
+  coin: StreamCoin;
+  statePk: PublicKey;
+  subId: number;
+  listeners: Set<Listener>;
+  stats: CoinStats | null;
+  migration: MigrationTick | null;
+  indexing: boolean;
+  indexAgain: boolean;
+  recentSigs: string[];
+  closeTimer: ReturnType<typeof setTimeout> | null;
+};
+
+/** How long a feed outlives its last listener. */
+const IDLE_CLOSE_MS = 30_000;
+/** Trade sigs remembered per feed, so overlapping index passes don't re-emit. */
+const RECENT_SIGS = 200;
+/** Migration ticks are emitted per 0.1% of progress. */
+const MIGRATION_STEP = 0.1;
+
+// Kept on globalThis so dev hot reloads don't orphan live subscriptions
+const g = globalThis as typeof globalThis & {
+  __curveFeeds?: Map<string, Feed>;
+  __curveStreamConn?: Connection;
+};
+const feeds: Map<string, Feed> = (g.__curveFeeds ??= new Map());
+
+function connection(): Connection {
+  return (g.__curveStreamConn ??= new Connection(RPC_URL, {
+    commitment: "confirmed",
+    wsEndpoint: RPC_WS_URL,
+  }));
+}
+
+function emit(feed: Feed, ev: CoinStreamEvent) {
+  for (const l of feed.listeners) {
+    try {
+      l(ev);
+    } catch (e) {
+      console.warn("[STREAM] listener failed:", e);
+    }
+  }
+}
+
+function applyAccount(feed: Feed, info: AccountInfo<Buffer> | null) {
+  if (!info) return;
+
+  let stats: CoinStats;
+  try {
+    stats = computeCoinStats(feed.coin, decodeCurveAccount(info), info.lamports);
+  } catch (e) {
+    console.warn("[STREAM] decodeCurveAccount failed:", feed.coin.mint, e);
+    return;
+  }
+  feed.stats = stats;
+  emit(feed, { event: "stats", data: stats });
+
+  if (stats.isMigrated && !feed.coin.migration_status) {
+    void markCurveComplete(feed.coin, stats.soldRaw);
+  }
+
+  const tick: MigrationTick = {
+    migrationPercent: stats.migrationPercent,
+    migrationThresholdTokens: stats.migrationThresholdTokens,
+    soldTokens: stats.soldTokens,
+    isMigrated: stats.isMigrated,
+    migrationStatus: stats.migrationStatus,
+    tradingFrozen: stats.tradingFrozen,
+    poolAddress: stats.poolAddress,
+  };
+  const step = (p: number) => Math.floor(p / MIGRATION_STEP);
+  const prev = feed.migration;
+  feed.migration = tick;
+  if (
+    !prev ||
+    step(prev.migrationPercent) !== step(tick.migrationPercent) ||
+    prev.isMigrated !== tick.isMigrated ||
+    prev.migrationStatus !== tick.migrationStatus
+  ) {
+    emit(feed, { event: "migration", data: tick });
+  }
+}
+
+/**
+ * Runs one incremental index pass and emits the trades it stored. Changes
+ * that land mid-pass just queue one more pass, so a burst of trades costs
+ * at most two passes instead of one per viewer per trade.
+ */
+async function indexTrades(feed: Feed) {
+  if (feed.indexing) {
+    feed.indexAgain = true;
+    return;
+  }
+  feed.indexing = true;
+  try {
+    do {
+      feed.indexAgain = false;
+      const res = await indexCoin(connection(), feed.coin, "incremental");
+      if (!res.trades) continue;
+
+      const { trades } = await tradesForCoin(feed.coin.id, { limit: res.trades });
+      for (const t of trades.reverse()) {
+        const key = t.sig ?? t.id;
+        if (feed.recentSigs.includes(key)) continue;
+        feed.recentSigs.push(key);
+        emit(feed, { event: "trade", data: t });
+      }
+      feed.recentSigs.splice(0, Math.max(0, feed.recentSigs.length - RECENT_SIGS));
+    } while (feed.indexAgain && feed.listeners.size > 0);
+  } catch (e) {
+    console.warn("[STREAM] index pass failed:", feed.coin.mint, e);
+  } finally {
+    feed.indexing = false;
+  }
+}
+
+function openFeed(coin: StreamCoin): Feed {
+  const conn = connection();
+  const statePk = curvePda(new PublicKey(coin.mint));
+
+  const feed: Feed = {
+    coin,
+    statePk,
+    subId: -1,
+    listeners: new Set(),
+    stats: null,
+    migration: null,
+    indexing: false,
+    indexAgain: false,
+    recentSigs: [],
+    closeTimer: null,
+  };
+
+  feed.subId = conn.onAccountChange(
+    statePk,
+    (info) => {
+      applyAccount(feed, info);
+      void indexTrades(feed);
+    },
+    { commitment: "confirmed" }
+  );
+  console.log("[STREAM] subscribed", coin.mint, "sub", feed.subId);
+
+  // Seed the snapshot new listeners get on connect
+  conn
+    .getAccountInfo(statePk, "confirmed")
+    .then((info) => {
+      if (!feed.stats) applyAccount(feed, info);
+    })
+    .catch((e) => console.warn("[STREAM] initial getAccountInfo failed:", e));
+
+  return feed;
+}
+
+function closeFeed(feed: Feed) {
+  feeds.delete(feed.coin.mint);
+  connection()
+    .removeAccountChangeListener(feed.subId)
+    .catch((e) => console.warn("[STREAM] unsubscribe failed:", e));
+  console.log("[STREAM] unsubscribed", feed.coin.mint);
+}
+
+/**
+ * Adds a listener to the coin's feed (opening it if needed) and replays the
+ * latest stats + migration tick. Returns the unsubscribe function.
+ */
+export function subscribeCoin(coin: StreamCoin, listener: Listener): () => void {
+  let feed = feeds.get(coin.mint);
+  if (!feed) {
+    feed = openFeed(coin);
+    feeds.set(coin.mint, feed);
+  }
+  if (feed.closeTimer) {
+    clearTimeout(feed.closeTimer);
+    feed.closeTimer = null;
+  }
+
+  feed.listeners.add(listener);
+  if (feed.stats) listener({ event: "stats", data: feed.stats });
+  if (feed.migration) listener({ event: "migration", data: feed.migration });
+
+  const f = feed;
+  return () => {
+    if (!f.listeners.delete(listener) || f.listeners.size > 0) return;
+    f.closeTimer = setTimeout(() => {
+      if (f.listeners.size === 0 && feeds.get(f.coin.mint) === f) closeFeed(f);
+    }, IDLE_CLOSE_MS);
+  };
+}
+
+/**
+ * Patches the coin row an open feed works from (e.g. after graduating) and
+ * re-emits stats so viewers switch over without waiting for a curve change.
+ */
+export function updateStreamCoin(mint: string, patch: Partial<StreamCoin>) {
+  const feed = feeds.get(mint);
+  if (!feed) return;
+  Object.assign(feed.coin, patch);
+  connection()
+    .getAccountInfo(feed.statePk, "confirmed")
+    .then((info) => applyAccount(feed, info))
+    .catch((e) => console.warn("[STREAM] refresh getAccountInfo failed:", e));
+}
+
+/** Open feeds and their viewer counts (for logs / health checks). */
+export function streamStats() {
+  return [...feeds.values()].map((f) => ({
+    mint: f.coin.mint,
+    listeners: f.listeners.size,
+  }));
+}
@@ -0,0 +1,92 @@
+// src/lib/curves/constantProduct.ts
+//
+// CONSTANT PRODUCT (pump.fun style): the curve behaves like an x·y = k pool
+// seeded with *virtual* reserves, so there is real depth from the first buy.
+//
+//   tokenReserve(x) = V_t − x
+//   solReserve(x)   = k / (V_t − x),  k = V_s · V_t
+//   tokensPerSol(x) = (V_t − x)² / k
+//
+// V_t is `virtualReserveRatio` × the migration window and V_s is chosen so
+// the starting price is the base price. A smaller ratio drains the virtual
+// reserve harder, which steepens the curve. Integral and inverse are exact.
+// Floor / ceiling don't apply: the pool math sets the price.
+
+import { z } from "zod";
+import type { CurveModel, CurveParamValues } from "./types";
+import { clamp, windowOf } from "./shared";
+
+function reserves(params: CurveParamValues) {
+  const w = windowOf(params);
+  const vTokens = (params.virtualReserveRatio ?? 1.43) * w.range;
+  const vSol = vTokens / w.base;
+  return { vTokens, vSol, k: vSol * vTokens, range: w.range };
+}
+
+function tokensPerSol(sold: number, params: CurveParamValues): number {
+  const { vTokens, k, range } = reserves(params);
+  const x = clamp(Number.isFinite(sold) ? sold : 0, 0, range);
+  return ((vTokens - x) * (vTokens - x)) / k;
+}
+
+// SOL in = solReserve(b) − solReserve(a); flat at the end price past the window.
+function solBetween(from: number, to: number, params: CurveParamValues): number {
+  const a = Math.max(0, from);
+  const b = Math.max(0, to);
+  if (!Number.isFinite(a) || !Number.isFinite(b) || b <= a) return 0;
+
+  const { vTokens, k, range } = reserves(params);
+  const inA = Math.min(a, range);
+  const inB = Math.min(b, range);
+  const inside = inB > inA ? k / (vTokens - inB) - k / (vTokens - inA) : 0;
+
+  const flatFrom = Math.max(a, range);
+  const flat = b > flatFrom ? (b - flatFrom) / tokensPerSol(range, params) : 0;
+
+  return inside + flat;
+}
+
+// Swap math: new tokenReserve = k / (solReserve + sol).
+function tokensForSol(sold: number, sol: number, params: CurveParamValues): number {
+  if (!Number.isFinite(sol) || sol <= 0) return 0;
+  const { vTokens, k, range } = reserves(params);
+  const a = Math.max(0, sold);
+  const endTps = tokensPerSol(range, params);
+
+  if (a >= range) return sol * endTps;
+
+  const toEnd = solBetween(a, range, params);
+  if (sol >= toEnd) {
+    return range - a + (sol - toEnd) * endTps;
+  }
+
+  const b = vTokens - k / (k / (vTokens - a) + sol);
+  return Math.max(0, b - a);
+}
+
+const constantProduct: CurveModel = {
+  id: "constant_product",
+  label: "Constant-product curve",
+  badge: "pump.fun style",
+  description:
+    "x·y = k with virtual SOL/token reserves. Deep from the first buy, price accelerates as reserves drain.",
+  fields: [
+    {
+      key: "virtualReserveRatio",
+      label: "Virtual reserve (× target)",
+      min: 1.05,
+      max: 3,
+      step: 0.01,
+      default: 1.43,
+      help: "Virtual token reserve as a multiple of the migration target. Lower = steeper.",
+    },
+  ],
+  schema: z.object({
+    virtualReserveRatio: z.number().min(1.05).max(3).default(1.43),
+  }),
+  tokensPerSol,
+  solBetween,
+  tokensForSol,
+};
+
+export default constantProduct;
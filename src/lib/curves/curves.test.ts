@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  defaultParams,
+  listCurves,
+  resolveParams,
+  windowOf,
+  type CurveParamValues,
+} from "@/lib/curves";
+
+function paramsFor(id: string): CurveParamValues {
+  const model = listCurves().find((m) => m.id === id)!;
+  const params = defaultParams(model);
+  // seeded curves need a real seed (0 means "derive from the mint")
+  if ("seed" in params) params.seed = 1_234_567;
+  return params;
+}
+
+// Midpoint rule fine enough to resolve every random bucket many times over
+function bruteForceSol(tokensPerSol: (x: number) => number, a: number, b: number) {
+  const steps = 2_000_000;
+  const h = (b - a) / steps;
+  let sol = 0;
+  for (let i = 0; i < steps; i++) sol += h / tokensPerSol(a + (i + 0.5) * h);
+  return sol;
+}
+
+describe.each(listCurves().map((m) => [m.id, m] as const))("%s curve", (id, model) => {
+  const params = paramsFor(id);
+  const { range } = windowOf(params);
+
+  it.each([
+    [0, 0.1],
+    [0, 5],
+    [range * 0.3, 1],
+    [range * 0.9, 50],
+    [range * 0.999, 2],
+    [range * 1.2, 1],
+  ])("buys back what it quotes from sold=%d for %d SOL", (sold, sol) => {
+    const tokens = model.tokensForSol(sold, sol, params);
+    expect(tokens).toBeGreaterThan(0);
+    expect(model.solBetween(sold, sold + tokens, params)).toBeCloseTo(sol, 6);
+  });
+
+  it("prices a split buy the same as one buy", () => {
+    const a = range * 0.2;
+    const mid = range * 0.35;
+    const b = range * 0.5;
+    const whole = model.solBetween(a, b, params);
+    const parts = model.solBetween(a, mid, params) + model.solBetween(mid, b, params);
+    expect(parts).toBeCloseTo(whole, 6);
+  });
+
+  it("costs nothing for an empty or reversed range", () => {
+    expect(model.solBetween(range * 0.5, range * 0.5, params)).toBe(0);
+    expect(model.solBetween(range * 0.5, range * 0.4, params)).toBe(0);
+    expect(model.tokensForSol(range * 0.5, 0, params)).toBe(0);
+  });
+});
+
+describe("random curve integral", () => {
+  const model = listCurves().find((m) => m.id === "random")!;
+
+  it.each([1, 2, 3])("sums its buckets exactly at strength %d", (strength) => {
+    const params = { ...paramsFor("random"), strength };
+    const { range } = windowOf(params);
+    const a = range * 0.123;
+    const b = range * 0.456;
+    const exact = model.solBetween(a, b, params);
+    const brute = bruteForceSol((x) => model.tokensPerSol(x, params), a, b);
+    expect(Math.abs(exact - brute) / brute).toBeLessThan(1e-6);
+  });
+
+  it("prices a buy inside one bucket at that bucket's price", () => {
+    const params = paramsFor("random");
+    const { range } = windowOf(params);
+    const a = range * 0.5001;
+    const b = range * 0.5002;
+    const exact = model.solBetween(a, b, params);
+    const brute = bruteForceSol((x) => model.tokensPerSol(x, params), a, b);
+    expect(Math.abs(exact - brute) / brute).toBeLessThan(1e-9);
+  });
+});
+
+describe("resolveParams", () => {
+  it.each(listCurves().map((m) => [m.id, m] as const))("keeps %s defaults unchanged", (_id, model) => {
+    const defaults = defaultParams(model);
+    expect(resolveParams(model, defaults)).toEqual(defaults);
+  });
+
+  it("snaps to multiples of the step, not offsets from the min", () => {
+    const model = listCurves().find((m) => m.id === "linear")!;
+    const out = resolveParams(model, { minTokensPerSol: 20_400, baseTokensPerSol: 1_000_000 });
+    expect(out.minTokensPerSol).toBe(20_000);
+  });
+
+  it("snaps fractional steps without float noise", () => {
+    const model = listCurves().find((m) => m.id === "constant_product")!;
+    expect(resolveParams(model, { virtualReserveRatio: 1.4312 }).virtualReserveRatio).toBe(1.43);
+  });
+});
@@ -0,0 +1,83 @@
+// src/lib/curves/degen.ts
+//
+// DEGEN: clearly cheaper at the start, then ramps up WAY faster.
+//
+// Idea:
+// - At p = 0  → tokensPerSol ≈ base * cheapMul   (e.g. 1.3x–1.6x cheaper than linear)
+// - At p = 1  → tokensPerSol ≈ min
+// - The drop from cheap → expensive is exponential in p.
+//
+// Strength makes it more degen:
+//   strength 1 → small boost & softer ramp
+//   strength 3 → big boost & very aggressive ramp
+
+import { z } from "zod";
+import type { CurveModel, CurveParamValues } from "./types";
+import {
+  clamp,
+  integratePrice,
+  invertCost,
+  progress,
+  windowOf,
+} from "./shared";
+
+function tokensPerSol(sold: number, params: CurveParamValues): number {
+  const w = windowOf(params);
+  const strength = clamp(Math.floor(params.strength || 1), 1, 3);
+  const p = progress(sold, w.range);
+
+  const expo = 1.4 + 0.25 * (strength - 1);      // ≈ 1.4, 1.65, 1.9
+  const cheapMul = 1.3 + 0.15 * (strength - 1);  // ≈ 1.3x, 1.45x, 1.6x cheaper start
+
+  const cheapBase = w.base * cheapMul;
+
+  // norm goes 1 → 0 as p goes 0 → 1
+  const norm = 1 - Math.pow(p, expo);
+
+  // Interpolate between cheapBase (at start) and MIN (at end)
+  const tps =
+    w.min +
+    (cheapBase - w.min) * norm;
+
+  return clamp(tps, w.min, w.max);
+}
+
+function solBetween(from: number, to: number, params: CurveParamValues) {
+  return integratePrice(
+    (x) => tokensPerSol(x, params),
+    from,
+    to,
+    windowOf(params).range
+  );
+}
+
+const degen: CurveModel = {
+  id: "degen",
+  label: "Degen curve",
+  badge: "Pumps harder",
+  description:
+    "Cheaper early, then rips up later. Higher strength = more aggressive.",
+  fields: [
+    {
+      key: "strength",
+      label: "Strength",
+      min: 1,
+      max: 3,
+      step: 1,
+      default: 1,
+      help: "1 = chill, 2 = spicy, 3 = full degen.",
+    },
+  ],
+  schema: z.object({ strength: z.number().int().min(1).max(3).default(1) }),
+  tokensPerSol,
+  solBetween,
+  tokensForSol: (sold, sol, params) =>
+    invertCost(
+      (a, b) => solBetween(a, b, params),
+      sold,
+      sol,
+      sol * windowOf(params).max
+    ),
+};
+
+export default degen;
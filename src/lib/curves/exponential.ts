@@ -0,0 +1,84 @@
+// src/lib/curves/exponential.ts
+//
+// EXPONENTIAL: price per token grows by a constant factor per token sold,
+// going from the base price to the ceiling (min tokens per SOL) exactly at
+// the migration point.
+//
+//   tokensPerSol(x) = base · (min / base)^p,  p = x / range
+//
+// Price per token is e^(λx) / base with λ = ln(base / min) / range, so the
+// integral and its inverse are closed-form.
+
+import { z } from "zod";
+import type { CurveModel, CurveParamValues } from "./types";
+import { progress, windowOf } from "./shared";
+
+function lambdaFor(params: CurveParamValues): number {
+  const w = windowOf(params);
+  return Math.log(w.base / w.min) / w.range;
+}
+
+function tokensPerSol(sold: number, params: CurveParamValues): number {
+  const w = windowOf(params);
+  return w.base * Math.pow(w.min / w.base, progress(sold, w.range));
+}
+
+// ∫ e^(λx) / B dx = (e^(λb) − e^(λa)) / (λB), flat at the end price past the window.
+function solBetween(from: number, to: number, params: CurveParamValues): number {
+  const a = Math.max(0, from);
+  const b = Math.max(0, to);
+  if (!Number.isFinite(a) || !Number.isFinite(b) || b <= a) return 0;
+
+  const w = windowOf(params);
+  const lambda = lambdaFor(params);
+  const inA = Math.min(a, w.range);
+  const inB = Math.min(b, w.range);
+  let inside = 0;
+  if (inB > inA) {
+    inside =
+      lambda > 0
+        ? (Math.exp(lambda * inB) - Math.exp(lambda * inA)) / (lambda * w.base)
+        : (inB - inA) / w.base;
+  }
+
+  const flatFrom = Math.max(a, w.range);
+  const flat = b > flatFrom ? (b - flatFrom) / tokensPerSol(w.range, params) : 0;
+
+  return inside + flat;
+}
+
+// e^(λb) = e^(λa) + sol·λ·B, then spill into the flat tail.
+function tokensForSol(sold: number, sol: number, params: CurveParamValues): number {
+  if (!Number.isFinite(sol) || sol <= 0) return 0;
+  const w = windowOf(params);
+  const a = Math.max(0, sold);
+  const endTps = tokensPerSol(w.range, params);
+
+  if (a >= w.range) return sol * endTps;
+
+  const toEnd = solBetween(a, w.range, params);
+  if (sol >= toEnd) {
+    return w.range - a + (sol - toEnd) * endTps;
+  }
+
+  const lambda = lambdaFor(params);
+  if (lambda <= 0) return sol * w.base;
+
+  const b = Math.log(Math.exp(lambda * a) + sol * lambda * w.base) / lambda;
+  return Math.max(0, b - a);
+}
+
+const exponential: CurveModel = {
+  id: "exponential",
+  label: "Exponential curve",
+  badge: "Compounding",
+  description:
+    "Every token sold makes the next one a fixed % pricier. Gentle early, vertical late.",
+  fields: [],
+  schema: z.object({}),
+  tokensPerSol,
+  solBetween,
+  tokensForSol,
+};
+
+export default exponential;
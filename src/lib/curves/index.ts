@@ -0,0 +1,195 @@
+// src/lib/curves/index.ts
+//
+// Curve registry. Every launch curve is one module implementing CurveModel;
+// registering it here is all it takes for the create page, the quoting
+// helpers in lib/curve.ts, the stats route and the curve preview chart to
+// pick it up.
+//
+// Per-coin params (`coins.curve_params`) = the shared window fields below +
+// the curve's own fields.
+
+import { z } from "zod";
+import type { CurveModel, CurveParamField, CurveParamValues } from "./types";
+import {
+  BASE_TOKENS_PER_SOL,
+  CURVE_RANGE_TOKENS,
+  MAX_TOKENS_PER_SOL,
+  MIN_TOKENS_PER_SOL,
+  TOTAL_SUPPLY_TOKENS,
+  clamp,
+  windowOf,
+} from "./shared";
+
+import linear from "./linear";
+import degen from "./degen";
+import random from "./random";
+import exponential from "./exponential";
+import sigmoid from "./sigmoid";
+import constantProduct from "./constantProduct";
+
+export type { CurveModel, CurveParamField, CurveParamValues } from "./types";
+export type { CurveWindow } from "./shared";
+export { CURVE_RANGE_TOKENS, TOTAL_SUPPLY_TOKENS, windowOf } from "./shared";
+export {
+  RANDOM_EVENTS,
+  RANDOM_STEPS,
+  mulberry32,
+  randomSchedule,
+  seedFromMint,
+  type RandomScheduleBucket,
+} from "./random";
+
+const registry = new Map<string, CurveModel>();
+
+export function registerCurve(model: CurveModel) {
+  if (registry.has(model.id)) {
+    throw new Error(`Curve "${model.id}" is already registered`);
+  }
+  registry.set(model.id, model);
+}
+
+registerCurve(linear);
+registerCurve(degen);
+registerCurve(random);
+registerCurve(exponential);
+registerCurve(sigmoid);
+registerCurve(constantProduct);
+
+// Rows with an unknown / empty curve have always been priced as linear.
+export const DEFAULT_CURVE_ID = linear.id;
+
+export function listCurves(): CurveModel[] {
+  return Array.from(registry.values());
+}
+
+export function curveIds(): string[] {
+  return Array.from(registry.keys());
+}
+
+export function isCurveId(id: unknown): id is string {
+  return typeof id === "string" && registry.has(id);
+}
+
+/** Registered model for `id`, falling back to linear. */
+export function getCurve(id: string | null | undefined): CurveModel {
+  return registry.get(String(id ?? "").toLowerCase()) ?? linear;
+}
+
+// ---------- params ----------
+
+/** Window knobs every curve shares (all in tokens per SOL / UI tokens). */
+export const WINDOW_FIELDS: CurveParamField[] = [
+  {
+    key: "baseTokensPerSol",
+    label: "Start price (tokens / SOL)",
+    min: 1_000,
+    max: 1_000_000_000,
+    step: 1_000,
+    default: BASE_TOKENS_PER_SOL,
+    help: "How many tokens 1 SOL buys at launch.",
+  },
+  {
+    key: "minTokensPerSol",
+    label: "Price ceiling (min tokens / SOL)",
+    min: 1,
+    max: 1_000_000_000,
+    step: 1_000,
+    default: MIN_TOKENS_PER_SOL,
+    help: "The most expensive the curve can get.",
+  },
+  {
+    key: "maxTokensPerSol",
+    label: "Price floor (max tokens / SOL)",
+    min: 1_000,
+    max: 10_000_000_000,
+    step: 1_000,
+    default: MAX_TOKENS_PER_SOL,
+    help: "The cheapest the curve can get.",
+  },
+  {
+    key: "migrationTokens",
+    label: "Migration threshold (tokens sold)",
+    min: 10_000_000,
+    max: TOTAL_SUPPLY_TOKENS,
+    step: 1_000_000,
+    default: CURVE_RANGE_TOKENS,
+    help: "Sold supply at which the curve completes and migrates.",
+  },
+];
+
+const windowSchema = z
+  .object({
+    baseTokensPerSol: z.number().min(1_000).max(1_000_000_000).default(BASE_TOKENS_PER_SOL),
+    minTokensPerSol: z.number().min(1).max(1_000_000_000).default(MIN_TOKENS_PER_SOL),
+    maxTokensPerSol: z.number().min(1_000).max(10_000_000_000).default(MAX_TOKENS_PER_SOL),
+    migrationTokens: z.number().int().min(10_000_000).max(TOTAL_SUPPLY_TOKENS).default(CURVE_RANGE_TOKENS),
+  })
+  .refine((w) => w.minTokensPerSol < w.baseTokensPerSol, {
+    message: "Price ceiling must be above the start price (fewer tokens per SOL)",
+    path: ["minTokensPerSol"],
+  })
+  .refine((w) => w.baseTokensPerSol <= w.maxTokensPerSol, {
+    message: "Price floor must be at or below the start price (more tokens per SOL)",
+    path: ["maxTokensPerSol"],
+  });
+
+/** Full zod schema for a coin's `curve_params` on this curve. */
+export function curveParamsSchema(model: CurveModel) {
+  return windowSchema.and(model.schema);
+}
+
+/** Every field a curve exposes: window first, then its own. */
+export function paramFields(model: CurveModel): CurveParamField[] {
+  return [...WINDOW_FIELDS, ...model.fields];
+}
+
+/** Defaults for every field of a curve. */
+export function defaultParams(model: CurveModel): CurveParamValues {
+  const out: CurveParamValues = {};
+  for (const f of paramFields(model)) out[f.key] = f.default;
+  return out;
+}
+
+/** Strict parse for user input (POST /api/coins). */
+export function parseCurveParams(model: CurveModel, raw: unknown) {
+  return curveParamsSchema(model).safeParse(raw ?? {});
+}
+
+// Steps count from 0, not from f.min (min 1, step 1000 must keep 20000 at
+// 20000); toFixed drops the float noise of fractional steps like 0.01.
+function snap(v: number, f: CurveParamField): number {
+  const decimals = (String(f.step).split(".")[1] ?? "").length;
+  const stepped = f.step > 0 ? Number((Math.round(v / f.step) * f.step).toFixed(decimals)) : v;
+  return clamp(stepped, f.min, f.max);
+}
+
+/**
+ * Lenient params for pricing an existing coin: unknown keys dropped,
+ * missing / bad values defaulted, out-of-range values snapped + clamped.
+ * If the combination is still invalid we price with the defaults.
+ */
+export function resolveParams(
+  model: CurveModel,
+  raw: Record<string, unknown> | null | undefined
+): CurveParamValues {
+  const out: CurveParamValues = {};
+  for (const f of paramFields(model)) {
+    const v = Number(raw?.[f.key]);
+    out[f.key] = Number.isFinite(v) ? snap(v, f) : f.default;
+  }
+  const parsed = curveParamsSchema(model).safeParse(out);
+  return parsed.success ? (parsed.data as CurveParamValues) : defaultParams(model);
+}
+
+/** Sampled tokens-per-SOL across the migration window, for charts. */
+export function curveSeries(
+  model: CurveModel,
+  params: CurveParamValues,
+  points = 100
+): { sold: number; tokensPerSol: number }[] {
+  const { range } = windowOf(params);
+  return Array.from({ length: points + 1 }, (_, i) => {
+    const sold = (range * i) / points;
+    return { sold, tokensPerSol: model.tokensPerSol(sold, params) };
+  });
+}
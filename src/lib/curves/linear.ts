@@ -0,0 +1,74 @@
+// src/lib/curves/linear.ts
+//
+// LINEAR: smooth straight line from base → min tokens per SOL as sold goes
+// from 0 → the migration window. Price per token is 1 / (B − kx), so both the
+// integral and its inverse have closed forms.
+
+import { z } from "zod";
+import type { CurveModel, CurveParamValues } from "./types";
+import { clamp, progress, windowOf } from "./shared";
+
+function tokensPerSol(sold: number, params: CurveParamValues): number {
+  const w = windowOf(params);
+  const tps = w.base - (w.base - w.min) * progress(sold, w.range);
+  return clamp(tps, w.min, w.max);
+}
+
+// ∫ dx / (B − Kx) = (1/K) · ln((B − Ka) / (B − Kb)), flat at min past the window.
+function solBetween(from: number, to: number, params: CurveParamValues): number {
+  const a = Math.max(0, from);
+  const b = Math.max(0, to);
+  if (!Number.isFinite(a) || !Number.isFinite(b) || b <= a) return 0;
+
+  const w = windowOf(params);
+  const k = (w.base - w.min) / w.range;
+  const inA = Math.min(a, w.range);
+  const inB = Math.min(b, w.range);
+  let inside = 0;
+  if (inB > inA) {
+    inside =
+      k > 0
+        ? Math.log((w.base - k * inA) / (w.base - k * inB)) / k
+        : (inB - inA) / w.base;
+  }
+
+  const flatFrom = Math.max(a, w.range);
+  const flat = b > flatFrom ? (b - flatFrom) / w.min : 0;
+
+  return inside + flat;
+}
+
+// Solve (B − Kb) = (B − Ka) · e^(−K·sol) for b, then spill into the flat tail.
+function tokensForSol(sold: number, sol: number, params: CurveParamValues): number {
+  if (!Number.isFinite(sol) || sol <= 0) return 0;
+  const w = windowOf(params);
+  const a = Math.max(0, sold);
+
+  if (a >= w.range) return sol * w.min;
+
+  const toEnd = solBetween(a, w.range, params);
+  if (sol >= toEnd) {
+    return w.range - a + (sol - toEnd) * w.min;
+  }
+
+  const k = (w.base - w.min) / w.range;
+  if (k <= 0) return sol * w.base;
+
+  const b = (w.base - (w.base - k * a) * Math.exp(-k * sol)) / k;
+  return Math.max(0, b - a);
+}
+
+const linear: CurveModel = {
+  id: "linear",
+  label: "Linear curve",
+  badge: "Smoother climbs",
+  description:
+    "Classic bonding curve: price ramps up smoothly as more tokens are sold.",
+  fields: [],
+  schema: z.object({}),
+  tokensPerSol,
+  solBetween,
+  tokensForSol,
+};
+
+export default linear;
@@ -0,0 +1,257 @@
+// src/lib/curves/random.ts
+//
+// RANDOM: Full casino mode. Deterministic pseudo-random noise around a
+// slightly steeper linear base, plus rare “jackpot / rug” spikes.
+//
+// The noise is a published schedule: the window is cut into RANDOM_STEPS
+// buckets and each bucket draws two numbers from mulberry32(seed). Every coin
+// has its own seed (chosen at creation or derived from the mint), so anyone
+// can regenerate the schedule and check the curve wasn't rigged.
+
+import { z } from "zod";
+import type { CurveModel, CurveParamValues } from "./types";
+import {
+  clamp,
+  invertCost,
+  progress,
+  windowOf,
+  type CurveWindow,
+} from "./shared";
+
+// Buckets across the migration window; one (noise, event) draw per bucket.
+export const RANDOM_STEPS = 1_000;
+
+// “Jackpot / Rug” thresholds on the second draw (1.5% each) and multipliers.
+export const RANDOM_EVENTS = {
+  jackpotAbove: 0.985,
+  rugBelow: 0.015,
+  jackpotMultiplier: 1.8, // super cheap – big jackpot entry
+  rugMultiplier: 0.4, // expensive spike – small rug moment
+} as const;
+
+/** Integer PRNG (32-bit state) – identical output on every JS engine. */
+export function mulberry32(a: number) {
+  return function () {
+    let t = (a += 0x6d2b79f5);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Default seed for a coin: 32-bit FNV-1a over the mint address (base58
+ * string, ASCII). Never 0, since 0 means “not chosen” in curve_params.
+ */
+export function seedFromMint(mint: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < mint.length; i++) {
+    h ^= mint.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0 || 1;
+}
+
+// Draws per bucket: [noise0, event0, noise1, event1, ...]. Small cache since
+// a page / route only ever prices a handful of coins.
+const drawCache = new Map<number, Float64Array>();
+const DRAW_CACHE_SIZE = 64;
+
+function drawsFor(seed: number): Float64Array {
+  const key = seed >>> 0;
+  let draws = drawCache.get(key);
+  if (draws) return draws;
+
+  const rnd = mulberry32(key);
+  draws = new Float64Array(RANDOM_STEPS * 2);
+  for (let i = 0; i < draws.length; i++) draws[i] = rnd();
+
+  if (drawCache.size >= DRAW_CACHE_SIZE) {
+    drawCache.delete(drawCache.keys().next().value as number);
+  }
+  drawCache.set(key, draws);
+  return draws;
+}
+
+function bucketOf(sold: number, range: number): number {
+  return clamp(Math.floor(progress(sold, range) * RANDOM_STEPS), 0, RANDOM_STEPS - 1);
+}
+
+function strengthOf(params: CurveParamValues): number {
+  return clamp(Math.floor(params.strength || 1), 1, 3);
+}
+
+function eventMultiplier(r2: number): number {
+  if (r2 > RANDOM_EVENTS.jackpotAbove) return RANDOM_EVENTS.jackpotMultiplier;
+  if (r2 < RANDOM_EVENTS.rugBelow) return RANDOM_EVENTS.rugMultiplier;
+  return 1;
+}
+
+// Linear base before noise: w.base at sold = 0, falling by `baseSteep` of it
+// across the window
+function baseSteepOf(strength: number): number {
+  return 0.7 + 0.15 * (strength - 1);
+}
+
+// Noise × event multiplier for bucket i
+function bucketMultiplier(draws: Float64Array, i: number, strength: number): number {
+  const r = draws[2 * i];
+  const vol = 0.5 + 0.1 * (strength - 1); // 0.5 → 0.7
+  const mul = 1 + (r - 0.5) * 2 * vol; // [1 - vol, 1 + vol]
+  return mul * eventMultiplier(draws[2 * i + 1]);
+}
+
+function tokensPerSol(sold: number, params: CurveParamValues): number {
+  const w = windowOf(params);
+  const strength = strengthOf(params);
+  const p = progress(sold, w.range);
+  const draws = drawsFor(params.seed ?? 0);
+  const i = bucketOf(sold, w.range);
+
+  // 1) Start from a slightly steeper linear base
+  const baseFactor = 1 - p * baseSteepOf(strength);
+  let baseTps = w.base * baseFactor;
+  baseTps = clamp(baseTps, w.min, w.max);
+
+  // 2) Volatility multiplier (50–70% around base) and 3) “Jackpot / Rug”
+  //    events – rare big moves.
+  const tps = baseTps * bucketMultiplier(draws, i, strength);
+  return clamp(tps, w.min, w.max);
+}
+
+/**
+ * ∫ dx / tokensPerSol over [a, b] inside one bucket, in closed form. With
+ * the multiplier m fixed the price is clamp(m · clamp(L(x))) for the linear
+ * base L, so it splits where L or m · L crosses a bound into pieces that are
+ * either flat or m · L, and ∫ dx / (m · L) is a log.
+ */
+function bucketCost(a: number, b: number, m: number, w: CurveWindow, steep: number): number {
+  const slope = (w.base * steep) / w.range; // L(x) = w.base − slope · x
+  const L = (x: number) => w.base - slope * x;
+  const soldAt = (v: number) => (w.base - v) / slope;
+
+  const cuts = [a, b];
+  for (const v of [w.min, w.max, w.min / m, w.max / m]) {
+    const x = soldAt(v);
+    if (x > a && x < b) cuts.push(x);
+  }
+  cuts.sort((x, y) => x - y);
+
+  let sol = 0;
+  for (let k = 1; k < cuts.length; k++) {
+    const lo = cuts[k - 1];
+    const hi = cuts[k];
+    if (!(hi > lo)) continue;
+    const mid = L((lo + hi) / 2);
+    const tps = clamp(m * clamp(mid, w.min, w.max), w.min, w.max);
+    const linear = mid > w.min && mid < w.max && m * mid > w.min && m * mid < w.max;
+    sol += linear ? Math.log(L(lo) / L(hi)) / (m * slope) : (hi - lo) / tps;
+  }
+  return sol;
+}
+
+// The noise is constant per bucket, so the integral is summed bucket by
+// bucket instead of sampled; flat at the end price past the window.
+function solBetween(from: number, to: number, params: CurveParamValues) {
+  const a = Math.max(0, from);
+  const b = Math.max(0, to);
+  if (!Number.isFinite(a) || !Number.isFinite(b) || b <= a) return 0;
+
+  const w = windowOf(params);
+  const strength = strengthOf(params);
+  const steep = baseSteepOf(strength);
+  const draws = drawsFor(params.seed ?? 0);
+  const size = w.range / RANDOM_STEPS;
+
+  let sol = 0;
+  const inB = Math.min(b, w.range);
+  for (let i = bucketOf(a, w.range); i < RANDOM_STEPS && i * size < inB; i++) {
+    const lo = Math.max(a, i * size);
+    const hi = Math.min(inB, (i + 1) * size);
+    if (hi > lo) sol += bucketCost(lo, hi, bucketMultiplier(draws, i, strength), w, steep);
+  }
+
+  const flatFrom = Math.max(a, w.range);
+  if (b > flatFrom) sol += (b - flatFrom) / tokensPerSol(w.range, params);
+  return sol;
+}
+
+export type RandomScheduleBucket = {
+  index: number;
+  fromSold: number;
+  toSold: number;
+  noise: number; // raw draw in [0, 1)
+  volatilityMultiplier: number;
+  event: "jackpot" | "rug" | null;
+  eventMultiplier: number;
+};
+
+/**
+ * The full schedule a coin's random curve follows, bucket by bucket.
+ * Published so traders can regenerate it from the seed and compare.
+ */
+export function randomSchedule(params: CurveParamValues): RandomScheduleBucket[] {
+  const w = windowOf(params);
+  const strength = strengthOf(params);
+  const vol = 0.5 + 0.1 * (strength - 1);
+  const draws = drawsFor(params.seed ?? 0);
+  const size = w.range / RANDOM_STEPS;
+
+  return Array.from({ length: RANDOM_STEPS }, (_, i) => {
+    const noise = draws[2 * i];
+    const r2 = draws[2 * i + 1];
+    const m = eventMultiplier(r2);
+    return {
+      index: i,
+      fromSold: i * size,
+      toSold: (i + 1) * size,
+      noise,
+      volatilityMultiplier: 1 + (noise - 0.5) * 2 * vol,
+      event: m > 1 ? "jackpot" : m < 1 ? "rug" : null,
+      eventMultiplier: m,
+    };
+  });
+}
+
+const random: CurveModel = {
+  id: "random",
+  label: "Random curve",
+  badge: "Casino mode",
+  description:
+    "Seeded, verifiable chaos around a base curve. Spiky moves, for true degen only.",
+  fields: [
+    {
+      key: "strength",
+      label: "Strength",
+      min: 1,
+      max: 3,
+      step: 1,
+      default: 1,
+      help: "Higher strength = steeper base and wilder swings.",
+    },
+    {
+      key: "seed",
+      label: "Seed",
+      min: 0,
+      max: 4_294_967_295,
+      step: 1,
+      default: 0,
+      help: "0 = derived from the mint address once it exists.",
+    },
+  ],
+  schema: z.object({
+    strength: z.number().int().min(1).max(3).default(1),
+    seed: z.number().int().min(0).max(4_294_967_295).default(0),
+  }),
+  tokensPerSol,
+  solBetween,
+  tokensForSol: (sold, sol, params) =>
+    invertCost(
+      (a, b) => solBetween(a, b, params),
+      sold,
+      sol,
+      sol * windowOf(params).max
+    ),
+};
+
+export default random;
@@ -0,0 +1,118 @@
+// src/lib/curves/shared.ts
+//
+// Window + bounds every curve is normalised against, and the numeric
+// fallbacks for curves that have no closed-form integral.
+
+import type { CurveParamValues } from "./types";
+
+// Defaults for the window every curve is normalised against. Each coin can
+// override these through its `curve_params` (see WINDOW_FIELDS in index.ts).
+
+// We treat the bonding-curve segment as 700M tokens (your migration threshold),
+// even though total supply is 1B. Above this we migrate to Raydium.
+export const CURVE_RANGE_TOKENS = 700_000_000;
+
+// Total minted supply; the migration threshold can never exceed it.
+export const TOTAL_SUPPLY_TOKENS = 1_000_000_000;
+
+// Starting quote: 1 SOL ≈ 1,000,000 tokens at sold = 0 (strength = 1, linear).
+export const BASE_TOKENS_PER_SOL = 1_000_000;
+
+// Don’t let tokens per SOL fall below this (prevents insane prices / div by 0),
+// or above this (prevents super crazy cheap).
+export const MIN_TOKENS_PER_SOL = BASE_TOKENS_PER_SOL * 0.02; // 2% of base
+export const MAX_TOKENS_PER_SOL = BASE_TOKENS_PER_SOL * 3;    // 3x cheaper than base
+
+/** Per-coin price bounds + migration window, in tokens per SOL / UI tokens. */
+export type CurveWindow = {
+  base: number; // tokens per SOL at sold = 0
+  min: number; // most expensive the curve may get (price ceiling)
+  max: number; // cheapest the curve may get (price floor)
+  range: number; // sold tokens at which the curve completes
+};
+
+export function windowOf(params: CurveParamValues): CurveWindow {
+  return {
+    base: params.baseTokensPerSol ?? BASE_TOKENS_PER_SOL,
+    min: params.minTokensPerSol ?? MIN_TOKENS_PER_SOL,
+    max: params.maxTokensPerSol ?? MAX_TOKENS_PER_SOL,
+    range: params.migrationTokens ?? CURVE_RANGE_TOKENS,
+  };
+}
+
+export function clamp(x: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, x));
+}
+
+/** 0 → 1 across the migration window. */
+export function progress(soldTokens: number, range: number): number {
+  if (!Number.isFinite(soldTokens) || soldTokens <= 0) return 0;
+  return clamp(soldTokens / range, 0, 1);
+}
+
+// Simpson panels per integral (must be even). 256 is plenty for the smooth
+// curves; the random curve is stepped and sums its buckets instead.
+const INTEGRAL_STEPS = 256;
+
+// Bisection rounds when inverting cost → tokens (2^-60 of the search range).
+const INVERSE_ITERATIONS = 60;
+
+function simpson(f: (x: number) => number, a: number, b: number): number {
+  if (!(b > a)) return 0;
+  const h = (b - a) / INTEGRAL_STEPS;
+  let sum = f(a) + f(b);
+  for (let i = 1; i < INTEGRAL_STEPS; i++) {
+    sum += f(a + i * h) * (i % 2 === 0 ? 2 : 4);
+  }
+  return (sum * h) / 3;
+}
+
+/**
+ * ∫ dx / tokensPerSol(x) over [a, b], numerically.
+ * Curves are flat past the migration window, so the two pieces are integrated
+ * separately instead of smearing Simpson across the kink.
+ */
+export function integratePrice(
+  tokensPerSol: (sold: number) => number,
+  a: number,
+  b: number,
+  range: number
+): number {
+  if (!Number.isFinite(a) || !Number.isFinite(b) || b <= a) return 0;
+  const pricePerToken = (x: number) => 1 / tokensPerSol(x);
+
+  if (a < range && b > range) {
+    return (
+      simpson(pricePerToken, a, range) +
+      (b - range) * pricePerToken(range)
+    );
+  }
+  if (a >= range) {
+    return (b - a) * pricePerToken(range);
+  }
+  return simpson(pricePerToken, a, b);
+}
+
+/**
+ * Inverts a cost integral by bisection: the largest Δ with
+ * cost(sold, sold + Δ) <= sol, searched in [0, upperBound].
+ */
+export function invertCost(
+  cost: (from: number, to: number) => number,
+  sold: number,
+  sol: number,
+  upperBound: number
+): number {
+  if (!Number.isFinite(sol) || sol <= 0) return 0;
+  let lo = 0;
+  let hi = upperBound;
+  for (let i = 0; i < INVERSE_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (cost(sold, sold + mid) > sol) {
+      hi = mid;
+    } else {
+      lo = mid;
+    }
+  }
+  return lo;
+}
@@ -0,0 +1,119 @@
+// src/lib/curves/sigmoid.ts
+//
+// SIGMOID: slow start, fast middle, flat top. Price per token follows a
+// logistic S-curve between the base price and the ceiling price, rescaled so
+// it hits both ends exactly:
+//
+//   price(p) = P0 + (P1 − P0) · (σ(s(p − m)) − σ₀) / (σ₁ − σ₀)
+//
+// ∫σ = softplus / s, so the integral is closed-form; the inverse uses the
+// shared bisection.
+
+import { z } from "zod";
+import type { CurveModel, CurveParamValues } from "./types";
+import { invertCost, progress, windowOf } from "./shared";
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+// ln(1 + e^z) without overflow
+function softplus(z: number): number {
+  return z > 0 ? z + Math.log1p(Math.exp(-z)) : Math.log1p(Math.exp(z));
+}
+
+function shape(params: CurveParamValues) {
+  const w = windowOf(params);
+  const s = params.steepness ?? 10;
+  const m = params.midpoint ?? 0.5;
+  const s0 = sigmoid(-s * m);
+  const s1 = sigmoid(s * (1 - m));
+  return {
+    s,
+    m,
+    s0,
+    span: s1 - s0,
+    p0: 1 / w.base, // SOL per token at p = 0
+    p1: 1 / w.min, // SOL per token at p = 1
+    range: w.range,
+  };
+}
+
+function pricePerToken(p: number, params: CurveParamValues): number {
+  const { s, m, s0, span, p0, p1 } = shape(params);
+  return p0 + ((p1 - p0) * (sigmoid(s * (p - m)) - s0)) / span;
+}
+
+function tokensPerSol(sold: number, params: CurveParamValues): number {
+  return 1 / pricePerToken(progress(sold, windowOf(params).range), params);
+}
+
+// Antiderivative in p of price(p); multiply by the range for tokens.
+function antiderivative(p: number, params: CurveParamValues): number {
+  const { s, m, s0, span, p0, p1 } = shape(params);
+  const sig = softplus(s * (p - m)) / s;
+  return p0 * p + ((p1 - p0) * (sig - s0 * p)) / span;
+}
+
+function solBetween(from: number, to: number, params: CurveParamValues): number {
+  const a = Math.max(0, from);
+  const b = Math.max(0, to);
+  if (!Number.isFinite(a) || !Number.isFinite(b) || b <= a) return 0;
+
+  const { range, p1 } = shape(params);
+  const pa = progress(a, range);
+  const pb = progress(b, range);
+  const inside =
+    pb > pa
+      ? (antiderivative(pb, params) - antiderivative(pa, params)) * range
+      : 0;
+
+  const flatFrom = Math.max(a, range);
+  const flat = b > flatFrom ? (b - flatFrom) * p1 : 0;
+
+  return inside + flat;
+}
+
+const sigmoidCurve: CurveModel = {
+  id: "sigmoid",
+  label: "Sigmoid curve",
+  badge: "S-shaped",
+  description:
+    "Slow start, fast middle, flat top. Early buyers get time, the middle rips, late price settles.",
+  fields: [
+    {
+      key: "steepness",
+      label: "Steepness",
+      min: 2,
+      max: 30,
+      step: 1,
+      default: 10,
+      help: "How sharp the middle is: low = soft S, high = almost a step.",
+    },
+    {
+      key: "midpoint",
+      label: "Midpoint (0–1)",
+      min: 0.1,
+      max: 0.9,
+      step: 0.05,
+      default: 0.5,
+      help: "Where in the window the price rips, as a share of the migration target.",
+    },
+  ],
+  schema: z.object({
+    steepness: z.number().min(2).max(30).default(10),
+    midpoint: z.number().min(0.1).max(0.9).default(0.5),
+  }),
+  tokensPerSol,
+  solBetween,
+  tokensForSol: (sold, sol, params) =>
+    // price never drops below the base price, so sol · base bounds the answer
+    invertCost(
+      (a, b) => solBetween(a, b, params),
+      sold,
+      sol,
+      sol * windowOf(params).base
+    ),
+};
+
+export default sigmoidCurve;
@@ -0,0 +1,41 @@
+// src/lib/curves/types.ts
+//
+// The contract every launch curve implements. Prices are modelled as
+// "tokens per 1 SOL" against sold supply (UI token units, not raw u64).
+
+import type { z } from "zod";
+
+/** Per-coin knobs for a curve, e.g. `{ strength: 2 }`. */
+export type CurveParamValues = Record<string, number>;
+
+/** UI description of one parameter (drives the create form). */
+export type CurveParamField = {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+  help?: string;
+};
+
+export interface CurveModel {
+  /** Stored in `coins.curve`. Lowercase, stable forever. */
+  id: string;
+  label: string;
+  badge: string;
+  description: string;
+
+  fields: CurveParamField[];
+  /** Validates + fills defaults for the params stored with a coin. */
+  schema: z.ZodType<CurveParamValues>;
+
+  /** Price: tokens per 1 SOL at `sold`. */
+  tokensPerSol(sold: number, params: CurveParamValues): number;
+
+  /** Integral: SOL that moves supply from `from` to `to` (from <= to). */
+  solBetween(from: number, to: number, params: CurveParamValues): number;
+
+  /** Inverse of the integral: tokens bought by spending `sol` starting at `sold`. */
+  tokensForSol(sold: number, sol: number, params: CurveParamValues): number;
+}
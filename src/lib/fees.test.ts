@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import schedule from "@/config/fee-schedule.json";
+import {
+  FEE_SCHEDULE,
+  computeFeeLamports,
+  tierBpsFor,
+  volumeDiscountBpsFor,
+} from "@/lib/fees";
+
+const LAMPORTS = 1_000_000_000;
+
+describe("fee schedule", () => {
+  it("loads src/config/fee-schedule.json as is", () => {
+    expect(FEE_SCHEDULE.buy.tiers).toEqual(schedule.buy.tiers);
+    expect(FEE_SCHEDULE.sell.tiers).toEqual(schedule.sell.tiers);
+    expect(FEE_SCHEDULE.volumeDiscounts).toEqual(schedule.volumeDiscounts);
+  });
+
+  it("picks the last size tier the trade reaches, per side", () => {
+    const [small, mid, large] = schedule.buy.tiers;
+    expect(tierBpsFor(0, "pre")).toEqual(small);
+    expect(tierBpsFor(mid.minSol - 0.001, "pre")).toEqual(small);
+    expect(tierBpsFor(mid.minSol, "pre")).toEqual(mid);
+    expect(tierBpsFor(large.minSol * 10, "pre")).toEqual(large);
+    expect(tierBpsFor(mid.minSol, "post")).toEqual(schedule.sell.tiers[1]);
+    expect(tierBpsFor(Number.NaN, "post")).toEqual(schedule.sell.tiers[0]);
+  });
+
+  it("gives the best discount the wallet's volume reaches", () => {
+    const [d1, d2, d3] = schedule.volumeDiscounts;
+    expect(volumeDiscountBpsFor(null)).toBe(0);
+    expect(volumeDiscountBpsFor(d1.minVolumeSol - 1)).toBe(0);
+    expect(volumeDiscountBpsFor(d1.minVolumeSol)).toBe(d1.discountBps);
+    expect(volumeDiscountBpsFor(d2.minVolumeSol + 1)).toBe(d2.discountBps);
+    expect(volumeDiscountBpsFor(d3.minVolumeSol * 10)).toBe(d3.discountBps);
+  });
+});
+
+describe("computeFeeLamports", () => {
+  const tier = schedule.buy.tiers[0];
+
+  it("discounts only the platform part", () => {
+    const sol = 1;
+    const base = computeFeeLamports(sol * LAMPORTS, sol, "pre");
+    expect(base.totalBps).toBe(tier.protocolBps + tier.creatorBps);
+
+    const { discountBps, minVolumeSol } = schedule.volumeDiscounts[0];
+    const disc = computeFeeLamports(sol * LAMPORTS, sol, "pre", { walletVolumeSol: minVolumeSol });
+    expect(disc.discountBps).toBe(discountBps);
+    expect(disc.creatorBps).toBe(tier.creatorBps);
+    expect(disc.protocolBps).toBe(Math.floor((tier.protocolBps * (10_000 - discountBps)) / 10_000));
+    expect(disc.creator).toBe(base.creator);
+    expect(disc.feeTotal).toBeLessThan(base.feeTotal);
+  });
+
+  it("pays the referral share out of the platform fee, not the creator's", () => {
+    const sol = 2;
+    const plain = computeFeeLamports(sol * LAMPORTS, sol, "pre");
+    const referred = computeFeeLamports(sol * LAMPORTS, sol, "pre", { referrer: "someone" });
+    expect(referred.feeTotal).toBe(plain.feeTotal);
+    expect(referred.creator).toBe(plain.creator);
+    expect(referred.referral).toBe(
+      Math.floor(((plain.feeTotal - plain.creator) * schedule.referralShareBps) / 10_000)
+    );
+    expect(referred.protocol + referred.referral).toBe(plain.protocol);
+  });
+
+  it("caps the coin's creator override at maxCreatorBps", () => {
+    const f = computeFeeLamports(LAMPORTS, 1, "post", { creatorFeeBps: 10_000 });
+    expect(f.creatorBps).toBe(schedule.maxCreatorBps);
+  });
+
+  it("never charges more than the side's cap", () => {
+    const sol = 1_000_000;
+    const f = computeFeeLamports(sol * LAMPORTS, sol, "post");
+    expect(f.feeTotal).toBe(schedule.sell.capLamports);
+  });
+});
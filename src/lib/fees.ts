@@ -3,8 +3,8 @@
 // Centralized fee logic for Winky Launchpad.
 //
 // - All percentages are in basis points (bps), where 1 bp = 0.01%.
-// - We keep the logic simple and explicit so you can tweak
-//   platform/creator splits without touching any other files.
+// - The rates live in src/config/fee-schedule.json; every route and UI
+//   preview prices fees through computeFeeLamports so they always agree.
 
 import {
   PublicKey,
@@ -12,50 +12,131 @@ import {
   TransactionInstruction,
 } from "@solana/web3.js";
 
+import { z } from "zod";
+import scheduleJson from "@/config/fee-schedule.json";
+
 export type Phase = "pre" | "post"; // "pre" = buy, "post" = sell
 
-/** Tiered % by trade size (SOL).
- *  Right now we keep it flat for simplicity:
- *
- *  - BUY  (pre): 0.50% total → 0.50% platform, 0% creator
- *  - SELL (post): 1.00% total → 0.60% platform, 0.40% creator
- *
- *  (You can change these numbers later if you want.)
- */
-function tierBpsFor(tradeSol: number, phase: Phase) {
-  if (phase === "pre") {
-    // BUY side → platform only
-    return { totalBps: 50, creatorBps: 0, protocolBps: 50 }; // 0.50% total
-  } else {
-    // SELL side → split between platform + creator
-    return { totalBps: 100, creatorBps: 40, protocolBps: 60 }; // 1.00% total
+// ---------- schedule (src/config/fee-schedule.json) ----------
+//
+// - Size tiers per side: the last tier whose `minSol` <= trade size applies.
+// - Volume discounts: trailing-window volume of the trader's wallet knocks
+//   `discountBps` (bps *of the platform fee*) off the platform part only.
+// - Creator fee: tier default, or the coin's own override per side
+//   (`creator_buy_fee_bps` / `creator_fee_bps`), capped at `maxCreatorBps`.
+// - Referral: when the trade carries a referrer, `referralShareBps` (bps *of
+//   the platform fee*, after discounts) goes to them instead of the treasury.
+
+const tierSchema = z.object({
+  minSol: z.number().min(0),
+  protocolBps: z.number().int().min(0).max(10_000),
+  creatorBps: z.number().int().min(0).max(10_000),
+});
+
+const sideSchema = z.object({
+  capLamports: z.number().int().positive(),
+  tiers: z
+    .array(tierSchema)
+    .min(1)
+    .refine((t) => t[0].minSol === 0, "first tier must start at minSol 0")
+    .refine(
+      (t) => t.every((x, i) => i === 0 || x.minSol > t[i - 1].minSol),
+      "tiers must be sorted by minSol"
+    ),
+});
+
+const feeScheduleSchema = z.object({
+  buy: sideSchema,
+  sell: sideSchema,
+  volumeDiscounts: z
+    .array(
+      z.object({
+        minVolumeSol: z.number().min(0),
+        discountBps: z.number().int().min(0).max(10_000),
+      })
+    )
+    .default([]),
+  volumeWindowDays: z.number().int().positive().default(30),
+  maxCreatorBps: z.number().int().min(0).max(10_000).default(200),
+  referralShareBps: z.number().int().min(0).max(10_000).default(0),
+});
+
+export type FeeSchedule = z.infer<typeof feeScheduleSchema>;
+export type FeeTier = z.infer<typeof tierSchema>;
+
+// Parsed once at import – a broken schedule should fail the build, not trades.
+export const FEE_SCHEDULE: FeeSchedule = feeScheduleSchema.parse(scheduleJson);
+
+function sideOf(phase: Phase) {
+  return phase === "pre" ? FEE_SCHEDULE.buy : FEE_SCHEDULE.sell;
+}
+
+/** Size tier for a trade of `tradeSol` on this side. */
+export function tierBpsFor(tradeSol: number, phase: Phase): FeeTier {
+  const { tiers } = sideOf(phase);
+  let tier = tiers[0];
+  for (const t of tiers) {
+    if (Number.isFinite(tradeSol) && tradeSol >= t.minSol) tier = t;
+  }
+  return tier;
+}
+
+/** Platform-fee discount (bps of the platform fee) for a wallet's volume. */
+export function volumeDiscountBpsFor(volumeSol: number | null | undefined): number {
+  let discount = 0;
+  for (const d of FEE_SCHEDULE.volumeDiscounts) {
+    if (Number(volumeSol) >= d.minVolumeSol) discount = Math.max(discount, d.discountBps);
   }
+  return discount;
 }
 
-/** Absolute caps (lamports) to protect whales; configurable via env */
+/** Absolute caps (lamports) to protect whales; env still wins over the schedule */
 function lamportsCapFor(phase: Phase) {
-  const defPre = 500_000_000; // 0.5 SOL
-  const defPost = 250_000_000; // 0.25 SOL
-  const pre = Number(process.env.F_CAP_LAMPORTS_PRE ?? defPre);
-  const post = Number(process.env.F_CAP_LAMPORTS_POST ?? defPost);
+  const pre = Number(process.env.F_CAP_LAMPORTS_PRE ?? FEE_SCHEDULE.buy.capLamports);
+  const post = Number(process.env.F_CAP_LAMPORTS_POST ?? FEE_SCHEDULE.sell.capLamports);
   return phase === "pre" ? pre : post;
 }
 
+/** Who is trading what – everything the schedule can price on. */
+export type FeeContext = {
+  /** Trader's volume over the schedule's trailing window (SOL). */
+  walletVolumeSol?: number | null;
+  /** Per-coin creator fee on sells (`coins.creator_fee_bps`). */
+  creatorFeeBps?: number | null;
+  /** Per-coin creator fee on buys (`coins.creator_buy_fee_bps`). */
+  creatorBuyFeeBps?: number | null;
+  /** Referrer wallet attached to the trade (gets a share of the platform fee). */
+  referrer?: string | null;
+  /** Hard overrides (promos / scripts); win over the schedule. */
+  totalBps?: number;
+  creatorBps?: number;
+  protocolBps?: number;
+};
+
 export function computeFeeLamports(
   tradeLamports: number,
   tradeSol: number,
   phase: Phase,
-  overrides?:
-    | { totalBps?: number; creatorBps?: number; protocolBps?: number }
-    | null
+  ctx?: FeeContext | null
 ) {
   const cap = lamportsCapFor(phase);
-
   const tier = tierBpsFor(tradeSol, phase);
-  const totalBps = overrides?.totalBps ?? tier.totalBps;
-  const creatorBps = overrides?.creatorBps ?? tier.creatorBps;
-  const protocolBps =
-    overrides?.protocolBps ?? Math.max(totalBps - creatorBps, 0);
+
+  const coinOverride = phase === "pre" ? ctx?.creatorBuyFeeBps : ctx?.creatorFeeBps;
+  const coinCreatorBps =
+    coinOverride != null && Number.isFinite(coinOverride)
+      ? Math.max(0, Math.min(FEE_SCHEDULE.maxCreatorBps, Math.floor(coinOverride)))
+      : null;
+
+  const discountBps = volumeDiscountBpsFor(ctx?.walletVolumeSol);
+  const scheduledProtocolBps = Math.floor(
+    (tier.protocolBps * (10_000 - discountBps)) / 10_000
+  );
+
+  const creatorBps = ctx?.creatorBps ?? coinCreatorBps ?? tier.creatorBps;
+  const totalBps =
+    ctx?.totalBps ?? (ctx?.protocolBps ?? scheduledProtocolBps) + creatorBps;
+  const protocolBps = ctx?.protocolBps ?? Math.max(totalBps - creatorBps, 0);
 
   const raw = Math.floor((tradeLamports * totalBps) / 10_000);
   const feeTotal = Math.min(raw, cap);
@@ -63,16 +144,21 @@ export function computeFeeLamports(
   const creator = Math.floor(
     (feeTotal * creatorBps) / Math.max(totalBps, 1)
   );
-  const protocol = feeTotal - creator;
+  const referralBps = ctx?.referrer ? FEE_SCHEDULE.referralShareBps : 0;
+  const referral = Math.floor(((feeTotal - creator) * referralBps) / 10_000);
+  const protocol = feeTotal - creator - referral;
 
   return {
     feeTotal,
     protocol,
     creator,
+    referral,
     cap,
     totalBps,
     creatorBps,
     protocolBps,
+    discountBps,
+    referralBps,
   };
 }
 
@@ -82,21 +168,18 @@ export function buildFeeTransfers(opts: {
   phase: Phase;
   protocolTreasury: PublicKey;
   creatorAddress?: PublicKey | null;
-  overrides?:
-    | { totalBps?: number; creatorBps?: number; protocolBps?: number }
-    | null;
+  referrerAddress?: PublicKey | null;
+  overrides?: FeeContext | null;
 }): {
   ixs: TransactionInstruction[];
   detail: ReturnType<typeof computeFeeLamports>;
 } {
   // 1 SOL = 1e9 lamports
   const tradeLamports = Math.floor(opts.tradeSol * 1_000_000_000);
-  const detail = computeFeeLamports(
-    tradeLamports,
-    opts.tradeSol,
-    opts.phase,
-    opts.overrides
-  );
+  const detail = computeFeeLamports(tradeLamports, opts.tradeSol, opts.phase, {
+    ...opts.overrides,
+    referrer: opts.referrerAddress?.toBase58() ?? null,
+  });
 
   const ixs: TransactionInstruction[] = [];
 
@@ -111,7 +194,7 @@ export function buildFeeTransfers(opts: {
     );
   }
 
-  // Creator fee (SELL only, since creatorBps=0 on BUY)
+  // Creator fee (both sides; rates per the schedule / coin override)
   if (detail.creator > 0 && opts.creatorAddress) {
     ixs.push(
       SystemProgram.transfer({
@@ -122,17 +205,26 @@ export function buildFeeTransfers(opts: {
     );
   }
 
+  // Referral fee (share of the platform fee)
+  if (detail.referral > 0 && opts.referrerAddress) {
+    ixs.push(
+      SystemProgram.transfer({
+        fromPubkey: opts.feePayer,
+        toPubkey: opts.referrerAddress,
+        lamports: detail.referral,
+      })
+    );
+  }
+
   return { ixs, detail };
 }
 
-// --- Winky Launchpad fee config (for UI display, etc) ---
-// BUY: 0.5% platform, 0% creator
-export const BUY_PLATFORM_BPS = 50; // 0.50%
-export const BUY_CREATOR_BPS = 0;   // 0%
+// --- Winky Launchpad base rates (smallest tier, no discount; UI display) ---
+export const BUY_PLATFORM_BPS = FEE_SCHEDULE.buy.tiers[0].protocolBps;
+export const BUY_CREATOR_BPS = FEE_SCHEDULE.buy.tiers[0].creatorBps;
 
-// SELL: 1.0% total → 0.6% platform, 0.4% creator
-export const SELL_PLATFORM_BPS = 60; // 0.60%
-export const SELL_CREATOR_BPS = 40;  // 0.40%
+export const SELL_PLATFORM_BPS = FEE_SCHEDULE.sell.tiers[0].protocolBps;
+export const SELL_CREATOR_BPS = FEE_SCHEDULE.sell.tiers[0].creatorBps;
 
 export const TOTAL_BUY_BPS = BUY_PLATFORM_BPS + BUY_CREATOR_BPS;
 export const TOTAL_SELL_BPS = SELL_PLATFORM_BPS + SELL_CREATOR_BPS;
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Keypair, type Connection } from "@solana/web3.js";
+
+vi.mock("@/lib/supabaseAdmin", () => ({ supabaseAdmin: {} }));
+vi.mock("@/lib/store", () => ({
+  getIndexerCursor: vi.fn(async () => "cursor-0"),
+  saveIndexerCursor: vi.fn(async () => {}),
+  upsertIndexedTrades: vi.fn(async () => {}),
+  upsertCurveWithdrawals: vi.fn(async () => {}),
+}));
+
+import { cursorKey, indexCoin } from "@/lib/indexer";
+import { saveIndexerCursor } from "@/lib/store";
+
+const coin = { id: "coin-1", mint: Keypair.generate().publicKey.toBase58(), creator: null };
+
+// A tx with no curve instructions: processed, but not a trade
+const emptyTx = { meta: { err: null }, transaction: { message: { instructions: [] } } };
+
+function connWith(sigs: { signature: string; slot: number; err?: unknown }[], missing: string[]) {
+  return {
+    // newest first, like the RPC
+    getSignaturesForAddress: vi.fn(async () =>
+      [...sigs].reverse().map((s) => ({ err: null, memo: null, blockTime: null, ...s }))
+    ),
+    getParsedTransaction: vi.fn(async (sig: string) => (missing.includes(sig) ? null : emptyTx)),
+  } as unknown as Connection;
+}
+
+describe("indexCoin cursor", () => {
+  beforeEach(() => vi.mocked(saveIndexerCursor).mockClear());
+
+  it("advances to the newest signature when every tx is fetched", async () => {
+    const conn = connWith(
+      [
+        { signature: "a", slot: 1 },
+        { signature: "b", slot: 2 },
+      ],
+      []
+    );
+    const r = await indexCoin(conn, coin);
+    expect(saveIndexerCursor).toHaveBeenCalledWith(cursorKey(coin.mint), "b", 2);
+    expect(r.cursor).toBe("b");
+  });
+
+  it("stops before the first tx the RPC can't return yet", async () => {
+    const conn = connWith(
+      [
+        { signature: "a", slot: 1 },
+        { signature: "b", slot: 2 },
+        { signature: "c", slot: 3 },
+      ],
+      ["b"]
+    );
+    const r = await indexCoin(conn, coin);
+    expect(saveIndexerCursor).toHaveBeenCalledWith(cursorKey(coin.mint), "a", 1);
+    expect(r.cursor).toBe("a");
+    expect(conn.getParsedTransaction).not.toHaveBeenCalledWith("c", expect.anything());
+  });
+
+  it("counts failed txs as processed", async () => {
+    const conn = connWith(
+      [
+        { signature: "a", slot: 1, err: { InstructionError: [0, "Custom"] } },
+        { signature: "b", slot: 2 },
+      ],
+      ["b"]
+    );
+    const r = await indexCoin(conn, coin);
+    expect(saveIndexerCursor).toHaveBeenCalledWith(cursorKey(coin.mint), "a", 1);
+    expect(r.cursor).toBe("a");
+  });
+
+  it("keeps the old cursor when nothing could be fetched", async () => {
+    const conn = connWith([{ signature: "a", slot: 1 }], ["a"]);
+    const r = await indexCoin(conn, coin);
+    expect(saveIndexerCursor).not.toHaveBeenCalled();
+    expect(r.cursor).toBe("cursor-0");
+  });
+});
@@ -0,0 +1,314 @@
+// src/lib/indexer.ts
+//
+// On-chain trade indexer. Walks getSignaturesForAddress on a coin's curve
+// PDA, decodes the trade_buy / trade_sell ixs plus the EventBuy / EventSell
+// Anchor events the program emits, and upserts one `trades` row (and one fee
+// ledger row, see lib/creatorFees.ts) per signature. `withdraw` calls
+// (EventWithdraw) go to `curve_withdrawals` for the rug-risk panel.
+//
+// Modes:
+//   incremental – only signatures newer than the saved cursor
+//   backfill    – the PDA's whole history, ignoring the cursor
+// Both are idempotent (rows are keyed by signature) and both move the
+// cursor to the newest signature seen. Everything goes through the
+// `Connection` you pass in, so pointing RPC at a local validator
+// (solana-test-validator) exercises the exact same path.
+
+import {
+  Connection,
+  PublicKey,
+  type ConfirmedSignatureInfo,
+  type ParsedTransactionWithMeta,
+  type PartiallyDecodedInstruction,
+} from "@solana/web3.js";
+import { BorshCoder, EventParser, type Idl, type IdlEvents } from "@coral-xyz/anchor";
+import bs58 from "bs58";
+import idl from "@/idl/curve_launchpad.json";
+import type { CurveLaunchpad } from "@/types/curve_launchpad";
+import { AMM_PROGRAM_ID, PROGRAM_ID, curvePda } from "@/lib/config";
+import { decodeProgramIx } from "@/lib/programIx";
+import {
+  decodeTradeFees,
+  referrerForTx,
+  tradeReferrers,
+  upsertTradeFees,
+} from "@/lib/creatorFees";
+import {
+  getIndexerCursor,
+  saveIndexerCursor,
+  upsertCurveWithdrawals,
+  upsertIndexedTrades,
+  type CurveWithdrawalRow,
+  type IndexedTradeRow,
+} from "@/lib/store";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+type EventBuy = IdlEvents<CurveLaunchpad>["eventBuy"];
+type EventSell = IdlEvents<CurveLaunchpad>["eventSell"];
+type EventWithdraw = IdlEvents<CurveLaunchpad>["eventWithdraw"];
+
+const coder = new BorshCoder(idl as Idl);
+const eventParser = new EventParser(PROGRAM_ID, coder);
+
+/** getSignaturesForAddress page size. */
+const PAGE = 200;
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+export type IndexMode = "incremental" | "backfill";
+
+export type IndexableCoin = { id: string; mint: string; creator: string };
+
+export type IndexResult = {
+  coinId: string;
+  mint: string;
+  mode: IndexMode;
+  signatures: number;
+  trades: number;
+  withdrawals: number;
+  cursor: string | null;
+};
+
+export function cursorKey(mint: string) {
+  return `curve:${mint}`;
+}
+
+/** Buy/sell events emitted by our program in this tx, in log order. */
+function tradeEvents(tx: ParsedTransactionWithMeta) {
+  const out: { side: "buy" | "sell"; trader: string; lamports: number }[] = [];
+  for (const ev of eventParser.parseLogs(tx.meta?.logMessages ?? [])) {
+    if (ev.name === "EventBuy") {
+      const d = ev.data as unknown as EventBuy;
+      out.push({ side: "buy", trader: d.buyer.toBase58(), lamports: Number(d.lamports) });
+    } else if (ev.name === "EventSell") {
+      const d = ev.data as unknown as EventSell;
+      out.push({ side: "sell", trader: d.seller.toBase58(), lamports: Number(d.lamports) });
+    }
+  }
+  return out;
+}
+
+/** Trader's change in `mint` balance over the tx (UI units), if visible. */
+function tokenDelta(tx: ParsedTransactionWithMeta, mint: string, owner: string) {
+  const sum = (bals: typeof tx.meta.preTokenBalances) =>
+    (bals ?? [])
+      .filter((b) => b.mint === mint && b.owner === owner)
+      .reduce((s, b) => s + (b.uiTokenAmount.uiAmount ?? 0), 0);
+  if (!tx.meta?.postTokenBalances) return null;
+  return Math.abs(sum(tx.meta.postTokenBalances) - sum(tx.meta.preTokenBalances));
+}
+
+/**
+ * Decodes one confirmed tx into a trade row. The emitted event is the
+ * source of truth for trader + lamports; the ix is the fallback for txs
+ * whose logs were truncated.
+ */
+export function decodeTradeTx(
+  tx: ParsedTransactionWithMeta,
+  signature: string,
+  coin: IndexableCoin
+): IndexedTradeRow | null {
+  if (!tx || tx.meta?.err) return null;
+
+  const state = curvePda(new PublicKey(coin.mint)).toBase58();
+  let trade: { side: "buy" | "sell"; trader: string; lamports: number } | null = null;
+
+  for (const ix of tx.transaction.message.instructions) {
+    if (!ix.programId.equals(PROGRAM_ID) || !("data" in ix)) continue;
+    const p = ix as PartiallyDecodedInstruction;
+    if (p.accounts[2]?.toBase58() !== state) continue;
+
+    const decoded = decodeProgramIx(bs58.decode(p.data));
+    if (decoded?.name !== "trade_buy" && decoded?.name !== "trade_sell") continue;
+    trade = {
+      side: decoded.name === "trade_buy" ? "buy" : "sell",
+      trader: p.accounts[0].toBase58(),
+      lamports: Number(decoded.lamports ?? 0n),
+    };
+    break;
+  }
+  if (!trade) return null;
+
+  const ev = tradeEvents(tx).find((e) => e.side === trade.side);
+  if (ev) trade = ev;
+
+  return {
+    coin_id: coin.id,
+    mint: coin.mint,
+    sig: signature,
+    slot: tx.slot,
+    ts: new Date((tx.blockTime ?? Math.floor(Date.now() / 1000)) * 1000).toISOString(),
+    side: trade.side,
+    buyer: trade.trader,
+    amount_sol: trade.lamports / LAMPORTS_PER_SOL,
+    token_amount: tokenDelta(tx, coin.mint, trade.trader),
+  };
+}
+
+/**
+ * Decodes a `withdraw` on this coin's curve PDA. EventWithdraw gives `to` +
+ * lamports; the ix (creator, to, state) is the fallback and gives the signer.
+ */
+export function decodeWithdrawTx(
+  tx: ParsedTransactionWithMeta,
+  signature: string,
+  coin: IndexableCoin
+): CurveWithdrawalRow | null {
+  if (!tx || tx.meta?.err) return null;
+
+  const state = curvePda(new PublicKey(coin.mint)).toBase58();
+  let w: { authority: string; to: string; lamports: number } | null = null;
+
+  for (const ix of tx.transaction.message.instructions) {
+    if (!ix.programId.equals(PROGRAM_ID) || !("data" in ix)) continue;
+    const p = ix as PartiallyDecodedInstruction;
+    if (p.accounts[2]?.toBase58() !== state) continue;
+
+    const decoded = decodeProgramIx(bs58.decode(p.data));
+    if (decoded?.name !== "withdraw") continue;
+    w = {
+      authority: p.accounts[0].toBase58(),
+      to: p.accounts[1].toBase58(),
+      lamports: Number(decoded.lamports ?? 0n),
+    };
+    break;
+  }
+  if (!w) return null;
+
+  for (const ev of eventParser.parseLogs(tx.meta?.logMessages ?? [])) {
+    if (ev.name !== "EventWithdraw") continue;
+    const d = ev.data as unknown as EventWithdraw;
+    w = { ...w, to: d.to.toBase58(), lamports: Number(d.lamports) };
+    break;
+  }
+
+  // A withdraw that seeds the AMM pool in the same tx is the migration
+  const isMigration =
+    AMM_PROGRAM_ID != null &&
+    tx.transaction.message.instructions.some((ix) => ix.programId.equals(AMM_PROGRAM_ID));
+
+  return {
+    sig: signature,
+    coin_id: coin.id,
+    mint: coin.mint,
+    slot: tx.slot,
+    ts: new Date((tx.blockTime ?? Math.floor(Date.now() / 1000)) * 1000).toISOString(),
+    authority: w.authority,
+    to_address: w.to,
+    lamports: w.lamports,
+    is_migration: isMigration,
+  };
+}
+
+/** Signatures on the curve PDA newer than `until` (all, if null), oldest first. */
+async function signaturesSince(
+  conn: Connection,
+  statePk: PublicKey,
+  until: string | null
+): Promise<ConfirmedSignatureInfo[]> {
+  const sigs: ConfirmedSignatureInfo[] = [];
+  let before: string | undefined;
+  for (;;) {
+    const page = await conn.getSignaturesForAddress(
+      statePk,
+      { until: until ?? undefined, before, limit: PAGE },
+      "confirmed"
+    );
+    sigs.push(...page);
+    if (page.length < PAGE) break;
+    before = page[page.length - 1].signature;
+  }
+  return sigs.reverse();
+}
+
+/** Indexes one coin's curve PDA into `trades`, `coin_trade_fees` + `curve_withdrawals`. */
+export async function indexCoin(
+  conn: Connection,
+  coin: IndexableCoin,
+  mode: IndexMode = "incremental"
+): Promise<IndexResult> {
+  const key = cursorKey(coin.mint);
+  const cursor = mode === "incremental" ? await getIndexerCursor(key) : null;
+  const sigs = await signaturesSince(conn, curvePda(new PublicKey(coin.mint)), cursor);
+
+  const trades: IndexedTradeRow[] = [];
+  const tradeTxs: ParsedTransactionWithMeta[] = [];
+  const withdrawals: CurveWithdrawalRow[] = [];
+  // Last signature that is fully processed; the cursor never passes it
+  let last: ConfirmedSignatureInfo | undefined;
+  for (const s of sigs) {
+    if (s.err) {
+      last = s;
+      continue;
+    }
+    const tx = await conn.getParsedTransaction(s.signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    // Not fetchable yet (RPC lag): stop so the next run retries from here
+    if (!tx) {
+      console.warn(`[INDEXER] ${coin.mint}: ${s.signature} not available yet, stopping`);
+      break;
+    }
+    last = s;
+
+    const withdrawal = decodeWithdrawTx(tx, s.signature, coin);
+    if (withdrawal) withdrawals.push(withdrawal);
+
+    const trade = decodeTradeTx(tx, s.signature, coin);
+    if (!trade) continue;
+    trades.push(trade);
+    tradeTxs.push(tx);
+  }
+
+  // Referral legs only count towards the referrer the route recorded
+  const referrers = await tradeReferrers(
+    trades.map((t, i) => ({ trader: t.buyer, blockhash: tradeTxs[i].transaction.message.recentBlockhash }))
+  );
+  const fees = trades.map((t, i) =>
+    decodeTradeFees(tradeTxs[i], t, coin, referrerForTx(referrers, tradeTxs[i], t.buyer))
+  );
+
+  await upsertIndexedTrades(trades);
+  await upsertTradeFees(fees);
+  await upsertCurveWithdrawals(withdrawals);
+
+  // Only advance once everything up to `last` is stored
+  if (last) await saveIndexerCursor(key, last.signature, last.slot);
+
+  console.log(
+    `[INDEXER] ${mode} ${coin.mint}: ${sigs.length} sigs, ${trades.length} trades, ${withdrawals.length} withdrawals`
+  );
+  return {
+    coinId: coin.id,
+    mint: coin.mint,
+    mode,
+    signatures: sigs.length,
+    trades: trades.length,
+    withdrawals: withdrawals.length,
+    cursor: last?.signature ?? cursor,
+  };
+}
+
+/** Every coin with a mint; one failing coin is logged and skipped. */
+export async function indexAllCoins(
+  conn: Connection,
+  mode: IndexMode = "incremental"
+): Promise<{ results: IndexResult[]; errors: { coinId: string; error: string }[] }> {
+  const { data: coins, error } = await supabaseAdmin
+    .from("coins")
+    .select("id, mint, creator")
+    .not("mint", "is", null);
+  if (error) throw new Error(error.message);
+
+  const results: IndexResult[] = [];
+  const errors: { coinId: string; error: string }[] = [];
+  for (const c of coins ?? []) {
+    try {
+      results.push(await indexCoin(conn, c as IndexableCoin, mode));
+    } catch (e) {
+      console.warn("[INDEXER] failed:", c.mint, e);
+      errors.push({ coinId: c.id, error: e instanceof Error ? e.message : "index failed" });
+    }
+  }
+  return { results, errors };
+}
@@ -13,22 +13,10 @@ SYSVAR_RENT_PUBKEY,
   sendAndConfirmTransaction,
 } from "@solana/web3.js";
 import bs58 from "bs58";
-
-const RPC_URL =
-  process.env.RPC ||
-  process.env.RPC_URL ||
-  process.env.NEXT_PUBLIC_RPC ||
-  "https://api.devnet.solana.com";
+import { PROGRAM_ID, RPC_URL, SITE_BASE } from "@/lib/config";
 
 // Same program id you use everywhere
-const PROGRAM_ID_STR =
-  process.env.NEXT_PUBLIC_PROGRAM_ID || process.env.PROGRAM_ID;
-if (!PROGRAM_ID_STR) {
-  throw new Error(
-    "PROGRAM_ID / NEXT_PUBLIC_PROGRAM_ID is missing in env for initMetadataOnChain"
-  );
-}
-const CURVE_PROGRAM_ID = new PublicKey(PROGRAM_ID_STR);
+const CURVE_PROGRAM_ID = PROGRAM_ID;
 
 // Metaplex Token Metadata program id (fixed)
 const TOKEN_METADATA_PROGRAM_ID = new PublicKey(
@@ -62,24 +50,47 @@ function encodeBorshString(str: string): Buffer {
   return Buffer.concat([len, utf8]);
 }
 
+/** Metaplex metadata PDA: ["metadata", tokenMetadataProgram, mint] */
+export function metadataPdaFor(mint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [
+      Buffer.from("metadata"),
+      TOKEN_METADATA_PROGRAM_ID.toBuffer(),
+      mint.toBuffer(),
+    ],
+    TOKEN_METADATA_PROGRAM_ID
+  )[0];
+}
+
 /**
- * Call on-chain `init_metadata` so that:
- * - mint authority PDA (mint_auth) signs inside the program
- * - Metaplex metadata is created for this mint
- * - Phantom can fetch name / symbol / image from /api/metadata/[mint].json
+ * Name / symbol clamped to what Metaplex accepts, and the URI of the JSON
+ * /api/metadata serves for `mint`. Token-2022 coins (lib/tokenProgram.ts)
+ * write the same fields into their mint.
  */
-export async function initMetadataOnChain(
-  mintStr: string,
+export function metadataFields(
+  mint: PublicKey,
   name: string,
   symbol: string
-): Promise<{
-  signature: string;
-  metadataPda: string;
-  uri: string;
-}> {
-  const connection = new Connection(RPC_URL, "confirmed");
-  const payer = loadServerKeypair();
-  const mint = new PublicKey(mintStr);
+): { name: string; symbol: string; uri: string } {
+  const baseTrimmed = SITE_BASE.replace(/\/+$/, "");
+  return {
+    name: name.slice(0, 32),
+    symbol: symbol.toUpperCase().slice(0, 10),
+    uri: `${baseTrimmed}/api/metadata/${mint.toBase58()}.json`,
+  };
+}
+
+/**
+ * Build the `init_metadata(name, symbol, uri)` ix for `mint`. `payer` funds
+ * the metadata account; the program signs for the mint authority PDA.
+ */
+export function buildInitMetadataIx(opts: {
+  payer: PublicKey;
+  mint: PublicKey;
+  name: string;
+  symbol: string;
+}): { ix: TransactionInstruction; metadataPda: PublicKey; uri: string } {
+  const { payer, mint } = opts;
 
   // curve state PDA: ["curve", mint]
   const [statePda] = PublicKey.findProgramAddressSync(
@@ -93,23 +104,13 @@ export async function initMetadataOnChain(
     CURVE_PROGRAM_ID
   );
 
-  // Metaplex metadata PDA: ["metadata", tokenMetadataProgram, mint]
-  const [metadataPda] = PublicKey.findProgramAddressSync(
-    [
-      Buffer.from("metadata"),
-      TOKEN_METADATA_PROGRAM_ID.toBuffer(),
-      mint.toBuffer(),
-    ],
-    TOKEN_METADATA_PROGRAM_ID
-  );
+  const metadataPda = metadataPdaFor(mint);
 
-  const base =
-    process.env.NEXT_PUBLIC_SITE_URL ?? "https://winky-launchpad.vercel.app";
-  const baseTrimmed = base.replace(/\/+$/, "");
-  const uri = `${baseTrimmed}/api/metadata/${mintStr}.json`;
-
-  const nameClamped = name.slice(0, 32);
-  const symbolClamped = symbol.toUpperCase().slice(0, 10);
+  const {
+    name: nameClamped,
+    symbol: symbolClamped,
+    uri,
+  } = metadataFields(mint, opts.name, opts.symbol);
 
   // Anchor-encoded instruction data for `init_metadata(name, symbol, uri)`
   const data = Buffer.concat([
@@ -121,7 +122,7 @@ export async function initMetadataOnChain(
 
   // Accounts layout must match your Rust `InitMetadataAcct` struct
   const keys = [
-    { pubkey: payer.publicKey, isSigner: true, isWritable: true }, // payer
+    { pubkey: payer, isSigner: true, isWritable: true }, // payer
     { pubkey: mint, isSigner: false, isWritable: true }, // mint
     { pubkey: statePda, isSigner: false, isWritable: true }, // state
     { pubkey: mintAuthPda, isSigner: false, isWritable: false }, // mint_auth_pda
@@ -137,6 +138,39 @@ export async function initMetadataOnChain(
     data,
   });
 
+  return { ix, metadataPda, uri };
+}
+
+/**
+ * Call on-chain `init_metadata` with the server KEYPAIR as payer so that:
+ * - mint authority PDA (mint_auth) signs inside the program
+ * - Metaplex metadata is created for this mint
+ * - Phantom can fetch name / symbol / image from /api/metadata/[mint].json
+ *
+ * New coins get this ix inside their creator-signed launch tx
+ * (lib/launch.ts); this repairs coins that never got metadata
+ * (lib/launchStatus.ts).
+ */
+export async function initMetadataOnChain(
+  mintStr: string,
+  name: string,
+  symbol: string
+): Promise<{
+  signature: string;
+  metadataPda: string;
+  uri: string;
+}> {
+  const connection = new Connection(RPC_URL, "confirmed");
+  const payer = loadServerKeypair();
+  const mint = new PublicKey(mintStr);
+
+  const { ix, metadataPda, uri } = buildInitMetadataIx({
+    payer: payer.publicKey,
+    mint,
+    name,
+    symbol,
+  });
+
   const tx = new Transaction().add(ix);
   tx.feePayer = payer.publicKey;
 
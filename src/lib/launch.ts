@@ -0,0 +1,406 @@
+// src/lib/launch.ts
+//
+// Creator-signed coin launches. POST /api/coins builds one v0 tx that
+//
+//   creates the mint (6 decimals, mint authority = the program's PDA)
+//   [reserve]      – mints the supply the curve won't sell to the migration
+//                    authority, which seeds the AMM pool with it later
+//                    (lib/migration.ts); the mint keypair holds mint
+//                    authority until then. Left out when this deployment
+//                    has no AMM or authority to migrate with.
+//   create_curve   – creator's wallet as payer, so CurveState.creator (the
+//                    one key `withdraw` accepts) is the creator, not us
+//   init_metadata  – Metaplex metadata, also paid by the creator
+//   [first buy]    – optional, same ixs /buy builds
+//
+// With LAUNCH_TOKEN_PROGRAM=token-2022 the mint is a Token-2022 mint with
+// its metadata written into it (lib/tokenProgram.ts) and init_metadata is
+// left out.
+//
+// The mint keypair is generated here (or leased from the vanity pool,
+// lib/vanity.ts) and partially signs; it is never stored in the clear.
+// The creator's wallet signs as fee payer and sends it.
+//
+// The first buy is quoted on the empty curve (POST /api/coins/launch-preview
+// shows it, with the same fee math and slippage check as /buy-preview and
+// /buy). It is in the same tx as create_curve, so nobody can buy in between
+// and it can't fail on its own: the coin launches with the dev position or
+// not at all.
+//
+// The coin row is inserted as a `draft` when the tx is built and only
+// becomes public once the chain shows the curve (lib/launchStatus.ts).
+// POST /api/coins/confirm advances it with the launch token returned here.
+// Only the mint keypair's signature over this exact message can create the
+// mint account, so a curve for that mint means our tx landed.
+
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  type AddressLookupTableAccount,
+} from "@solana/web3.js";
+import {
+  AuthorityType,
+  MINT_SIZE,
+  createInitializeMintInstruction,
+  createSetAuthorityInstruction,
+  getMinimumBalanceForRentExemptMint,
+} from "@solana/spl-token";
+import { mintAuthPda } from "@/lib/config";
+import { buildCreateCurveIx } from "@/lib/programIx";
+import { buildInitMetadataIx, metadataFields } from "@/lib/initMetadata";
+import {
+  buildMintReserveIxs,
+  buildToken2022MintIxs,
+  isToken2022,
+  tokenProgramFor,
+} from "@/lib/tokenProgram";
+import {
+  buyInstructions,
+  buyTerms,
+  feeContextFor,
+  tradeCapError,
+  type BuyTerms,
+  type CoinCurveRow,
+} from "@/lib/tradeQuote";
+import { openPayload, signPayload } from "@/lib/quoteLock";
+import { minOutFor, type SlippageRequest } from "@/lib/slippage";
+import {
+  curveIds,
+  getCurve,
+  isCurveId,
+  parseCurveParams,
+} from "@/lib/curves";
+import { FEE_SCHEDULE } from "@/lib/fees";
+import { migrationAmm } from "@/lib/amm";
+import { launchReserveRaw, migrationAuthorityKey } from "@/lib/migration";
+
+/** How long a launch token can be confirmed after it was issued. */
+export const LAUNCH_TTL_MS = 15 * 60_000;
+
+/** The `coins` row POST /api/coins validated, minus the mint. */
+export type PendingCoinRow = {
+  name: string;
+  symbol: string;
+  description: string | null;
+  curve: string;
+  strength: number;
+  curve_params: Record<string, unknown>;
+  creator_fee_bps: number | null;
+  creator_buy_fee_bps: number | null;
+  creator: string;
+  logo_url: string | null;
+  socials: Record<string, unknown> | null;
+  /** Token program the mint is created under (LAUNCH_TOKEN_PROGRAM_ID). */
+  token_program: string;
+};
+
+export type LaunchToken = {
+  v: 1;
+  kind: "launch";
+  mint: string;
+  coinId: string;
+  iat: number;
+  exp: number;
+};
+
+/** The part of a launch request that prices trades: curve + creator fees. */
+export type LaunchPricing = Pick<
+  PendingCoinRow,
+  "curve" | "strength" | "curve_params" | "creator_fee_bps" | "creator_buy_fee_bps"
+>;
+
+/**
+ * Validates curve, strength, curve_params and the creator fee overrides
+ * from a POST /api/coins (or launch-preview) body.
+ */
+export function parseLaunchPricing(
+  body: Record<string, unknown> | null | undefined
+):
+  | { ok: true; pricing: LaunchPricing; error?: undefined; extra?: undefined }
+  | { ok: false; pricing?: undefined; error: string; extra?: Record<string, unknown> } {
+  const curve = String(body?.curve ?? "").trim().toLowerCase();
+  if (!isCurveId(curve)) {
+    return { ok: false, error: `curve must be one of: ${curveIds().join(", ")}` };
+  }
+
+  // `strength` stays as its own column for older readers; new coins keep
+  // the full set (window + curve fields) in `curve_params`.
+  const strength = Math.max(1, Math.min(3, Math.round(Number(body?.strength ?? 0)) || 1));
+
+  const model = getCurve(curve);
+  const parsedParams = parseCurveParams(model, {
+    ...(model.fields.some((f) => f.key === "strength") ? { strength } : {}),
+    ...(body?.curve_params && typeof body.curve_params === "object"
+      ? body.curve_params
+      : {}),
+  });
+  if (!parsedParams.success) {
+    return {
+      ok: false,
+      error: "invalid curve_params",
+      extra: {
+        issues: parsedParams.error.issues.map((i) => ({
+          path: i.path.join("."),
+          message: i.message,
+        })),
+      },
+    };
+  }
+
+  // Optional creator fee overrides (per side), within the schedule's cap
+  const creatorFee: Record<"creator_fee_bps" | "creator_buy_fee_bps", number | null> = {
+    creator_fee_bps: null,
+    creator_buy_fee_bps: null,
+  };
+  for (const key of ["creator_fee_bps", "creator_buy_fee_bps"] as const) {
+    if (body?.[key] == null || body[key] === "") continue;
+    const n = Number(body[key]);
+    if (!Number.isInteger(n) || n < 0 || n > FEE_SCHEDULE.maxCreatorBps) {
+      return {
+        ok: false,
+        error: `${key} must be an integer between 0 and ${FEE_SCHEDULE.maxCreatorBps}`,
+      };
+    }
+    creatorFee[key] = n;
+  }
+
+  return {
+    ok: true,
+    pricing: { curve, strength, curve_params: parsedParams.data, ...creatorFee },
+  };
+}
+
+export type LaunchFirstBuy = {
+  terms: BuyTerms;
+  referrer?: PublicKey | null;
+  /** Floor the quote was checked against; null without a tolerance. */
+  minTokensOut: number | null;
+};
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+/**
+ * Prices the creator's first buy of `amountSol` on the empty curve with
+ * the same fee context /buy would use, and checks it against `slippage`.
+ */
+export async function quoteFirstBuy(
+  row: CoinCurveRow & { creator: string | null },
+  amountSol: number,
+  opts: { referrer?: PublicKey | null; slippage?: SlippageRequest | null } = {}
+): Promise<
+  | { ok: true; firstBuy: LaunchFirstBuy; code?: undefined; error?: undefined; extra?: undefined }
+  | { ok: false; firstBuy?: undefined; code: string; error: string; extra?: Record<string, unknown> }
+> {
+  const lamportsGross = Math.floor(amountSol * LAMPORTS_PER_SOL);
+  if (!Number.isFinite(lamportsGross) || lamportsGross <= 0) {
+    return { ok: false, code: "INVALID_AMOUNT", error: "firstBuySol must be > 0" };
+  }
+
+  const capErr = tradeCapError(lamportsGross);
+  if (capErr) {
+    const { error, code, ...extra } = capErr;
+    return { ok: false, code, error, extra };
+  }
+
+  const feeCtx = await feeContextFor(row, row.creator, opts.referrer);
+  const terms = buyTerms(row, 0, lamportsGross, feeCtx);
+  if (terms.lamportsToCurve <= 0) {
+    return { ok: false, code: "QUOTE_FAILED", error: "Net lamports to curve is <= 0 after fees" };
+  }
+
+  let minTokensOut: number | null = null;
+  if (opts.slippage?.requested) {
+    const { quote } = terms;
+    minTokensOut = minOutFor(opts.slippage, null);
+    if (minTokensOut != null && quote.tokenAmount < minTokensOut) {
+      return {
+        ok: false,
+        code: "SLIPPAGE_EXCEEDED",
+        error: "First buy is beyond your slippage tolerance",
+        extra: {
+          quotedTokensOut: quote.tokenAmount,
+          minTokensOut,
+          slippageBps: opts.slippage.slippageBps,
+          priceImpactPct: quote.priceImpactPct,
+        },
+      };
+    }
+  }
+
+  return { ok: true, firstBuy: { terms, referrer: opts.referrer ?? null, minTokensOut } };
+}
+
+/** What the create page shows for a first buy (preview and POST /api/coins). */
+export function firstBuyJson(fb: LaunchFirstBuy) {
+  const { terms } = fb;
+  return {
+    lamports: terms.lamportsGross,
+    amountSol: terms.lamportsGross / LAMPORTS_PER_SOL,
+    feeLamports: terms.feeLamports,
+    feeBps: terms.fee.totalBps,
+    volumeDiscountBps: terms.fee.discountBps,
+    estTokensHuman: terms.quote.tokenAmount,
+    minTokensOut: fb.minTokensOut,
+    avgPriceSol: terms.quote.avgPriceSol,
+    priceImpactPct: terms.quote.priceImpactPct,
+    referrer: fb.referrer?.toBase58() ?? null,
+  };
+}
+
+/** Where and how much of the unsold supply a launch mints; null if it can't migrate. */
+function launchReserve(
+  row: PendingCoinRow,
+  mint: PublicKey
+): { owner: PublicKey; amountRaw: bigint } | null {
+  const owner = migrationAuthorityKey();
+  if (!owner || !migrationAmm()) return null;
+  return { owner, amountRaw: BigInt(launchReserveRaw({ ...row, mint: mint.toBase58() })) };
+}
+
+export type BuiltLaunch = {
+  mint: string;
+  tx: VersionedTransaction;
+  blockhash: string;
+  lastValidBlockHeight: number;
+};
+
+/**
+ * Builds the launch tx for `row` and signs it with the mint keypair only:
+ * a fresh one, or a leased vanity key (lib/vanity.ts). `firstBuy` terms
+ * must be priced at sold = 0.
+ */
+export async function buildLaunchTx(
+  conn: Connection,
+  row: PendingCoinRow,
+  firstBuy?: LaunchFirstBuy | null,
+  mintKp: Keypair = Keypair.generate()
+): Promise<BuiltLaunch> {
+  const creator = new PublicKey(row.creator);
+  const mint = mintKp.publicKey;
+  const tokenProgram = tokenProgramFor(row);
+  const reserve = launchReserve(row, mint);
+
+  const ixs: TransactionInstruction[] = [];
+  if (isToken2022(tokenProgram)) {
+    // The mint keypair signs anyway, so it holds mint authority while the
+    // metadata is written and the reserve minted, then hands it to
+    // mint_auth_pda
+    ixs.push(
+      ...(await buildToken2022MintIxs(conn, {
+        payer: creator,
+        mint,
+        decimals: 6,
+        mintAuthority: mintAuthPda(mint),
+        setupAuthority: mint,
+        updateAuthority: mintAuthPda(mint),
+        ...metadataFields(mint, row.name, row.symbol),
+        reserve,
+      })),
+      buildCreateCurveIx({ payer: creator, mint })
+    );
+  } else {
+    const rent = await getMinimumBalanceForRentExemptMint(conn);
+    ixs.push(
+      SystemProgram.createAccount({
+        fromPubkey: creator,
+        newAccountPubkey: mint,
+        lamports: rent,
+        space: MINT_SIZE,
+        programId: tokenProgram,
+      }),
+      // 6 decimals, no freeze authority; mint_auth_pda as authority, after
+      // the mint keypair has minted the reserve
+      createInitializeMintInstruction(
+        mint,
+        6,
+        reserve ? mint : mintAuthPda(mint),
+        null,
+        tokenProgram
+      )
+    );
+    if (reserve) {
+      ixs.push(
+        ...buildMintReserveIxs({
+          payer: creator,
+          mint,
+          owner: reserve.owner,
+          mintAuthority: mint,
+          amountRaw: reserve.amountRaw,
+          tokenProgram,
+        }),
+        createSetAuthorityInstruction(
+          mint,
+          mint,
+          AuthorityType.MintTokens,
+          mintAuthPda(mint),
+          [],
+          tokenProgram
+        )
+      );
+    }
+    ixs.push(
+      buildCreateCurveIx({ payer: creator, mint }),
+      buildInitMetadataIx({ payer: creator, mint, name: row.name, symbol: row.symbol }).ix
+    );
+  }
+
+  if (firstBuy) {
+    ixs.push(
+      ...buyInstructions({
+        buyer: creator,
+        mint,
+        creator,
+        terms: firstBuy.terms,
+        referrer: firstBuy.referrer,
+        createAta: true,
+        tokenProgram,
+      })
+    );
+  }
+
+  const { blockhash, lastValidBlockHeight } = await conn.getLatestBlockhash("confirmed");
+  const msg = new TransactionMessage({
+    payerKey: creator,
+    recentBlockhash: blockhash,
+    instructions: ixs,
+  }).compileToV0Message([] as AddressLookupTableAccount[]);
+
+  const tx = new VersionedTransaction(msg);
+  tx.sign([mintKp]);
+
+  return { mint: mint.toBase58(), tx, blockhash, lastValidBlockHeight };
+}
+
+/** The handle the creator's client confirms its launch with. */
+export function signLaunch(mint: string, coinId: string): string {
+  const iat = Date.now();
+  const token: LaunchToken = { v: 1, kind: "launch", mint, coinId, iat, exp: iat + LAUNCH_TTL_MS };
+  return signPayload(token);
+}
+
+export type LaunchTokenErrorCode = "LAUNCH_INVALID" | "LAUNCH_EXPIRED";
+
+/** Checks a launch token's signature and expiry. */
+export function verifyLaunch(
+  launch: string
+):
+  | { ok: true; token: LaunchToken; code?: undefined; error?: undefined }
+  | { ok: false; token?: undefined; code: LaunchTokenErrorCode; error: string } {
+  const opened = openPayload<LaunchToken>(launch);
+  if (!opened.ok) {
+    return { ok: false, code: "LAUNCH_INVALID", error: `Invalid launch token: ${opened.error.toLowerCase()}` };
+  }
+  const token = opened.payload;
+  if (token.v !== 1 || token.kind !== "launch" || !token.mint || !token.coinId) {
+    return { ok: false, code: "LAUNCH_INVALID", error: "Not a launch token" };
+  }
+  if (Date.now() > token.exp) {
+    return { ok: false, code: "LAUNCH_EXPIRED", error: "Launch token expired" };
+  }
+  return { ok: true, token };
+}
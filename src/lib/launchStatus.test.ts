@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Keypair, type Connection } from "@solana/web3.js";
+
+type Row = Record<string, unknown>;
+
+// In-memory `coins`; enough of the builder for advanceLaunch's conditional
+// update and the sweeper's select and delete
+const db = vi.hoisted(() => ({ rows: [] as Row[] }));
+
+vi.mock("@/lib/supabaseAdmin", () => {
+  type Result = { data: Row[]; error: null };
+  function from() {
+    const filters: ((r: Row) => boolean)[] = [];
+    let patch: Row | null = null;
+    let remove = false;
+    const run = (): Result => {
+      const hit = db.rows.filter((r) => filters.every((f) => f(r)));
+      if (patch) hit.forEach((r) => Object.assign(r, patch));
+      if (remove) db.rows = db.rows.filter((r) => !hit.includes(r));
+      return { data: hit, error: null };
+    };
+    const q = {
+      update: (p: Row) => ((patch = p), q),
+      delete: () => ((remove = true), q),
+      select: () => q,
+      eq: (k: string, v: unknown) => (filters.push((r) => r[k] === v), q),
+      is: (k: string, v: unknown) => (filters.push((r) => (r[k] ?? null) === v), q),
+      not: (k: string, op: "is", v: null) => (filters.push((r) => (r[k] ?? null) !== v), q),
+      in: (k: string, vs: unknown[]) => (filters.push((r) => vs.includes(r[k])), q),
+      lt: (k: string, v: string) => (filters.push((r) => String(r[k]) < v), q),
+      order: () => q,
+      limit: () => q,
+      then: (res: (r: Result) => unknown, rej: (e: unknown) => unknown) =>
+        Promise.resolve(run()).then(res, rej),
+    };
+    return q;
+  }
+  return { supabaseAdmin: { from } };
+});
+vi.mock("@/lib/store", () => ({ walletVolumeSol: vi.fn() }));
+vi.mock("@/lib/vanity", () => ({ reclaimVanityLeases: async () => [] }));
+vi.mock("@/lib/initMetadata", () => ({
+  initMetadataOnChain: vi.fn(),
+  metadataPdaFor: vi.fn(),
+}));
+
+import {
+  LAUNCH_GC_AFTER_MS,
+  advanceLaunch,
+  sweepLaunches,
+  type LaunchCoinRow,
+} from "@/lib/launchStatus";
+
+// metadata_set → live needs no chain reads
+const conn = {} as Connection;
+
+function coinAt(status: LaunchCoinRow["launch_status"]): LaunchCoinRow {
+  return {
+    id: "coin-1",
+    mint: Keypair.generate().publicKey.toBase58(),
+    name: "Coin",
+    symbol: "COIN",
+    created_at: new Date().toISOString(),
+    launch_status: status,
+    launch_attempts: 0,
+  };
+}
+
+describe("advanceLaunch", () => {
+  beforeEach(() => {
+    db.rows = [];
+  });
+
+  it("saves the step it took", async () => {
+    const coin = coinAt("metadata_set");
+    db.rows = [{ ...coin }];
+    const r = await advanceLaunch(conn, coin);
+    expect(r).toMatchObject({ ok: true, from: "metadata_set", status: "live" });
+    expect(coin.launch_status).toBe("live");
+    expect(db.rows[0].launch_status).toBe("live");
+  });
+
+  it("reports a lost race without claiming the step or touching the row", async () => {
+    const coin = coinAt("metadata_set");
+    // Someone else already moved it on
+    db.rows = [{ ...coin, launch_status: "live", launch_attempts: 1 }];
+    const r = await advanceLaunch(conn, coin);
+    expect(r).toMatchObject({
+      ok: false,
+      from: "metadata_set",
+      status: "metadata_set",
+      code: "LAUNCH_CONFLICT",
+    });
+    expect(coin.launch_status).toBe("metadata_set");
+    expect(coin.launch_attempts).toBe(0);
+    expect(db.rows[0].launch_attempts).toBe(1);
+  });
+});
+
+describe("sweepLaunches", () => {
+  const old = new Date(Date.now() - LAUNCH_GC_AFTER_MS - 60_000).toISOString();
+
+  it("only deletes failed rows its own launches created", async () => {
+    db.rows = [
+      { id: "draft-failed", launch_status: "failed", launch_updated_at: old, launch_last_valid_height: 123 },
+      // Backfilled from before the state machine (no launch tx)
+      { id: "legacy-failed", launch_status: "failed", launch_updated_at: old, launch_last_valid_height: null },
+      { id: "recent-failed", launch_status: "failed", launch_updated_at: new Date().toISOString(), launch_last_valid_height: 123 },
+    ];
+    const res = await sweepLaunches(conn);
+    expect(res.deleted).toEqual(["draft-failed"]);
+    expect(db.rows.map((r) => r.id)).toEqual(["legacy-failed", "recent-failed"]);
+  });
+});
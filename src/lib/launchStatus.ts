@@ -0,0 +1,343 @@
+// src/lib/launchStatus.ts
+//
+// Launch state machine (`coins.launch_status`):
+//
+//   draft ──▶ mint_created ──▶ curve_created ──▶ metadata_set ──▶ live
+//     │             │
+//     └─────────────┴──────────▶ failed
+//
+// POST /api/coins inserts the row as `draft` with the mint it generated for
+// the launch tx (lib/launch.ts). The tx is all-or-nothing, but the row and
+// the chain can still disagree: the creator never signs, the blockhash
+// expires or confirm never arrives. advanceLaunch walks a row forward by
+// reading the chain, persisting each step:
+//
+//   draft         → mint_created   the mint account exists
+//   mint_created  → curve_created  the curve PDA exists
+//   curve_created → metadata_set   the Metaplex metadata PDA exists; with
+//                                  `repair` the server sends init_metadata
+//                                  (server KEYPAIR pays, lib/initMetadata).
+//                                  Token-2022 coins: the mint carries its
+//                                  metadata, written by the launch tx
+//   metadata_set  → live           seeded curves get their seed pinned
+//
+// A draft whose launch blockhash expired without a mint fails, and so does
+// a mint with no curve: nothing but the launch tx can create that curve
+// without handing `withdraw` to someone other than the creator. Rows from
+// `curve_created` on are tradable and public (PUBLIC_LAUNCH_STATUSES).
+//
+// Runs from POST /api/coins/confirm (right after the tx, no repair), the
+// admin POST /api/coins/[id]/resume and the sweeper (GET/POST
+// /api/launches/sweep), which also deletes failed rows after
+// LAUNCH_GC_AFTER_MS and reclaims the vanity keys of failed launches.
+//
+// Coins from before the state machine (the old server-side init) are
+// backfilled to `live` (with a mint) or `failed` (without). They have no
+// launch_last_valid_height, and the sweeper never deletes those rows.
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import { getTokenMetadata } from "@solana/spl-token";
+import { seedFromMint } from "@/lib/curves";
+import { initMetadataOnChain, metadataPdaFor } from "@/lib/initMetadata";
+import { LAUNCH_TTL_MS, type BuiltLaunch, type PendingCoinRow } from "@/lib/launch";
+import { loadCurveSnapshot } from "@/lib/tradeQuote";
+import { reclaimVanityLeases } from "@/lib/vanity";
+import { isToken2022, tokenProgramFor } from "@/lib/tokenProgram";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+export type LaunchStatus =
+  | "draft"
+  | "mint_created"
+  | "curve_created"
+  | "metadata_set"
+  | "live"
+  | "failed";
+
+/** Statuses the coin list shows: the curve exists, so the coin trades. */
+export const PUBLIC_LAUNCH_STATUSES: LaunchStatus[] = ["curve_created", "metadata_set", "live"];
+
+/** Failed launches are deleted by the sweeper after this long. */
+export const LAUNCH_GC_AFTER_MS = 24 * 60 * 60_000;
+
+/** The sweeper leaves rows alone while a client may still be confirming. */
+const SWEEP_MIN_AGE_MS = 2 * 60_000;
+
+/** The `coins` columns the launch state machine reads. */
+export type LaunchCoinRow = {
+  id: string;
+  mint: string | null;
+  name: string;
+  symbol: string;
+  creator?: string | null;
+  curve_params?: Record<string, unknown> | null;
+  token_program?: string | null;
+  created_at: string;
+  launch_status: LaunchStatus | null;
+  launch_sig?: string | null;
+  launch_error?: string | null;
+  launch_attempts?: number | null;
+  launch_last_valid_height?: number | string | null;
+  launch_updated_at?: string | null;
+};
+
+export const LAUNCH_COIN_COLUMNS =
+  "id, mint, name, symbol, creator, curve_params, token_program, created_at, launch_status, launch_sig, launch_error, launch_attempts, launch_last_valid_height, launch_updated_at";
+
+/** Inserts the `draft` row for a launch tx that was just built. */
+export async function insertLaunchDraft(
+  row: PendingCoinRow,
+  built: BuiltLaunch
+): Promise<LaunchCoinRow> {
+  const { data, error } = await supabaseAdmin
+    .from("coins")
+    .insert([
+      {
+        ...row,
+        mint: built.mint,
+        launch_status: "draft",
+        launch_last_valid_height: built.lastValidBlockHeight,
+        launch_updated_at: new Date().toISOString(),
+        start_price: 0,
+        version: 1,
+        migrated: false,
+      },
+    ])
+    .select(LAUNCH_COIN_COLUMNS)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Insert returned no row");
+  return data as LaunchCoinRow;
+}
+
+export type LaunchErrorCode =
+  | "LAUNCH_NOT_LANDED"
+  | "LAUNCH_FAILED"
+  | "METADATA_MISSING"
+  | "REPAIR_FAILED"
+  | "LAUNCH_CONFLICT";
+
+export type LaunchAdvance = {
+  ok: boolean;
+  from: LaunchStatus;
+  status: LaunchStatus;
+  code?: LaunchErrorCode;
+  error?: string;
+};
+
+/** Whether the launch tx can no longer land. */
+async function launchExpired(conn: Connection, coin: LaunchCoinRow): Promise<boolean> {
+  if (coin.launch_last_valid_height != null) {
+    const height = await conn.getBlockHeight("confirmed");
+    return height > Number(coin.launch_last_valid_height);
+  }
+  // Rows from before launch txs: nothing is coming after the TTL
+  return Date.now() - new Date(coin.created_at).getTime() > LAUNCH_TTL_MS;
+}
+
+/**
+ * Moves `coin` as far along the state machine as the chain allows and
+ * saves the result (conditional on the status it read, so concurrent
+ * callers don't step on each other: the loser gets LAUNCH_CONFLICT and
+ * `coin` is left as it was). `signature` is the launch tx if the
+ * caller has it; `repair` lets the server pay for missing metadata.
+ */
+export async function advanceLaunch(
+  conn: Connection,
+  coin: LaunchCoinRow,
+  opts: { signature?: string | null; repair?: boolean } = {}
+): Promise<LaunchAdvance> {
+  const from: LaunchStatus = coin.launch_status ?? "draft";
+  let status = from;
+  let failure: { code: LaunchErrorCode; error: string } | null = null;
+  const patch: Record<string, unknown> = {};
+
+  const fail = (error: string) => {
+    status = "failed";
+    failure = { code: "LAUNCH_FAILED", error };
+  };
+
+  if (status === "live") return { ok: true, from, status };
+  if (status === "failed") {
+    return { ok: false, from, status, code: "LAUNCH_FAILED", error: coin.launch_error ?? "Launch failed" };
+  }
+
+  const mint = coin.mint ? new PublicKey(coin.mint) : null;
+
+  if (status === "draft") {
+    if (opts.signature) {
+      const st = await conn.getSignatureStatus(opts.signature, {
+        searchTransactionHistory: true,
+      });
+      if (st.value?.err) {
+        fail(`Launch transaction failed: ${JSON.stringify(st.value.err)}`);
+      } else if (!coin.launch_sig) {
+        patch.launch_sig = opts.signature;
+      }
+    }
+    if (status === "draft") {
+      const info = mint ? await conn.getAccountInfo(mint, "confirmed") : null;
+      if (info) {
+        status = "mint_created";
+      } else if (await launchExpired(conn, coin)) {
+        fail(mint ? "Launch transaction expired before it landed" : "No mint was ever created");
+      } else {
+        failure = { code: "LAUNCH_NOT_LANDED", error: "Launch tx has not landed yet" };
+      }
+    }
+  }
+
+  if (status === "mint_created") {
+    if (await loadCurveSnapshot(conn, mint!)) {
+      status = "curve_created";
+    } else {
+      fail("Mint exists but its curve was never created");
+    }
+  }
+
+  if (status === "curve_created" && isToken2022(tokenProgramFor(coin))) {
+    // Only the launch tx could write it: mint authority is the program's
+    // PDA from then on, so there is nothing to repair
+    const metadata = await getTokenMetadata(conn, mint!, "confirmed", tokenProgramFor(coin));
+    if (metadata) {
+      status = "metadata_set";
+    } else {
+      failure = { code: "METADATA_MISSING", error: "Token-2022 mint has no on-mint metadata" };
+    }
+  } else if (status === "curve_created") {
+    const metadata = await conn.getAccountInfo(metadataPdaFor(mint!), "confirmed");
+    if (metadata) {
+      status = "metadata_set";
+    } else if (opts.repair) {
+      try {
+        const res = await initMetadataOnChain(coin.mint!, coin.name, coin.symbol);
+        console.log("[LAUNCH] metadata repaired:", coin.mint, res.signature);
+        status = "metadata_set";
+      } catch (e) {
+        failure = {
+          code: "REPAIR_FAILED",
+          error: `init_metadata failed: ${e instanceof Error ? e.message : e}`,
+        };
+      }
+    } else {
+      failure = { code: "METADATA_MISSING", error: "Coin has no metadata yet" };
+    }
+  }
+
+  if (status === "metadata_set") {
+    // Seeded curves: pin the mint-derived seed so the published schedule
+    // never depends on how the row is read later.
+    const params = coin.curve_params ?? {};
+    if ("seed" in params && !params.seed) {
+      patch.curve_params = { ...params, seed: seedFromMint(coin.mint!) };
+    }
+    status = "live";
+  }
+
+  const f = failure as { code: LaunchErrorCode; error: string } | null;
+  Object.assign(patch, {
+    launch_status: status,
+    launch_error: f?.error ?? null,
+    launch_attempts: (coin.launch_attempts ?? 0) + 1,
+    launch_updated_at: new Date().toISOString(),
+  });
+
+  let q = supabaseAdmin.from("coins").update(patch).eq("id", coin.id);
+  q = coin.launch_status ? q.eq("launch_status", coin.launch_status) : q.is("launch_status", null);
+  const { data: saved, error } = await q.select("id");
+  if (error) throw new Error(error.message);
+  if (!saved?.length) {
+    // Another caller moved it first; what we saw may already be stale
+    return {
+      ok: false,
+      from,
+      status: from,
+      code: "LAUNCH_CONFLICT",
+      error: "Launch was updated concurrently; read it again",
+    };
+  }
+
+  Object.assign(coin, patch);
+  if (status !== from) console.log("[LAUNCH]", coin.mint ?? coin.id, from, "→", status);
+
+  return f
+    ? { ok: false, from, status, code: f.code, error: f.error }
+    : { ok: true, from, status };
+}
+
+export type SweepResult = {
+  checked: number;
+  advanced: { id: string; mint: string | null; from: LaunchStatus; to: LaunchStatus; error?: string }[];
+  deleted: string[];
+  reclaimed: string[];
+  errors: { id: string; error: string }[];
+};
+
+/**
+ * Background repair: advances (with repair) every launch that's not live
+ * or failed and hasn't been touched for a couple of minutes, deletes
+ * failed rows older than LAUNCH_GC_AFTER_MS and returns vanity keys those
+ * launches abandoned to the pool (lib/vanity.ts).
+ */
+export async function sweepLaunches(conn: Connection, limit = 50): Promise<SweepResult> {
+  const out: SweepResult = { checked: 0, advanced: [], deleted: [], reclaimed: [], errors: [] };
+  const idleSince = new Date(Date.now() - SWEEP_MIN_AGE_MS).toISOString();
+
+  const { data: stuck, error } = await supabaseAdmin
+    .from("coins")
+    .select(LAUNCH_COIN_COLUMNS)
+    .in("launch_status", ["draft", "mint_created", "curve_created", "metadata_set"])
+    .lt("launch_updated_at", idleSince)
+    .order("launch_updated_at", { ascending: true })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+
+  for (const coin of (stuck ?? []) as LaunchCoinRow[]) {
+    out.checked++;
+    try {
+      const res = await advanceLaunch(conn, coin, { repair: true });
+      // A confirm got there first; nothing for the sweep to report
+      if (res.code === "LAUNCH_CONFLICT") continue;
+      if (res.status !== res.from || !res.ok) {
+        out.advanced.push({ id: coin.id, mint: coin.mint, from: res.from, to: res.status, error: res.error });
+      }
+    } catch (e) {
+      console.warn("[LAUNCH] sweep failed:", coin.mint ?? coin.id, e);
+      out.errors.push({ id: coin.id, error: e instanceof Error ? e.message : "advance failed" });
+    }
+  }
+
+  const gcBefore = new Date(Date.now() - LAUNCH_GC_AFTER_MS).toISOString();
+  const { data: gone, error: gcErr } = await supabaseAdmin
+    .from("coins")
+    .delete()
+    .eq("launch_status", "failed")
+    .lt("launch_updated_at", gcBefore)
+    // Only drafts POST /api/coins inserted; legacy rows are never deleted
+    .not("launch_last_valid_height", "is", null)
+    .select("id");
+  if (gcErr) {
+    out.errors.push({ id: "*", error: `gc: ${gcErr.message}` });
+  } else {
+    out.deleted = (gone ?? []).map((r: { id: string }) => r.id);
+  }
+
+  try {
+    out.reclaimed = await reclaimVanityLeases(conn);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "reclaim failed";
+    out.errors.push({ id: "*", error: `vanity: ${msg}` });
+  }
+
+  if (out.advanced.length || out.deleted.length || out.reclaimed.length) {
+    console.log(
+      "[LAUNCH] sweep:",
+      out.advanced.length,
+      "advanced,",
+      out.deleted.length,
+      "deleted,",
+      out.reclaimed.length,
+      "vanity keys reclaimed"
+    );
+  }
+  return out;
+}
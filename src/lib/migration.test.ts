@@ -0,0 +1,386 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Keypair, PublicKey, Transaction, type Connection } from "@solana/web3.js";
+
+type Row = Record<string, unknown>;
+
+// In-memory stand-in for the two tables migration touches; enough of the
+// query builder for update/upsert/select with eq/is filters.
+const db = vi.hoisted(() => ({
+  coins: new Map<string, Row>(),
+  coin_migrations: new Map<string, Row>(),
+}));
+
+vi.mock("@/lib/supabaseAdmin", () => {
+  function from(table: "coins" | "coin_migrations") {
+    const rows = db[table];
+    const keyOf = (r: Row) => String(table === "coins" ? r.id : r.coin_id);
+    const filters: ((r: Row) => boolean)[] = [];
+    let op: "select" | "update" | "upsert" = "select";
+    let patch: Row = {};
+
+    const run = (single: boolean): Result => {
+      let hit: Row[];
+      if (op === "upsert") {
+        const key = keyOf(patch);
+        rows.set(key, { ...rows.get(key), ...patch });
+        hit = [rows.get(key)!];
+      } else {
+        hit = [...rows.values()].filter((r) => filters.every((f) => f(r)));
+        if (op === "update") hit.forEach((r) => Object.assign(r, patch));
+      }
+      return { data: single ? hit[0] ?? null : hit, error: null };
+    };
+
+    type Result = { data: Row | Row[] | null; error: null };
+    const q = {
+      update: (p: Row) => ((op = "update"), (patch = p), q),
+      upsert: (p: Row) => ((op = "upsert"), (patch = p), q),
+      select: () => q,
+      eq: (k: string, v: unknown) => (filters.push((r) => r[k] === v), q),
+      is: (k: string, v: unknown) => (filters.push((r) => (r[k] ?? null) === v), q),
+      maybeSingle: async (): Promise<Result> => run(true),
+      then: (res: (r: Result) => unknown, rej: (e: unknown) => unknown) =>
+        Promise.resolve(run(false)).then(res, rej),
+    };
+    return q;
+  }
+  return { supabaseAdmin: { from } };
+});
+
+const AMM_ID = new PublicKey("CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C");
+vi.mock("@/lib/amm", async () => {
+  const { localCpmm } = await import("@/lib/amm/localCpmm");
+  return { migrationAmm: () => localCpmm(AMM_ID) };
+});
+
+const snapshot = vi.hoisted(() => ({ current: null as Row | null }));
+vi.mock("@/lib/tradeQuote", () => ({
+  loadCurveSnapshot: vi.fn(async () => snapshot.current && { ...snapshot.current }),
+}));
+
+import { TOKEN_PROGRAM_ID, curvePda } from "@/lib/config";
+import { ataFor } from "@/lib/tokenProgram";
+import {
+  launchReserveRaw,
+  markCurveComplete,
+  planMigration,
+  prepareCreatorMigration,
+  runMigration,
+  submitCreatorMigration,
+  tradingFrozenError,
+  verifyMigrationToken,
+  type MigrationCoinRow,
+} from "@/lib/migration";
+
+const authority = Keypair.generate();
+const creator = Keypair.generate();
+const mint = Keypair.generate().publicKey;
+const lpMint = PublicKey.findProgramAddressSync(
+  [
+    Buffer.from("lp_mint"),
+    PublicKey.findProgramAddressSync([Buffer.from("pool"), mint.toBuffer()], AMM_ID)[0].toBuffer(),
+  ],
+  AMM_ID
+)[0];
+
+const RENT = 1_000_000;
+const TOTAL = 1_000_000_000_000_000; // 1B tokens, 6 decimals
+const THRESHOLD = 700_000_000_000_000; // default migrationTokens
+
+// Token balances by account; sent txs in order (authority-signed and raw)
+let balances: Map<string, string>;
+let sent: Transaction[];
+let sentRaw: Transaction[];
+let failSend: boolean;
+
+function fakeConn(): Connection {
+  return {
+    getAccountInfo: vi.fn(async (pk: PublicKey) => {
+      if (pk.equals(curvePda(mint))) return { data: Buffer.alloc(90), lamports: 0 };
+      if (pk.equals(lpMint)) return { data: Buffer.alloc(82), owner: TOKEN_PROGRAM_ID };
+      return null;
+    }),
+    getMinimumBalanceForRentExemption: vi.fn(async () => RENT),
+    getTokenAccountBalance: vi.fn(async (pk: PublicKey) => {
+      const amount = balances.get(pk.toBase58());
+      if (amount == null) throw new Error("could not find account");
+      return { value: { amount } };
+    }),
+    getLatestBlockhash: vi.fn(async () => ({
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight: 100,
+    })),
+    sendTransaction: vi.fn(async (tx: Transaction) => {
+      if (failSend) throw new Error("custom program error: 0x1");
+      sent.push(tx);
+      return `sig-${sent.length}`;
+    }),
+    sendRawTransaction: vi.fn(async (raw: Buffer) => {
+      if (failSend) throw new Error("custom program error: 0x1");
+      sentRaw.push(Transaction.from(raw));
+      return `raw-${sentRaw.length}`;
+    }),
+    confirmTransaction: vi.fn(async () => ({ value: { err: null } })),
+  } as unknown as Connection;
+}
+
+function coinRow(patch: Partial<MigrationCoinRow> = {}): MigrationCoinRow {
+  const row = { id: "coin-1", mint: mint.toBase58(), curve: "linear", migration_status: null, ...patch };
+  db.coins.set(row.id, { ...row });
+  return row;
+}
+
+const reserveAta = () => ataFor(mint, authority.publicKey, TOKEN_PROGRAM_ID).toBase58();
+const lpAta = () => ataFor(lpMint, authority.publicKey, TOKEN_PROGRAM_ID).toBase58();
+
+beforeEach(() => {
+  vi.stubEnv("MIGRATION_AUTHORITY_KEYPAIR", JSON.stringify(Array.from(authority.secretKey)));
+  db.coins.clear();
+  db.coin_migrations.clear();
+  sent = [];
+  sentRaw = [];
+  failSend = false;
+  balances = new Map([[reserveAta(), String(TOTAL - THRESHOLD)]]);
+  snapshot.current = {
+    statePk: curvePda(mint),
+    soldRaw: THRESHOLD,
+    totalSupplyRaw: TOTAL,
+    lamports: RENT + 85_000_000_000,
+    creator: authority.publicKey.toBase58(),
+  };
+});
+
+describe("trading freeze", () => {
+  it("keeps a completed curve trading until a migration runs", async () => {
+    const coin = coinRow();
+    await markCurveComplete(coin, THRESHOLD);
+    expect(coin.migration_status).toBe("pending");
+    expect(db.coins.get("coin-1")!.migration_status).toBe("pending");
+    expect(tradingFrozenError(coin)).toBeNull();
+  });
+
+  it("freezes from seeding on", () => {
+    for (const status of ["seeding", "seeded", "graduated"] as const) {
+      expect(tradingFrozenError(coinRow({ migration_status: status }))?.code).toBe("CURVE_MIGRATED");
+    }
+  });
+});
+
+describe("planMigration", () => {
+  it("sizes the pool from the curve PDA minus rent and the unsold supply", async () => {
+    const r = await planMigration(fakeConn(), coinRow(), authority.publicKey);
+    if (!r.ok) throw new Error(r.error);
+    expect(r.plan).toMatchObject({
+      mint: mint.toBase58(),
+      authority: authority.publicKey.toBase58(),
+      lpMint: lpMint.toBase58(),
+      tokenProgram: TOKEN_PROGRAM_ID.toBase58(),
+      creator: authority.publicKey.toBase58(),
+      solLamports: 85_000_000_000,
+      tokenAmountRaw: TOTAL - THRESHOLD,
+      reserveRaw: TOTAL - THRESHOLD,
+    });
+  });
+
+  it("matches the reserve a launch mints to the most a pool can need", () => {
+    expect(launchReserveRaw({ curve: "linear" })).toBe(TOTAL - THRESHOLD);
+  });
+
+  it("refuses a curve below its threshold", async () => {
+    snapshot.current!.soldRaw = THRESHOLD - 1;
+    const r = await planMigration(fakeConn(), coinRow(), authority.publicKey);
+    expect(r.code).toBe("CURVE_NOT_COMPLETE");
+  });
+
+  it("plans a curve another key created, for that key to sign", async () => {
+    snapshot.current!.creator = creator.publicKey.toBase58();
+    const r = await planMigration(fakeConn(), coinRow(), authority.publicKey);
+    if (!r.ok) throw new Error(r.error);
+    expect(r.plan.creator).toBe(creator.publicKey.toBase58());
+  });
+
+  it("refuses when the authority doesn't hold the unsold supply", async () => {
+    balances.set(reserveAta(), String(TOTAL - THRESHOLD - 1));
+    const r = await planMigration(fakeConn(), coinRow(), authority.publicKey);
+    expect(r.code).toBe("TOKEN_RESERVE_SHORT");
+    expect(r.extra).toMatchObject({ needRaw: TOTAL - THRESHOLD });
+  });
+});
+
+describe("buildMigrationTx", () => {
+  it("burns the reserve a curve that overshot its threshold leaves", async () => {
+    snapshot.current!.soldRaw = THRESHOLD + 5;
+    balances.set(lpAta(), "5000");
+    await runMigration(fakeConn(), coinRow({ migration_status: "pending" }));
+    const [, seed, burn] = sent[0].instructions;
+    expect(seed.data.readBigUInt64LE(16)).toBe(BigInt(TOTAL - THRESHOLD - 5));
+    expect(burn.programId.equals(TOKEN_PROGRAM_ID)).toBe(true);
+    expect(burn.data.readBigUInt64LE(1)).toBe(5n);
+  });
+});
+
+describe("runMigration", () => {
+  it("seeds the pool, burns the LP and graduates the coin", async () => {
+    balances.set(lpAta(), "5000");
+    const coin = coinRow({ migration_status: "pending" });
+    const r = await runMigration(fakeConn(), coin);
+
+    expect(r.ok).toBe(true);
+    expect(sent).toHaveLength(2);
+    // seed: withdraw from the curve, then initialize_pool
+    const [withdraw, seed] = sent[0].instructions;
+    expect(withdraw.keys[2].pubkey.equals(curvePda(mint))).toBe(true);
+    expect(seed.programId.equals(AMM_ID)).toBe(true);
+    expect(seed.data.readBigUInt64LE(8)).toBe(85_000_000_000n);
+    expect(seed.data.readBigUInt64LE(16)).toBe(BigInt(TOTAL - THRESHOLD));
+    // LP: burn everything the authority got
+    expect(sent[1].instructions[0].programId.equals(TOKEN_PROGRAM_ID)).toBe(true);
+
+    expect(db.coins.get("coin-1")).toMatchObject({
+      migration_status: "graduated",
+      migrated: true,
+      migration_sig: "sig-1",
+    });
+    expect(db.coin_migrations.get("coin-1")).toMatchObject({
+      seed_sig: "sig-1",
+      sol_seeded_lamports: 85_000_000_000,
+      lp_policy: "burn",
+      lp_amount_raw: "5000",
+      lp_sig: "sig-2",
+    });
+  });
+
+  it("leaves creator-signed curves to their creator, unfrozen", async () => {
+    snapshot.current!.creator = creator.publicKey.toBase58();
+    const coin = coinRow({ migration_status: "pending" });
+    const r = await runMigration(fakeConn(), coin);
+    expect(r.code).toBe("CREATOR_MISMATCH");
+    expect(db.coins.get("coin-1")!.migration_status).toBe("pending");
+    expect(sent).toHaveLength(0);
+  });
+
+  it("unfreezes the curve when the seed tx fails", async () => {
+    failSend = true;
+    const coin = coinRow({ migration_status: "pending" });
+    await expect(runMigration(fakeConn(), coin)).rejects.toThrow(/0x1/);
+    expect(db.coins.get("coin-1")).toMatchObject({
+      migration_status: "pending",
+      migration_error: expect.stringContaining("0x1"),
+    });
+    expect(tradingFrozenError(coin)).toBeNull();
+  });
+
+  it("resumes a seeded coin at the LP step", async () => {
+    balances.set(lpAta(), "5000");
+    db.coin_migrations.set("coin-1", {
+      coin_id: "coin-1",
+      mint: mint.toBase58(),
+      pool_address: "pool",
+      lp_mint: lpMint.toBase58(),
+      authority: authority.publicKey.toBase58(),
+      seed_sig: "sig-0",
+      lp_sig: null,
+      migrated_at: null,
+    });
+    const coin = coinRow({ migration_status: "seeded" });
+    const r = await runMigration(fakeConn(), coin);
+    expect(r.ok).toBe(true);
+    expect(sent).toHaveLength(1);
+    expect(db.coins.get("coin-1")!.migration_status).toBe("graduated");
+  });
+
+  it("stays seeded when there's no LP to secure", async () => {
+    db.coin_migrations.set("coin-1", {
+      coin_id: "coin-1",
+      mint: mint.toBase58(),
+      lp_mint: lpMint.toBase58(),
+      authority: authority.publicKey.toBase58(),
+      lp_sig: null,
+    });
+    const coin = coinRow({ migration_status: "seeded" });
+    await expect(runMigration(fakeConn(), coin)).rejects.toThrow(/No LP tokens/);
+    expect(db.coins.get("coin-1")!.migration_status).toBe("seeded");
+  });
+});
+
+describe("creator-signed migration", () => {
+  beforeEach(() => {
+    snapshot.current!.creator = creator.publicKey.toBase58();
+  });
+
+  // What the coin page does with /prepare's txB64
+  async function prepareAndSign(coin: MigrationCoinRow, conn: Connection) {
+    const prepared = await prepareCreatorMigration(conn, coin, creator.publicKey);
+    if (!prepared.ok) throw new Error(prepared.error);
+    const tx = Transaction.from(
+      prepared.tx.serialize({ requireAllSignatures: false, verifySignatures: false })
+    );
+    tx.partialSign(creator);
+    const v = verifyMigrationToken(prepared.migration);
+    if (!v.ok) throw new Error(v.error);
+    return { token: v.token, tx: Transaction.from(tx.serialize({ requireAllSignatures: false })) };
+  }
+
+  it("has the creator pay and withdraw, and the authority co-sign", async () => {
+    balances.set(lpAta(), "5000");
+    const conn = fakeConn();
+    const coin = coinRow({ migration_status: "pending" });
+    const { token, tx } = await prepareAndSign(coin, conn);
+    expect(tradingFrozenError(coin)).toBeNull();
+
+    const r = await submitCreatorMigration(conn, coin, token, tx);
+    expect(r.ok).toBe(true);
+
+    const landed = sentRaw[0];
+    expect(landed.feePayer?.equals(creator.publicKey)).toBe(true);
+    expect(landed.instructions[0].keys[0].pubkey.equals(creator.publicKey)).toBe(true);
+    expect(landed.verifySignatures(true)).toBe(true);
+    // LP still goes to (and is burned by) the authority
+    expect(sent).toHaveLength(1);
+    expect(db.coins.get("coin-1")).toMatchObject({
+      migration_status: "graduated",
+      migration_sig: "raw-1",
+    });
+  });
+
+  it("refuses a wallet that didn't create the curve", async () => {
+    const r = await prepareCreatorMigration(fakeConn(), coinRow(), authority.publicKey);
+    expect(r.code).toBe("CREATOR_MISMATCH");
+  });
+
+  it("refuses a tx that isn't the prepared one", async () => {
+    const conn = fakeConn();
+    const coin = coinRow({ migration_status: "pending" });
+    const { token, tx } = await prepareAndSign(coin, conn);
+    tx.instructions[0].data.writeBigUInt64LE(1n, 8);
+    tx.signatures.forEach((s) => (s.signature = null));
+    tx.partialSign(creator);
+
+    const r = await submitCreatorMigration(conn, coin, token, tx);
+    expect(r.code).toBe("TX_MISMATCH");
+    expect(sentRaw).toHaveLength(0);
+    expect(db.coins.get("coin-1")!.migration_status).toBe("pending");
+  });
+
+  it("refuses the prepared tx without the creator's signature", async () => {
+    const conn = fakeConn();
+    const coin = coinRow({ migration_status: "pending" });
+    const { token, tx } = await prepareAndSign(coin, conn);
+    tx.signatures.forEach((s) => (s.signature = null));
+
+    const r = await submitCreatorMigration(conn, coin, token, tx);
+    expect(r.code).toBe("TX_MISMATCH");
+  });
+
+  it("asks for a new tx, without freezing, when the curve traded since prepare", async () => {
+    const conn = fakeConn();
+    const coin = coinRow({ migration_status: "pending" });
+    const { token, tx } = await prepareAndSign(coin, conn);
+    snapshot.current!.soldRaw = THRESHOLD + 1_000;
+
+    const r = await submitCreatorMigration(conn, coin, token, tx);
+    expect(r.code).toBe("CURVE_MOVED");
+    expect(sentRaw).toHaveLength(0);
+    expect(db.coins.get("coin-1")!.migration_status).toBe("pending");
+  });
+});
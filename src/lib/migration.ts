@@ -0,0 +1,839 @@
+// src/lib/migration.ts
+//
+// Curve → AMM migration. When a coin's sold supply reaches its migration
+// threshold the curve is complete:
+//
+//   null ──(threshold hit)──▶ pending ──(POST /migrate or /migrate/submit)──▶ seeding ──▶ seeded ──▶ graduated
+//                                ▲                                                 │
+//                                └────────────────────(tx failed)──────────────────┘
+//
+// - Detection: the stream, the stats route and every trade route check the
+//   decoded CurveState and mark the coin `pending` (markCurveComplete).
+//   A pending curve keeps trading: hitting the threshold doesn't mean a
+//   migration can run (planMigration below), and freezing a curve nobody
+//   can migrate would strand its holders.
+// - Freeze: only once a migration is actually running, i.e. from `seeding`
+//   on, do the trade routes refuse to build curve txs (tradingFrozenError).
+//   curve_launchpad has no pause instruction, so this only covers trades
+//   built by this app – a hand-built trade_buy still lands, which is why the
+//   pool is sized from the curve re-read after the freeze.
+// - Seeding: one tx withdraws the pool SOL from the curve PDA to the
+//   migration authority, seeds the AMM (lib/amm) with it and the remaining
+//   supply (total − sold), and burns whatever reserve the pool didn't take;
+//   the pool opens at pool SOL / remaining supply. `withdraw` only accepts
+//   CurveState.creator, so who signs depends on who created the curve:
+//     server-created (creator = authority): POST /migrate runs it end to end
+//     creator-signed launches (lib/launch.ts): the creator co-signs it from
+//       the coin page via POST /migrate/prepare + /migrate/submit, and
+//       POST /migrate answers CREATOR_MISMATCH
+// - Reserve: the curve mints on buys and has no migrate ix, so launches
+//   mint the supply it won't sell (launchReserveRaw) to the authority while
+//   the mint keypair still holds mint authority. Coins launched without one
+//   get TOKEN_RESERVE_SHORT from planMigration and are never frozen.
+// - Seeded → graduated: the authority's LP tokens are burned (or time-locked
+//   in the AMM, LP_POLICY) in a second tx, so nobody – including us – can
+//   pull the liquidity. Each step is written to `coin_migrations`, the audit
+//   record GET /api/coins/[id]/migration serves. Only then is the coin
+//   graduated and the coin page switches to pool mode.
+
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  sendAndConfirmTransaction,
+} from "@solana/web3.js";
+import { createHash } from "crypto";
+import { createBurnInstruction } from "@solana/spl-token";
+import { LP_LOCK_DAYS, LP_POLICY, TOKEN_PROGRAM_ID, curvePda } from "@/lib/config";
+import { ataFor, mintTokenProgram, tokenProgramFor } from "@/lib/tokenProgram";
+import { curveParamsFromRow, migrationTokensFor, type CurveName } from "@/lib/curve";
+import { TOTAL_SUPPLY_TOKENS } from "@/lib/curves";
+import { TOKEN_DECIMALS } from "@/lib/curveState";
+import { loadCurveSnapshot, type CurveSnapshot } from "@/lib/tradeQuote";
+import { buildWithdrawIx } from "@/lib/programIx";
+import { migrationAmm } from "@/lib/amm";
+import { openPayload, signPayload } from "@/lib/quoteLock";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+export type MigrationStatus = "pending" | "seeding" | "seeded" | "graduated";
+
+// Statuses in which the curve no longer trades through this app
+const FROZEN_STATUSES: readonly MigrationStatus[] = ["seeding", "seeded", "graduated"];
+
+export function isTradingFrozen(status: MigrationStatus | null | undefined): boolean {
+  return status != null && FROZEN_STATUSES.includes(status);
+}
+
+/** The `coins` columns migration reads. */
+export type MigrationCoinRow = {
+  id: string;
+  mint: string;
+  curve?: string | null;
+  strength?: number | string | null;
+  curve_params?: unknown;
+  migration_status?: MigrationStatus | null;
+  pool_address?: string | null;
+  token_program?: string | null;
+};
+
+export const MIGRATION_COIN_COLUMNS =
+  "id, mint, curve, strength, curve_params, migration_status, pool_address, token_program";
+
+type CurveColumns = Pick<MigrationCoinRow, "curve" | "strength" | "curve_params"> & {
+  mint?: string | null;
+};
+
+/** Raw sold supply at which `coin`'s curve completes. */
+export function migrationThresholdRaw(coin: CurveColumns): number {
+  const tokens = migrationTokensFor(
+    (coin.curve as CurveName) || "linear",
+    curveParamsFromRow(coin)
+  );
+  return Math.floor(tokens * Math.pow(10, TOKEN_DECIMALS));
+}
+
+export function isCurveComplete(coin: MigrationCoinRow, soldRaw: number): boolean {
+  return soldRaw >= migrationThresholdRaw(coin);
+}
+
+/**
+ * Raw supply a launch mints to the migration authority: everything the
+ * curve won't sell, i.e. the most a pool can need (total − threshold).
+ */
+export function launchReserveRaw(coin: CurveColumns): number {
+  return TOTAL_SUPPLY_TOKENS * Math.pow(10, TOKEN_DECIMALS) - migrationThresholdRaw(coin);
+}
+
+/**
+ * Null while the curve still trades (including `pending`), otherwise the
+ * error payload the trade routes return (409).
+ */
+export function tradingFrozenError(coin: MigrationCoinRow) {
+  const status = coin.migration_status ?? null;
+  if (!isTradingFrozen(status)) return null;
+  return {
+    error:
+      status === "graduated"
+        ? "This coin has graduated; trade it on its pool"
+        : "Curve is complete and migrating to a pool; trading is paused",
+    code: "CURVE_MIGRATED" as const,
+    migrationStatus: status,
+    poolAddress: coin.pool_address ?? null,
+  };
+}
+
+/**
+ * Moves a coin that just hit its threshold to `pending`. Idempotent and
+ * cheap to call on every observation; never throws. Doesn't freeze it.
+ */
+export async function markCurveComplete(coin: MigrationCoinRow, soldRaw: number) {
+  if (coin.migration_status || !isCurveComplete(coin, soldRaw)) return;
+  const { error } = await supabaseAdmin
+    .from("coins")
+    .update({ migration_status: "pending" })
+    .eq("id", coin.id)
+    .is("migration_status", null);
+  if (error) {
+    console.warn("[MIGRATION] markCurveComplete failed:", coin.mint, error.message);
+    return;
+  }
+  coin.migration_status = "pending";
+  console.log("[MIGRATION] curve complete, awaiting migration:", coin.mint, "sold", soldRaw);
+}
+
+/** Server key that seeds pools and holds the launch reserve and the LP. */
+export function loadMigrationAuthority(): Keypair {
+  const raw = (
+    process.env.MIGRATION_AUTHORITY_KEYPAIR ||
+    process.env.MINT_AUTHORITY_KEYPAIR ||
+    ""
+  ).trim();
+  if (!raw) throw new Error("MIGRATION_AUTHORITY_KEYPAIR / MINT_AUTHORITY_KEYPAIR missing");
+
+  let arr: number[];
+  try {
+    arr = JSON.parse(raw);
+  } catch {
+    throw new Error("Failed to parse migration authority keypair JSON");
+  }
+  return Keypair.fromSecretKey(Uint8Array.from(arr));
+}
+
+/** The migration authority's pubkey, or null when none is configured. */
+export function migrationAuthorityKey(): PublicKey | null {
+  try {
+    return loadMigrationAuthority().publicKey;
+  } catch {
+    return null;
+  }
+}
+
+export type MigrationPlan = {
+  mint: string;
+  amm: string;
+  poolAddress: string;
+  lpMint: string;
+  authority: string;
+  /** CurveState.creator: signs the withdraw and pays the tx fee. */
+  creator: string;
+  /** The coin mint's token program (lib/tokenProgram.ts). */
+  tokenProgram: string;
+  solLamports: number;
+  tokenAmountRaw: number;
+  /** Authority's balance of the coin; what the pool doesn't take is burned. */
+  reserveRaw: number;
+};
+
+export type MigrationErrorCode =
+  | "AMM_NOT_CONFIGURED"
+  | "CURVE_MISSING"
+  | "CURVE_NOT_COMPLETE"
+  | "CREATOR_MISMATCH"
+  | "NOTHING_TO_SEED"
+  | "TOKEN_RESERVE_SHORT"
+  | "ALREADY_GRADUATED"
+  | "IN_PROGRESS"
+  | "CURVE_MOVED"
+  | "TX_MISMATCH";
+
+export type MigrationFailure = {
+  ok: false;
+  code: MigrationErrorCode;
+  error: string;
+  extra?: Record<string, unknown>;
+};
+
+function fail(
+  code: MigrationErrorCode,
+  error: string,
+  extra?: Record<string, unknown>
+): MigrationFailure {
+  return { ok: false, code, error, extra };
+}
+
+type NoFailure = { code?: undefined; error?: undefined; extra?: undefined };
+
+/** `plan` is safe to hand back to callers; `snapshot` is the curve read it was sized from. */
+export type MigrationPlanned = {
+  ok: true;
+  plan: MigrationPlan;
+  snapshot: CurveSnapshot;
+} & NoFailure;
+
+/** Reads the curve and sizes both legs of the pool. */
+export async function planMigration(
+  conn: Connection,
+  coin: MigrationCoinRow,
+  authority: PublicKey
+): Promise<MigrationPlanned | MigrationFailure> {
+  const amm = migrationAmm();
+  if (!amm) return fail("AMM_NOT_CONFIGURED", "AMM_PROGRAM_ID is not configured");
+
+  const mintPk = new PublicKey(coin.mint);
+  const snapshot = await loadCurveSnapshot(conn, mintPk);
+  if (!snapshot) return fail("CURVE_MISSING", "Curve state not found");
+
+  if (!isCurveComplete(coin, snapshot.soldRaw)) {
+    return fail("CURVE_NOT_COMPLETE", "Curve has not reached its migration threshold", {
+      soldRaw: snapshot.soldRaw,
+      thresholdRaw: migrationThresholdRaw(coin),
+    });
+  }
+
+  // Leave the PDA rent-exempt; everything above that is pool SOL
+  const info = await conn.getAccountInfo(snapshot.statePk, "confirmed");
+  const rent = await conn.getMinimumBalanceForRentExemption(info?.data.length ?? 0);
+  const solLamports = snapshot.lamports - rent;
+  const tokenAmountRaw = snapshot.totalSupplyRaw - snapshot.soldRaw;
+  if (solLamports <= 0 || tokenAmountRaw <= 0) {
+    return fail("NOTHING_TO_SEED", "Nothing to seed the pool with", { solLamports, tokenAmountRaw });
+  }
+
+  const tokenProgram = tokenProgramFor(coin);
+  const source = ataFor(mintPk, authority, tokenProgram);
+  const reserve = await conn
+    .getTokenAccountBalance(source, "confirmed")
+    .then((b) => Number(b.value.amount))
+    .catch(() => 0);
+  if (reserve < tokenAmountRaw) {
+    return fail("TOKEN_RESERVE_SHORT", "Migration authority doesn't hold the unsold supply", {
+      tokenAccount: source.toBase58(),
+      haveRaw: reserve,
+      needRaw: tokenAmountRaw,
+    });
+  }
+
+  const plan: MigrationPlan = {
+    mint: coin.mint,
+    amm: amm.id,
+    poolAddress: amm.poolAddress(mintPk).toBase58(),
+    lpMint: amm.lpMint(mintPk).toBase58(),
+    authority: authority.toBase58(),
+    creator: snapshot.creator,
+    tokenProgram: tokenProgram.toBase58(),
+    solLamports,
+    tokenAmountRaw,
+    reserveRaw: reserve,
+  };
+  return { ok: true, plan, snapshot };
+}
+
+/**
+ * withdraw(pool SOL → authority) + seed pool + burn the leftover reserve,
+ * in one tx. The creator pays the fee; for server-created curves it is
+ * the authority, so one signature covers it.
+ */
+export function buildMigrationTx(plan: MigrationPlan): Transaction {
+  const amm = migrationAmm();
+  if (!amm) throw new Error("AMM_PROGRAM_ID is not configured");
+
+  const mint = new PublicKey(plan.mint);
+  const authority = new PublicKey(plan.authority);
+  const creator = new PublicKey(plan.creator);
+  const tokenProgram = new PublicKey(plan.tokenProgram);
+  const reserveAta = ataFor(mint, authority, tokenProgram);
+
+  const tx = new Transaction();
+  tx.add(
+    buildWithdrawIx({
+      creator,
+      to: authority,
+      mint,
+      lamports: BigInt(plan.solLamports),
+    })
+  );
+  tx.add(
+    ...amm.seedPoolIxs({
+      payer: authority,
+      mint,
+      tokenSource: reserveAta,
+      tokenProgram,
+      solLamports: BigInt(plan.solLamports),
+      tokenAmountRaw: BigInt(plan.tokenAmountRaw),
+    })
+  );
+  const leftover = BigInt(plan.reserveRaw) - BigInt(plan.tokenAmountRaw);
+  if (leftover > 0n) {
+    tx.add(createBurnInstruction(reserveAta, mint, authority, leftover, [], tokenProgram));
+  }
+  tx.feePayer = creator;
+  return tx;
+}
+
+export type MigrationRecord = {
+  coin_id: string;
+  mint: string;
+  amm: string;
+  pool_address: string;
+  lp_mint: string;
+  authority: string;
+  sol_seeded_lamports: number;
+  tokens_seeded_raw: number | string;
+  seed_sig: string;
+  seeded_at: string;
+  lp_policy: "burn" | "lock" | null;
+  lp_amount_raw: number | string | null;
+  lp_sig: string | null;
+  lp_unlock_at: string | null;
+  migrated_at: string | null;
+};
+
+export async function migrationRecordFor(coinId: string): Promise<MigrationRecord | null> {
+  const { data, error } = await supabaseAdmin
+    .from("coin_migrations")
+    .select("*")
+    .eq("coin_id", coinId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as MigrationRecord) ?? null;
+}
+
+/**
+ * Burns the authority's LP, or time-locks it in the AMM (LP_POLICY).
+ * `lpTokenProgram` is the LP mint's owner.
+ */
+export function buildLpTx(
+  record: Pick<MigrationRecord, "mint" | "lp_mint" | "authority">,
+  lpAmountRaw: bigint,
+  unlockAt: number | null,
+  lpTokenProgram: PublicKey
+): Transaction {
+  const authority = new PublicKey(record.authority);
+  const lpMint = new PublicKey(record.lp_mint);
+
+  const tx = new Transaction();
+  if (LP_POLICY === "burn") {
+    tx.add(
+      createBurnInstruction(
+        ataFor(lpMint, authority, lpTokenProgram),
+        lpMint,
+        authority,
+        lpAmountRaw,
+        [],
+        lpTokenProgram
+      )
+    );
+  } else {
+    const amm = migrationAmm();
+    if (!amm) throw new Error("AMM_PROGRAM_ID is not configured");
+    tx.add(
+      ...amm.lockLpIxs({
+        owner: authority,
+        mint: new PublicKey(record.mint),
+        amountRaw: lpAmountRaw,
+        unlockAt: unlockAt ?? 0,
+        tokenProgram: lpTokenProgram,
+      })
+    );
+  }
+  tx.feePayer = authority;
+  return tx;
+}
+
+export type MigrationResult = {
+  ok: true;
+  status: MigrationStatus;
+  poolAddress: string;
+  record: MigrationRecord;
+} & NoFailure;
+
+async function send(conn: Connection, tx: Transaction, signer: Keypair): Promise<string> {
+  const { blockhash } = await conn.getLatestBlockhash("confirmed");
+  tx.recentBlockhash = blockhash;
+  return sendAndConfirmTransaction(conn, tx, [signer], {
+    commitment: "confirmed",
+    maxRetries: 3,
+  });
+}
+
+/**
+ * pending → seeding → seeded → graduated, signed by the authority alone.
+ * The `seeding` claim is a conditional update, so two callers can't both
+ * send the seed tx. Trading is only frozen by that claim, which is made
+ * once planMigration passes. A failed seed puts the coin back to `pending`
+ * (trading again); a failed LP step leaves it `seeded` and calling this
+ * again picks up from there, whoever seeded it. Errors are recorded on the
+ * coin and rethrown.
+ */
+export async function runMigration(
+  conn: Connection,
+  coin: MigrationCoinRow
+): Promise<MigrationResult | MigrationFailure> {
+  const busy = migrationBusy(coin);
+  if (busy) return busy;
+
+  const authority = loadMigrationAuthority();
+  let record: MigrationRecord | null = null;
+
+  if (coin.migration_status === "seeded") {
+    record = await migrationRecordFor(coin.id);
+    if (!record) throw new Error(`Coin ${coin.mint} is seeded but has no migration record`);
+  } else {
+    const seeded = await seedPool(conn, coin, authority.publicKey, {
+      check: ({ plan }) =>
+        plan.creator === plan.authority
+          ? null
+          : fail(
+              "CREATOR_MISMATCH",
+              "Only the curve creator can withdraw the pool SOL; they migrate it from the coin page",
+              { curveCreator: plan.creator, authority: plan.authority }
+            ),
+      send: (plan) => send(conn, buildMigrationTx(plan), authority),
+    });
+    if (!seeded.ok) return fail(seeded.code, seeded.error, seeded.extra);
+    record = seeded.record;
+  }
+
+  record = await secureLp(conn, coin, authority, record);
+  return { ok: true, status: "graduated", poolAddress: record.pool_address, record };
+}
+
+function migrationBusy(coin: MigrationCoinRow): MigrationFailure | null {
+  if (coin.migration_status === "graduated") {
+    return fail("ALREADY_GRADUATED", "Coin already graduated", {
+      poolAddress: coin.pool_address ?? null,
+    });
+  }
+  if (coin.migration_status === "seeding") {
+    return fail("IN_PROGRESS", "Migration already in progress");
+  }
+  return null;
+}
+
+/**
+ * Plans, claims `seeding` (the freeze) and sends the seed tx through
+ * `opts.send`. `opts.check` vets each plan: the preflight before the
+ * freeze and the re-plan after it.
+ */
+async function seedPool(
+  conn: Connection,
+  coin: MigrationCoinRow,
+  authority: PublicKey,
+  opts: {
+    check: (planned: MigrationPlanned) => MigrationFailure | null;
+    send: (plan: MigrationPlan) => Promise<string>;
+  }
+): Promise<({ ok: true; record: MigrationRecord } & NoFailure) | MigrationFailure> {
+  // Only freeze a curve this migration can actually move
+  const preflight = await planMigration(conn, coin, authority);
+  if (!preflight.ok) return fail(preflight.code, preflight.error, preflight.extra);
+  const refused = opts.check(preflight);
+  if (refused) return refused;
+  await markCurveComplete(coin, preflight.snapshot.soldRaw);
+
+  const { data: claimed, error: claimErr } = await supabaseAdmin
+    .from("coins")
+    .update({ migration_status: "seeding", pool_amm: preflight.plan.amm, migration_error: null })
+    .eq("id", coin.id)
+    .eq("migration_status", "pending")
+    .select("id")
+    .maybeSingle();
+  if (claimErr) throw new Error(claimErr.message);
+  if (!claimed) return fail("IN_PROGRESS", "Migration already in progress");
+  coin.migration_status = "seeding";
+
+  // Trades that landed before the freeze moved the curve; size from now
+  const planned = await planMigration(conn, coin, authority);
+  if (!planned.ok) {
+    await unfreeze(coin, planned.error);
+    return fail(planned.code, planned.error, planned.extra);
+  }
+  const changed = opts.check(planned);
+  if (changed) {
+    await unfreeze(coin, changed.error);
+    return changed;
+  }
+  const { plan } = planned;
+
+  console.log("[MIGRATION] seeding", plan.mint, {
+    pool: plan.poolAddress,
+    solLamports: plan.solLamports,
+    tokenAmountRaw: plan.tokenAmountRaw,
+    creator: plan.creator,
+  });
+
+  let signature: string;
+  try {
+    signature = await opts.send(plan);
+  } catch (e) {
+    console.error("[MIGRATION] seed tx failed:", plan.mint, e);
+    await unfreeze(coin, String(e instanceof Error ? e.message : e));
+    throw e;
+  }
+  console.log("[MIGRATION] pool seeded", plan.mint, "pool", plan.poolAddress, "sig", signature);
+
+  const record: MigrationRecord = {
+    coin_id: coin.id,
+    mint: plan.mint,
+    amm: plan.amm,
+    pool_address: plan.poolAddress,
+    lp_mint: plan.lpMint,
+    authority: plan.authority,
+    sol_seeded_lamports: plan.solLamports,
+    tokens_seeded_raw: plan.tokenAmountRaw,
+    seed_sig: signature,
+    seeded_at: new Date().toISOString(),
+    lp_policy: null,
+    lp_amount_raw: null,
+    lp_sig: null,
+    lp_unlock_at: null,
+    migrated_at: null,
+  };
+
+  // The pool exists on-chain whatever happens next; log loudly if the rows
+  // can't say so, since the seed sig is all that's needed to rebuild them.
+  const { error: recErr } = await supabaseAdmin
+    .from("coin_migrations")
+    .upsert(record, { onConflict: "coin_id" });
+  if (recErr) {
+    console.error("[MIGRATION] audit record insert failed:", plan.mint, signature, recErr.message);
+  }
+  const { error } = await supabaseAdmin
+    .from("coins")
+    .update({
+      migration_status: "seeded",
+      pool_address: plan.poolAddress,
+      migration_sig: signature,
+    })
+    .eq("id", coin.id);
+  if (error) {
+    console.error("[MIGRATION] seeded but row update failed:", plan.mint, signature, error.message);
+  }
+  coin.migration_status = "seeded";
+  coin.pool_address = plan.poolAddress;
+
+  return { ok: true, record };
+}
+
+/** seeding → pending: the seed didn't happen, so the curve trades again. */
+async function unfreeze(coin: MigrationCoinRow, reason: string) {
+  const { error } = await supabaseAdmin
+    .from("coins")
+    .update({ migration_status: "pending", migration_error: reason })
+    .eq("id", coin.id)
+    .eq("migration_status", "seeding");
+  if (error) console.error("[MIGRATION] unfreeze failed:", coin.mint, error.message);
+  coin.migration_status = "pending";
+}
+
+/** seeded → graduated: burns or locks all of the authority's LP. */
+async function secureLp(
+  conn: Connection,
+  coin: MigrationCoinRow,
+  authority: Keypair,
+  record: MigrationRecord
+): Promise<MigrationRecord> {
+  const lpMint = new PublicKey(record.lp_mint);
+  const lpProgram = (await mintTokenProgram(conn, lpMint)) ?? TOKEN_PROGRAM_ID;
+  const lpAta = ataFor(lpMint, authority.publicKey, lpProgram);
+  const lpRaw = await conn
+    .getTokenAccountBalance(lpAta, "confirmed")
+    .then((b) => BigInt(b.value.amount))
+    .catch(() => 0n);
+
+  let lpSig = record.lp_sig;
+  let unlockAt: number | null = null;
+  if (lpRaw > 0n) {
+    unlockAt =
+      LP_POLICY === "lock" ? Math.floor(Date.now() / 1000) + (LP_LOCK_DAYS ?? 0) * 86_400 : null;
+    try {
+      lpSig = await send(conn, buildLpTx(record, lpRaw, unlockAt, lpProgram), authority);
+    } catch (e) {
+      console.error("[MIGRATION] LP tx failed:", record.mint, e);
+      await supabaseAdmin
+        .from("coins")
+        .update({ migration_error: String(e instanceof Error ? e.message : e) })
+        .eq("id", coin.id);
+      throw e;
+    }
+    console.log("[MIGRATION] LP", LP_POLICY, record.mint, lpRaw.toString(), "sig", lpSig);
+  } else if (!lpSig) {
+    throw new Error(`No LP tokens in ${lpAta.toBase58()} to ${LP_POLICY} for ${record.mint}`);
+  }
+
+  const now = new Date().toISOString();
+  const patch: Partial<MigrationRecord> =
+    lpRaw > 0n
+      ? {
+          lp_policy: LP_POLICY,
+          lp_amount_raw: lpRaw.toString(),
+          lp_sig: lpSig,
+          lp_unlock_at: unlockAt ? new Date(unlockAt * 1000).toISOString() : null,
+          migrated_at: now,
+        }
+      : { migrated_at: record.migrated_at ?? now };
+  const updated = { ...record, ...patch };
+
+  const { error: recErr } = await supabaseAdmin
+    .from("coin_migrations")
+    .update(patch)
+    .eq("coin_id", coin.id);
+  if (recErr) {
+    console.error("[MIGRATION] audit record update failed:", record.mint, lpSig, recErr.message);
+  }
+  const { error } = await supabaseAdmin
+    .from("coins")
+    .update({
+      migration_status: "graduated",
+      migrated: true,
+      migration_error: null,
+      migrated_at: updated.migrated_at,
+    })
+    .eq("id", coin.id);
+  if (error) {
+    console.error("[MIGRATION] graduated but row update failed:", record.mint, error.message);
+  }
+  coin.migration_status = "graduated";
+  console.log("[MIGRATION] graduated", record.mint, "pool", record.pool_address);
+
+  return updated;
+}
+
+// ---------- Creator-signed migration ----------
+
+/** How long a prepared migration can be submitted (its blockhash may die sooner). */
+export const MIGRATION_TOKEN_TTL_MS = 2 * 60_000;
+
+/** Pins the tx POST /migrate/prepare handed the creator to sign. */
+export type MigrationToken = {
+  v: 1;
+  kind: "migration";
+  coinId: string;
+  plan: MigrationPlan;
+  /** sha256 of the tx message, base64url. */
+  messageHash: string;
+  lastValidBlockHeight: number;
+  iat: number;
+  exp: number;
+};
+
+export type MigrationTokenErrorCode = "MIGRATION_INVALID" | "MIGRATION_EXPIRED";
+
+function messageHash(tx: Transaction): string {
+  return createHash("sha256").update(tx.serializeMessage()).digest("base64url");
+}
+
+function samePlan(a: MigrationPlan, b: MigrationPlan): boolean {
+  return (Object.keys(a) as (keyof MigrationPlan)[]).every((k) => a[k] === b[k]);
+}
+
+export type PreparedMigration = {
+  ok: true;
+  tx: Transaction;
+  migration: string;
+  plan: MigrationPlan;
+} & NoFailure;
+
+/**
+ * Builds the migration tx of a curve `creator` created, for them to sign
+ * (fee payer + withdraw); the authority co-signs at submit. Freezes
+ * nothing: the curve trades until submitCreatorMigration claims it.
+ */
+export async function prepareCreatorMigration(
+  conn: Connection,
+  coin: MigrationCoinRow,
+  creator: PublicKey
+): Promise<PreparedMigration | MigrationFailure> {
+  const busy = migrationBusy(coin);
+  if (busy) return busy;
+  if (coin.migration_status === "seeded") {
+    return fail("IN_PROGRESS", "Pool already seeded; the LP step finishes server-side");
+  }
+
+  const planned = await planMigration(conn, coin, loadMigrationAuthority().publicKey);
+  if (!planned.ok) return fail(planned.code, planned.error, planned.extra);
+  const { plan } = planned;
+  if (plan.creator !== creator.toBase58()) {
+    return fail("CREATOR_MISMATCH", "Only the curve creator can sign its migration", {
+      curveCreator: plan.creator,
+    });
+  }
+
+  const tx = buildMigrationTx(plan);
+  const { blockhash, lastValidBlockHeight } = await conn.getLatestBlockhash("confirmed");
+  tx.recentBlockhash = blockhash;
+
+  const iat = Date.now();
+  const token: MigrationToken = {
+    v: 1,
+    kind: "migration",
+    coinId: coin.id,
+    plan,
+    messageHash: messageHash(tx),
+    lastValidBlockHeight,
+    iat,
+    exp: iat + MIGRATION_TOKEN_TTL_MS,
+  };
+  return { ok: true, tx, migration: signPayload(token), plan };
+}
+
+/** Checks a migration token's signature and expiry. */
+export function verifyMigrationToken(
+  migration: string
+):
+  | { ok: true; token: MigrationToken; code?: undefined; error?: undefined }
+  | { ok: false; token?: undefined; code: MigrationTokenErrorCode; error: string } {
+  const opened = openPayload<MigrationToken>(migration);
+  if (!opened.ok) {
+    return {
+      ok: false,
+      code: "MIGRATION_INVALID",
+      error: `Invalid migration token: ${opened.error.toLowerCase()}`,
+    };
+  }
+  const token = opened.payload;
+  if (token.v !== 1 || token.kind !== "migration" || !token.coinId || !token.plan) {
+    return { ok: false, code: "MIGRATION_INVALID", error: "Not a migration token" };
+  }
+  if (Date.now() > token.exp) {
+    return { ok: false, code: "MIGRATION_EXPIRED", error: "Migration expired, prepare it again" };
+  }
+  return { ok: true, token };
+}
+
+/**
+ * Freezes the curve, co-signs the creator-signed tx from
+ * prepareCreatorMigration and sends it, then secures the LP as runMigration
+ * does. `signed` must be exactly the prepared message with a valid creator
+ * signature, and the curve must not have moved since (CURVE_MOVED: prepare
+ * again).
+ */
+export async function submitCreatorMigration(
+  conn: Connection,
+  coin: MigrationCoinRow,
+  token: MigrationToken,
+  signed: Transaction
+): Promise<MigrationResult | MigrationFailure> {
+  const busy = migrationBusy(coin);
+  if (busy) return busy;
+
+  const authority = loadMigrationAuthority();
+  if (token.coinId !== coin.id || token.plan.authority !== authority.publicKey.toBase58()) {
+    return fail("TX_MISMATCH", "Migration was prepared for another coin or authority");
+  }
+  if (messageHash(signed) !== token.messageHash) {
+    return fail("TX_MISMATCH", "Signed tx doesn't match the prepared migration");
+  }
+  const creatorSig = signed.signatures.find((s) => s.publicKey.toBase58() === token.plan.creator);
+  if (!creatorSig?.signature || !signed.verifySignatures(false)) {
+    return fail("TX_MISMATCH", "Migration tx is missing a valid creator signature");
+  }
+
+  const seeded = await seedPool(conn, coin, authority.publicKey, {
+    check: ({ plan }) =>
+      samePlan(plan, token.plan)
+        ? null
+        : fail(
+            "CURVE_MOVED",
+            "The curve traded since the migration was prepared; prepare it again",
+            { solLamports: plan.solLamports, tokenAmountRaw: plan.tokenAmountRaw }
+          ),
+    send: async () => {
+      signed.partialSign(authority);
+      const signature = await conn.sendRawTransaction(signed.serialize(), { maxRetries: 3 });
+      const { value } = await conn.confirmTransaction(
+        {
+          signature,
+          blockhash: signed.recentBlockhash!,
+          lastValidBlockHeight: token.lastValidBlockHeight,
+        },
+        "confirmed"
+      );
+      if (value.err) throw new Error(`Migration tx ${signature} failed: ${JSON.stringify(value.err)}`);
+      return signature;
+    },
+  });
+  if (!seeded.ok) return fail(seeded.code, seeded.error, seeded.extra);
+
+  const record = await secureLp(conn, coin, authority, seeded.record);
+  return { ok: true, status: "graduated", poolAddress: record.pool_address, record };
+}
+
+export type LpProof = {
+  /** LP still sitting with the migration authority (0 once burned/locked). */
+  authorityLpRaw: string;
+  /** Total LP supply – burned LP is gone from here too. */
+  lpSupplyRaw: string;
+  /** SOL left in the curve PDA, i.e. what `withdraw` could still take. */
+  curveLamports: number;
+};
+
+/** Live on-chain check of a migration record's claims. */
+export async function lpProof(conn: Connection, record: MigrationRecord): Promise<LpProof> {
+  const lpMint = new PublicKey(record.lp_mint);
+  const lpProgram = (await mintTokenProgram(conn, lpMint)) ?? TOKEN_PROGRAM_ID;
+  const lpAta = ataFor(lpMint, new PublicKey(record.authority), lpProgram);
+  const [held, supply, curveLamports] = await Promise.all([
+    conn
+      .getTokenAccountBalance(lpAta, "confirmed")
+      .then((b) => b.value.amount)
+      .catch(() => "0"),
+    conn
+      .getTokenSupply(lpMint, "confirmed")
+      .then((s) => s.value.amount)
+      .catch(() => "0"),
+    conn.getBalance(curvePda(new PublicKey(record.mint)), "confirmed"),
+  ]);
+  return { authorityLpRaw: held, lpSupplyRaw: supply, curveLamports };
+}
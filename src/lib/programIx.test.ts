@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { Keypair, SystemProgram, type TransactionInstruction } from "@solana/web3.js";
+import {
+  PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  curvePda,
+  mintAuthPda,
+} from "@/lib/config";
+import { ataFor } from "@/lib/tokenProgram";
+import { buildTradeBuyIx, buildTradeSellIx, decodeProgramIx } from "@/lib/programIx";
+
+const trader = Keypair.generate().publicKey;
+const mint = Keypair.generate().publicKey;
+
+const keysOf = (ix: TransactionInstruction) => ix.keys.map((k) => k.pubkey.toBase58());
+
+describe("trade ixs", () => {
+  // token_program sits at a fixed slot in TradeBuyAcct / TradeSellAcct; the
+  // program CPIs into whatever it finds there
+  for (const program of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+    const ata = ataFor(mint, trader, program);
+
+    it(`passes ${program.toBase58().slice(0, 8)}… to trade_buy`, () => {
+      const ix = buildTradeBuyIx({
+        buyer: trader,
+        mint,
+        buyerAta: ata,
+        lamportsToCurve: 1_000_000n,
+        tokenProgram: program,
+      });
+      expect(ix.programId.equals(PROGRAM_ID)).toBe(true);
+      expect(keysOf(ix)).toEqual(
+        [trader, mint, curvePda(mint), mintAuthPda(mint), ata, program, SystemProgram.programId].map(
+          (k) => k.toBase58()
+        )
+      );
+      expect(ix.keys[5]).toMatchObject({ isSigner: false, isWritable: false });
+    });
+
+    it(`passes ${program.toBase58().slice(0, 8)}… to trade_sell`, () => {
+      const ix = buildTradeSellIx({
+        seller: trader,
+        mint,
+        sellerAta: ata,
+        lamportsOut: 2_000_000n,
+        tokensRaw: 3_000_000n,
+        tokenProgram: program,
+      });
+      expect(ix.programId.equals(PROGRAM_ID)).toBe(true);
+      expect(keysOf(ix)).toEqual(
+        [trader, mint, curvePda(mint), ata, program, SystemProgram.programId].map((k) =>
+          k.toBase58()
+        )
+      );
+      expect(ix.keys[0]).toMatchObject({ isSigner: true, isWritable: true });
+      expect(ix.keys[4]).toMatchObject({ isSigner: false, isWritable: false });
+    });
+  }
+
+  it("lays out trade_sell data as the program and the indexer read it", () => {
+    const ix = buildTradeSellIx({
+      seller: trader,
+      mint,
+      sellerAta: ataFor(mint, trader, TOKEN_2022_PROGRAM_ID),
+      lamportsOut: 2_000_000n,
+      tokensRaw: 3_000_000n,
+      tokenProgram: TOKEN_2022_PROGRAM_ID,
+    });
+    // Anchor discriminator /sell used to hard-code
+    expect(ix.data.subarray(0, 8).toString("hex")).toBe("3ba24d6d0952d8a0");
+    expect(decodeProgramIx(ix.data)).toEqual({
+      name: "trade_sell",
+      lamports: 2_000_000n,
+      tokensRaw: 3_000_000n,
+    });
+  });
+});
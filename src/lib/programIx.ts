@@ -0,0 +1,168 @@
+// src/lib/programIx.ts
+//
+// Instruction layouts for the curve_launchpad program. Discriminators come
+// straight from the IDL (src/idl/curve_launchpad.json) so decoding and the
+// ixs we build can't drift from what the program expects.
+
+import { PublicKey, SystemProgram, TransactionInstruction } from "@solana/web3.js";
+import idl from "@/idl/curve_launchpad.json";
+import { PROGRAM_ID, curvePda, mintAuthPda } from "@/lib/config";
+
+export type ProgramIxName = "create_curve" | "trade_buy" | "trade_sell" | "withdraw";
+
+function discOf(name: ProgramIxName): Buffer {
+  const ix = (idl as { instructions: { name: string; discriminator?: number[] }[] }).instructions.find(
+    (i) => i.name === name
+  );
+  if (!ix?.discriminator) throw new Error(`IDL has no instruction ${name}`);
+  return Buffer.from(ix.discriminator);
+}
+
+export const IX_DISC: Record<ProgramIxName, Buffer> = {
+  create_curve: discOf("create_curve"),
+  trade_buy: discOf("trade_buy"),
+  trade_sell: discOf("trade_sell"),
+  withdraw: discOf("withdraw"),
+};
+
+export type DecodedProgramIx = {
+  name: ProgramIxName;
+  /** `lamports` arg (buy: net into the PDA · sell: paid out · withdraw: amount). */
+  lamports: bigint | null;
+  /** Raw tokens in – only present on sells built by /api/coins/[id]/sell. */
+  tokensRaw: bigint | null;
+};
+
+/** Decodes instruction data for one of our program's ixs; null if unknown. */
+export function decodeProgramIx(data: Buffer | Uint8Array): DecodedProgramIx | null {
+  const buf = Buffer.from(data);
+  if (buf.length < 8) return null;
+
+  const disc = buf.subarray(0, 8);
+  const name = (Object.keys(IX_DISC) as ProgramIxName[]).find((n) =>
+    IX_DISC[n].equals(disc)
+  );
+  if (!name) return null;
+
+  const u64At = (off: number) =>
+    buf.length >= off + 8 ? buf.readBigUInt64LE(off) : null;
+
+  return {
+    name,
+    lamports: name === "create_curve" ? null : u64At(8),
+    tokensRaw: name === "trade_sell" ? u64At(16) : null,
+  };
+}
+
+/**
+ * withdraw(lamports): moves SOL out of the curve PDA to `to`.
+ * The program only accepts `creator` == state.creator as signer.
+ */
+export function buildWithdrawIx(opts: {
+  creator: PublicKey;
+  to: PublicKey;
+  mint: PublicKey;
+  lamports: bigint;
+}): TransactionInstruction {
+  const data = Buffer.alloc(16);
+  IX_DISC.withdraw.copy(data, 0);
+  data.writeBigUInt64LE(opts.lamports, 8);
+
+  return new TransactionInstruction({
+    programId: PROGRAM_ID,
+    keys: [
+      { pubkey: opts.creator, isSigner: true, isWritable: true },
+      { pubkey: opts.to, isSigner: false, isWritable: true },
+      { pubkey: curvePda(opts.mint), isSigner: false, isWritable: true },
+    ],
+    data,
+  });
+}
+
+/**
+ * create_curve(): initialises the curve PDA for `mint`. `payer` becomes
+ * CurveState.creator, i.e. the key `withdraw` accepts.
+ */
+export function buildCreateCurveIx(opts: {
+  payer: PublicKey;
+  mint: PublicKey;
+}): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: PROGRAM_ID,
+    keys: [
+      { pubkey: opts.payer, isSigner: true, isWritable: true },
+      { pubkey: opts.mint, isSigner: false, isWritable: false },
+      { pubkey: curvePda(opts.mint), isSigner: false, isWritable: true },
+      { pubkey: mintAuthPda(opts.mint), isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    data: IX_DISC.create_curve,
+  });
+}
+
+/**
+ * trade_buy(lamports): mints tokens to `buyerAta` for `lamportsToCurve`,
+ * which the same tx must already have moved into the curve PDA.
+ * `tokenProgram` is the mint's (lib/tokenProgram.ts).
+ */
+export function buildTradeBuyIx(opts: {
+  buyer: PublicKey;
+  mint: PublicKey;
+  buyerAta: PublicKey;
+  lamportsToCurve: bigint;
+  tokenProgram: PublicKey;
+}): TransactionInstruction {
+  const data = Buffer.alloc(16);
+  IX_DISC.trade_buy.copy(data, 0);
+  data.writeBigUInt64LE(opts.lamportsToCurve, 8);
+
+  // MUST match TradeBuyAcct: payer, mint, state, mint_auth_pda, buyer_ata,
+  // token_program, system_program
+  return new TransactionInstruction({
+    programId: PROGRAM_ID,
+    keys: [
+      { pubkey: opts.buyer, isSigner: true, isWritable: true },
+      { pubkey: opts.mint, isSigner: false, isWritable: true },
+      { pubkey: curvePda(opts.mint), isSigner: false, isWritable: true },
+      { pubkey: mintAuthPda(opts.mint), isSigner: false, isWritable: false },
+      { pubkey: opts.buyerAta, isSigner: false, isWritable: true },
+      { pubkey: opts.tokenProgram, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    data,
+  });
+}
+
+/**
+ * trade_sell(lamports, tokens): burns `tokensRaw` from `sellerAta` and pays
+ * `lamportsOut` from the curve PDA to `seller`. `tokenProgram` is the
+ * mint's (lib/tokenProgram.ts).
+ */
+export function buildTradeSellIx(opts: {
+  seller: PublicKey;
+  mint: PublicKey;
+  sellerAta: PublicKey;
+  lamportsOut: bigint;
+  tokensRaw: bigint;
+  tokenProgram: PublicKey;
+}): TransactionInstruction {
+  const data = Buffer.alloc(24);
+  IX_DISC.trade_sell.copy(data, 0);
+  data.writeBigUInt64LE(opts.lamportsOut, 8);
+  data.writeBigUInt64LE(opts.tokensRaw, 16);
+
+  // MUST match TradeSellAcct: payer, mint, state, seller_ata, token_program,
+  // system_program
+  return new TransactionInstruction({
+    programId: PROGRAM_ID,
+    keys: [
+      { pubkey: opts.seller, isSigner: true, isWritable: true },
+      { pubkey: opts.mint, isSigner: false, isWritable: true },
+      { pubkey: curvePda(opts.mint), isSigner: false, isWritable: true },
+      { pubkey: opts.sellerAta, isSigner: false, isWritable: true },
+      { pubkey: opts.tokenProgram, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    data,
+  });
+}
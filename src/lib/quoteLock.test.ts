@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { QUOTE_TTL_MS, openPayload, signPayload, signQuote, verifyQuote } from "@/lib/quoteLock";
+
+const quote = {
+  side: "buy" as const,
+  coinId: "coin-1",
+  mint: "mint-1",
+  soldRaw: "123456789",
+  amountIn: "1000000000",
+  amountOut: "4200.5",
+};
+
+// Swaps one character of the signature (or body) for another base64url one
+function flip(token: string, part: 0 | 1): string {
+  const pieces = token.split(".");
+  const s = pieces[part];
+  const i = Math.floor(s.length / 2);
+  pieces[part] = s.slice(0, i) + (s[i] === "A" ? "B" : "A") + s.slice(i + 1);
+  return pieces.join(".");
+}
+
+describe("signPayload / openPayload", () => {
+  it("round-trips a payload", () => {
+    const token = signPayload({ coinId: "coin-1", n: 7 });
+    expect(openPayload(token)).toEqual({ ok: true, payload: { coinId: "coin-1", n: 7 } });
+  });
+
+  it("rejects a tampered body or signature", () => {
+    const token = signPayload({ coinId: "coin-1", n: 7 });
+    expect(openPayload(flip(token, 0))).toMatchObject({ ok: false, error: "Bad signature" });
+    expect(openPayload(flip(token, 1))).toMatchObject({ ok: false, error: "Bad signature" });
+
+    // Re-encoding a different body under the old signature doesn't pass either
+    const [, sig] = token.split(".");
+    const forged = Buffer.from(JSON.stringify({ coinId: "coin-1", n: 8 })).toString("base64url");
+    expect(openPayload(`${forged}.${sig}`)).toMatchObject({ ok: false });
+  });
+
+  it("rejects malformed tokens", () => {
+    expect(openPayload("no-dot")).toMatchObject({ ok: false, error: "Malformed token" });
+    expect(openPayload("")).toMatchObject({ ok: false, error: "Malformed token" });
+  });
+});
+
+describe("signQuote / verifyQuote", () => {
+  afterEach(() => vi.useRealTimers());
+
+  it("accepts its own quote for the same side and coin", () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    const { quoteId, expiresAt } = signQuote(quote);
+    expect(expiresAt).toBe(1_000_000 + QUOTE_TTL_MS);
+
+    const res = verifyQuote(quoteId, { side: "buy", coinId: "coin-1" });
+    expect(res.ok).toBe(true);
+    expect(res.quote).toMatchObject({ v: 1, ...quote, iat: 1_000_000, exp: expiresAt });
+  });
+
+  it("rejects a quote for the other side or another coin", () => {
+    const { quoteId } = signQuote(quote);
+    expect(verifyQuote(quoteId, { side: "sell", coinId: "coin-1" })).toMatchObject({
+      ok: false,
+      code: "QUOTE_INVALID",
+    });
+    expect(verifyQuote(quoteId, { side: "buy", coinId: "coin-2" })).toMatchObject({
+      ok: false,
+      code: "QUOTE_INVALID",
+    });
+  });
+
+  it("rejects a tampered quote id", () => {
+    const { quoteId } = signQuote(quote);
+    expect(verifyQuote(flip(quoteId, 1), { side: "buy", coinId: "coin-1" })).toMatchObject({
+      ok: false,
+      code: "QUOTE_INVALID",
+    });
+  });
+
+  it("expires after its ttl", () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    const { quoteId } = signQuote(quote, 5_000);
+
+    vi.setSystemTime(1_005_000);
+    expect(verifyQuote(quoteId, { side: "buy", coinId: "coin-1" }).ok).toBe(true);
+    vi.setSystemTime(1_005_001);
+    expect(verifyQuote(quoteId, { side: "buy", coinId: "coin-1" })).toMatchObject({
+      ok: false,
+      code: "QUOTE_EXPIRED",
+    });
+  });
+});
@@ -0,0 +1,110 @@
+// src/lib/quoteLock.ts
+//
+// Signed, short-lived quotes ("quote ids"). buy-preview / sell-preview sign
+// what they quoted (sold-supply snapshot + amounts); /buy and /sell accept the
+// id and either trade against exactly those numbers or answer QUOTE_STALE.
+//
+// Format: base64url(JSON payload) + "." + base64url(HMAC-SHA256(payload)).
+// Not encrypted – everything in it is public on-chain anyway.
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { QUOTE_SIGNING_SECRET } from "@/lib/config";
+
+export const QUOTE_TTL_MS = 30_000;
+
+export type QuoteSide = "buy" | "sell";
+
+export type LockedQuote = {
+  v: 1;
+  side: QuoteSide;
+  coinId: string;
+  mint: string;
+  soldRaw: string; // CurveState.sold_raw the quote was priced from
+  amountIn: string; // buy: gross lamports in · sell: raw tokens in
+  amountOut: string; // buy: UI tokens out · sell: lamports paid from the pool
+  iat: number;
+  exp: number;
+};
+
+export type QuoteLockErrorCode = "QUOTE_INVALID" | "QUOTE_EXPIRED" | "QUOTE_STALE";
+
+// lib/config refuses to load on the server without one (localnet has a
+// default), so this only throws if quoteLock ends up in a client bundle
+function secret(): Buffer {
+  if (!QUOTE_SIGNING_SECRET) throw new Error("[QUOTE] QUOTE_SIGNING_SECRET is not configured");
+  return Buffer.from(QUOTE_SIGNING_SECRET, "utf8");
+}
+
+function sign(body: string): Buffer {
+  return createHmac("sha256", secret()).update(body).digest();
+}
+
+/**
+ * Signs any JSON payload in the quote id format. Also used for launch
+ * tokens (lib/launch.ts), which tie a launch tx to its draft coin, and
+ * migration tokens (lib/migration.ts), which pin the tx a creator signs.
+ */
+export function signPayload(payload: object): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${body}.${sign(body).toString("base64url")}`;
+}
+
+/** Checks the signature of a `signPayload` token and decodes it. */
+export function openPayload<T>(
+  token: string
+): { ok: true; payload: T; error?: undefined } | { ok: false; payload?: undefined; error: string } {
+  const [body, sig] = String(token).split(".");
+  if (!body || !sig) return { ok: false, error: "Malformed token" };
+
+  const want = sign(body);
+  const got = Buffer.from(sig, "base64url");
+  if (got.length !== want.length || !timingSafeEqual(got, want)) {
+    return { ok: false, error: "Bad signature" };
+  }
+
+  try {
+    return { ok: true, payload: JSON.parse(Buffer.from(body, "base64url").toString("utf8")) };
+  } catch {
+    return { ok: false, error: "Unreadable token" };
+  }
+}
+
+/** Signs a quote; returns the id plus its expiry (ms since epoch). */
+export function signQuote(
+  q: Omit<LockedQuote, "v" | "iat" | "exp">,
+  ttlMs = QUOTE_TTL_MS
+): { quoteId: string; expiresAt: number } {
+  const iat = Date.now();
+  const payload: LockedQuote = { v: 1, ...q, iat, exp: iat + ttlMs };
+  return { quoteId: signPayload(payload), expiresAt: payload.exp };
+}
+
+/**
+ * Checks signature, expiry, side and coin. Does NOT check freshness against
+ * chain state – the route compares `soldRaw` once it has read the PDA.
+ */
+export function verifyQuote(
+  quoteId: string,
+  expected: { side: QuoteSide; coinId: string }
+):
+  | { ok: true; quote: LockedQuote; code?: undefined; error?: undefined }
+  | { ok: false; quote?: undefined; code: QuoteLockErrorCode; error: string } {
+  const opened = openPayload<LockedQuote>(quoteId);
+  if (!opened.ok) {
+    return { ok: false, code: "QUOTE_INVALID", error: `Invalid quote id: ${opened.error.toLowerCase()}` };
+  }
+  const quote = opened.payload;
+
+  if (quote.v !== 1 || quote.side !== expected.side || quote.coinId !== expected.coinId) {
+    return {
+      ok: false,
+      code: "QUOTE_INVALID",
+      error: `Quote is not a ${expected.side} quote for this coin`,
+    };
+  }
+  if (Date.now() > quote.exp) {
+    return { ok: false, code: "QUOTE_EXPIRED", error: "Quote expired, refresh it" };
+  }
+
+  return { ok: true, quote };
+}
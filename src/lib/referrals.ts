@@ -0,0 +1,31 @@
+// src/lib/referrals.ts
+//
+// Referral links: `/coin/<id>?ref=<wallet>`. The coin page remembers the
+// referrer and sends it with every buy/sell; the trade routes then split
+// `referralShareBps` of the platform fee off to that wallet (see lib/fees.ts).
+// Browser-safe – no server imports here.
+
+import { PublicKey } from "@solana/web3.js";
+
+/** localStorage key the coin page keeps the last `?ref=` under. */
+export const REFERRAL_STORAGE_KEY = "winky:ref";
+
+/**
+ * Validates a referrer for a trade. Unknown / malformed values and
+ * self-referrals resolve to null (the trade just has no referral leg) –
+ * a bad link should never block someone from trading.
+ */
+export function parseReferrer(
+  raw: unknown,
+  trader: string | null | undefined
+): PublicKey | null {
+  const s = String(raw ?? "").trim();
+  if (!s) return null;
+  try {
+    const pk = new PublicKey(s);
+    if (trader && pk.toBase58() === trader) return null;
+    return pk;
+  } catch {
+    return null;
+  }
+}
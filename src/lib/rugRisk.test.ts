@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/store", () => ({ withdrawalsForCoins: vi.fn() }));
+
+import { TOKEN_DECIMALS } from "@/lib/curveState";
+import { assessRisk, impliedPoolLamports, type RiskCoinRow } from "@/lib/rugRisk";
+import type { CurveWithdrawalRow } from "@/lib/store";
+
+const creator = "Creator1111111111111111111111111111111111111";
+const platform = "Platform111111111111111111111111111111111111";
+const coin: RiskCoinRow = { id: "coin-1", mint: "mint-1", creator, curve: "linear" };
+
+// 100M tokens sold, whatever the curve says that cost
+const soldRaw = 100_000_000 * 10 ** TOKEN_DECIMALS;
+const implied = impliedPoolLamports(coin, soldRaw);
+
+function withdrawal(lamports: number, isMigration = false, ts = "2026-10-19T00:00:00.000Z"): CurveWithdrawalRow {
+  return {
+    sig: `sig-${lamports}-${ts}`,
+    coin_id: coin.id,
+    mint: "mint-1",
+    slot: 1,
+    ts,
+    authority: creator,
+    to_address: creator,
+    lamports,
+    is_migration: isMigration,
+  };
+}
+
+const stateWith = (poolLamports: number, authority = creator) => ({
+  creator: authority,
+  soldRaw,
+  poolLamports,
+});
+
+describe("impliedPoolLamports", () => {
+  it("is zero with nothing sold and grows with sold supply", () => {
+    expect(impliedPoolLamports(coin, 0)).toBe(0);
+    expect(implied).toBeGreaterThan(0);
+    expect(impliedPoolLamports(coin, soldRaw * 2)).toBeGreaterThan(implied);
+  });
+});
+
+describe("assessRisk", () => {
+  it("is ok for a solvent pool with no withdrawals, but still discloses who can withdraw", () => {
+    const risk = assessRisk(coin, stateWith(implied), []);
+    expect(risk.level).toBe("ok");
+    expect(risk.solvencyRatio).toBeCloseTo(1);
+    expect(risk.authorityIsCreator).toBe(true);
+    expect(risk.reasons).toEqual(["The coin creator can withdraw pool SOL at any time"]);
+
+    const platformKey = assessRisk(coin, stateWith(implied, platform), []);
+    expect(platformKey.authorityIsCreator).toBe(false);
+    expect(platformKey.reasons).toEqual(["The platform key can withdraw pool SOL at any time"]);
+  });
+
+  it("warns between the thresholds and flags danger below them", () => {
+    expect(assessRisk(coin, stateWith(Math.floor(implied * 0.95)), []).level).toBe("warn");
+    expect(assessRisk(coin, stateWith(Math.floor(implied * 0.5)), []).level).toBe("danger");
+    expect(assessRisk(coin, stateWith(Math.floor(implied * 0.99)), []).level).toBe("ok");
+  });
+
+  it("counts every non-migration withdrawal as danger", () => {
+    const risk = assessRisk(coin, stateWith(implied), [
+      withdrawal(2_000_000_000, false, "2026-10-19T02:00:00.000Z"),
+      withdrawal(500_000_000, false, "2026-10-19T01:00:00.000Z"),
+    ]);
+    expect(risk.level).toBe("danger");
+    expect(risk.withdrawals).toMatchObject({
+      count: 2,
+      lamports: 2_500_000_000,
+      sol: 2.5,
+      lastAt: "2026-10-19T02:00:00.000Z",
+    });
+    expect(risk.reasons[0]).toBe("2 withdrawals from the pool (2.5000 SOL)");
+  });
+
+  it("lists the migration withdrawal without counting it, and skips solvency once graduated", () => {
+    const graduated = { ...coin, migration_status: "graduated" };
+    const risk = assessRisk(graduated, stateWith(0), [withdrawal(80_000_000_000, true)]);
+    expect(risk).toMatchObject({ level: "ok", graduated: true, solvencyRatio: null, reasons: [] });
+    expect(risk.withdrawals.count).toBe(0);
+    expect(risk.withdrawals.items).toHaveLength(1);
+    expect(risk.withdrawals.items[0]).toMatchObject({ isMigration: true, sol: 80 });
+  });
+
+  it("warns when the curve can't be read", () => {
+    const risk = assessRisk(coin, null, []);
+    expect(risk).toMatchObject({
+      level: "warn",
+      withdrawAuthority: null,
+      authorityIsCreator: null,
+      solvencyRatio: null,
+    });
+    expect(risk.reasons).toEqual(["Curve state unreadable; solvency unknown"]);
+  });
+});
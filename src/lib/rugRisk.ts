@@ -0,0 +1,221 @@
+// src/lib/rugRisk.ts
+//
+// Rug-risk disclosure for a coin. curve_launchpad's `withdraw` lets
+// CurveState.creator move any SOL out of the curve PDA, at any time, so
+// holders get two things:
+//
+//   withdrawals – every `withdraw` ever made on the PDA (EventWithdraw, via
+//                 the indexer's `curve_withdrawals`); the one that seeds the
+//                 AMM on migration is flagged and doesn't count against it
+//   solvency    – pool SOL (above rent) vs the SOL the curve integral says
+//                 sold supply put in: ∫₀^sold dx / tokensPerSol(x). Below 1
+//                 means SOL left the pool other than through sells.
+//
+// Served by GET /api/coins/[id]/risk (coin page) and attached to GET
+// /api/coins as a summary (coins list).
+
+import { Connection, PublicKey, type AccountInfo } from "@solana/web3.js";
+import { curvePda } from "@/lib/config";
+import { curveParamsFromRow, solBetween, type CurveName } from "@/lib/curve";
+import { decodeCurveAccount, rawToTokens } from "@/lib/curveState";
+import { withdrawalsForCoins, type CurveWithdrawalRow } from "@/lib/store";
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+/** Solvency at or above this is fine; below DANGER it's a red flag. */
+const SOLVENCY_WARN = 0.98;
+const SOLVENCY_DANGER = 0.9;
+
+export type RiskLevel = "ok" | "warn" | "danger";
+
+/** The `coins` columns risk needs. */
+export type RiskCoinRow = {
+  id: string;
+  mint: string | null;
+  creator?: string | null;
+  curve?: string | null;
+  strength?: number | string | null;
+  curve_params?: unknown;
+  migration_status?: string | null;
+};
+
+export const RISK_COIN_COLUMNS =
+  "id, mint, creator, curve, strength, curve_params, migration_status";
+
+export type RiskWithdrawal = {
+  sig: string;
+  ts: string;
+  to: string;
+  lamports: number;
+  sol: number;
+  isMigration: boolean;
+};
+
+export type CoinRisk = {
+  level: RiskLevel;
+  reasons: string[];
+  /** CurveState.creator – the one key `withdraw` accepts. */
+  withdrawAuthority: string | null;
+  /** Whether that key is the coin's listed creator (vs the platform). */
+  authorityIsCreator: boolean | null;
+  withdrawals: {
+    count: number;
+    lamports: number;
+    sol: number;
+    lastAt: string | null;
+    items: RiskWithdrawal[];
+  };
+  poolLamports: number | null;
+  impliedLamports: number | null;
+  /** pool / implied; null when nothing is sold, the curve is unreadable or graduated. */
+  solvencyRatio: number | null;
+  graduated: boolean;
+};
+
+/** SOL (lamports) the curve integral says `soldRaw` put into the pool. */
+export function impliedPoolLamports(coin: RiskCoinRow, soldRaw: number): number {
+  const sol = solBetween(
+    (coin.curve as CurveName) || "linear",
+    curveParamsFromRow(coin),
+    0,
+    rawToTokens(soldRaw)
+  );
+  return Math.floor(sol * LAMPORTS_PER_SOL);
+}
+
+function toRiskWithdrawal(w: CurveWithdrawalRow): RiskWithdrawal {
+  return {
+    sig: w.sig,
+    ts: w.ts,
+    to: w.to_address,
+    lamports: w.lamports,
+    sol: w.lamports / LAMPORTS_PER_SOL,
+    isMigration: w.is_migration,
+  };
+}
+
+/**
+ * Pure assessment from what's already loaded. `state` is null when the
+ * curve PDA is missing or won't decode.
+ */
+export function assessRisk(
+  coin: RiskCoinRow,
+  state: { creator: string; soldRaw: number; poolLamports: number } | null,
+  withdrawals: CurveWithdrawalRow[]
+): CoinRisk {
+  const graduated = coin.migration_status === "graduated";
+  const reasons: string[] = [];
+  let level: RiskLevel = "ok";
+  const raise = (l: RiskLevel, reason: string) => {
+    reasons.push(reason);
+    if (l === "danger" || level === "ok") level = l;
+  };
+
+  const drains = withdrawals.filter((w) => !w.is_migration);
+  const drained = drains.reduce((s, w) => s + w.lamports, 0);
+  if (drains.length) {
+    raise(
+      "danger",
+      `${drains.length} withdrawal${drains.length === 1 ? "" : "s"} from the pool (${(
+        drained / LAMPORTS_PER_SOL
+      ).toFixed(4)} SOL)`
+    );
+  }
+
+  let impliedLamports: number | null = null;
+  let solvencyRatio: number | null = null;
+  if (state && !graduated) {
+    impliedLamports = impliedPoolLamports(coin, state.soldRaw);
+    if (impliedLamports > 0) {
+      solvencyRatio = state.poolLamports / impliedLamports;
+      if (solvencyRatio < SOLVENCY_DANGER) {
+        raise("danger", `Pool holds ${(solvencyRatio * 100).toFixed(1)}% of the SOL sold supply paid in`);
+      } else if (solvencyRatio < SOLVENCY_WARN) {
+        raise("warn", `Pool holds ${(solvencyRatio * 100).toFixed(1)}% of the SOL sold supply paid in`);
+      }
+    }
+  } else if (!state && !graduated && coin.mint) {
+    raise("warn", "Curve state unreadable; solvency unknown");
+  }
+
+  // Always disclosed, even when nothing has happened yet
+  if (state && !graduated) {
+    reasons.push(
+      state.creator === coin.creator
+        ? "The coin creator can withdraw pool SOL at any time"
+        : "The platform key can withdraw pool SOL at any time"
+    );
+  }
+
+  return {
+    level,
+    reasons,
+    withdrawAuthority: state?.creator ?? null,
+    authorityIsCreator: state && coin.creator ? state.creator === coin.creator : null,
+    withdrawals: {
+      count: drains.length,
+      lamports: drained,
+      sol: drained / LAMPORTS_PER_SOL,
+      lastAt: drains[0]?.ts ?? null,
+      items: withdrawals.map(toRiskWithdrawal),
+    },
+    poolLamports: state?.poolLamports ?? null,
+    impliedLamports,
+    solvencyRatio,
+    graduated,
+  };
+}
+
+/**
+ * Risk for each coin: one getMultipleAccountsInfo per 100 curve PDAs and
+ * one withdrawals query, so the coins list can afford it.
+ */
+export async function loadRisks(
+  conn: Connection,
+  coins: RiskCoinRow[]
+): Promise<Map<string, CoinRisk>> {
+  const withMint = coins.filter((c) => c.mint);
+  const pdas = withMint.map((c) => curvePda(new PublicKey(c.mint!)));
+
+  const infos: (AccountInfo<Buffer> | null)[] = [];
+  for (let i = 0; i < pdas.length; i += 100) {
+    infos.push(...(await conn.getMultipleAccountsInfo(pdas.slice(i, i + 100), "confirmed")));
+  }
+
+  // Every CurveState has the same size, so this is one call in practice
+  const rentBySize = new Map<number, number>();
+  for (const info of infos) {
+    if (info && !rentBySize.has(info.data.length)) {
+      rentBySize.set(
+        info.data.length,
+        await conn.getMinimumBalanceForRentExemption(info.data.length)
+      );
+    }
+  }
+
+  const byCoin = new Map<string, CurveWithdrawalRow[]>();
+  for (const w of await withdrawalsForCoins(coins.map((c) => c.id))) {
+    byCoin.set(w.coin_id, [...(byCoin.get(w.coin_id) ?? []), w]);
+  }
+
+  const out = new Map<string, CoinRisk>();
+  for (const coin of coins) {
+    const i = withMint.indexOf(coin);
+    const info = i >= 0 ? infos[i] : null;
+    let state: { creator: string; soldRaw: number; poolLamports: number } | null = null;
+    if (info) {
+      try {
+        const decoded = decodeCurveAccount(info);
+        state = {
+          creator: decoded.creator,
+          soldRaw: decoded.sold_raw,
+          poolLamports: Math.max(0, info.lamports - (rentBySize.get(info.data.length) ?? 0)),
+        };
+      } catch (e) {
+        console.warn("[RISK] decodeCurveAccount failed:", coin.mint, e);
+      }
+    }
+    out.set(coin.id, assessRisk(coin, state, byCoin.get(coin.id) ?? []));
+  }
+  return out;
+}
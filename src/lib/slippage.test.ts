@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { minOutFor, parseSlippage } from "@/lib/slippage";
+
+function parsed(body: Record<string, unknown>) {
+  const r = parseSlippage(body, "minTokensOut");
+  if (!r.ok) throw new Error(r.error);
+  return r.value;
+}
+
+describe("minOutFor", () => {
+  it("prefers the client's explicit floor", () => {
+    expect(minOutFor(parsed({ slippageBps: 100, minTokensOut: 500 }), 1_000)).toBe(500);
+  });
+
+  it("measures slippageBps from the client's expected out", () => {
+    expect(minOutFor(parsed({ slippageBps: 100, expectedTokensOut: 2_000 }), 1_000)).toBe(1_980);
+  });
+
+  it("measures slippageBps from the locked quote", () => {
+    expect(minOutFor(parsed({ slippageBps: 100, quoteId: "q" }), 1_000)).toBe(990);
+  });
+
+  it("is off when the client sent no tolerance", () => {
+    expect(minOutFor(parsed({}), 1_000)).toBeNull();
+  });
+});
+
+describe("parseSlippage", () => {
+  it("rejects a bare slippageBps with nothing to measure from", () => {
+    expect(parseSlippage({ slippageBps: 100 }, "minTokensOut").ok).toBe(false);
+    expect(parseSlippage({ slippageBps: 100 }, "minSolOut").ok).toBe(false);
+  });
+
+  it("accepts a bare slippageBps for previews", () => {
+    expect(parseSlippage({ slippageBps: 100 }, "minTokensOut", { preview: true }).ok).toBe(true);
+  });
+
+  it("rejects a non-positive expected out", () => {
+    expect(parseSlippage({ slippageBps: 100, expectedSolOut: 0 }, "minSolOut").ok).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+// src/lib/slippage.ts
+//
+// Slippage tolerance for the trade routes. The client says what it is
+// willing to accept (`minTokensOut` on buy, `minSolOut` on sell, or
+// `slippageBps` off the amount it was quoted: a quote id or
+// `expectedTokensOut` / `expectedSolOut`); the server re-quotes against
+// fresh on-chain state and refuses to build a tx whose quote is already
+// outside that tolerance.
+//
+// NOTE: the program itself has no min-out argument, so this only protects
+// the window between the client's quote and the server building the tx.
+
+export const DEFAULT_SLIPPAGE_BPS = 100; // 1%
+export const MAX_SLIPPAGE_BPS = 5_000; // 50%
+
+/** Quick picks for the coin page. */
+export const SLIPPAGE_PRESETS_BPS = [50, 100, 300, 500];
+
+/** Machine-readable `code` on trade route errors (UI switches on these). */
+export type TradeErrorCode =
+  | "INVALID_SLIPPAGE"
+  | "SLIPPAGE_EXCEEDED"
+  | "POOL_INSUFFICIENT"
+  | "QUOTE_FAILED";
+
+export type SlippageRequest = {
+  slippageBps: number;
+  /** Explicit floor from the client (tokens for buy, SOL for sell), if any. */
+  minOut: number | null;
+  /** Output the client was quoted, which `slippageBps` is measured from. */
+  expectedOut: number | null;
+  /** True when the client sent any tolerance field at all. */
+  requested: boolean;
+};
+
+const EXPECTED_OUT_KEY = {
+  minTokensOut: "expectedTokensOut",
+  minSolOut: "expectedSolOut",
+} as const;
+
+/**
+ * Reads `slippageBps` + the side's min-out / expected-out fields from a
+ * request body. Returns an error string for malformed values instead of
+ * guessing, and (unless `preview`, which quotes the baseline itself) for a
+ * bare `slippageBps` with nothing to measure it from.
+ */
+export function parseSlippage(
+  body: Record<string, unknown> | null | undefined,
+  minOutKey: "minTokensOut" | "minSolOut",
+  opts: { preview?: boolean } = {}
+):
+  | { ok: true; value: SlippageRequest; error?: undefined }
+  | { ok: false; value?: undefined; error: string } {
+  const rawBps = body?.slippageBps;
+  const rawMin = body?.[minOutKey];
+
+  let slippageBps = DEFAULT_SLIPPAGE_BPS;
+  if (rawBps != null && rawBps !== "") {
+    const n = Number(rawBps);
+    if (!Number.isInteger(n) || n < 0 || n > MAX_SLIPPAGE_BPS) {
+      return {
+        ok: false,
+        error: `slippageBps must be an integer between 0 and ${MAX_SLIPPAGE_BPS}`,
+      };
+    }
+    slippageBps = n;
+  }
+
+  let minOut: number | null = null;
+  if (rawMin != null && rawMin !== "") {
+    const n = Number(rawMin);
+    if (!Number.isFinite(n) || n < 0) {
+      return { ok: false, error: `${minOutKey} must be a number >= 0` };
+    }
+    minOut = n;
+  }
+
+  const expectedKey = EXPECTED_OUT_KEY[minOutKey];
+  const rawExpected = body?.[expectedKey];
+  let expectedOut: number | null = null;
+  if (rawExpected != null && rawExpected !== "") {
+    const n = Number(rawExpected);
+    if (!Number.isFinite(n) || n <= 0) {
+      return { ok: false, error: `${expectedKey} must be a number > 0` };
+    }
+    expectedOut = n;
+  }
+
+  const hasBps = rawBps != null && rawBps !== "";
+  if (!opts.preview && hasBps && minOut == null && expectedOut == null && !body?.quoteId) {
+    return {
+      ok: false,
+      error: `slippageBps needs a quoteId, ${expectedKey} or ${minOutKey} to measure from`,
+    };
+  }
+
+  return {
+    ok: true,
+    value: {
+      slippageBps,
+      minOut,
+      expectedOut,
+      requested: hasBps || minOut != null,
+    },
+  };
+}
+
+/** `amount` reduced by `bps` (e.g. expected out → worst acceptable out). */
+export function withSlippage(amount: number, bps: number): number {
+  return amount * (1 - bps / 10_000);
+}
+
+/**
+ * Worst acceptable output for a trade. An explicit client floor wins;
+ * otherwise `slippageBps` is measured against what the client was quoted:
+ * its own expected out, else the locked quote's (`quotedOut`). Null when
+ * the client asked for no protection (legacy callers).
+ */
+export function minOutFor(req: SlippageRequest, quotedOut: number | null): number | null {
+  if (req.minOut != null) return req.minOut;
+  if (!req.requested) return null;
+  const baseline = req.expectedOut ?? quotedOut;
+  return baseline == null ? null : withSlippage(baseline, req.slippageBps);
+}
@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { DbTrade } from "@/lib/types";
+
+type Row = Record<string, unknown>;
+
+// In-memory `trades` behind enough of the PostgREST builder for store.ts:
+// eq/gte/lt filters, the (ts, sig) cursor `or`, multi-column order, limit –
+// and, like the real server, never more than MAX_ROWS rows per response.
+const MAX_ROWS = 1000;
+const db = vi.hoisted(() => ({
+  trades: [] as Row[],
+  requests: 0,
+  rpc: null as null | ((fn: string, args: Row) => { data: unknown; error: null }),
+}));
+
+vi.mock("@/lib/db", () => {
+  type Result = { data: Row[]; error: null };
+  function from() {
+    const filters: ((r: Row) => boolean)[] = [];
+    const orders: { key: string; asc: boolean }[] = [];
+    let limit = Infinity;
+    const cmp = (a: unknown, b: unknown) => String(a ?? "").localeCompare(String(b ?? ""));
+
+    const run = (): Result => {
+      db.requests++;
+      const hit = db.trades
+        .filter((r) => filters.every((f) => f(r)))
+        .sort((a, b) => {
+          for (const o of orders) {
+            const c = cmp(a[o.key], b[o.key]);
+            if (c) return o.asc ? c : -c;
+          }
+          return 0;
+        });
+      return { data: hit.slice(0, Math.min(limit, MAX_ROWS)), error: null };
+    };
+
+    const q = {
+      select: () => q,
+      eq: (k: string, v: unknown) => (filters.push((r) => r[k] === v), q),
+      gte: (k: string, v: string) => (filters.push((r) => cmp(r[k], v) >= 0), q),
+      lt: (k: string, v: string) => (filters.push((r) => cmp(r[k], v) < 0), q),
+      or: (expr: string) => {
+        const m = expr.match(/^ts\.lt\."(.+?)",and\(ts\.eq\."(.+?)",sig\.lt\."(.*?)"\)$/);
+        if (!m) throw new Error(`unexpected or(): ${expr}`);
+        const [, ts, , sig] = m;
+        filters.push((r) => cmp(r.ts, ts) < 0 || (r.ts === ts && cmp(r.sig, sig) < 0));
+        return q;
+      },
+      order: (key: string, o: { ascending: boolean }) => (orders.push({ key, asc: o.ascending }), q),
+      limit: (n: number) => ((limit = n), q),
+      then: (res: (r: Result) => unknown, rej: (e: unknown) => unknown) =>
+        Promise.resolve(run()).then(res, rej),
+    };
+    return q;
+  }
+  const client = { from, rpc: async (fn: string, args: Row) => db.rpc!(fn, args) };
+  return { supabase: client, supabaseAdmin: client };
+});
+
+import {
+  TRADES_PAGE_MAX,
+  decodeTradeCursor,
+  tradesBetween,
+  tradesForCoin,
+  walletVolumeSol,
+} from "@/lib/store";
+
+const T0 = Date.parse("2026-10-01T00:00:00.000Z");
+
+// `n` trades one second apart from T0; every 3rd shares its second with the
+// previous one so the cursor has to break ties on sig
+function seedTrades(n: number, coinId = "coin-1"): DbTrade[] {
+  const rows: DbTrade[] = [];
+  for (let i = 0; i < n; i++) {
+    const sec = i - Math.floor(i / 3);
+    rows.push({
+      id: `t-${i}`,
+      coin_id: coinId,
+      ts: new Date(T0 + sec * 1000).toISOString(),
+      amount_sol: 0.1,
+      side: "buy",
+      buyer: "wallet",
+      sig: `sig-${String(i).padStart(6, "0")}`,
+      slot: i,
+      token_amount: 1000,
+      created_at: null,
+    });
+  }
+  db.trades.push(...(rows as unknown as Row[]));
+  return rows;
+}
+
+const iso = (sec: number) => new Date(T0 + sec * 1000).toISOString();
+
+describe("tradesForCoin", () => {
+  beforeEach(() => {
+    db.trades = [];
+  });
+
+  it("pages newest-first through ties on ts without repeating or skipping", async () => {
+    const rows = seedTrades(25);
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    let pages = 0;
+    do {
+      const page = await tradesForCoin("coin-1", { limit: 10, cursor });
+      seen.push(...page.trades.map((t) => t.sig!));
+      cursor = page.nextCursor;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toBe(3);
+    expect(seen).toEqual(rows.map((r) => r.sig).reverse());
+  });
+
+  it("says there is no next page when the last one is exactly full", async () => {
+    seedTrades(20);
+    const first = await tradesForCoin("coin-1", { limit: 10 });
+    const second = await tradesForCoin("coin-1", { limit: 10, cursor: first.nextCursor });
+    expect(second.trades).toHaveLength(10);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("applies side / wallet filters and clamps the page size", async () => {
+    seedTrades(5);
+    db.trades[1].side = "sell";
+    db.trades[2].buyer = "someone-else";
+
+    const sells = await tradesForCoin("coin-1", { side: "sell" });
+    expect(sells.trades.map((t) => t.id)).toEqual(["t-1"]);
+    const mine = await tradesForCoin("coin-1", { wallet: "wallet" });
+    expect(mine.trades.map((t) => t.id)).not.toContain("t-2");
+
+    seedTrades(TRADES_PAGE_MAX + 5, "busy");
+    const big = await tradesForCoin("busy", { limit: 10_000 });
+    expect(big.trades).toHaveLength(TRADES_PAGE_MAX);
+    expect(big.nextCursor).not.toBeNull();
+  });
+
+  it("rejects a cursor it didn't issue", async () => {
+    expect(decodeTradeCursor("not-a-cursor")).toBeNull();
+    await expect(tradesForCoin("coin-1", { cursor: "not-a-cursor" })).rejects.toThrow(
+      /Invalid cursor/
+    );
+  });
+});
+
+describe("tradesBetween", () => {
+  beforeEach(() => {
+    db.trades = [];
+    db.requests = 0;
+  });
+
+  it("reads a window past the server's row cap, oldest first", async () => {
+    const rows = seedTrades(2500);
+    seedTrades(10, "other-coin");
+
+    const got = await tradesBetween("coin-1", iso(0));
+    expect(got.map((t) => t.sig)).toEqual(rows.map((r) => r.sig));
+    expect(db.requests).toBeGreaterThan(2);
+  });
+
+  it("keeps the newest trades when the window runs past `max`", async () => {
+    const rows = seedTrades(1500);
+    const got = await tradesBetween("coin-1", iso(0), null, 1200);
+    expect(got).toHaveLength(1200);
+    expect(got.map((t) => t.sig)).toEqual(rows.slice(-1200).map((r) => r.sig));
+  });
+
+  it("stays inside [since, until)", async () => {
+    const rows = seedTrades(30);
+    const got = await tradesBetween("coin-1", iso(5), iso(10));
+    const want = rows.filter((r) => r.ts! >= iso(5) && r.ts! < iso(10));
+    expect(want.length).toBeGreaterThan(0);
+    expect(got.map((t) => t.sig)).toEqual(want.map((r) => r.sig));
+  });
+});
+
+describe("walletVolumeSol", () => {
+  it("takes the sum Postgres computed over the trailing window", async () => {
+    vi.useFakeTimers({ now: T0 });
+    const calls: [string, Row][] = [];
+    // numeric arrives as a string, and is not capped at a page of rows
+    db.rpc = (fn, args) => (calls.push([fn, args]), { data: "12345.678", error: null });
+
+    expect(await walletVolumeSol("wallet", 30)).toBe(12345.678);
+    expect(calls).toEqual([
+      ["wallet_volume_sol", { p_wallet: "wallet", p_since: iso(-30 * 86_400) }],
+    ]);
+    vi.useRealTimers();
+  });
+
+  it("reads no trades as zero", async () => {
+    db.rpc = () => ({ data: null, error: null });
+    expect(await walletVolumeSol("nobody", 30)).toBe(0);
+  });
+});
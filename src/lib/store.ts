@@ -3,26 +3,138 @@ import { supabase, supabaseAdmin } from '@/lib/db';
 import type { Trade, DbTrade } from '@/lib/types';
 
 // --- trades --------------------------------------------------------------
-export async function tradesForCoin(coinId: string): Promise<Trade[]> {
-  const { data, error } = await supabase
-    .from('trades')
-    .select('*')
-    .eq('coin_id', coinId)
-    .order('created_at', { ascending: false })
-    .limit(200);
+export const TRADES_PAGE_MAX = 200;
 
-  if (error) throw new Error(error.message);
+export type TradeFilters = {
+  limit?: number;
+  /** Opaque `nextCursor` from the previous page. */
+  cursor?: string | null;
+  side?: 'buy' | 'sell' | null;
+  /** Trader wallet (`trades.buyer`, which holds the seller on sells too). */
+  wallet?: string | null;
+  /** Only trades at or after this ISO time. */
+  since?: string | null;
+};
 
-  const rows = (data ?? []) as DbTrade[];
-  return rows.map((t) => ({
+export type TradePage = { trades: Trade[]; nextCursor: string | null };
+
+// PostgREST returns at most this many rows per request (its max-rows)
+const TRADES_QUERY_PAGE = 1000;
+
+// Cursor = position of the last row served, newest-first by (ts, sig)
+function encodeTradeCursor(t: { ts: string; sig: string | null }) {
+  return Buffer.from(JSON.stringify([t.ts, t.sig ?? ''])).toString('base64url');
+}
+export function decodeTradeCursor(cursor: string): { ts: string; sig: string } | null {
+  try {
+    const [ts, sig] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof ts !== 'string' || Number.isNaN(Date.parse(ts))) return null;
+    return { ts, sig: String(sig ?? '') };
+  } catch {
+    return null;
+  }
+}
+
+// Rows strictly older than `c` in (ts, sig) order. Values quoted:
+// timestamps carry ':' / '+' that PostgREST would misread
+function olderThan(c: { ts: string; sig: string }) {
+  return `ts.lt."${c.ts}",and(ts.eq."${c.ts}",sig.lt."${c.sig}")`;
+}
+
+function toTrade(t: DbTrade): Trade {
+  const amountSol = Number(t.amount_sol ?? 0);
+  const tokenAmount = t.token_amount != null ? Number(t.token_amount) : null;
+  return {
     id: t.id,
     coinId: t.coin_id,
     ts: t.ts ?? t.created_at ?? new Date().toISOString(),
-    amountSol: Number(t.amount_sol ?? 0),
+    amountSol,
     side: t.side,
     buyer: t.buyer ?? null,
     sig: t.sig ?? null,
-  }));
+    slot: t.slot != null ? Number(t.slot) : null,
+    tokenAmount,
+    priceSol: tokenAmount && tokenAmount > 0 ? amountSol / tokenAmount : null,
+  };
+}
+
+/** Newest-first page of a coin's trades. */
+export async function tradesForCoin(
+  coinId: string,
+  filters: TradeFilters = {}
+): Promise<TradePage> {
+  const limit = Math.max(1, Math.min(TRADES_PAGE_MAX, Math.floor(filters.limit ?? 50)));
+
+  let q = supabase
+    .from('trades')
+    .select('*')
+    .eq('coin_id', coinId)
+    .order('ts', { ascending: false })
+    .order('sig', { ascending: false })
+    .limit(limit + 1); // one extra tells us whether there's another page
+
+  if (filters.side) q = q.eq('side', filters.side);
+  if (filters.wallet) q = q.eq('buyer', filters.wallet);
+  if (filters.since) q = q.gte('ts', filters.since);
+
+  const after = filters.cursor ? decodeTradeCursor(filters.cursor) : null;
+  if (filters.cursor && !after) throw new Error('Invalid cursor');
+  if (after) q = q.or(olderThan(after));
+
+  const { data, error } = await q;
+  if (error) throw new Error(error.message);
+
+  const rows = (data ?? []) as DbTrade[];
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    trades: page.map(toTrade),
+    nextCursor:
+      rows.length > limit && last
+        ? encodeTradeCursor({ ts: last.ts ?? last.created_at ?? '', sig: last.sig })
+        : null,
+  };
+}
+
+/**
+ * A coin's trades in [since, until), oldest first (for candle building).
+ * Pages newest-first by (ts, sig) until the range is done, so a busy window
+ * is read whole; past `max` rows it keeps the newest and drops the oldest.
+ */
+export async function tradesBetween(
+  coinId: string,
+  since: string,
+  until?: string | null,
+  max = 50_000
+): Promise<Trade[]> {
+  const rows: DbTrade[] = [];
+  let before: { ts: string; sig: string } | null = null;
+
+  while (rows.length < max) {
+    let q = supabase
+      .from('trades')
+      .select('*')
+      .eq('coin_id', coinId)
+      .gte('ts', since)
+      .order('ts', { ascending: false })
+      .order('sig', { ascending: false })
+      .limit(Math.min(TRADES_QUERY_PAGE, max - rows.length));
+    if (until) q = q.lt('ts', until);
+    if (before) q = q.or(olderThan(before));
+
+    const { data, error } = await q;
+    if (error) throw new Error(error.message);
+
+    // Empty page = done; a short one may just be a lower max-rows
+    const page = (data ?? []) as DbTrade[];
+    if (!page.length) break;
+    rows.push(...page);
+
+    const last = page[page.length - 1];
+    before = { ts: last.ts ?? last.created_at ?? '', sig: last.sig ?? '' };
+  }
+
+  return rows.reverse().map(toTrade);
 }
 
 export async function addTrade(t: {
@@ -49,3 +161,105 @@ export async function addTrade(t: {
   if (error) throw new Error(error.message);
 }
 
+
+/**
+ * Trade volume (SOL) for a wallet over the trailing `days`, across all coins.
+ * Feeds the fee schedule's volume discounts.
+ */
+export async function walletVolumeSol(wallet: string, days: number): Promise<number> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  // Summed in Postgres (`wallet_volume_sol`); numeric comes back as a string
+  const { data, error } = await supabaseAdmin.rpc('wallet_volume_sol', {
+    p_wallet: wallet,
+    p_since: since,
+  });
+  if (error) throw new Error(error.message);
+
+  const volume = Number(data ?? 0);
+  return Number.isFinite(volume) ? volume : 0;
+}
+
+// --- indexer ---------------------------------------------------------------
+
+/** A trade decoded from chain, as upserted into `trades` (keyed by `sig`). */
+export type IndexedTradeRow = {
+  coin_id: string;
+  mint: string;
+  sig: string;
+  slot: number;
+  ts: string;
+  side: 'buy' | 'sell';
+  buyer: string; // the trader, for sells too
+  amount_sol: number;
+  token_amount: number | null;
+};
+
+/** Idempotent: re-indexing the same signature overwrites, never duplicates. */
+export async function upsertIndexedTrades(rows: IndexedTradeRow[]): Promise<void> {
+  if (!rows.length) return;
+  const { error } = await supabaseAdmin.from('trades').upsert(rows, { onConflict: 'sig' });
+  if (error) throw new Error(error.message);
+}
+
+/** Newest signature the indexer has fully processed for `key`. */
+export async function getIndexerCursor(key: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('indexer_cursors')
+    .select('signature')
+    .eq('key', key)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data?.signature ?? null;
+}
+
+export async function saveIndexerCursor(
+  key: string,
+  signature: string,
+  slot: number
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('indexer_cursors')
+    .upsert(
+      { key, signature, slot, updated_at: new Date().toISOString() },
+      { onConflict: 'key' }
+    );
+  if (error) throw new Error(error.message);
+}
+
+// --- curve withdrawals -----------------------------------------------------
+
+/** A `withdraw` on a curve PDA, decoded from chain (keyed by `sig`). */
+export type CurveWithdrawalRow = {
+  sig: string;
+  coin_id: string;
+  mint: string;
+  slot: number;
+  ts: string;
+  authority: string;
+  to_address: string;
+  lamports: number;
+  is_migration: boolean;
+};
+
+export async function upsertCurveWithdrawals(rows: CurveWithdrawalRow[]): Promise<void> {
+  if (!rows.length) return;
+  const { error } = await supabaseAdmin
+    .from('curve_withdrawals')
+    .upsert(rows, { onConflict: 'sig' });
+  if (error) throw new Error(error.message);
+}
+
+/** Every withdrawal for these coins, newest first. */
+export async function withdrawalsForCoins(coinIds: string[]): Promise<CurveWithdrawalRow[]> {
+  if (!coinIds.length) return [];
+  const { data, error } = await supabaseAdmin
+    .from('curve_withdrawals')
+    .select('*')
+    .in('coin_id', coinIds)
+    .order('ts', { ascending: false });
+  if (error) throw new Error(error.message);
+  // bigint column: PostgREST may send it as a string
+  return ((data ?? []) as (Omit<CurveWithdrawalRow, 'lamports'> & { lamports: number | string })[]).map(
+    (r) => ({ ...r, lamports: Number(r.lamports) })
+  );
+}
@@ -0,0 +1,194 @@
+// src/lib/tokenProgram.ts
+//
+// Which SPL token program a coin's mint lives under. Coins are classic SPL
+// Token mints with Metaplex metadata unless LAUNCH_TOKEN_PROGRAM=token-2022
+// (lib/config), in which case new launches are Token-2022 mints that carry
+// their own metadata:
+//
+//   metadata-pointer  → the mint itself
+//   token-metadata    → name / symbol / uri written into the mint account
+//
+// so they never touch the Metaplex program. The curve program must be a
+// build that takes the token program as an interface (it mints on buys and
+// burns on sells through whatever `token_program` it is handed).
+//
+// The same mint + owner give a different ATA under each program, so
+// everything that derives a coin's token accounts goes through ataFor with
+// the coin's program: `coins.token_program` when the row is at hand,
+// otherwise the mint account's owner (mintTokenProgram).
+
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  AuthorityType,
+  ExtensionType,
+  LENGTH_SIZE,
+  TYPE_SIZE,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createInitializeInstruction,
+  createInitializeMetadataPointerInstruction,
+  createInitializeMintInstruction,
+  createMintToInstruction,
+  createSetAuthorityInstruction,
+  getAssociatedTokenAddressSync,
+  getMintLen,
+} from "@solana/spl-token";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "@/lib/config";
+
+/** The token program of a `coins` row (rows from before the column are classic). */
+export function tokenProgramFor(coin: { token_program?: string | null }): PublicKey {
+  const id = coin.token_program;
+  if (!id || id === TOKEN_PROGRAM_ID.toBase58()) return TOKEN_PROGRAM_ID;
+  if (id === TOKEN_2022_PROGRAM_ID.toBase58()) return TOKEN_2022_PROGRAM_ID;
+  throw new Error(`Unknown token program ${id}`);
+}
+
+export function isToken2022(programId: PublicKey): boolean {
+  return programId.equals(TOKEN_2022_PROGRAM_ID);
+}
+
+/** Owner of the `mint` account, or null if it's missing or not a token mint. */
+export async function mintTokenProgram(
+  conn: Connection,
+  mint: PublicKey
+): Promise<PublicKey | null> {
+  const info = await conn.getAccountInfo(mint, "confirmed");
+  if (!info) return null;
+  if (info.owner.equals(TOKEN_PROGRAM_ID)) return TOKEN_PROGRAM_ID;
+  if (info.owner.equals(TOKEN_2022_PROGRAM_ID)) return TOKEN_2022_PROGRAM_ID;
+  return null;
+}
+
+/** `owner`'s associated token account for `mint` under `tokenProgram`. */
+export function ataFor(
+  mint: PublicKey,
+  owner: PublicKey,
+  tokenProgram: PublicKey,
+  allowOwnerOffCurve = false
+): PublicKey {
+  return getAssociatedTokenAddressSync(
+    mint,
+    owner,
+    allowOwnerOffCurve,
+    tokenProgram,
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+}
+
+/**
+ * Creates `owner`'s ATA for `mint` (paid by `payer`) and mints `amountRaw`
+ * into it. `mintAuthority` must sign the tx and still hold mint authority,
+ * so these go before it is handed to the program.
+ */
+export function buildMintReserveIxs(opts: {
+  payer: PublicKey;
+  mint: PublicKey;
+  owner: PublicKey;
+  mintAuthority: PublicKey;
+  amountRaw: bigint;
+  tokenProgram: PublicKey;
+}): TransactionInstruction[] {
+  const { payer, mint, owner, tokenProgram } = opts;
+  const ata = ataFor(mint, owner, tokenProgram);
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(
+      payer,
+      ata,
+      owner,
+      mint,
+      tokenProgram,
+      ASSOCIATED_TOKEN_PROGRAM_ID
+    ),
+    createMintToInstruction(mint, ata, opts.mintAuthority, opts.amountRaw, [], tokenProgram),
+  ];
+}
+
+// TokenMetadata as Token-2022 packs it: update authority + mint, three
+// borsh strings and an empty additional_metadata vec
+function tokenMetadataLen(name: string, symbol: string, uri: string): number {
+  const str = (s: string) => 4 + Buffer.byteLength(s, "utf8");
+  return 32 + 32 + str(name) + str(symbol) + str(uri) + 4;
+}
+
+/**
+ * Ixs that create a Token-2022 `mint` with its metadata on the mint:
+ * create account, metadata pointer, init mint, init metadata, then hand
+ * mint authority to `mintAuthority`. Writing the metadata needs the mint
+ * authority's signature, which a program PDA can't give here, so
+ * `setupAuthority` (a signer of the same tx) holds it until the last ix.
+ * With `reserve` it also mints that much to the owner's ATA first.
+ * No freeze authority. `payer` funds the account, metadata included.
+ */
+export async function buildToken2022MintIxs(
+  conn: Connection,
+  opts: {
+    payer: PublicKey;
+    mint: PublicKey;
+    decimals: number;
+    mintAuthority: PublicKey;
+    setupAuthority: PublicKey;
+    updateAuthority: PublicKey;
+    name: string;
+    symbol: string;
+    uri: string;
+    reserve?: { owner: PublicKey; amountRaw: bigint } | null;
+  }
+): Promise<TransactionInstruction[]> {
+  const { payer, mint, setupAuthority, name, symbol, uri } = opts;
+  const programId = TOKEN_2022_PROGRAM_ID;
+
+  // The account is created at the pointer-only size; initializing the
+  // metadata reallocs it, so rent must already cover the TLV entry
+  const space = getMintLen([ExtensionType.MetadataPointer]);
+  const lamports = await conn.getMinimumBalanceForRentExemption(
+    space + TYPE_SIZE + LENGTH_SIZE + tokenMetadataLen(name, symbol, uri)
+  );
+
+  return [
+    SystemProgram.createAccount({
+      fromPubkey: payer,
+      newAccountPubkey: mint,
+      lamports,
+      space,
+      programId,
+    }),
+    createInitializeMetadataPointerInstruction(mint, opts.updateAuthority, mint, programId),
+    createInitializeMintInstruction(mint, opts.decimals, setupAuthority, null, programId),
+    createInitializeInstruction({
+      programId,
+      metadata: mint,
+      updateAuthority: opts.updateAuthority,
+      mint,
+      mintAuthority: setupAuthority,
+      name,
+      symbol,
+      uri,
+    }),
+    ...(opts.reserve
+      ? buildMintReserveIxs({
+          payer,
+          mint,
+          owner: opts.reserve.owner,
+          mintAuthority: setupAuthority,
+          amountRaw: opts.reserve.amountRaw,
+          tokenProgram: programId,
+        })
+      : []),
+    createSetAuthorityInstruction(
+      mint,
+      setupAuthority,
+      AuthorityType.MintTokens,
+      opts.mintAuthority,
+      [],
+      programId
+    ),
+  ];
+}
@@ -0,0 +1,290 @@
+// src/lib/tradeQuote.ts
+//
+// Server-side trade terms shared by the preview routes and the routes that
+// build the tx, so a preview and the trade it locks come from the same math
+// over the same on-chain state.
+
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { createAssociatedTokenAccountInstruction } from "@solana/spl-token";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  FEE_TREASURY_PK,
+  MAX_TRADE_LAMPORTS,
+  curvePda,
+} from "@/lib/config";
+import { buildTradeBuyIx } from "@/lib/programIx";
+import { ataFor } from "@/lib/tokenProgram";
+import {
+  curveParamsFromRow,
+  quoteBuy,
+  quoteSell,
+  type CurveName,
+  type CurveQuote,
+} from "@/lib/curve";
+import { decodeCurveAccount, rawToTokens } from "@/lib/curveState";
+import {
+  FEE_SCHEDULE,
+  computeFeeLamports,
+  type FeeContext,
+} from "@/lib/fees";
+import { walletVolumeSol } from "@/lib/store";
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+/** The `coins` columns trade math needs. */
+export type CoinCurveRow = {
+  mint?: string | null;
+  curve?: string | null;
+  strength?: number | string | null;
+  curve_params?: unknown;
+  creator_fee_bps?: number | null;
+  creator_buy_fee_bps?: number | null;
+  token_program?: string | null;
+};
+
+export type CurveSnapshot = {
+  statePk: PublicKey;
+  soldRaw: number;
+  totalSupplyRaw: number;
+  lamports: number; // SOL sitting in the curve PDA
+  creator: string; // CurveState.creator – the only key allowed to withdraw
+};
+
+/** Reads + decodes the curve PDA for `mintPk`. Null if not initialised. */
+export async function loadCurveSnapshot(
+  conn: Connection,
+  mintPk: PublicKey
+): Promise<CurveSnapshot | null> {
+  const statePk = curvePda(mintPk);
+  const info = await conn.getAccountInfo(statePk, "confirmed");
+  if (!info) return null;
+
+  const { creator, sold_raw, total_supply_raw } = decodeCurveAccount(info);
+  return {
+    statePk,
+    soldRaw: sold_raw,
+    totalSupplyRaw: total_supply_raw,
+    lamports: info.lamports,
+    creator,
+  };
+}
+
+/**
+ * Fee inputs for `wallet` trading `coin`: trailing volume (for discounts),
+ * the coin's creator fee overrides and the referrer, if any. Volume lookups
+ * failing never block a trade – the wallet just doesn't get its discount.
+ */
+export async function feeContextFor(
+  coin: CoinCurveRow,
+  wallet: string | null | undefined,
+  referrer?: PublicKey | null
+): Promise<FeeContext> {
+  let volume = 0;
+  if (wallet) {
+    try {
+      volume = await walletVolumeSol(wallet, FEE_SCHEDULE.volumeWindowDays);
+    } catch (e) {
+      console.warn("[FEES] walletVolumeSol failed:", e);
+    }
+  }
+  return {
+    walletVolumeSol: volume,
+    creatorFeeBps: coin.creator_fee_bps ?? null,
+    creatorBuyFeeBps: coin.creator_buy_fee_bps ?? null,
+    referrer: referrer?.toBase58() ?? null,
+  };
+}
+
+/**
+ * Per-transaction cap (mainnet; see lib/config). `lamports` is SOL in on
+ * buys (gross) and SOL out of the pool on sells. Null when within the cap,
+ * otherwise the error payload the trade routes return.
+ */
+export function tradeCapError(lamports: number | bigint) {
+  if (MAX_TRADE_LAMPORTS == null || Number(lamports) <= MAX_TRADE_LAMPORTS) return null;
+  return {
+    error: `Trades are capped at ${MAX_TRADE_LAMPORTS / LAMPORTS_PER_SOL} SOL per transaction`,
+    code: "TRADE_TOO_LARGE" as const,
+    maxTradeSol: MAX_TRADE_LAMPORTS / LAMPORTS_PER_SOL,
+    tradeSol: Number(lamports) / LAMPORTS_PER_SOL,
+  };
+}
+
+export type BuyTerms = {
+  lamportsGross: number;
+  fee: ReturnType<typeof computeFeeLamports>;
+  feeLamports: number;
+  lamportsToCurve: number; // net SOL that hits the curve
+  quote: CurveQuote;
+};
+
+/** BUY: gross lamports in → fee, net to curve and tokens out. */
+export function buyTerms(
+  coin: CoinCurveRow,
+  soldRaw: number,
+  lamportsGross: number,
+  feeCtx?: FeeContext | null
+): BuyTerms {
+  const fee = computeFeeLamports(
+    lamportsGross,
+    lamportsGross / LAMPORTS_PER_SOL,
+    "pre",
+    feeCtx
+  );
+  const feeLamports = fee.feeTotal;
+  const lamportsToCurve = lamportsGross - feeLamports;
+
+  const quote = quoteBuy(
+    (coin.curve as CurveName) || "linear",
+    curveParamsFromRow(coin),
+    rawToTokens(soldRaw),
+    Math.max(0, lamportsToCurve) / LAMPORTS_PER_SOL
+  );
+
+  return { lamportsGross, fee, feeLamports, lamportsToCurve, quote };
+}
+
+/**
+ * The ixs for a buy on `terms`: buyer ATA (when `createAta`), net SOL into
+ * the curve PDA, the fee split (platform / creator / referrer) and
+ * trade_buy. Shared by /buy and the launch tx's first buy. `tokenProgram`
+ * is the mint's (lib/tokenProgram.ts).
+ */
+export function buyInstructions(opts: {
+  buyer: PublicKey;
+  mint: PublicKey;
+  creator: PublicKey;
+  terms: BuyTerms;
+  referrer?: PublicKey | null;
+  createAta: boolean;
+  tokenProgram: PublicKey;
+}): TransactionInstruction[] {
+  const { buyer, mint, terms, tokenProgram } = opts;
+  const { fee, lamportsToCurve } = terms;
+  const buyerAta = ataFor(mint, buyer, tokenProgram);
+
+  const ixs: TransactionInstruction[] = [];
+  if (opts.createAta) {
+    ixs.push(
+      createAssociatedTokenAccountInstruction(
+        buyer,
+        buyerAta,
+        buyer,
+        mint,
+        tokenProgram,
+        ASSOCIATED_TOKEN_PROGRAM_ID
+      )
+    );
+  }
+
+  // Net SOL into the curve PDA (liquidity), then the fee split
+  ixs.push(
+    SystemProgram.transfer({
+      fromPubkey: buyer,
+      toPubkey: curvePda(mint),
+      lamports: lamportsToCurve,
+    })
+  );
+  if (fee.protocol > 0) {
+    ixs.push(
+      SystemProgram.transfer({
+        fromPubkey: buyer,
+        toPubkey: FEE_TREASURY_PK,
+        lamports: fee.protocol,
+      })
+    );
+  }
+  if (fee.creator > 0) {
+    ixs.push(
+      SystemProgram.transfer({
+        fromPubkey: buyer,
+        toPubkey: opts.creator,
+        lamports: fee.creator,
+      })
+    );
+  }
+  if (fee.referral > 0 && opts.referrer) {
+    ixs.push(
+      SystemProgram.transfer({
+        fromPubkey: buyer,
+        toPubkey: opts.referrer,
+        lamports: fee.referral,
+      })
+    );
+  }
+
+  ixs.push(
+    buildTradeBuyIx({
+      buyer,
+      mint,
+      buyerAta,
+      lamportsToCurve: BigInt(lamportsToCurve),
+      tokenProgram,
+    })
+  );
+  return ixs;
+}
+
+export type SellTerms = {
+  tokensRaw: bigint;
+  lamports: bigint; // paid out of the curve PDA (before fees)
+  poolShort: boolean; // payout was clamped to what the pool can cover
+  fee: ReturnType<typeof computeFeeLamports>;
+  netLamports: number; // what the seller keeps after fees
+  quote: CurveQuote;
+};
+
+/**
+ * SELL: raw tokens in → pool payout (clamped to `maxPayout`) and fees.
+ * Fees are paid by the seller on top, so net = payout − fees.
+ */
+export function sellTerms(
+  coin: CoinCurveRow,
+  soldRaw: number,
+  tokensRaw: bigint,
+  decimals: number,
+  maxPayout: bigint,
+  feeCtx?: FeeContext | null
+): SellTerms {
+  const quote = quoteSell(
+    (coin.curve as CurveName) || "linear",
+    curveParamsFromRow(coin),
+    rawToTokens(soldRaw),
+    Number(tokensRaw) / 10 ** decimals
+  );
+
+  let lamports = BigInt(Math.floor(quote.solAmount * LAMPORTS_PER_SOL));
+  const poolShort = lamports > maxPayout;
+  if (poolShort) lamports = maxPayout > 0n ? maxPayout : 0n;
+
+  const tradeLamports = Number(lamports); // safe for normal SOL sizes
+  const fee = computeFeeLamports(
+    tradeLamports,
+    tradeLamports / LAMPORTS_PER_SOL,
+    "post",
+    feeCtx
+  );
+
+  return {
+    tokensRaw,
+    lamports,
+    poolShort,
+    fee,
+    netLamports: tradeLamports - fee.feeTotal,
+    quote,
+  };
+}
+
+/** Largest payout the PDA can make while staying rent-exempt. */
+export async function maxPoolPayout(
+  conn: Connection,
+  snapshot: CurveSnapshot
+): Promise<bigint> {
+  const rentExempt = await conn.getMinimumBalanceForRentExemption(0);
+  return BigInt(snapshot.lamports) - BigInt(rentExempt);
+}
@@ -1,4 +1,5 @@
 // src/lib/types.ts
+import type { CurveName } from '@/lib/curve';
 
 export type Coin = {
   id: string;
@@ -7,9 +8,10 @@ export type Coin = {
   description?: string;
   logoUrl?: string;
   socials?: Record<string, string>;
-  curve: 'linear' | 'degen' | 'random';
+  curve: CurveName;
   startPrice: number;
   strength: 1 | 2 | 3;
+  curveParams?: Record<string, unknown>;
   createdAt: string;
   mint: string | null;
 };
@@ -22,6 +24,9 @@ export type Trade = {
   side: 'buy' | 'sell';
   buyer: string | null;
   sig: string | null;
+  slot: number | null;
+  tokenAmount: number | null; // UI tokens bought / sold (indexed trades)
+  priceSol: number | null;    // SOL per token for this fill
 };
 
 // Row as stored in Supabase (snake_case)
@@ -33,6 +38,9 @@ export type DbTrade = {
   side: 'buy' | 'sell';
   buyer: string | null;
   sig: string | null;
+  mint?: string | null;
+  slot?: number | null;
+  token_amount?: number | string | null;
   created_at?: string | null;
 };
 
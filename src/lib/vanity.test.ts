@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { randomBytes } from "crypto";
+import { Keypair, PublicKey, type Connection } from "@solana/web3.js";
+
+type Row = Record<string, unknown>;
+
+// In-memory `vanity_mints` and `coins`; enough of the query builder for the
+// lease rpc and the reclaim's select/update with eq/lt/in filters.
+const db = vi.hoisted(() => ({
+  vanity_mints: [] as Row[],
+  coins: [] as Row[],
+  rpc: null as null | (() => { data: Row[] | null; error: { message: string } | null }),
+}));
+
+vi.mock("@/lib/supabaseAdmin", () => {
+  type Result = { data: Row[]; error: null };
+  function from(table: "vanity_mints" | "coins") {
+    const filters: ((r: Row) => boolean)[] = [];
+    let patch: Row | null = null;
+    const run = (): Result => {
+      const hit = db[table].filter((r) => filters.every((f) => f(r)));
+      if (patch) hit.forEach((r) => Object.assign(r, patch));
+      return { data: hit, error: null };
+    };
+    const q = {
+      update: (p: Row) => ((patch = p), q),
+      select: () => q,
+      eq: (k: string, v: unknown) => (filters.push((r) => r[k] === v), q),
+      lt: (k: string, v: string) => (filters.push((r) => String(r[k]) < v), q),
+      in: (k: string, vs: unknown[]) => (filters.push((r) => vs.includes(r[k])), q),
+      order: () => q,
+      limit: () => q,
+      then: (res: (r: Result) => unknown, rej: (e: unknown) => unknown) =>
+        Promise.resolve(run()).then(res, rej),
+    };
+    return q;
+  }
+  return { supabaseAdmin: { from, rpc: async () => db.rpc!() } };
+});
+vi.mock("@/lib/store", () => ({ walletVolumeSol: vi.fn() }));
+
+import { LAUNCH_TTL_MS } from "@/lib/launch";
+import {
+  decryptSecret,
+  leaseVanityMint,
+  parseVanityPattern,
+  reclaimVanityLeases,
+} from "@/lib/vanity";
+
+type Pattern = { id: string; kind: "prefix" | "suffix"; value: string };
+type Grinder = {
+  parsePatterns(raw: string): Pattern[];
+  encryptionKey(raw: string): Buffer;
+  encryptSecret(secretKey: Uint8Array, key: Buffer): string;
+  grind(patterns: Pattern[], budgetMs: number): { found: { pattern: Pattern; keypair: Keypair }[]; tries: number };
+};
+
+// The worker is a plain ES module run by node, outside the app bundle
+const grinder = (await import("../../scripts/vanity-grinder.mjs")) as unknown as Grinder;
+
+describe("vanity grinder worker", () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("writes secrets the app can decrypt, with either key encoding", () => {
+    const raw = randomBytes(32);
+    for (const env of [raw.toString("hex"), raw.toString("base64")]) {
+      vi.stubEnv("VANITY_ENCRYPTION_KEY", env);
+      const kp = Keypair.generate();
+      const enc = grinder.encryptSecret(kp.secretKey, grinder.encryptionKey(env));
+      expect(enc.startsWith("v1:")).toBe(true);
+      expect(Buffer.from(decryptSecret(enc)).equals(Buffer.from(kp.secretKey))).toBe(true);
+    }
+  });
+
+  it("refuses a secret written under another key", () => {
+    vi.stubEnv("VANITY_ENCRYPTION_KEY", randomBytes(32).toString("hex"));
+    const enc = grinder.encryptSecret(Keypair.generate().secretKey, randomBytes(32));
+    expect(() => decryptSecret(enc)).toThrow();
+  });
+
+  it("only accepts patterns lib/config would", () => {
+    expect(grinder.parsePatterns("suffix:pump, prefix:ab")).toEqual([
+      { id: "suffix:pump", kind: "suffix", value: "pump" },
+      { id: "prefix:ab", kind: "prefix", value: "ab" },
+    ]);
+    expect(() => grinder.parsePatterns("suffix:p0mp")).toThrow(/Bad VANITY_PATTERNS/);
+    expect(() => grinder.parsePatterns("infix:pump")).toThrow(/Bad VANITY_PATTERNS/);
+  });
+
+  it("grinds keys that end in the pattern", () => {
+    const [pattern] = grinder.parsePatterns("suffix:z");
+    const { found, tries } = grinder.grind([pattern], 300);
+    expect(tries).toBeGreaterThan(0);
+    expect(found.length).toBeGreaterThan(0);
+    for (const f of found) expect(f.keypair.publicKey.toBase58().endsWith("z")).toBe(true);
+  });
+});
+
+describe("leaseVanityMint", () => {
+  const pattern = parseVanityPattern("suffix:pump");
+
+  it("reports an empty pool and a client over its limit apart", async () => {
+    db.rpc = () => ({ data: [], error: null });
+    expect(await leaseVanityMint(pattern, "1.2.3.4")).toMatchObject({
+      ok: false,
+      code: "VANITY_POOL_EMPTY",
+    });
+
+    db.rpc = () => ({ data: null, error: { message: "VANITY_RATE_LIMITED" } });
+    expect(await leaseVanityMint(pattern, "1.2.3.4")).toMatchObject({
+      ok: false,
+      code: "VANITY_RATE_LIMITED",
+    });
+
+    db.rpc = () => ({ data: null, error: { message: "connection reset" } });
+    await expect(leaseVanityMint(pattern, "1.2.3.4")).rejects.toThrow(/connection reset/);
+  });
+});
+
+describe("reclaimVanityLeases", () => {
+  const old = new Date(Date.now() - LAUNCH_TTL_MS - 60_000).toISOString();
+  const keys = Array.from({ length: 5 }, () => Keypair.generate().publicKey.toBase58());
+  const [orphan, failed, pending, landed, fresh] = keys;
+
+  // Only `landed` has an account on chain
+  const conn = {
+    getMultipleAccountsInfo: async (pks: PublicKey[]) =>
+      pks.map((pk) => (pk.toBase58() === landed ? { lamports: 1 } : null)),
+  } as unknown as Connection;
+
+  beforeEach(() => {
+    db.vanity_mints = keys.map((pubkey) => ({
+      pubkey,
+      status: "leased",
+      leased_at: pubkey === fresh ? new Date().toISOString() : old,
+      coin_id: null,
+    }));
+    db.coins = [
+      { id: "c-failed", mint: failed, launch_status: "failed" },
+      { id: "c-pending", mint: pending, launch_status: "draft" },
+      { id: "c-landed", mint: landed, launch_status: "failed" },
+    ];
+  });
+
+  it("returns keys whose launch is gone or failed and never hit the chain", async () => {
+    const back = await reclaimVanityLeases(conn);
+    expect(back.sort()).toEqual([orphan, failed].sort());
+
+    const status = Object.fromEntries(db.vanity_mints.map((r) => [r.pubkey, r.status]));
+    expect(status).toEqual({
+      [orphan]: "available",
+      [failed]: "available",
+      [pending]: "leased",
+      [landed]: "leased",
+      [fresh]: "leased",
+    });
+  });
+
+  it("frees the failed draft's mint so the key can launch again", async () => {
+    await reclaimVanityLeases(conn);
+    const mints = Object.fromEntries(db.coins.map((c) => [c.id, c.mint]));
+    expect(mints).toEqual({ "c-failed": null, "c-pending": pending, "c-landed": landed });
+  });
+});
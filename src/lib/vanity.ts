@@ -0,0 +1,214 @@
+// src/lib/vanity.ts
+//
+// Vanity mint addresses ("…pump"). Grinding a 4–5 character pattern takes
+// minutes of CPU, far too long for any request, so the grinder worker
+// (scripts/vanity-grinder.mjs, on its own box) keeps a pool of pre-ground
+// mint keypairs per pattern in VANITY_PATTERNS, up to VANITY_POOL_TARGET
+// each.
+//
+// Pool (`vanity_mints`):
+//   - secret keys are stored AES-256-GCM encrypted with
+//     VANITY_ENCRYPTION_KEY (32 bytes, hex or base64); the DB alone never
+//     holds a usable key
+//   - POST /api/coins leases one with `lease_vanity_mint`, a single
+//     UPDATE … FOR UPDATE SKIP LOCKED, so two launches never get the same
+//     key; each client (IP) gets VANITY_LEASES_PER_HOUR, since that route
+//     takes anyone
+//   - a leased key goes back only once nothing signed by it can land: at
+//     once when the launch tx was never built (releaseVanityMint), or from
+//     the sweeper when its draft failed or is gone and the address is
+//     still empty on chain (reclaimVanityLeases)
+//   - depth per pattern is reported by /api/ops/health
+
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { createDecipheriv } from "crypto";
+import { VANITY_LEASES_PER_HOUR, VANITY_PATTERNS, VANITY_POOL_TARGET } from "@/lib/config";
+import { LAUNCH_TTL_MS } from "@/lib/launch";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+export type VanityPattern = { id: string; kind: "prefix" | "suffix"; value: string };
+
+/** Parses a VANITY_PATTERNS entry (already validated by lib/config). */
+export function parseVanityPattern(id: string): VanityPattern {
+  const [kind, value] = id.split(":");
+  return { id, kind: kind as VanityPattern["kind"], value };
+}
+
+/** The configured patterns, or null when `id` isn't one of them. */
+export function vanityPatternFor(id: string): VanityPattern | null {
+  return VANITY_PATTERNS.includes(id) ? parseVanityPattern(id) : null;
+}
+
+// ---------- encryption ----------
+
+function encryptionKey(): Buffer {
+  const raw = (process.env.VANITY_ENCRYPTION_KEY || "").trim();
+  if (!raw) throw new Error("VANITY_ENCRYPTION_KEY missing (vanity mint pool)");
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, "hex") : Buffer.from(raw, "base64");
+  if (key.length !== 32) throw new Error("VANITY_ENCRYPTION_KEY must be 32 bytes (hex or base64)");
+  return key;
+}
+
+/** Reads "v1:" + base64(iv[12] | tag[16] | ciphertext), as the grinder writes it. */
+export function decryptSecret(enc: string): Uint8Array {
+  if (!enc.startsWith("v1:")) throw new Error("Unknown vanity secret format");
+  const buf = Buffer.from(enc.slice(3), "base64");
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), buf.subarray(0, 12));
+  decipher.setAuthTag(buf.subarray(12, 28));
+  return Uint8Array.from(Buffer.concat([decipher.update(buf.subarray(28)), decipher.final()]));
+}
+
+// ---------- pool ----------
+
+export type VanityDepth = { pattern: string; available: number; leased: number; target: number };
+
+/** Available / leased keys per configured pattern. */
+export async function vanityPoolDepth(): Promise<VanityDepth[]> {
+  const out: VanityDepth[] = [];
+  for (const pattern of VANITY_PATTERNS) {
+    const count = async (status: string) => {
+      const { count: n, error } = await supabaseAdmin
+        .from("vanity_mints")
+        .select("pubkey", { count: "exact", head: true })
+        .eq("pattern", pattern)
+        .eq("status", status);
+      if (error) throw new Error(error.message);
+      return n ?? 0;
+    };
+    out.push({
+      pattern,
+      available: await count("available"),
+      leased: await count("leased"),
+      target: VANITY_POOL_TARGET,
+    });
+  }
+  return out;
+}
+
+export type VanityLeaseErrorCode = "VANITY_POOL_EMPTY" | "VANITY_RATE_LIMITED";
+
+export type VanityLease =
+  | { ok: true; keypair: Keypair; code?: undefined; error?: undefined }
+  | { ok: false; code: VanityLeaseErrorCode; error: string; keypair?: undefined };
+
+/**
+ * Leases one key for `pattern` (atomic, see the header) on behalf of
+ * `client`, counted against its VANITY_LEASES_PER_HOUR.
+ */
+export async function leaseVanityMint(pattern: VanityPattern, client: string): Promise<VanityLease> {
+  const { data, error } = await supabaseAdmin.rpc("lease_vanity_mint", {
+    p_pattern: pattern.id,
+    p_client: client,
+    p_window: "1 hour",
+    p_max: VANITY_LEASES_PER_HOUR,
+  });
+  if (error) {
+    if (error.message.includes("VANITY_RATE_LIMITED")) {
+      return {
+        ok: false,
+        code: "VANITY_RATE_LIMITED",
+        error: `At most ${VANITY_LEASES_PER_HOUR} vanity addresses per hour; try again later`,
+      };
+    }
+    throw new Error(error.message);
+  }
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) {
+    return {
+      ok: false,
+      code: "VANITY_POOL_EMPTY",
+      error: `No ${pattern.value} addresses left right now; try again later`,
+    };
+  }
+
+  const kp = Keypair.fromSecretKey(decryptSecret(row.secret_enc));
+  if (kp.publicKey.toBase58() !== row.pubkey) {
+    throw new Error(`Vanity key ${row.pubkey} does not match its secret`);
+  }
+  return { ok: true, keypair: kp };
+}
+
+/** Ties a leased key to the coin it launched (audit trail). */
+export async function recordVanityLease(pubkey: string, coinId: string) {
+  const { error } = await supabaseAdmin
+    .from("vanity_mints")
+    .update({ coin_id: coinId })
+    .eq("pubkey", pubkey);
+  if (error) console.warn("[VANITY] recordVanityLease failed:", pubkey, error.message);
+}
+
+/**
+ * Puts a key back when the launch never produced a tx (prepare failed
+ * before returning), so nothing signed by it can land.
+ */
+export async function releaseVanityMint(pubkey: string) {
+  const { error } = await supabaseAdmin
+    .from("vanity_mints")
+    .update({ status: "available", leased_at: null })
+    .eq("pubkey", pubkey)
+    .eq("status", "leased");
+  if (error) console.warn("[VANITY] releaseVanityMint failed:", pubkey, error.message);
+}
+
+/**
+ * Returns abandoned leases to the pool (see the header): leased more than
+ * LAUNCH_TTL_MS ago, no account at the address, and the draft that took
+ * it `failed` or gone (GC'd, or never inserted). A failed draft gives up
+ * its `mint` first, as coins.mint is unique and the next draft to lease
+ * the key would collide with it. Runs from sweepLaunches.
+ */
+export async function reclaimVanityLeases(conn: Connection, limit = 100): Promise<string[]> {
+  const leasedBefore = new Date(Date.now() - LAUNCH_TTL_MS).toISOString();
+  const { data: leased, error } = await supabaseAdmin
+    .from("vanity_mints")
+    .select("pubkey")
+    .eq("status", "leased")
+    .lt("leased_at", leasedBefore)
+    .order("leased_at", { ascending: true })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+  const pubkeys = (leased ?? []).map((r: { pubkey: string }) => r.pubkey);
+  if (!pubkeys.length) return [];
+
+  const { data: coins, error: coinErr } = await supabaseAdmin
+    .from("coins")
+    .select("id, mint, launch_status")
+    .in("mint", pubkeys);
+  if (coinErr) throw new Error(coinErr.message);
+  const coinByMint = new Map(
+    (coins ?? []).map((c: { id: string; mint: string; launch_status: string | null }) => [c.mint, c])
+  );
+  const accounts = await conn.getMultipleAccountsInfo(pubkeys.map((p) => new PublicKey(p)));
+
+  const reclaimed: string[] = [];
+  for (const [i, pubkey] of pubkeys.entries()) {
+    const coin = coinByMint.get(pubkey);
+    if (accounts[i] || (coin && coin.launch_status !== "failed")) continue;
+
+    if (coin) {
+      const { error: e } = await supabaseAdmin
+        .from("coins")
+        .update({ mint: null })
+        .eq("id", coin.id)
+        .eq("launch_status", "failed");
+      if (e) {
+        console.warn("[VANITY] reclaim failed:", pubkey, e.message);
+        continue;
+      }
+    }
+    const { data: back, error: e } = await supabaseAdmin
+      .from("vanity_mints")
+      .update({ status: "available", leased_at: null, coin_id: null })
+      .eq("pubkey", pubkey)
+      .eq("status", "leased")
+      .select("pubkey");
+    if (e) {
+      console.warn("[VANITY] reclaim failed:", pubkey, e.message);
+      continue;
+    }
+    if (back?.length) reclaimed.push(pubkey);
+  }
+
+  if (reclaimed.length) console.log("[VANITY] reclaimed", reclaimed.length, "abandoned leases");
+  return reclaimed;
+}
@@ -0,0 +1,18 @@
+// src/middleware.ts
+//
+// Debug routes (/api/debug/*, /api/_debug/*) dump env, DB and wallet
+// internals; on mainnet they don't exist.
+
+import { NextResponse } from "next/server";
+import { IS_MAINNET } from "@/lib/cluster";
+
+export function middleware() {
+  if (IS_MAINNET) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/api/debug/:path*", "/api/_debug/:path*"],
+};
@@ -0,0 +1,3 @@
+-- Per-coin curve parameters (price window, migration threshold and the
+-- curve's own knobs). Older rows keep pricing from `strength` alone.
+alter table coins add column if not exists curve_params jsonb;
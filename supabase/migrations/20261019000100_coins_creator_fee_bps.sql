@@ -0,0 +1,7 @@
+-- Per-coin creator fee override (bps of trade size, sell side). Null = use
+-- the fee schedule's tier default (src/config/fee-schedule.json).
+alter table coins add column if not exists creator_fee_bps integer
+  check (creator_fee_bps is null or (creator_fee_bps >= 0 and creator_fee_bps <= 10000));
+
+-- Trailing-volume lookups for fee discounts.
+create index if not exists trades_buyer_ts_idx on trades (buyer, ts);
@@ -0,0 +1,22 @@
+-- Per-coin creator fee override on buys (bps of trade size). Null = use the
+-- fee schedule's tier default (src/config/fee-schedule.json).
+alter table coins add column if not exists creator_buy_fee_bps integer
+  check (creator_buy_fee_bps is null or (creator_buy_fee_bps >= 0 and creator_buy_fee_bps <= 10000));
+
+-- Fees actually paid, decoded from confirmed trade transactions on each
+-- coin's curve PDA (src/lib/creatorFees.ts). One row per signature.
+create table if not exists coin_trade_fees (
+  signature text primary key,
+  coin_id uuid not null references coins (id) on delete cascade,
+  mint text not null,
+  side text not null check (side in ('buy', 'sell')),
+  trader text not null,
+  trade_lamports bigint not null default 0,
+  creator_fee_lamports bigint not null default 0,
+  protocol_fee_lamports bigint not null default 0,
+  slot bigint not null,
+  block_time timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists coin_trade_fees_coin_slot_idx on coin_trade_fees (coin_id, slot desc);
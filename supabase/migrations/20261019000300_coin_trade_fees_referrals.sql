@@ -0,0 +1,7 @@
+-- Referral leg of each decoded trade (src/lib/creatorFees.ts). The referrer
+-- gets `referralShareBps` of the platform fee (src/config/fee-schedule.json).
+alter table coin_trade_fees add column if not exists referrer text;
+alter table coin_trade_fees add column if not exists referral_fee_lamports bigint not null default 0;
+
+create index if not exists coin_trade_fees_referrer_idx on coin_trade_fees (referrer)
+  where referrer is not null;
@@ -0,0 +1,16 @@
+-- On-chain trade indexer (src/lib/indexer.ts). Rows are keyed by tx
+-- signature so backfills and re-runs upsert instead of duplicating.
+alter table trades add column if not exists mint text;
+alter table trades add column if not exists slot bigint;
+alter table trades add column if not exists token_amount numeric;
+
+create unique index if not exists trades_sig_key on trades (sig);
+create index if not exists trades_coin_ts_idx on trades (coin_id, ts desc);
+
+-- Newest fully-indexed signature per curve PDA (key = 'curve:<mint>').
+create table if not exists indexer_cursors (
+  key text primary key,
+  signature text not null,
+  slot bigint not null,
+  updated_at timestamptz not null default now()
+);
@@ -0,0 +1,13 @@
+-- Curve → AMM migration (src/lib/migration.ts).
+--   migration_status: null while the curve trades, then
+--   pending (curve complete, trading frozen) → seeding → graduated.
+alter table coins add column if not exists migration_status text
+  check (migration_status in ('pending', 'seeding', 'graduated'));
+alter table coins add column if not exists pool_amm text;
+alter table coins add column if not exists pool_address text;
+alter table coins add column if not exists migration_sig text;
+alter table coins add column if not exists migration_error text;
+alter table coins add column if not exists migrated_at timestamptz;
+
+create index if not exists coins_migration_status_idx
+  on coins (migration_status) where migration_status is not null;
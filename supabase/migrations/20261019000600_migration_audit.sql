@@ -0,0 +1,25 @@
+-- LP burn / lock after migration + the audit record holders can check
+-- (src/lib/migration.ts, GET /api/coins/[id]/migration).
+--   seeded: pool exists, LP not yet burned/locked – trading stays frozen.
+alter table coins drop constraint if exists coins_migration_status_check;
+alter table coins add constraint coins_migration_status_check
+  check (migration_status in ('pending', 'seeding', 'seeded', 'graduated'));
+
+-- One row per graduated coin, written as each migration step confirms.
+create table if not exists coin_migrations (
+  coin_id uuid primary key references coins (id) on delete cascade,
+  mint text not null,
+  amm text not null,
+  pool_address text not null,
+  lp_mint text not null,
+  authority text not null,
+  sol_seeded_lamports bigint not null,
+  tokens_seeded_raw numeric not null,
+  seed_sig text not null,
+  seeded_at timestamptz not null default now(),
+  lp_policy text check (lp_policy in ('burn', 'lock')),
+  lp_amount_raw numeric,
+  lp_sig text,
+  lp_unlock_at timestamptz,
+  migrated_at timestamptz
+);
@@ -0,0 +1,17 @@
+-- `withdraw` calls on curve PDAs, decoded from EventWithdraw by the indexer
+-- (src/lib/indexer.ts). Feeds the rug-risk panel (src/lib/rugRisk.ts).
+create table if not exists curve_withdrawals (
+  sig text primary key,
+  coin_id uuid not null references coins (id) on delete cascade,
+  mint text not null,
+  slot bigint not null,
+  ts timestamptz not null,
+  authority text not null,   -- signer, i.e. CurveState.creator
+  to_address text not null,
+  lamports bigint not null,
+  -- same tx seeded the AMM pool (lib/migration.ts), not a plain drain
+  is_migration boolean not null default false
+);
+
+create index if not exists curve_withdrawals_coin_ts_idx
+  on curve_withdrawals (coin_id, ts desc);
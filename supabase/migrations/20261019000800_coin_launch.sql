@@ -0,0 +1,7 @@
+-- Creator-signed launches (src/lib/launch.ts): the row is inserted only
+-- after the launch tx confirms, keyed by its mint, so confirming twice must
+-- not produce two coins.
+create unique index if not exists coins_mint_key on coins (mint);
+
+-- The tx that created mint + curve + metadata (and the first buy, if any).
+alter table coins add column if not exists launch_sig text;
@@ -0,0 +1,20 @@
+-- Launch state machine (src/lib/launchStatus.ts). POST /api/coins inserts
+-- a `draft` row for the launch tx it builds; confirm, the admin resume
+-- route and the sweeper walk it forward from what the chain shows.
+alter table coins add column if not exists launch_status text
+  check (launch_status in ('draft', 'mint_created', 'curve_created', 'metadata_set', 'live', 'failed'));
+alter table coins add column if not exists launch_error text;
+alter table coins add column if not exists launch_attempts integer not null default 0;
+-- Block height after which the launch tx's blockhash can no longer land.
+alter table coins add column if not exists launch_last_valid_height bigint;
+alter table coins add column if not exists launch_updated_at timestamptz;
+
+-- Existing rows: no mint = the old server init never ran (the sweeper
+-- fails and later deletes them); with a mint the curve was created in the
+-- same tx, so they stay public and the sweeper checks their metadata.
+update coins
+   set launch_status = case when mint is null then 'draft' else 'curve_created' end,
+       launch_updated_at = coalesce(created_at, now())
+ where launch_status is null;
+
+create index if not exists coins_launch_status_idx on coins (launch_status, launch_updated_at);
@@ -0,0 +1,36 @@
+-- Pre-ground vanity mint keypairs (src/lib/vanity.ts). secret_enc is
+-- AES-256-GCM under VANITY_ENCRYPTION_KEY, which never reaches the DB.
+create table if not exists vanity_mints (
+  pubkey text primary key,
+  pattern text not null,
+  secret_enc text not null,
+  status text not null default 'available' check (status in ('available', 'leased')),
+  coin_id uuid references coins (id) on delete set null,
+  created_at timestamptz not null default now(),
+  leased_at timestamptz
+);
+
+create index if not exists vanity_mints_pattern_status_idx
+  on vanity_mints (pattern, status, created_at);
+
+-- Hands out one available key for a pattern. SKIP LOCKED lets concurrent
+-- launches each take a different row instead of queueing on the same one.
+create or replace function lease_vanity_mint(p_pattern text)
+returns table (pubkey text, secret_enc text)
+language sql
+as $$
+  update vanity_mints v
+     set status = 'leased', leased_at = now()
+   where v.pubkey = (
+     select pubkey from vanity_mints
+      where pattern = p_pattern and status = 'available'
+      order by created_at
+      limit 1
+      for update skip locked
+   )
+  returning v.pubkey, v.secret_enc;
+$$;
+
+-- Only the service role touches the pool.
+alter table vanity_mints enable row level security;
+revoke execute on function lease_vanity_mint(text) from public, anon, authenticated;
@@ -0,0 +1,9 @@
+-- Token program each coin's mint lives under (src/lib/tokenProgram.ts).
+-- Every coin so far is a classic SPL Token mint; LAUNCH_TOKEN_PROGRAM=token-2022
+-- launches Token-2022 mints with on-mint metadata, whose ATAs differ.
+alter table coins add column if not exists token_program text not null
+  default 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'
+  check (token_program in (
+    'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+    'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb'
+  ));
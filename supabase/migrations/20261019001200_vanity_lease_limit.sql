@@ -0,0 +1,60 @@
+-- Per-client cap on vanity leases (src/lib/vanity.ts). POST /api/coins is
+-- unauthenticated, so without it one client can lease the whole pool with
+-- drafts it never signs. The log outlives the lease itself: a key going
+-- back to the pool (released or reclaimed) still counts against whoever
+-- took it.
+create table if not exists vanity_lease_log (
+  client text not null,
+  leased_at timestamptz not null default now()
+);
+
+create index if not exists vanity_lease_log_client_idx
+  on vanity_lease_log (client, leased_at);
+
+alter table vanity_lease_log enable row level security;
+
+drop function if exists lease_vanity_mint(text);
+
+-- Same lease as before, after checking `p_client` has taken fewer than
+-- `p_max` keys in `p_window`. The advisory lock serialises one client's
+-- calls so parallel requests can't all pass the count; other clients and
+-- the SKIP LOCKED pick stay concurrent.
+create or replace function lease_vanity_mint(
+  p_pattern text,
+  p_client text,
+  p_window interval,
+  p_max int
+)
+returns table (pubkey text, secret_enc text)
+language plpgsql
+as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('lease_vanity_mint:' || p_client));
+
+  delete from vanity_lease_log l
+   where l.client = p_client and l.leased_at < now() - p_window;
+  if (select count(*) from vanity_lease_log l where l.client = p_client) >= p_max then
+    raise exception 'VANITY_RATE_LIMITED';
+  end if;
+
+  return query
+  update vanity_mints v
+     set status = 'leased', leased_at = now()
+   where v.pubkey = (
+     select m.pubkey from vanity_mints m
+      where m.pattern = p_pattern and m.status = 'available'
+      order by m.created_at
+      limit 1
+      for update skip locked
+   )
+  returning v.pubkey, v.secret_enc;
+
+  -- An empty pool costs the client nothing
+  if found then
+    insert into vanity_lease_log (client) values (p_client);
+  end if;
+end;
+$$;
+
+revoke execute on function lease_vanity_mint(text, text, interval, int)
+  from public, anon, authenticated;
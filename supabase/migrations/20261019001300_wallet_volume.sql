@@ -0,0 +1,16 @@
+-- Trailing trade volume per wallet for the fee schedule's volume discounts
+-- (src/lib/store.ts walletVolumeSol). Summed here: a client-side sum over a
+-- PostgREST select stops at its max-rows and undercounts busy wallets.
+create index if not exists trades_buyer_ts_idx on trades (buyer, ts);
+
+create or replace function wallet_volume_sol(p_wallet text, p_since timestamptz)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(sum(amount_sol), 0)
+    from trades
+   where buyer = p_wallet and ts >= p_since;
+$$;
+
+revoke execute on function wallet_volume_sol(text, timestamptz) from public, anon, authenticated;
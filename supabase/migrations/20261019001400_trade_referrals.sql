@@ -0,0 +1,13 @@
+-- The referrer each trade route put on a tx it built (src/lib/creatorFees.ts).
+-- The trader composes and sends the final tx, so a transfer to some wallet
+-- in it proves nothing; the indexer only books a referral leg to the wallet
+-- recorded here for the same trader and blockhash.
+create table if not exists trade_referrals (
+  trader text not null,
+  blockhash text not null,
+  referrer text not null,
+  created_at timestamptz not null default now(),
+  primary key (trader, blockhash)
+);
+
+alter table trade_referrals enable row level security;
@@ -0,0 +1,12 @@
+-- Coins from before the launch state machine (src/lib/launchStatus.ts)
+-- never had a launch tx, so there is nothing for the sweeper to walk or
+-- expire. 20261019000900 put those without a mint in `draft`, which the
+-- sweeper then failed and deleted a day later. Rows the state machine
+-- created always carry launch_last_valid_height; the rest are settled here:
+-- with a mint the coin is live, without one it never launched.
+update coins
+   set launch_status = case when mint is null then 'failed' else 'live' end,
+       launch_error = case when mint is null then 'Created before launch tracking without a mint' end,
+       launch_updated_at = now()
+ where launch_last_valid_height is null
+   and launch_status in ('draft', 'mint_created', 'curve_created', 'metadata_set');